@@ -9,11 +9,23 @@ import AppLayout from "@/components/layout/AppLayout";
 import Auth from "./pages/Auth";
 import Dashboard from "./pages/Dashboard";
 import Products from "./pages/Products";
+import ProductDetail from "./pages/ProductDetail";
+import Categories from "./pages/Categories";
+import ProductTemplates from "./pages/ProductTemplates";
+import LowStock from "./pages/LowStock";
+import ExpiredStock from "./pages/ExpiredStock";
+import Locations from "./pages/Locations";
+import Partners from "./pages/Partners";
+import PurchaseOrders from "./pages/PurchaseOrders";
+import Replenishment from "./pages/Replenishment";
 import Receipts from "./pages/Receipts";
+import SalesOrders from "./pages/SalesOrders";
 import Deliveries from "./pages/Deliveries";
 import Transfers from "./pages/Transfers";
 import Adjustments from "./pages/Adjustments";
+import Returns from "./pages/Returns";
 import MoveHistory from "./pages/MoveHistory";
+import Serials from "./pages/Serials";
 import Profile from "./pages/Profile";
 import Settings from "./pages/Settings";
 import NotFound from "./pages/NotFound";
@@ -49,6 +61,96 @@ const App = () => (
                 </ProtectedRoute>
               }
             />
+            <Route
+              path="/products/:id"
+              element={
+                <ProtectedRoute>
+                  <AppLayout>
+                    <ProductDetail />
+                  </AppLayout>
+                </ProtectedRoute>
+              }
+            />
+            <Route
+              path="/categories"
+              element={
+                <ProtectedRoute>
+                  <AppLayout>
+                    <Categories />
+                  </AppLayout>
+                </ProtectedRoute>
+              }
+            />
+            <Route
+              path="/templates"
+              element={
+                <ProtectedRoute>
+                  <AppLayout>
+                    <ProductTemplates />
+                  </AppLayout>
+                </ProtectedRoute>
+              }
+            />
+            <Route
+              path="/low-stock"
+              element={
+                <ProtectedRoute>
+                  <AppLayout>
+                    <LowStock />
+                  </AppLayout>
+                </ProtectedRoute>
+              }
+            />
+            <Route
+              path="/expired-stock"
+              element={
+                <ProtectedRoute>
+                  <AppLayout>
+                    <ExpiredStock />
+                  </AppLayout>
+                </ProtectedRoute>
+              }
+            />
+            <Route
+              path="/locations"
+              element={
+                <ProtectedRoute>
+                  <AppLayout>
+                    <Locations />
+                  </AppLayout>
+                </ProtectedRoute>
+              }
+            />
+            <Route
+              path="/partners"
+              element={
+                <ProtectedRoute>
+                  <AppLayout>
+                    <Partners />
+                  </AppLayout>
+                </ProtectedRoute>
+              }
+            />
+            <Route
+              path="/purchase-orders"
+              element={
+                <ProtectedRoute>
+                  <AppLayout>
+                    <PurchaseOrders />
+                  </AppLayout>
+                </ProtectedRoute>
+              }
+            />
+            <Route
+              path="/replenishment"
+              element={
+                <ProtectedRoute>
+                  <AppLayout>
+                    <Replenishment />
+                  </AppLayout>
+                </ProtectedRoute>
+              }
+            />
             <Route
               path="/receipts"
               element={
@@ -59,6 +161,16 @@ const App = () => (
                 </ProtectedRoute>
               }
             />
+            <Route
+              path="/sales-orders"
+              element={
+                <ProtectedRoute>
+                  <AppLayout>
+                    <SalesOrders />
+                  </AppLayout>
+                </ProtectedRoute>
+              }
+            />
             <Route
               path="/deliveries"
               element={
@@ -89,6 +201,16 @@ const App = () => (
                 </ProtectedRoute>
               }
             />
+            <Route
+              path="/returns"
+              element={
+                <ProtectedRoute>
+                  <AppLayout>
+                    <Returns />
+                  </AppLayout>
+                </ProtectedRoute>
+              }
+            />
             <Route
               path="/move-history"
               element={
@@ -99,6 +221,16 @@ const App = () => (
                 </ProtectedRoute>
               }
             />
+            <Route
+              path="/serials"
+              element={
+                <ProtectedRoute>
+                  <AppLayout>
+                    <Serials />
+                  </AppLayout>
+                </ProtectedRoute>
+              }
+            />
             <Route
               path="/profile"
               element={
@@ -0,0 +1,47 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+
+interface CancelDocumentDialogProps {
+  documentNumber: string | null;
+  onClose: () => void;
+  onConfirm: (reason: string) => void;
+}
+
+const CancelDocumentDialog = ({ documentNumber, onClose, onConfirm }: CancelDocumentDialogProps) => {
+  const [reason, setReason] = useState("");
+
+  const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    onConfirm(reason.trim());
+    setReason("");
+  };
+
+  return (
+    <Dialog open={!!documentNumber} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Cancel {documentNumber}</DialogTitle>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="cancel_reason">Reason</Label>
+            <Input
+              id="cancel_reason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              required
+            />
+          </div>
+          <Button type="submit" variant="destructive" className="w-full">
+            Cancel Document
+          </Button>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CancelDocumentDialog;
@@ -0,0 +1,62 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from "@/components/ui/command";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Check, ChevronsUpDown } from "lucide-react";
+import { cn } from "@/lib/utils";
+import type { Tables } from "@/integrations/supabase/types";
+
+interface PartnerPickerProps {
+  partners: Tables<"partners">[];
+  value: string;
+  onChange: (partner: Tables<"partners">) => void;
+  placeholder?: string;
+}
+
+const PartnerPicker = ({ partners, value, onChange, placeholder = "Select partner" }: PartnerPickerProps) => {
+  const [open, setOpen] = useState(false);
+  const selected = partners.find((p) => p.id === value);
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          type="button"
+          variant="outline"
+          role="combobox"
+          aria-expanded={open}
+          className="w-full justify-between font-normal"
+        >
+          {selected ? selected.name : <span className="text-muted-foreground">{placeholder}</span>}
+          <ChevronsUpDown className="ml-2 h-4 w-4 shrink-0 opacity-50" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-[--radix-popover-trigger-width] p-0">
+        <Command>
+          <CommandInput placeholder="Search partners..." />
+          <CommandList>
+            <CommandEmpty>No partners found</CommandEmpty>
+            <CommandGroup>
+              {partners.map((partner) => (
+                <CommandItem
+                  key={partner.id}
+                  value={`${partner.name} ${partner.email ?? ""} ${partner.id}`}
+                  onSelect={() => {
+                    onChange(partner);
+                    setOpen(false);
+                  }}
+                >
+                  <Check className={cn("mr-2 h-4 w-4", value === partner.id ? "opacity-100" : "opacity-0")} />
+                  {partner.name}
+                  {partner.email && <span className="ml-2 text-xs text-muted-foreground">{partner.email}</span>}
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          </CommandList>
+        </Command>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default PartnerPicker;
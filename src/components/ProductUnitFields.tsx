@@ -0,0 +1,85 @@
+import { useState } from "react";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { getCompatibleUnits } from "@/lib/uom";
+import type { Tables } from "@/integrations/supabase/types";
+
+interface ProductUnitFieldsProps {
+  units: Tables<"units_of_measure">[];
+  product?: Tables<"products">;
+}
+
+// Base, purchase and sales unit selects for a product form, submitted as uom_id,
+// purchase_uom_id and sales_uom_id ("base" meaning the same as the base unit)
+const ProductUnitFields = ({ units, product }: ProductUnitFieldsProps) => {
+  const [baseUomId, setBaseUomId] = useState<string>(
+    product?.uom_id ?? units.find((u) => u.name === "Units")?.id ?? ""
+  );
+  const compatibleUnits = getCompatibleUnits(units, { uom_id: baseUomId });
+
+  return (
+    <div className="grid grid-cols-3 gap-4">
+      <div className="space-y-2">
+        <Label htmlFor="uom_id">Base Unit</Label>
+        <Select name="uom_id" value={baseUomId} onValueChange={setBaseUomId} required>
+          <SelectTrigger>
+            <SelectValue placeholder="Select unit" />
+          </SelectTrigger>
+          <SelectContent>
+            {units.map((u) => (
+              <SelectItem key={u.id} value={u.id}>
+                {u.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="purchase_uom_id">Purchase Unit</Label>
+        <Select
+          key={`purchase-${baseUomId}`}
+          name="purchase_uom_id"
+          defaultValue={baseUomId === product?.uom_id ? (product?.purchase_uom_id ?? "base") : "base"}
+        >
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="base">Same as base unit</SelectItem>
+            {compatibleUnits
+              .filter((u) => u.id !== baseUomId)
+              .map((u) => (
+                <SelectItem key={u.id} value={u.id}>
+                  {u.name}
+                </SelectItem>
+              ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="sales_uom_id">Sales Unit</Label>
+        <Select
+          key={`sales-${baseUomId}`}
+          name="sales_uom_id"
+          defaultValue={baseUomId === product?.uom_id ? (product?.sales_uom_id ?? "base") : "base"}
+        >
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="base">Same as base unit</SelectItem>
+            {compatibleUnits
+              .filter((u) => u.id !== baseUomId)
+              .map((u) => (
+                <SelectItem key={u.id} value={u.id}>
+                  {u.name}
+                </SelectItem>
+              ))}
+          </SelectContent>
+        </Select>
+      </div>
+    </div>
+  );
+};
+
+export default ProductUnitFields;
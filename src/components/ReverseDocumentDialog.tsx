@@ -0,0 +1,38 @@
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+
+interface ReverseDocumentDialogProps {
+  documentNumber: string | null;
+  onClose: () => void;
+  onConfirm: () => void;
+}
+
+const ReverseDocumentDialog = ({ documentNumber, onClose, onConfirm }: ReverseDocumentDialogProps) => {
+  return (
+    <AlertDialog open={!!documentNumber} onOpenChange={(open) => !open && onClose()}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Reverse {documentNumber}?</AlertDialogTitle>
+          <AlertDialogDescription>
+            A reversal document will be created and every stock movement of {documentNumber} will be undone. The
+            original stays in the move history.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <AlertDialogCancel>Keep</AlertDialogCancel>
+          <AlertDialogAction onClick={onConfirm}>Reverse</AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+};
+
+export default ReverseDocumentDialog;
@@ -0,0 +1,64 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from "@/components/ui/command";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Check, ChevronsUpDown } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+interface SerialPickerProps {
+  serials: { id: string; lot_number: string }[];
+  value: string[];
+  onChange: (serialIds: string[]) => void;
+  placeholder?: string;
+}
+
+// Multi-select of the serials in stock; stays open while serials are toggled
+const SerialPicker = ({ serials, value, onChange, placeholder = "Select serials" }: SerialPickerProps) => {
+  const [open, setOpen] = useState(false);
+
+  const toggle = (serialId: string) =>
+    onChange(value.includes(serialId) ? value.filter((id) => id !== serialId) : [...value, serialId]);
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          type="button"
+          variant="outline"
+          role="combobox"
+          aria-expanded={open}
+          className="w-full justify-between font-normal"
+        >
+          {value.length > 0 ? (
+            `${value.length} serial${value.length === 1 ? "" : "s"} selected`
+          ) : (
+            <span className="text-muted-foreground">{placeholder}</span>
+          )}
+          <ChevronsUpDown className="ml-2 h-4 w-4 shrink-0 opacity-50" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-[--radix-popover-trigger-width] p-0">
+        <Command>
+          <CommandInput placeholder="Search serials..." />
+          <CommandList>
+            <CommandEmpty>No serials in stock</CommandEmpty>
+            <CommandGroup>
+              {serials.map((serial) => (
+                <CommandItem
+                  key={serial.id}
+                  value={`${serial.lot_number} ${serial.id}`}
+                  onSelect={() => toggle(serial.id)}
+                >
+                  <Check className={cn("mr-2 h-4 w-4", value.includes(serial.id) ? "opacity-100" : "opacity-0")} />
+                  <span className="font-mono">{serial.lot_number}</span>
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          </CommandList>
+        </Command>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default SerialPicker;
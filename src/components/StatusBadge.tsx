@@ -0,0 +1,23 @@
+import { Badge } from "@/components/ui/badge";
+
+const statusStyles: Record<string, string> = {
+  waiting: "bg-warning/10 text-warning border-warning/30",
+  ready: "bg-primary/10 text-primary border-primary/30",
+  confirmed: "bg-primary/10 text-primary border-primary/30",
+  done: "bg-success/10 text-success border-success/30",
+  canceled: "bg-destructive/10 text-destructive border-destructive/30",
+};
+
+const StatusBadge = ({ status }: { status: string }) => {
+  if (!statusStyles[status]) {
+    return <Badge variant="secondary">{status}</Badge>;
+  }
+
+  return (
+    <Badge variant="outline" className={statusStyles[status]}>
+      {status}
+    </Badge>
+  );
+};
+
+export default StatusBadge;
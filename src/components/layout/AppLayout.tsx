@@ -14,6 +14,17 @@ import {
   TruckIcon,
   ArrowRightLeft,
   ClipboardCheck,
+  Undo2,
+  Users,
+  ShoppingCart,
+  ClipboardList,
+  RefreshCw,
+  ScanBarcode,
+  MapPin,
+  FolderTree,
+  Layers,
+  AlertTriangle,
+  CalendarClock,
 } from "lucide-react";
 import { toast } from "sonner";
 
@@ -38,11 +49,22 @@ const AppLayout = ({ children }: AppLayoutProps) => {
   const navItems = [
     { path: "/", label: "Dashboard", icon: LayoutDashboard },
     { path: "/products", label: "Products", icon: Package },
+    { path: "/categories", label: "Categories", icon: FolderTree },
+    { path: "/templates", label: "Templates", icon: Layers },
+    { path: "/locations", label: "Locations", icon: MapPin },
+    { path: "/partners", label: "Partners", icon: Users },
+    { path: "/purchase-orders", label: "Purchase Orders", icon: ShoppingCart },
+    { path: "/replenishment", label: "Replenishment", icon: RefreshCw },
+    { path: "/low-stock", label: "Low Stock", icon: AlertTriangle },
+    { path: "/expired-stock", label: "Expired Stock", icon: CalendarClock },
     { path: "/receipts", label: "Receipts", icon: Package2 },
+    { path: "/sales-orders", label: "Sales Orders", icon: ClipboardList },
     { path: "/deliveries", label: "Deliveries", icon: TruckIcon },
     { path: "/transfers", label: "Internal Transfers", icon: ArrowRightLeft },
     { path: "/adjustments", label: "Adjustments", icon: ClipboardCheck },
+    { path: "/returns", label: "Returns", icon: Undo2 },
     { path: "/move-history", label: "Move History", icon: History },
+    { path: "/serials", label: "Serial Lookup", icon: ScanBarcode },
   ];
 
   return (
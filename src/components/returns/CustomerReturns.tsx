@@ -0,0 +1,316 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { toast } from "sonner";
+import { Plus, Check } from "lucide-react";
+import StatusBadge from "@/components/StatusBadge";
+import { useAuth } from "@/contexts/AuthContext";
+
+const CustomerReturns = () => {
+  const { user } = useAuth();
+  const [returns, setReturns] = useState<any[]>([]);
+  const [deliveries, setDeliveries] = useState<any[]>([]);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [selectedDelivery, setSelectedDelivery] = useState("");
+  const [returnLines, setReturnLines] = useState<any[]>([]);
+
+  useEffect(() => {
+    loadReturns();
+    loadDeliveries();
+  }, []);
+
+  useEffect(() => {
+    if (selectedDelivery) {
+      loadDeliveryLines(selectedDelivery);
+    } else {
+      setReturnLines([]);
+    }
+  }, [selectedDelivery]);
+
+  const loadReturns = async () => {
+    const { data } = await supabase
+      .from("customer_returns")
+      .select("*, deliveries(delivery_number), warehouses(name), customer_return_lines(quantity, reason, disposition, products(name))")
+      .order("created_at", { ascending: false });
+    setReturns(data || []);
+  };
+
+  const loadDeliveries = async () => {
+    const { data } = await supabase
+      .from("deliveries")
+      .select("id, delivery_number, customer_name, warehouse_id, reversal_of_id")
+      .eq("status", "done")
+      .order("created_at", { ascending: false });
+
+    // Reversals and reversed deliveries have nothing left to return
+    const reversed = new Set((data || []).map((d) => d.reversal_of_id).filter(Boolean));
+    setDeliveries((data || []).filter((d) => !d.reversal_of_id && !reversed.has(d.id)));
+  };
+
+  const loadDeliveryLines = async (deliveryId: string) => {
+    const { data } = await supabase
+      .from("delivery_lines")
+      .select("*, products(name, sku, product_type), customer_return_lines(quantity, customer_returns(status))")
+      .eq("delivery_id", deliveryId)
+      .order("created_at");
+
+    // Kits come back as their components
+    setReturnLines(
+      (data || [])
+        .filter((line) => line.products?.product_type !== "kit")
+        .map((line) => {
+          const shipped = Number(line.delivered_quantity ?? line.quantity);
+          const returned = line.customer_return_lines
+            .filter((rl) => rl.customer_returns?.status === "done")
+            .reduce((sum, rl) => sum + Number(rl.quantity), 0);
+
+          return { ...line, shipped, returned, returning: 0, reason: "", disposition: "restock" };
+        })
+    );
+  };
+
+  const updateLine = (index: number, changes: Record<string, unknown>) => {
+    const newLines = [...returnLines];
+    newLines[index] = { ...newLines[index], ...changes };
+    setReturnLines(newLines);
+  };
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const formData = new FormData(e.currentTarget);
+    const delivery = deliveries.find((d) => d.id === selectedDelivery);
+    const selectedLines = returnLines.filter((line) => line.returning > 0);
+
+    if (!delivery || selectedLines.length === 0) {
+      toast.error("Enter a quantity for at least one product");
+      return;
+    }
+
+    if (selectedLines.some((line) => line.returning > line.shipped - line.returned)) {
+      toast.error("Cannot return more than was shipped");
+      return;
+    }
+
+    if (selectedLines.some((line) => !line.reason.trim())) {
+      toast.error("Enter a return reason for every returned product");
+      return;
+    }
+
+    try {
+      // Create return
+      const returnNumber = `RET-${Date.now()}`;
+      const { data: customerReturn, error: returnError } = await supabase
+        .from("customer_returns")
+        .insert({
+          return_number: returnNumber,
+          delivery_id: delivery.id,
+          customer_name: delivery.customer_name,
+          warehouse_id: delivery.warehouse_id,
+          notes: formData.get("notes") as string,
+          created_by: user?.id,
+          status: "draft",
+        })
+        .select()
+        .single();
+
+      if (returnError) throw returnError;
+
+      // Create return lines
+      const lines = selectedLines.map((line) => ({
+        return_id: customerReturn.id,
+        delivery_line_id: line.id,
+        product_id: line.product_id,
+        quantity: line.returning,
+        reason: line.reason.trim(),
+        disposition: line.disposition,
+      }));
+
+      const { error: linesError } = await supabase.from("customer_return_lines").insert(lines);
+      if (linesError) throw linesError;
+
+      toast.success("Return created successfully");
+      setDialogOpen(false);
+      setSelectedDelivery("");
+      loadReturns();
+    } catch (error: any) {
+      toast.error(error.message || "Failed to create return");
+    }
+  };
+
+  const handleValidateReturn = async (customerReturn: any) => {
+    try {
+      const { error } = await supabase.rpc("validate_customer_return", { p_return_id: customerReturn.id });
+      if (error) throw error;
+
+      toast.success("Return validated and stock updated");
+      loadReturns();
+    } catch (error: any) {
+      toast.error(error.message || "Failed to validate return");
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle>Customer Returns</CardTitle>
+        <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+          <DialogTrigger asChild>
+            <Button>
+              <Plus className="mr-2 h-4 w-4" />
+              Create Return
+            </Button>
+          </DialogTrigger>
+          <DialogContent className="max-w-3xl max-h-[80vh] overflow-y-auto">
+            <DialogHeader>
+              <DialogTitle>Create Customer Return</DialogTitle>
+            </DialogHeader>
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="space-y-2">
+                <Label>Delivery</Label>
+                <Select value={selectedDelivery} onValueChange={setSelectedDelivery} required>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select delivery" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {deliveries.map((d) => (
+                      <SelectItem key={d.id} value={d.id}>
+                        {d.delivery_number} ({d.customer_name})
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {returnLines.length > 0 && (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Product</TableHead>
+                      <TableHead>Shipped</TableHead>
+                      <TableHead>Returned</TableHead>
+                      <TableHead>Return</TableHead>
+                      <TableHead>Reason</TableHead>
+                      <TableHead>Action</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {returnLines.map((line, index) => (
+                      <TableRow key={line.id}>
+                        <TableCell>
+                          {line.products?.name} ({line.products?.sku})
+                        </TableCell>
+                        <TableCell>{line.shipped}</TableCell>
+                        <TableCell>{line.returned}</TableCell>
+                        <TableCell>
+                          <Input
+                            type="number"
+                            min="0"
+                            max={line.shipped - line.returned}
+                            value={line.returning}
+                            onChange={(e) => updateLine(index, { returning: parseFloat(e.target.value) || 0 })}
+                            className="w-24"
+                          />
+                        </TableCell>
+                        <TableCell>
+                          <Input
+                            value={line.reason}
+                            onChange={(e) => updateLine(index, { reason: e.target.value })}
+                            placeholder="e.g. Damaged"
+                          />
+                        </TableCell>
+                        <TableCell>
+                          <Select
+                            value={line.disposition}
+                            onValueChange={(value) => updateLine(index, { disposition: value })}
+                          >
+                            <SelectTrigger className="w-28">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value="restock">Restock</SelectItem>
+                              <SelectItem value="scrap">Scrap</SelectItem>
+                            </SelectContent>
+                          </Select>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+              <div className="space-y-2">
+                <Label htmlFor="customer_return_notes">Notes</Label>
+                <Input id="customer_return_notes" name="notes" />
+              </div>
+              <Button type="submit" className="w-full">
+                Create Return
+              </Button>
+            </form>
+          </DialogContent>
+        </Dialog>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Return Number</TableHead>
+              <TableHead>Delivery</TableHead>
+              <TableHead>Customer</TableHead>
+              <TableHead>Products</TableHead>
+              <TableHead>Warehouse</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead>Created</TableHead>
+              <TableHead>Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {returns.map((customerReturn) => (
+              <TableRow key={customerReturn.id}>
+                <TableCell className="font-mono">{customerReturn.return_number}</TableCell>
+                <TableCell className="font-mono">{customerReturn.deliveries?.delivery_number}</TableCell>
+                <TableCell>{customerReturn.customer_name}</TableCell>
+                <TableCell>
+                  {customerReturn.customer_return_lines?.map((line: any, index: number) => (
+                    <div key={index} className="text-sm">
+                      {line.products?.name} × {line.quantity}
+                      <span className="text-xs text-muted-foreground">
+                        {" "}
+                        ({line.disposition}: {line.reason})
+                      </span>
+                    </div>
+                  ))}
+                </TableCell>
+                <TableCell>{customerReturn.warehouses?.name}</TableCell>
+                <TableCell>
+                  <StatusBadge status={customerReturn.status} />
+                </TableCell>
+                <TableCell>{new Date(customerReturn.created_at).toLocaleDateString()}</TableCell>
+                <TableCell>
+                  {customerReturn.status !== "done" && (
+                    <Button size="sm" onClick={() => handleValidateReturn(customerReturn)}>
+                      <Check className="mr-1 h-3 w-3" />
+                      Validate
+                    </Button>
+                  )}
+                </TableCell>
+              </TableRow>
+            ))}
+            {returns.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={8} className="text-center text-muted-foreground">
+                  No returns found
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default CustomerReturns;
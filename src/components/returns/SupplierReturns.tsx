@@ -0,0 +1,289 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { toast } from "sonner";
+import { Plus, Check } from "lucide-react";
+import StatusBadge from "@/components/StatusBadge";
+import { useAuth } from "@/contexts/AuthContext";
+
+const SupplierReturns = () => {
+  const { user } = useAuth();
+  const [returns, setReturns] = useState<any[]>([]);
+  const [receipts, setReceipts] = useState<any[]>([]);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [selectedReceipt, setSelectedReceipt] = useState("");
+  const [returnLines, setReturnLines] = useState<any[]>([]);
+
+  useEffect(() => {
+    loadReturns();
+    loadReceipts();
+  }, []);
+
+  useEffect(() => {
+    if (!selectedReceipt) {
+      setReturnLines([]);
+      return;
+    }
+
+    const loadReceiptLines = async () => {
+      const receipt = receipts.find((r) => r.id === selectedReceipt);
+      const [{ data: lines }, { data: availability }] = await Promise.all([
+        supabase
+          .from("receipt_lines")
+          .select("*, products(name, sku), supplier_return_lines(quantity, supplier_returns(status))")
+          .eq("receipt_id", selectedReceipt)
+          .order("created_at"),
+        supabase.from("stock_availability").select("*").eq("warehouse_id", receipt?.warehouse_id),
+      ]);
+
+      setReturnLines(
+        (lines || []).map((line) => {
+          const received = Number(line.received_quantity ?? line.quantity);
+          const returned = line.supplier_return_lines
+            .filter((rl) => rl.supplier_returns?.status === "done")
+            .reduce((sum, rl) => sum + Number(rl.quantity), 0);
+          const stock = availability?.find((sa) => sa.product_id === line.product_id);
+
+          return { ...line, received, returned, available: Number(stock?.available_quantity ?? 0), returning: 0 };
+        })
+      );
+    };
+
+    loadReceiptLines();
+  }, [selectedReceipt, receipts]);
+
+  const loadReturns = async () => {
+    const { data } = await supabase
+      .from("supplier_returns")
+      .select("*, receipts(receipt_number), warehouses(name), supplier_return_lines(quantity, products(name))")
+      .order("created_at", { ascending: false });
+    setReturns(data || []);
+  };
+
+  const loadReceipts = async () => {
+    const { data } = await supabase
+      .from("receipts")
+      .select("id, receipt_number, supplier_name, warehouse_id, reversal_of_id")
+      .eq("status", "done")
+      .order("created_at", { ascending: false });
+
+    // Reversals and reversed receipts have nothing left to return
+    const reversed = new Set((data || []).map((r) => r.reversal_of_id).filter(Boolean));
+    setReceipts((data || []).filter((r) => !r.reversal_of_id && !reversed.has(r.id)));
+  };
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const formData = new FormData(e.currentTarget);
+    const receipt = receipts.find((r) => r.id === selectedReceipt);
+    const selectedLines = returnLines.filter((line) => line.returning > 0);
+
+    if (!receipt || selectedLines.length === 0) {
+      toast.error("Enter a quantity for at least one product");
+      return;
+    }
+
+    if (selectedLines.some((line) => line.returning > line.received - line.returned)) {
+      toast.error("Cannot return more than was received");
+      return;
+    }
+
+    try {
+      // Create return
+      const returnNumber = `SRT-${Date.now()}`;
+      const { data: supplierReturn, error: returnError } = await supabase
+        .from("supplier_returns")
+        .insert({
+          return_number: returnNumber,
+          receipt_id: receipt.id,
+          supplier_name: receipt.supplier_name,
+          warehouse_id: receipt.warehouse_id,
+          notes: formData.get("notes") as string,
+          created_by: user?.id,
+          status: "draft",
+        })
+        .select()
+        .single();
+
+      if (returnError) throw returnError;
+
+      // Create return lines
+      const lines = selectedLines.map((line) => ({
+        return_id: supplierReturn.id,
+        receipt_line_id: line.id,
+        product_id: line.product_id,
+        quantity: line.returning,
+      }));
+
+      const { error: linesError } = await supabase.from("supplier_return_lines").insert(lines);
+      if (linesError) throw linesError;
+
+      toast.success("Return created successfully");
+      setDialogOpen(false);
+      setSelectedReceipt("");
+      loadReturns();
+    } catch (error: any) {
+      toast.error(error.message || "Failed to create return");
+    }
+  };
+
+  const handleValidateReturn = async (supplierReturn: any) => {
+    try {
+      const { error } = await supabase.rpc("validate_supplier_return", { p_return_id: supplierReturn.id });
+      if (error) throw error;
+
+      toast.success("Return validated and stock updated");
+      loadReturns();
+    } catch (error: any) {
+      toast.error(error.message || "Failed to validate return");
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle>Supplier Returns</CardTitle>
+        <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+          <DialogTrigger asChild>
+            <Button>
+              <Plus className="mr-2 h-4 w-4" />
+              Create Return
+            </Button>
+          </DialogTrigger>
+          <DialogContent className="max-w-3xl max-h-[80vh] overflow-y-auto">
+            <DialogHeader>
+              <DialogTitle>Create Supplier Return</DialogTitle>
+            </DialogHeader>
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="space-y-2">
+                <Label>Receipt</Label>
+                <Select value={selectedReceipt} onValueChange={setSelectedReceipt} required>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select receipt" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {receipts.map((r) => (
+                      <SelectItem key={r.id} value={r.id}>
+                        {r.receipt_number} ({r.supplier_name})
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {returnLines.length > 0 && (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Product</TableHead>
+                      <TableHead>Received</TableHead>
+                      <TableHead>Returned</TableHead>
+                      <TableHead>Available</TableHead>
+                      <TableHead>Return</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {returnLines.map((line, index) => (
+                      <TableRow key={line.id}>
+                        <TableCell>
+                          {line.products?.name} ({line.products?.sku})
+                        </TableCell>
+                        <TableCell>{line.received}</TableCell>
+                        <TableCell>{line.returned}</TableCell>
+                        <TableCell>
+                          <span className={line.available < line.returning ? "text-destructive font-medium" : ""}>
+                            {line.available}
+                          </span>
+                        </TableCell>
+                        <TableCell>
+                          <Input
+                            type="number"
+                            min="0"
+                            max={line.received - line.returned}
+                            value={line.returning}
+                            onChange={(e) => {
+                              const newLines = [...returnLines];
+                              newLines[index] = { ...newLines[index], returning: parseFloat(e.target.value) || 0 };
+                              setReturnLines(newLines);
+                            }}
+                            className="w-24"
+                          />
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+              <div className="space-y-2">
+                <Label htmlFor="supplier_return_notes">Notes</Label>
+                <Input id="supplier_return_notes" name="notes" />
+              </div>
+              <Button type="submit" className="w-full">
+                Create Return
+              </Button>
+            </form>
+          </DialogContent>
+        </Dialog>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Return Number</TableHead>
+              <TableHead>Receipt</TableHead>
+              <TableHead>Supplier</TableHead>
+              <TableHead>Products</TableHead>
+              <TableHead>Warehouse</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead>Created</TableHead>
+              <TableHead>Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {returns.map((supplierReturn) => (
+              <TableRow key={supplierReturn.id}>
+                <TableCell className="font-mono">{supplierReturn.return_number}</TableCell>
+                <TableCell className="font-mono">{supplierReturn.receipts?.receipt_number}</TableCell>
+                <TableCell>{supplierReturn.supplier_name}</TableCell>
+                <TableCell>
+                  {supplierReturn.supplier_return_lines?.map((line: any, index: number) => (
+                    <div key={index} className="text-sm">
+                      {line.products?.name} × {line.quantity}
+                    </div>
+                  ))}
+                </TableCell>
+                <TableCell>{supplierReturn.warehouses?.name}</TableCell>
+                <TableCell>
+                  <StatusBadge status={supplierReturn.status} />
+                </TableCell>
+                <TableCell>{new Date(supplierReturn.created_at).toLocaleDateString()}</TableCell>
+                <TableCell>
+                  {supplierReturn.status !== "done" && (
+                    <Button size="sm" onClick={() => handleValidateReturn(supplierReturn)}>
+                      <Check className="mr-1 h-3 w-3" />
+                      Validate
+                    </Button>
+                  )}
+                </TableCell>
+              </TableRow>
+            ))}
+            {returns.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={8} className="text-center text-muted-foreground">
+                  No returns found
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default SupplierReturns;
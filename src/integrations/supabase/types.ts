@@ -14,41 +14,182 @@ export type Database = {
   }
   public: {
     Tables: {
+      customer_return_lines: {
+        Row: {
+          created_at: string
+          delivery_line_id: string
+          disposition: string
+          id: string
+          product_id: string
+          quantity: number
+          reason: string
+          return_id: string
+        }
+        Insert: {
+          created_at?: string
+          delivery_line_id: string
+          disposition?: string
+          id?: string
+          product_id: string
+          quantity: number
+          reason: string
+          return_id: string
+        }
+        Update: {
+          created_at?: string
+          delivery_line_id?: string
+          disposition?: string
+          id?: string
+          product_id?: string
+          quantity?: number
+          reason?: string
+          return_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "customer_return_lines_delivery_line_id_fkey"
+            columns: ["delivery_line_id"]
+            isOneToOne: false
+            referencedRelation: "delivery_lines"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "customer_return_lines_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "customer_return_lines_return_id_fkey"
+            columns: ["return_id"]
+            isOneToOne: false
+            referencedRelation: "customer_returns"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      customer_returns: {
+        Row: {
+          created_at: string
+          created_by: string
+          customer_name: string
+          delivery_id: string
+          id: string
+          notes: string | null
+          return_number: string
+          status: string
+          validated_at: string | null
+          warehouse_id: string
+        }
+        Insert: {
+          created_at?: string
+          created_by: string
+          customer_name: string
+          delivery_id: string
+          id?: string
+          notes?: string | null
+          return_number: string
+          status?: string
+          validated_at?: string | null
+          warehouse_id: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string
+          customer_name?: string
+          delivery_id?: string
+          id?: string
+          notes?: string | null
+          return_number?: string
+          status?: string
+          validated_at?: string | null
+          warehouse_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "customer_returns_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "customer_returns_delivery_id_fkey"
+            columns: ["delivery_id"]
+            isOneToOne: false
+            referencedRelation: "deliveries"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "customer_returns_warehouse_id_fkey"
+            columns: ["warehouse_id"]
+            isOneToOne: false
+            referencedRelation: "warehouses"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       deliveries: {
         Row: {
+          backorder_of_id: string | null
+          cancel_reason: string | null
+          canceled_at: string | null
           created_at: string
           created_by: string
           customer_name: string
           delivery_number: string
           id: string
           notes: string | null
+          partner_id: string | null
+          reversal_of_id: string | null
+          sales_order_id: string | null
           status: string
           validated_at: string | null
           warehouse_id: string
         }
         Insert: {
+          backorder_of_id?: string | null
+          cancel_reason?: string | null
+          canceled_at?: string | null
           created_at?: string
           created_by: string
           customer_name: string
           delivery_number: string
           id?: string
           notes?: string | null
+          partner_id?: string | null
+          reversal_of_id?: string | null
+          sales_order_id?: string | null
           status?: string
           validated_at?: string | null
           warehouse_id: string
         }
         Update: {
+          backorder_of_id?: string | null
+          cancel_reason?: string | null
+          canceled_at?: string | null
           created_at?: string
           created_by?: string
           customer_name?: string
           delivery_number?: string
           id?: string
           notes?: string | null
+          partner_id?: string | null
+          reversal_of_id?: string | null
+          sales_order_id?: string | null
           status?: string
           validated_at?: string | null
           warehouse_id?: string
         }
         Relationships: [
+          {
+            foreignKeyName: "deliveries_backorder_of_id_fkey"
+            columns: ["backorder_of_id"]
+            isOneToOne: false
+            referencedRelation: "deliveries"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "deliveries_created_by_fkey"
             columns: ["created_by"]
@@ -56,6 +197,27 @@ export type Database = {
             referencedRelation: "profiles"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "deliveries_partner_id_fkey"
+            columns: ["partner_id"]
+            isOneToOne: false
+            referencedRelation: "partners"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "deliveries_reversal_of_id_fkey"
+            columns: ["reversal_of_id"]
+            isOneToOne: true
+            referencedRelation: "deliveries"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "deliveries_sales_order_id_fkey"
+            columns: ["sales_order_id"]
+            isOneToOne: false
+            referencedRelation: "sales_orders"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "deliveries_warehouse_id_fkey"
             columns: ["warehouse_id"]
@@ -68,24 +230,45 @@ export type Database = {
       delivery_lines: {
         Row: {
           created_at: string
+          delivered_quantity: number | null
           delivery_id: string
           id: string
+          kit_line_id: string | null
+          location_id: string | null
+          lot_id: string | null
           product_id: string
           quantity: number
+          sales_order_line_id: string | null
+          uom_id: string | null
+          uom_quantity: number | null
         }
         Insert: {
           created_at?: string
+          delivered_quantity?: number | null
           delivery_id: string
           id?: string
+          kit_line_id?: string | null
+          location_id?: string | null
+          lot_id?: string | null
           product_id: string
           quantity: number
+          sales_order_line_id?: string | null
+          uom_id?: string | null
+          uom_quantity?: number | null
         }
         Update: {
           created_at?: string
+          delivered_quantity?: number | null
           delivery_id?: string
           id?: string
+          kit_line_id?: string | null
+          location_id?: string | null
+          lot_id?: string | null
           product_id?: string
           quantity?: number
+          sales_order_line_id?: string | null
+          uom_id?: string | null
+          uom_quantity?: number | null
         }
         Relationships: [
           {
@@ -95,6 +278,27 @@ export type Database = {
             referencedRelation: "deliveries"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "delivery_lines_kit_line_id_fkey"
+            columns: ["kit_line_id"]
+            isOneToOne: false
+            referencedRelation: "delivery_lines"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "delivery_lines_location_id_fkey"
+            columns: ["location_id"]
+            isOneToOne: false
+            referencedRelation: "locations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "delivery_lines_lot_id_fkey"
+            columns: ["lot_id"]
+            isOneToOne: false
+            referencedRelation: "lots"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "delivery_lines_product_id_fkey"
             columns: ["product_id"]
@@ -102,43 +306,66 @@ export type Database = {
             referencedRelation: "products"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "delivery_lines_sales_order_line_id_fkey"
+            columns: ["sales_order_line_id"]
+            isOneToOne: false
+            referencedRelation: "sales_order_lines"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "delivery_lines_uom_id_fkey"
+            columns: ["uom_id"]
+            isOneToOne: false
+            referencedRelation: "units_of_measure"
+            referencedColumns: ["id"]
+          },
         ]
       }
       internal_transfers: {
         Row: {
+          cancel_reason: string | null
+          canceled_at: string | null
           created_at: string
           created_by: string
+          destination_location_id: string | null
           destination_warehouse_id: string
           id: string
           notes: string | null
-          product_id: string
-          quantity: number
+          reversal_of_id: string | null
+          source_location_id: string | null
           source_warehouse_id: string
           status: string
           transfer_number: string
           validated_at: string | null
         }
         Insert: {
+          cancel_reason?: string | null
+          canceled_at?: string | null
           created_at?: string
           created_by: string
+          destination_location_id?: string | null
           destination_warehouse_id: string
           id?: string
           notes?: string | null
-          product_id: string
-          quantity: number
+          reversal_of_id?: string | null
+          source_location_id?: string | null
           source_warehouse_id: string
           status?: string
           transfer_number: string
           validated_at?: string | null
         }
         Update: {
+          cancel_reason?: string | null
+          canceled_at?: string | null
           created_at?: string
           created_by?: string
+          destination_location_id?: string | null
           destination_warehouse_id?: string
           id?: string
           notes?: string | null
-          product_id?: string
-          quantity?: number
+          reversal_of_id?: string | null
+          source_location_id?: string | null
           source_warehouse_id?: string
           status?: string
           transfer_number?: string
@@ -152,6 +379,13 @@ export type Database = {
             referencedRelation: "profiles"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "internal_transfers_destination_location_id_fkey"
+            columns: ["destination_location_id"]
+            isOneToOne: false
+            referencedRelation: "locations"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "internal_transfers_destination_warehouse_id_fkey"
             columns: ["destination_warehouse_id"]
@@ -160,10 +394,17 @@ export type Database = {
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "internal_transfers_product_id_fkey"
-            columns: ["product_id"]
+            foreignKeyName: "internal_transfers_reversal_of_id_fkey"
+            columns: ["reversal_of_id"]
+            isOneToOne: true
+            referencedRelation: "internal_transfers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "internal_transfers_source_location_id_fkey"
+            columns: ["source_location_id"]
             isOneToOne: false
-            referencedRelation: "products"
+            referencedRelation: "locations"
             referencedColumns: ["id"]
           },
           {
@@ -175,242 +416,1401 @@ export type Database = {
           },
         ]
       }
-      product_categories: {
+      kit_components: {
         Row: {
+          component_id: string
           created_at: string
-          description: string | null
           id: string
-          name: string
+          kit_id: string
+          quantity: number
         }
         Insert: {
+          component_id: string
           created_at?: string
-          description?: string | null
           id?: string
-          name: string
+          kit_id: string
+          quantity: number
         }
         Update: {
+          component_id?: string
           created_at?: string
-          description?: string | null
           id?: string
-          name?: string
+          kit_id?: string
+          quantity?: number
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "kit_components_component_id_fkey"
+            columns: ["component_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "kit_components_kit_id_fkey"
+            columns: ["kit_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+        ]
       }
-      products: {
+      locations: {
         Row: {
-          category_id: string | null
+          code: string
           created_at: string
           id: string
+          location_type: string
           name: string
-          reorder_level: number | null
-          sku: string
-          unit_of_measure: string
+          parent_id: string | null
           updated_at: string
+          warehouse_id: string
         }
         Insert: {
-          category_id?: string | null
+          code: string
           created_at?: string
           id?: string
+          location_type?: string
           name: string
-          reorder_level?: number | null
-          sku: string
-          unit_of_measure?: string
+          parent_id?: string | null
           updated_at?: string
+          warehouse_id: string
         }
         Update: {
-          category_id?: string | null
+          code?: string
           created_at?: string
           id?: string
+          location_type?: string
           name?: string
-          reorder_level?: number | null
-          sku?: string
-          unit_of_measure?: string
+          parent_id?: string | null
           updated_at?: string
+          warehouse_id?: string
         }
         Relationships: [
           {
-            foreignKeyName: "products_category_id_fkey"
-            columns: ["category_id"]
+            foreignKeyName: "locations_parent_id_fkey"
+            columns: ["parent_id"]
             isOneToOne: false
-            referencedRelation: "product_categories"
+            referencedRelation: "locations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "locations_warehouse_id_fkey"
+            columns: ["warehouse_id"]
+            isOneToOne: false
+            referencedRelation: "warehouses"
             referencedColumns: ["id"]
           },
         ]
       }
-      profiles: {
+      lots: {
+        Row: {
+          best_before_date: string | null
+          created_at: string
+          expiration_date: string | null
+          id: string
+          lot_number: string
+          product_id: string
+        }
+        Insert: {
+          best_before_date?: string | null
+          created_at?: string
+          expiration_date?: string | null
+          id?: string
+          lot_number: string
+          product_id: string
+        }
+        Update: {
+          best_before_date?: string | null
+          created_at?: string
+          expiration_date?: string | null
+          id?: string
+          lot_number?: string
+          product_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "lots_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      partners: {
         Row: {
+          billing_address: string | null
+          contact_name: string | null
           created_at: string
+          default_warehouse_id: string | null
           email: string | null
-          full_name: string | null
           id: string
+          name: string
+          phone: string | null
+          shipping_address: string | null
+          type: string
           updated_at: string
         }
         Insert: {
+          billing_address?: string | null
+          contact_name?: string | null
           created_at?: string
+          default_warehouse_id?: string | null
           email?: string | null
-          full_name?: string | null
-          id: string
+          id?: string
+          name: string
+          phone?: string | null
+          shipping_address?: string | null
+          type?: string
           updated_at?: string
         }
         Update: {
+          billing_address?: string | null
+          contact_name?: string | null
           created_at?: string
+          default_warehouse_id?: string | null
           email?: string | null
-          full_name?: string | null
           id?: string
+          name?: string
+          phone?: string | null
+          shipping_address?: string | null
+          type?: string
           updated_at?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "partners_default_warehouse_id_fkey"
+            columns: ["default_warehouse_id"]
+            isOneToOne: false
+            referencedRelation: "warehouses"
+            referencedColumns: ["id"]
+          },
+        ]
       }
-      receipt_lines: {
+      product_attribute_values: {
         Row: {
+          attribute_id: string
           created_at: string
           id: string
-          product_id: string
-          quantity: number
-          receipt_id: string
+          value: string
         }
         Insert: {
+          attribute_id: string
           created_at?: string
           id?: string
-          product_id: string
-          quantity: number
-          receipt_id: string
+          value: string
         }
         Update: {
+          attribute_id?: string
           created_at?: string
           id?: string
-          product_id?: string
-          quantity?: number
-          receipt_id?: string
+          value?: string
         }
         Relationships: [
           {
-            foreignKeyName: "receipt_lines_product_id_fkey"
-            columns: ["product_id"]
-            isOneToOne: false
-            referencedRelation: "products"
-            referencedColumns: ["id"]
-          },
-          {
-            foreignKeyName: "receipt_lines_receipt_id_fkey"
-            columns: ["receipt_id"]
+            foreignKeyName: "product_attribute_values_attribute_id_fkey"
+            columns: ["attribute_id"]
             isOneToOne: false
-            referencedRelation: "receipts"
+            referencedRelation: "product_attributes"
             referencedColumns: ["id"]
           },
         ]
       }
-      receipts: {
+      product_attributes: {
         Row: {
           created_at: string
-          created_by: string
           id: string
-          notes: string | null
-          receipt_number: string
-          status: string
-          supplier_name: string
-          validated_at: string | null
+          name: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          name: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          name?: string
+        }
+        Relationships: []
+      }
+      product_categories: {
+        Row: {
+          created_at: string
+          description: string | null
+          id: string
+          name: string
+          parent_id: string | null
+        }
+        Insert: {
+          created_at?: string
+          description?: string | null
+          id?: string
+          name: string
+          parent_id?: string | null
+        }
+        Update: {
+          created_at?: string
+          description?: string | null
+          id?: string
+          name?: string
+          parent_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "product_categories_parent_id_fkey"
+            columns: ["parent_id"]
+            isOneToOne: false
+            referencedRelation: "product_categories"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      product_template_values: {
+        Row: {
+          id: string
+          template_id: string
+          value_id: string
+        }
+        Insert: {
+          id?: string
+          template_id: string
+          value_id: string
+        }
+        Update: {
+          id?: string
+          template_id?: string
+          value_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "product_template_values_template_id_fkey"
+            columns: ["template_id"]
+            isOneToOne: false
+            referencedRelation: "product_templates"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "product_template_values_value_id_fkey"
+            columns: ["value_id"]
+            isOneToOne: false
+            referencedRelation: "product_attribute_values"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      product_templates: {
+        Row: {
+          category_id: string | null
+          created_at: string
+          id: string
+          name: string
+          reorder_level: number | null
+          sku: string
+          tracking: string
+          uom_id: string
+          updated_at: string
+        }
+        Insert: {
+          category_id?: string | null
+          created_at?: string
+          id?: string
+          name: string
+          reorder_level?: number | null
+          sku: string
+          tracking?: string
+          uom_id: string
+          updated_at?: string
+        }
+        Update: {
+          category_id?: string | null
+          created_at?: string
+          id?: string
+          name?: string
+          reorder_level?: number | null
+          sku?: string
+          tracking?: string
+          uom_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "product_templates_category_id_fkey"
+            columns: ["category_id"]
+            isOneToOne: false
+            referencedRelation: "product_categories"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "product_templates_uom_id_fkey"
+            columns: ["uom_id"]
+            isOneToOne: false
+            referencedRelation: "units_of_measure"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      product_variant_values: {
+        Row: {
+          id: string
+          product_id: string
+          value_id: string
+        }
+        Insert: {
+          id?: string
+          product_id: string
+          value_id: string
+        }
+        Update: {
+          id?: string
+          product_id?: string
+          value_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "product_variant_values_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "product_variant_values_value_id_fkey"
+            columns: ["value_id"]
+            isOneToOne: false
+            referencedRelation: "product_attribute_values"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      products: {
+        Row: {
+          active: boolean
+          category_id: string | null
+          created_at: string
+          id: string
+          name: string
+          product_type: string
+          purchase_uom_id: string | null
+          reorder_level: number | null
+          sales_uom_id: string | null
+          sku: string
+          template_id: string | null
+          tracking: string
+          uom_id: string
+          updated_at: string
+        }
+        Insert: {
+          active?: boolean
+          category_id?: string | null
+          created_at?: string
+          id?: string
+          name: string
+          product_type?: string
+          purchase_uom_id?: string | null
+          reorder_level?: number | null
+          sales_uom_id?: string | null
+          sku: string
+          template_id?: string | null
+          tracking?: string
+          uom_id: string
+          updated_at?: string
+        }
+        Update: {
+          active?: boolean
+          category_id?: string | null
+          created_at?: string
+          id?: string
+          name?: string
+          product_type?: string
+          purchase_uom_id?: string | null
+          reorder_level?: number | null
+          sales_uom_id?: string | null
+          sku?: string
+          template_id?: string | null
+          tracking?: string
+          uom_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "products_category_id_fkey"
+            columns: ["category_id"]
+            isOneToOne: false
+            referencedRelation: "product_categories"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "products_purchase_uom_id_fkey"
+            columns: ["purchase_uom_id"]
+            isOneToOne: false
+            referencedRelation: "units_of_measure"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "products_sales_uom_id_fkey"
+            columns: ["sales_uom_id"]
+            isOneToOne: false
+            referencedRelation: "units_of_measure"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "products_template_id_fkey"
+            columns: ["template_id"]
+            isOneToOne: false
+            referencedRelation: "product_templates"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "products_uom_id_fkey"
+            columns: ["uom_id"]
+            isOneToOne: false
+            referencedRelation: "units_of_measure"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      profiles: {
+        Row: {
+          created_at: string
+          email: string | null
+          full_name: string | null
+          id: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          email?: string | null
+          full_name?: string | null
+          id: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          email?: string | null
+          full_name?: string | null
+          id?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      purchase_order_lines: {
+        Row: {
+          created_at: string
+          id: string
+          product_id: string
+          purchase_order_id: string
+          quantity: number
+          received_quantity: number
+          unit_price: number
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          product_id: string
+          purchase_order_id: string
+          quantity: number
+          received_quantity?: number
+          unit_price?: number
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          product_id?: string
+          purchase_order_id?: string
+          quantity?: number
+          received_quantity?: number
+          unit_price?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "purchase_order_lines_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "purchase_order_lines_purchase_order_id_fkey"
+            columns: ["purchase_order_id"]
+            isOneToOne: false
+            referencedRelation: "purchase_orders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      purchase_orders: {
+        Row: {
+          cancel_reason: string | null
+          canceled_at: string | null
+          confirmed_at: string | null
+          created_at: string
+          created_by: string
+          expected_date: string | null
+          id: string
+          notes: string | null
+          partner_id: string
+          po_number: string
+          status: string
           warehouse_id: string
         }
         Insert: {
+          cancel_reason?: string | null
+          canceled_at?: string | null
+          confirmed_at?: string | null
           created_at?: string
           created_by: string
+          expected_date?: string | null
           id?: string
           notes?: string | null
-          receipt_number: string
+          partner_id: string
+          po_number: string
           status?: string
-          supplier_name: string
-          validated_at?: string | null
           warehouse_id: string
         }
         Update: {
+          cancel_reason?: string | null
+          canceled_at?: string | null
+          confirmed_at?: string | null
           created_at?: string
           created_by?: string
+          expected_date?: string | null
           id?: string
           notes?: string | null
-          receipt_number?: string
+          partner_id?: string
+          po_number?: string
           status?: string
-          supplier_name?: string
-          validated_at?: string | null
           warehouse_id?: string
         }
         Relationships: [
           {
-            foreignKeyName: "receipts_created_by_fkey"
-            columns: ["created_by"]
+            foreignKeyName: "purchase_orders_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "purchase_orders_partner_id_fkey"
+            columns: ["partner_id"]
+            isOneToOne: false
+            referencedRelation: "partners"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "purchase_orders_warehouse_id_fkey"
+            columns: ["warehouse_id"]
+            isOneToOne: false
+            referencedRelation: "warehouses"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      receipt_lines: {
+        Row: {
+          created_at: string
+          id: string
+          location_id: string | null
+          lot_id: string | null
+          product_id: string
+          purchase_order_line_id: string | null
+          quantity: number
+          receipt_id: string
+          received_quantity: number | null
+          uom_id: string | null
+          uom_quantity: number | null
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          location_id?: string | null
+          lot_id?: string | null
+          product_id: string
+          purchase_order_line_id?: string | null
+          quantity: number
+          receipt_id: string
+          received_quantity?: number | null
+          uom_id?: string | null
+          uom_quantity?: number | null
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          location_id?: string | null
+          lot_id?: string | null
+          product_id?: string
+          purchase_order_line_id?: string | null
+          quantity?: number
+          receipt_id?: string
+          received_quantity?: number | null
+          uom_id?: string | null
+          uom_quantity?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "receipt_lines_location_id_fkey"
+            columns: ["location_id"]
+            isOneToOne: false
+            referencedRelation: "locations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "receipt_lines_lot_id_fkey"
+            columns: ["lot_id"]
+            isOneToOne: false
+            referencedRelation: "lots"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "receipt_lines_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "receipt_lines_purchase_order_line_id_fkey"
+            columns: ["purchase_order_line_id"]
+            isOneToOne: false
+            referencedRelation: "purchase_order_lines"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "receipt_lines_receipt_id_fkey"
+            columns: ["receipt_id"]
+            isOneToOne: false
+            referencedRelation: "receipts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "receipt_lines_uom_id_fkey"
+            columns: ["uom_id"]
+            isOneToOne: false
+            referencedRelation: "units_of_measure"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      receipts: {
+        Row: {
+          backorder_of_id: string | null
+          cancel_reason: string | null
+          canceled_at: string | null
+          created_at: string
+          created_by: string
+          id: string
+          notes: string | null
+          partner_id: string | null
+          purchase_order_id: string | null
+          receipt_number: string
+          reversal_of_id: string | null
+          status: string
+          supplier_name: string
+          validated_at: string | null
+          warehouse_id: string
+        }
+        Insert: {
+          backorder_of_id?: string | null
+          cancel_reason?: string | null
+          canceled_at?: string | null
+          created_at?: string
+          created_by: string
+          id?: string
+          notes?: string | null
+          partner_id?: string | null
+          purchase_order_id?: string | null
+          receipt_number: string
+          reversal_of_id?: string | null
+          status?: string
+          supplier_name: string
+          validated_at?: string | null
+          warehouse_id: string
+        }
+        Update: {
+          backorder_of_id?: string | null
+          cancel_reason?: string | null
+          canceled_at?: string | null
+          created_at?: string
+          created_by?: string
+          id?: string
+          notes?: string | null
+          partner_id?: string | null
+          purchase_order_id?: string | null
+          receipt_number?: string
+          reversal_of_id?: string | null
+          status?: string
+          supplier_name?: string
+          validated_at?: string | null
+          warehouse_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "receipts_backorder_of_id_fkey"
+            columns: ["backorder_of_id"]
+            isOneToOne: false
+            referencedRelation: "receipts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "receipts_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "receipts_partner_id_fkey"
+            columns: ["partner_id"]
+            isOneToOne: false
+            referencedRelation: "partners"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "receipts_purchase_order_id_fkey"
+            columns: ["purchase_order_id"]
+            isOneToOne: false
+            referencedRelation: "purchase_orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "receipts_reversal_of_id_fkey"
+            columns: ["reversal_of_id"]
+            isOneToOne: true
+            referencedRelation: "receipts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "receipts_warehouse_id_fkey"
+            columns: ["warehouse_id"]
+            isOneToOne: false
+            referencedRelation: "warehouses"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      reorder_rules: {
+        Row: {
+          created_at: string
+          id: string
+          max_quantity: number
+          min_quantity: number
+          multiple_of: number
+          partner_id: string | null
+          product_id: string
+          updated_at: string
+          warehouse_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          max_quantity: number
+          min_quantity: number
+          multiple_of?: number
+          partner_id?: string | null
+          product_id: string
+          updated_at?: string
+          warehouse_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          max_quantity?: number
+          min_quantity?: number
+          multiple_of?: number
+          partner_id?: string | null
+          product_id?: string
+          updated_at?: string
+          warehouse_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "reorder_rules_partner_id_fkey"
+            columns: ["partner_id"]
+            isOneToOne: false
+            referencedRelation: "partners"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "reorder_rules_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "reorder_rules_warehouse_id_fkey"
+            columns: ["warehouse_id"]
+            isOneToOne: false
+            referencedRelation: "warehouses"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      sales_order_lines: {
+        Row: {
+          created_at: string
+          id: string
+          product_id: string
+          quantity: number
+          sales_order_id: string
+          shipped_quantity: number
+          unit_price: number
+          warehouse_id: string | null
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          product_id: string
+          quantity: number
+          sales_order_id: string
+          shipped_quantity?: number
+          unit_price?: number
+          warehouse_id?: string | null
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          product_id?: string
+          quantity?: number
+          sales_order_id?: string
+          shipped_quantity?: number
+          unit_price?: number
+          warehouse_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "sales_order_lines_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "sales_order_lines_sales_order_id_fkey"
+            columns: ["sales_order_id"]
+            isOneToOne: false
+            referencedRelation: "sales_orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "sales_order_lines_warehouse_id_fkey"
+            columns: ["warehouse_id"]
+            isOneToOne: false
+            referencedRelation: "warehouses"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      sales_orders: {
+        Row: {
+          cancel_reason: string | null
+          canceled_at: string | null
+          confirmed_at: string | null
+          created_at: string
+          created_by: string
+          fulfillment_status: string
+          id: string
+          notes: string | null
+          partner_id: string
+          promised_date: string | null
+          so_number: string
+          status: string
+          warehouse_id: string
+        }
+        Insert: {
+          cancel_reason?: string | null
+          canceled_at?: string | null
+          confirmed_at?: string | null
+          created_at?: string
+          created_by: string
+          fulfillment_status?: string
+          id?: string
+          notes?: string | null
+          partner_id: string
+          promised_date?: string | null
+          so_number: string
+          status?: string
+          warehouse_id: string
+        }
+        Update: {
+          cancel_reason?: string | null
+          canceled_at?: string | null
+          confirmed_at?: string | null
+          created_at?: string
+          created_by?: string
+          fulfillment_status?: string
+          id?: string
+          notes?: string | null
+          partner_id?: string
+          promised_date?: string | null
+          so_number?: string
+          status?: string
+          warehouse_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "sales_orders_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "sales_orders_partner_id_fkey"
+            columns: ["partner_id"]
+            isOneToOne: false
+            referencedRelation: "partners"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "sales_orders_warehouse_id_fkey"
+            columns: ["warehouse_id"]
+            isOneToOne: false
+            referencedRelation: "warehouses"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      stock_adjustments: {
+        Row: {
+          adjustment_number: string
+          counted_quantity: number
+          created_at: string
+          created_by: string
+          difference: number
+          id: string
+          product_id: string
+          reason: string | null
+          reversal_of_id: string | null
+          status: string
+          stock_version: number | null
+          system_quantity: number
+          validated_at: string | null
+          warehouse_id: string
+        }
+        Insert: {
+          adjustment_number: string
+          counted_quantity: number
+          created_at?: string
+          created_by: string
+          difference: number
+          id?: string
+          product_id: string
+          reason?: string | null
+          reversal_of_id?: string | null
+          status?: string
+          stock_version?: number | null
+          system_quantity: number
+          validated_at?: string | null
+          warehouse_id: string
+        }
+        Update: {
+          adjustment_number?: string
+          counted_quantity?: number
+          created_at?: string
+          created_by?: string
+          difference?: number
+          id?: string
+          product_id?: string
+          reason?: string | null
+          reversal_of_id?: string | null
+          status?: string
+          stock_version?: number | null
+          system_quantity?: number
+          validated_at?: string | null
+          warehouse_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "stock_adjustments_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_adjustments_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_adjustments_reversal_of_id_fkey"
+            columns: ["reversal_of_id"]
+            isOneToOne: true
+            referencedRelation: "stock_adjustments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_adjustments_warehouse_id_fkey"
+            columns: ["warehouse_id"]
+            isOneToOne: false
+            referencedRelation: "warehouses"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      stock_levels: {
+        Row: {
+          id: string
+          product_id: string
+          quantity: number
+          updated_at: string
+          version: number
+          warehouse_id: string
+        }
+        Insert: {
+          id?: string
+          product_id: string
+          quantity?: number
+          updated_at?: string
+          version?: number
+          warehouse_id: string
+        }
+        Update: {
+          id?: string
+          product_id?: string
+          quantity?: number
+          updated_at?: string
+          version?: number
+          warehouse_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "stock_levels_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_levels_warehouse_id_fkey"
+            columns: ["warehouse_id"]
+            isOneToOne: false
+            referencedRelation: "warehouses"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      stock_location_levels: {
+        Row: {
+          id: string
+          location_id: string
+          product_id: string
+          quantity: number
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          location_id: string
+          product_id: string
+          quantity?: number
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          location_id?: string
+          product_id?: string
+          quantity?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "stock_location_levels_location_id_fkey"
+            columns: ["location_id"]
+            isOneToOne: false
+            referencedRelation: "locations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_location_levels_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      stock_lot_levels: {
+        Row: {
+          id: string
+          lot_id: string
+          quantity: number
+          updated_at: string
+          warehouse_id: string
+        }
+        Insert: {
+          id?: string
+          lot_id: string
+          quantity?: number
+          updated_at?: string
+          warehouse_id: string
+        }
+        Update: {
+          id?: string
+          lot_id?: string
+          quantity?: number
+          updated_at?: string
+          warehouse_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "stock_lot_levels_lot_id_fkey"
+            columns: ["lot_id"]
+            isOneToOne: false
+            referencedRelation: "lots"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_lot_levels_warehouse_id_fkey"
+            columns: ["warehouse_id"]
+            isOneToOne: false
+            referencedRelation: "warehouses"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      stock_movements: {
+        Row: {
+          created_at: string
+          created_by: string
+          id: string
+          kit_line_id: string | null
+          location_id: string | null
+          lot_id: string | null
+          movement_type: string
+          notes: string | null
+          product_id: string
+          quantity: number
+          reference_id: string | null
+          reference_type: string | null
+          warehouse_id: string
+        }
+        Insert: {
+          created_at?: string
+          created_by: string
+          id?: string
+          kit_line_id?: string | null
+          location_id?: string | null
+          lot_id?: string | null
+          movement_type: string
+          notes?: string | null
+          product_id: string
+          quantity: number
+          reference_id?: string | null
+          reference_type?: string | null
+          warehouse_id: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string
+          id?: string
+          kit_line_id?: string | null
+          location_id?: string | null
+          lot_id?: string | null
+          movement_type?: string
+          notes?: string | null
+          product_id?: string
+          quantity?: number
+          reference_id?: string | null
+          reference_type?: string | null
+          warehouse_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "stock_movements_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_movements_kit_line_id_fkey"
+            columns: ["kit_line_id"]
+            isOneToOne: false
+            referencedRelation: "delivery_lines"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_movements_location_id_fkey"
+            columns: ["location_id"]
+            isOneToOne: false
+            referencedRelation: "locations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_movements_lot_id_fkey"
+            columns: ["lot_id"]
+            isOneToOne: false
+            referencedRelation: "lots"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_movements_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_movements_warehouse_id_fkey"
+            columns: ["warehouse_id"]
+            isOneToOne: false
+            referencedRelation: "warehouses"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      stock_reservations: {
+        Row: {
+          created_at: string
+          id: string
+          product_id: string
+          quantity: number
+          reference_id: string
+          reference_type: string
+          warehouse_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          product_id: string
+          quantity: number
+          reference_id: string
+          reference_type: string
+          warehouse_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          product_id?: string
+          quantity?: number
+          reference_id?: string
+          reference_type?: string
+          warehouse_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "stock_reservations_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_reservations_warehouse_id_fkey"
+            columns: ["warehouse_id"]
+            isOneToOne: false
+            referencedRelation: "warehouses"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      supplier_return_lines: {
+        Row: {
+          created_at: string
+          id: string
+          product_id: string
+          quantity: number
+          receipt_line_id: string
+          return_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          product_id: string
+          quantity: number
+          receipt_line_id: string
+          return_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          product_id?: string
+          quantity?: number
+          receipt_line_id?: string
+          return_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "supplier_return_lines_product_id_fkey"
+            columns: ["product_id"]
             isOneToOne: false
-            referencedRelation: "profiles"
+            referencedRelation: "products"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "receipts_warehouse_id_fkey"
-            columns: ["warehouse_id"]
+            foreignKeyName: "supplier_return_lines_receipt_line_id_fkey"
+            columns: ["receipt_line_id"]
             isOneToOne: false
-            referencedRelation: "warehouses"
+            referencedRelation: "receipt_lines"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "supplier_return_lines_return_id_fkey"
+            columns: ["return_id"]
+            isOneToOne: false
+            referencedRelation: "supplier_returns"
             referencedColumns: ["id"]
           },
         ]
       }
-      stock_adjustments: {
+      supplier_returns: {
         Row: {
-          adjustment_number: string
-          counted_quantity: number
           created_at: string
           created_by: string
-          difference: number
           id: string
-          product_id: string
-          reason: string | null
+          notes: string | null
+          receipt_id: string
+          return_number: string
           status: string
-          system_quantity: number
+          supplier_name: string
           validated_at: string | null
           warehouse_id: string
         }
         Insert: {
-          adjustment_number: string
-          counted_quantity: number
           created_at?: string
           created_by: string
-          difference: number
           id?: string
-          product_id: string
-          reason?: string | null
+          notes?: string | null
+          receipt_id: string
+          return_number: string
           status?: string
-          system_quantity: number
+          supplier_name: string
           validated_at?: string | null
           warehouse_id: string
         }
         Update: {
-          adjustment_number?: string
-          counted_quantity?: number
           created_at?: string
           created_by?: string
-          difference?: number
           id?: string
-          product_id?: string
-          reason?: string | null
+          notes?: string | null
+          receipt_id?: string
+          return_number?: string
           status?: string
-          system_quantity?: number
+          supplier_name?: string
           validated_at?: string | null
           warehouse_id?: string
         }
         Relationships: [
           {
-            foreignKeyName: "stock_adjustments_created_by_fkey"
+            foreignKeyName: "supplier_returns_created_by_fkey"
             columns: ["created_by"]
             isOneToOne: false
             referencedRelation: "profiles"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "stock_adjustments_product_id_fkey"
-            columns: ["product_id"]
+            foreignKeyName: "supplier_returns_receipt_id_fkey"
+            columns: ["receipt_id"]
             isOneToOne: false
-            referencedRelation: "products"
+            referencedRelation: "receipts"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "stock_adjustments_warehouse_id_fkey"
+            foreignKeyName: "supplier_returns_warehouse_id_fkey"
             columns: ["warehouse_id"]
             isOneToOne: false
             referencedRelation: "warehouses"
@@ -418,139 +1818,463 @@ export type Database = {
           },
         ]
       }
-      stock_levels: {
+      transfer_lines: {
         Row: {
+          created_at: string
           id: string
           product_id: string
           quantity: number
-          updated_at: string
-          warehouse_id: string
+          transfer_id: string
         }
         Insert: {
+          created_at?: string
           id?: string
           product_id: string
-          quantity?: number
-          updated_at?: string
-          warehouse_id: string
+          quantity: number
+          transfer_id: string
         }
         Update: {
+          created_at?: string
           id?: string
           product_id?: string
           quantity?: number
-          updated_at?: string
-          warehouse_id?: string
+          transfer_id?: string
         }
         Relationships: [
           {
-            foreignKeyName: "stock_levels_product_id_fkey"
+            foreignKeyName: "transfer_lines_product_id_fkey"
             columns: ["product_id"]
             isOneToOne: false
             referencedRelation: "products"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "stock_levels_warehouse_id_fkey"
-            columns: ["warehouse_id"]
+            foreignKeyName: "transfer_lines_transfer_id_fkey"
+            columns: ["transfer_id"]
             isOneToOne: false
-            referencedRelation: "warehouses"
+            referencedRelation: "internal_transfers"
             referencedColumns: ["id"]
           },
         ]
       }
-      stock_movements: {
+      units_of_measure: {
         Row: {
+          category_id: string
           created_at: string
-          created_by: string
           id: string
-          movement_type: string
-          notes: string | null
-          product_id: string
-          quantity: number
-          reference_id: string | null
-          reference_type: string | null
-          warehouse_id: string
+          name: string
+          ratio: number
         }
         Insert: {
+          category_id: string
           created_at?: string
-          created_by: string
           id?: string
-          movement_type: string
-          notes?: string | null
-          product_id: string
-          quantity: number
-          reference_id?: string | null
-          reference_type?: string | null
-          warehouse_id: string
+          name: string
+          ratio?: number
         }
         Update: {
+          category_id?: string
           created_at?: string
-          created_by?: string
           id?: string
-          movement_type?: string
-          notes?: string | null
-          product_id?: string
-          quantity?: number
-          reference_id?: string | null
-          reference_type?: string | null
-          warehouse_id?: string
+          name?: string
+          ratio?: number
         }
         Relationships: [
           {
-            foreignKeyName: "stock_movements_created_by_fkey"
-            columns: ["created_by"]
-            isOneToOne: false
-            referencedRelation: "profiles"
-            referencedColumns: ["id"]
-          },
-          {
-            foreignKeyName: "stock_movements_product_id_fkey"
-            columns: ["product_id"]
-            isOneToOne: false
-            referencedRelation: "products"
-            referencedColumns: ["id"]
-          },
-          {
-            foreignKeyName: "stock_movements_warehouse_id_fkey"
-            columns: ["warehouse_id"]
+            foreignKeyName: "units_of_measure_category_id_fkey"
+            columns: ["category_id"]
             isOneToOne: false
-            referencedRelation: "warehouses"
+            referencedRelation: "uom_categories"
             referencedColumns: ["id"]
           },
         ]
       }
+      uom_categories: {
+        Row: {
+          created_at: string
+          id: string
+          name: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          name: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          name?: string
+        }
+        Relationships: []
+      }
       warehouses: {
         Row: {
+          active: boolean
           address: string | null
           code: string
           created_at: string
+          default_delivery_location_id: string | null
+          default_receipt_location_id: string | null
           id: string
           name: string
           updated_at: string
         }
         Insert: {
+          active?: boolean
           address?: string | null
           code: string
           created_at?: string
+          default_delivery_location_id?: string | null
+          default_receipt_location_id?: string | null
           id?: string
           name: string
           updated_at?: string
         }
         Update: {
+          active?: boolean
           address?: string | null
           code?: string
           created_at?: string
+          default_delivery_location_id?: string | null
+          default_receipt_location_id?: string | null
           id?: string
           name?: string
           updated_at?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "warehouses_default_delivery_location_id_fkey"
+            columns: ["default_delivery_location_id"]
+            isOneToOne: false
+            referencedRelation: "locations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "warehouses_default_receipt_location_id_fkey"
+            columns: ["default_receipt_location_id"]
+            isOneToOne: false
+            referencedRelation: "locations"
+            referencedColumns: ["id"]
+          },
+        ]
       }
     }
     Views: {
-      [_ in never]: never
+      category_stock: {
+        Row: {
+          category_id: string | null
+          quantity: number | null
+          warehouse_id: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "stock_levels_warehouse_id_fkey"
+            columns: ["warehouse_id"]
+            isOneToOne: false
+            referencedRelation: "warehouses"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      lot_expiry: {
+        Row: {
+          best_before_date: string | null
+          days_left: number | null
+          expiration_date: string | null
+          lot_id: string | null
+          lot_number: string | null
+          product_id: string | null
+          quantity: number | null
+          warehouse_id: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "lots_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_lot_levels_lot_id_fkey"
+            columns: ["lot_id"]
+            isOneToOne: false
+            referencedRelation: "lots"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_lot_levels_warehouse_id_fkey"
+            columns: ["warehouse_id"]
+            isOneToOne: false
+            referencedRelation: "warehouses"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      low_stock: {
+        Row: {
+          product_id: string | null
+          quantity: number | null
+          reorder_level: number | null
+          warehouse_id: string | null
+        }
+        Relationships: []
+      }
+      stock_availability: {
+        Row: {
+          available_quantity: number | null
+          product_id: string | null
+          quantity: number | null
+          reserved_quantity: number | null
+          warehouse_id: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "stock_levels_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_levels_warehouse_id_fkey"
+            columns: ["warehouse_id"]
+            isOneToOne: false
+            referencedRelation: "warehouses"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Functions: {
-      [_ in never]: never
+      apply_stock_movement: {
+        Args: {
+          p_expected_version?: number
+          p_kit_line_id?: string
+          p_location_id?: string
+          p_lot_id?: string
+          p_movement_type: string
+          p_notes?: string
+          p_product_id: string
+          p_quantity: number
+          p_reference_id: string
+          p_reference_type: string
+          p_warehouse_id: string
+        }
+        Returns: undefined
+      }
+      cancel_delivery: {
+        Args: {
+          p_delivery_id: string
+          p_reason: string
+        }
+        Returns: undefined
+      }
+      cancel_purchase_order: {
+        Args: {
+          p_purchase_order_id: string
+          p_reason: string
+        }
+        Returns: undefined
+      }
+      cancel_receipt: {
+        Args: {
+          p_reason: string
+          p_receipt_id: string
+        }
+        Returns: undefined
+      }
+      cancel_sales_order: {
+        Args: {
+          p_reason: string
+          p_sales_order_id: string
+        }
+        Returns: undefined
+      }
+      cancel_transfer: {
+        Args: {
+          p_reason: string
+          p_transfer_id: string
+        }
+        Returns: undefined
+      }
+      check_delivery_availability: {
+        Args: { p_delivery_id: string }
+        Returns: {
+          available_quantity: number
+          line_id: string
+          product_id: string
+          quantity: number
+        }[]
+      }
+      check_transfer_availability: {
+        Args: { p_transfer_id: string }
+        Returns: {
+          available_quantity: number
+          line_id: string
+          product_id: string
+          quantity: number
+        }[]
+      }
+      confirm_delivery: {
+        Args: { p_delivery_id: string }
+        Returns: undefined
+      }
+      confirm_purchase_order: {
+        Args: { p_purchase_order_id: string }
+        Returns: string
+      }
+      confirm_receipt: {
+        Args: { p_receipt_id: string }
+        Returns: undefined
+      }
+      confirm_sales_order: {
+        Args: { p_sales_order_id: string }
+        Returns: undefined
+      }
+      confirm_transfer: {
+        Args: { p_transfer_id: string }
+        Returns: undefined
+      }
+      create_purchase_orders_from_proposals: {
+        Args: { p_proposals: Json }
+        Returns: number
+      }
+      delivered_lot: {
+        Args: { p_delivery_line_id: string }
+        Returns: string
+      }
+      generate_product_variants: {
+        Args: { p_template_id: string }
+        Returns: number
+      }
+      pick_lots: {
+        Args: {
+          p_include_expired?: boolean
+          p_product_id: string
+          p_quantity: number
+          p_warehouse_id: string
+        }
+        Returns: {
+          lot_id: string
+          quantity: number
+        }[]
+      }
+      refresh_delivery_status: {
+        Args: { p_delivery_id: string }
+        Returns: undefined
+      }
+      refresh_documents_for_stock: {
+        Args: {
+          p_product_id: string
+          p_warehouse_id: string
+        }
+        Returns: undefined
+      }
+      refresh_purchase_order: {
+        Args: { p_purchase_order_id: string }
+        Returns: undefined
+      }
+      refresh_transfer_status: {
+        Args: { p_transfer_id: string }
+        Returns: undefined
+      }
+      release_reservations: {
+        Args: {
+          p_reference_id: string
+          p_reference_type: string
+        }
+        Returns: undefined
+      }
+      replenishment_proposals: {
+        Args: never
+        Returns: {
+          forecast_quantity: number
+          incoming: number
+          max_quantity: number
+          min_quantity: number
+          on_hand: number
+          outgoing: number
+          partner_id: string
+          product_id: string
+          proposed_quantity: number
+          rule_id: string
+          warehouse_id: string
+        }[]
+      }
+      reserved_quantity: {
+        Args: {
+          p_exclude_id?: string
+          p_exclude_type?: string
+          p_product_id: string
+          p_warehouse_id: string
+        }
+        Returns: number
+      }
+      reverse_adjustment: {
+        Args: { p_adjustment_id: string }
+        Returns: string
+      }
+      reverse_delivery: {
+        Args: { p_delivery_id: string }
+        Returns: string
+      }
+      reverse_receipt: {
+        Args: { p_receipt_id: string }
+        Returns: string
+      }
+      reverse_stock_movements: {
+        Args: {
+          p_notes: string
+          p_reference_id: string
+          p_reference_type: string
+        }
+        Returns: undefined
+      }
+      reverse_transfer: {
+        Args: { p_transfer_id: string }
+        Returns: string
+      }
+      set_delivery_serials: {
+        Args: {
+          p_delivery_id: string
+          p_serials: Json
+        }
+        Returns: undefined
+      }
+      validate_adjustment: {
+        Args: { p_adjustment_id: string }
+        Returns: undefined
+      }
+      validate_customer_return: {
+        Args: { p_return_id: string }
+        Returns: undefined
+      }
+      validate_delivery: {
+        Args: {
+          p_delivery_id: string
+          p_ship_available?: boolean
+        }
+        Returns: string
+      }
+      validate_receipt: {
+        Args: {
+          p_locations?: Json
+          p_lot_dates?: Json
+          p_lots?: Json
+          p_receipt_id: string
+          p_received?: Json
+        }
+        Returns: string
+      }
+      validate_supplier_return: {
+        Args: { p_return_id: string }
+        Returns: undefined
+      }
+      validate_transfer: {
+        Args: { p_transfer_id: string }
+        Returns: undefined
+      }
     }
     Enums: {
       [_ in never]: never
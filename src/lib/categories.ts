@@ -0,0 +1,41 @@
+interface CategoryNode {
+  id: string;
+  parent_id: string | null;
+  name: string;
+}
+
+// Categories in tree order, each with its depth and full "Parent / Child" path
+export const sortCategoryTree = <T extends CategoryNode>(categories: T[]) => {
+  const sorted: (T & { depth: number; path: string })[] = [];
+
+  const visit = (parentId: string | null, depth: number, prefix: string) =>
+    categories
+      .filter((category) => category.parent_id === parentId)
+      .sort((a, b) => a.name.localeCompare(b.name))
+      .forEach((category) => {
+        const path = prefix ? `${prefix} / ${category.name}` : category.name;
+        sorted.push({ ...category, depth, path });
+        visit(category.id, depth + 1, path);
+      });
+
+  visit(null, 0, "");
+  return sorted;
+};
+
+// The category's id plus the ids of everything nested below it
+export const getCategoryIds = (categories: CategoryNode[], categoryId: string) => {
+  const ids = new Set([categoryId]);
+  let added = true;
+
+  while (added) {
+    added = false;
+    categories.forEach((category) => {
+      if (category.parent_id && ids.has(category.parent_id) && !ids.has(category.id)) {
+        ids.add(category.id);
+        added = true;
+      }
+    });
+  }
+
+  return ids;
+};
@@ -0,0 +1,56 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Database, Tables } from "@/integrations/supabase/types";
+
+export interface DocumentRef {
+  number: string;
+  partner: string | null;
+}
+
+// Where each reference_type's document number (and partner) lives
+const documentSources: Record<
+  string,
+  { table: keyof Database["public"]["Tables"]; number: string; partner?: string }
+> = {
+  receipt: { table: "receipts", number: "receipt_number", partner: "supplier_name" },
+  delivery: { table: "deliveries", number: "delivery_number", partner: "customer_name" },
+  transfer: { table: "internal_transfers", number: "transfer_number" },
+  adjustment: { table: "stock_adjustments", number: "adjustment_number" },
+  customer_return: { table: "customer_returns", number: "return_number", partner: "customer_name" },
+  supplier_return: { table: "supplier_returns", number: "return_number", partner: "supplier_name" },
+};
+
+export const movementLabels: Record<string, string> = {
+  receipt: "Receipt",
+  delivery: "Delivery",
+  transfer_in: "Transfer In",
+  transfer_out: "Transfer Out",
+  adjustment: "Adjustment",
+  return_in: "Customer Return",
+  return_out: "Supplier Return",
+};
+
+// Look up the documents behind a set of stock movements, keyed by reference_id
+export const loadMovementDocuments = async (
+  movements: Pick<Tables<"stock_movements">, "reference_type" | "reference_id">[]
+) => {
+  const found = new Map<string, DocumentRef>();
+
+  await Promise.all(
+    Object.entries(documentSources).map(async ([type, source]) => {
+      const ids = [...new Set(movements.filter((m) => m.reference_type === type).map((m) => m.reference_id))];
+      if (ids.length === 0) return;
+
+      const { data } = await supabase
+        .from(source.table)
+        .select(["id", source.number, source.partner].filter(Boolean).join(", "))
+        .in("id", ids)
+        .overrideTypes<Record<string, string | null>[], { merge: false }>();
+
+      (data || []).forEach((doc) =>
+        found.set(doc.id, { number: doc[source.number], partner: source.partner ? doc[source.partner] : null })
+      );
+    })
+  );
+
+  return found;
+};
@@ -0,0 +1,25 @@
+export const locationTypeLabels: Record<string, string> = {
+  zone: "Zone",
+  aisle: "Aisle",
+  rack: "Rack",
+  bin: "Bin",
+};
+
+// Locations in tree order, each with its depth below the warehouse
+export const sortLocationTree = <T extends { id: string; parent_id: string | null; code: string }>(
+  locations: T[]
+) => {
+  const sorted: (T & { depth: number })[] = [];
+
+  const visit = (parentId: string | null, depth: number) =>
+    locations
+      .filter((location) => location.parent_id === parentId)
+      .sort((a, b) => a.code.localeCompare(b.code))
+      .forEach((location) => {
+        sorted.push({ ...location, depth });
+        visit(location.id, depth + 1);
+      });
+
+  visit(null, 0);
+  return sorted;
+};
@@ -0,0 +1,21 @@
+import type { Tables } from "@/integrations/supabase/types";
+
+export const trackingLabels: Record<string, string> = {
+  none: "Not tracked",
+  lot: "By lot",
+  serial: "By serial",
+};
+
+export const productTypeLabels: Record<string, string> = {
+  stock: "Stocked product",
+  kit: "Kit",
+};
+
+// Whole kits a kit's components cover, given how much of each product there is
+export const getKitQuantity = (
+  components: Pick<Tables<"kit_components">, "component_id" | "quantity">[],
+  getQuantity: (productId: string) => number
+) =>
+  components.length > 0
+    ? Math.max(Math.min(...components.map((c) => Math.floor(getQuantity(c.component_id) / Number(c.quantity)))), 0)
+    : 0;
@@ -0,0 +1,9 @@
+// Postgres serialization_failure, raised by validate_adjustment when the stock
+// level was modified after the count was recorded
+const STOCK_CONFLICT_CODE = "40001";
+
+export const isStockConflict = (error: { code?: string } | null | undefined) =>
+  error?.code === STOCK_CONFLICT_CODE;
+
+// Serial numbers typed into one field, separated by commas or whitespace
+export const parseSerials = (value: string) => value.split(/[\s,]+/).filter(Boolean);
@@ -0,0 +1,36 @@
+import type { Tables } from "@/integrations/supabase/types";
+
+// Units a product can be entered in: those in the same category as its base unit
+export const getCompatibleUnits = (
+  units: Tables<"units_of_measure">[],
+  product: Pick<Tables<"products">, "uom_id"> | null | undefined
+) => {
+  const base = units.find((u) => u.id === product?.uom_id);
+  return base ? units.filter((u) => u.category_id === base.category_id) : [];
+};
+
+// Converts a quantity entered in uomId to the product's base unit, matching convert_line_uom
+export const toBaseQuantity = (
+  units: Tables<"units_of_measure">[],
+  product: Pick<Tables<"products">, "uom_id"> | null | undefined,
+  uomId: string,
+  quantity: number
+) => {
+  const base = units.find((u) => u.id === product?.uom_id);
+  const unit = units.find((u) => u.id === uomId);
+  return base && unit ? (quantity * Number(unit.ratio)) / Number(base.ratio) : quantity;
+};
+
+// Reads the unit selects of ProductUnitFields from a submitted form
+export const readProductUnits = (formData: FormData) => {
+  const unitOrBase = (name: string) => {
+    const value = formData.get(name) as string;
+    return value && value !== "base" ? value : null;
+  };
+
+  return {
+    uom_id: formData.get("uom_id") as string,
+    purchase_uom_id: unitOrBase("purchase_uom_id"),
+    sales_uom_id: unitOrBase("sales_uom_id"),
+  };
+};
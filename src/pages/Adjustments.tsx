@@ -8,9 +8,11 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { toast } from "sonner";
-import { Plus, Check } from "lucide-react";
-import { Badge } from "@/components/ui/badge";
+import { Plus, Check, Undo2 } from "lucide-react";
+import StatusBadge from "@/components/StatusBadge";
+import ReverseDocumentDialog from "@/components/ReverseDocumentDialog";
 import { useAuth } from "@/contexts/AuthContext";
+import { isStockConflict } from "@/lib/stock";
 
 const Adjustments = () => {
   const { user } = useAuth();
@@ -21,6 +23,8 @@ const Adjustments = () => {
   const [selectedProduct, setSelectedProduct] = useState("");
   const [selectedWarehouse, setSelectedWarehouse] = useState("");
   const [systemQty, setSystemQty] = useState(0);
+  const [systemVersion, setSystemVersion] = useState<number | null>(null);
+  const [reversingAdjustment, setReversingAdjustment] = useState<any>(null);
 
   useEffect(() => {
     loadAdjustments();
@@ -43,24 +47,30 @@ const Adjustments = () => {
   };
 
   const loadProducts = async () => {
-    const { data } = await supabase.from("products").select("*").order("name");
+    const { data } = await supabase
+      .from("products")
+      .select("*")
+      .eq("active", true)
+      .eq("product_type", "stock")
+      .order("name");
     setProducts(data || []);
   };
 
   const loadWarehouses = async () => {
-    const { data } = await supabase.from("warehouses").select("*").order("name");
+    const { data } = await supabase.from("warehouses").select("*").eq("active", true).order("name");
     setWarehouses(data || []);
   };
 
   const loadSystemQuantity = async (productId: string, warehouseId: string) => {
     const { data } = await supabase
       .from("stock_levels")
-      .select("quantity")
+      .select("quantity, version")
       .eq("product_id", productId)
       .eq("warehouse_id", warehouseId)
       .single();
 
     setSystemQty(data ? Number(data.quantity) : 0);
+    setSystemVersion(data ? data.version : null);
   };
 
   const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
@@ -79,6 +89,7 @@ const Adjustments = () => {
         counted_quantity: countedQty,
         system_quantity: systemQty,
         difference: difference,
+        stock_version: systemVersion,
         reason: formData.get("reason") as string,
         created_by: user?.id,
         status: "draft",
@@ -92,6 +103,7 @@ const Adjustments = () => {
       setSelectedProduct("");
       setSelectedWarehouse("");
       setSystemQty(0);
+      setSystemVersion(null);
     } catch (error: any) {
       toast.error(error.message || "Failed to create adjustment");
     }
@@ -99,52 +111,38 @@ const Adjustments = () => {
 
   const handleValidateAdjustment = async (adjustment: any) => {
     try {
-      // Update or create stock level
-      const { data: existing } = await supabase
-        .from("stock_levels")
-        .select("*")
-        .eq("product_id", adjustment.product_id)
-        .eq("warehouse_id", adjustment.warehouse_id)
-        .single();
+      const { error } = await supabase.rpc("validate_adjustment", { p_adjustment_id: adjustment.id });
+      if (error) throw error;
 
-      if (existing) {
-        await supabase
-          .from("stock_levels")
-          .update({ quantity: adjustment.counted_quantity })
-          .eq("id", existing.id);
-      } else {
-        await supabase.from("stock_levels").insert({
-          product_id: adjustment.product_id,
-          warehouse_id: adjustment.warehouse_id,
-          quantity: adjustment.counted_quantity,
+      toast.success("Adjustment validated and stock updated");
+      loadAdjustments();
+    } catch (error: any) {
+      if (isStockConflict(error)) {
+        toast.error("Stock changed, retry", {
+          description: "Stock moved since this count was recorded. Recount and create a new adjustment.",
         });
+        return;
       }
+      toast.error(error.message || "Failed to validate adjustment");
+    }
+  };
 
-      // Create stock movement
-      await supabase.from("stock_movements").insert({
-        product_id: adjustment.product_id,
-        warehouse_id: adjustment.warehouse_id,
-        movement_type: "adjustment",
-        quantity: adjustment.difference,
-        reference_id: adjustment.id,
-        reference_type: "adjustment",
-        notes: adjustment.reason,
-        created_by: user?.id,
-      });
-
-      // Update adjustment status
-      await supabase
-        .from("stock_adjustments")
-        .update({ status: "done", validated_at: new Date().toISOString() })
-        .eq("id", adjustment.id);
+  const handleReverseAdjustment = async () => {
+    try {
+      const { error } = await supabase.rpc("reverse_adjustment", { p_adjustment_id: reversingAdjustment.id });
+      if (error) throw error;
 
-      toast.success("Adjustment validated and stock updated");
+      toast.success("Adjustment reversed and stock restored");
+      setReversingAdjustment(null);
       loadAdjustments();
     } catch (error: any) {
-      toast.error(error.message || "Failed to validate adjustment");
+      toast.error(error.message || "Failed to reverse adjustment");
     }
   };
 
+  const adjustmentsById = new Map(adjustments.map((a) => [a.id, a]));
+  const reversalsById = new Map(adjustments.filter((a) => a.reversal_of_id).map((a) => [a.reversal_of_id, a]));
+
   return (
     <div className="space-y-6">
       <div className="flex justify-between items-center">
@@ -247,7 +245,19 @@ const Adjustments = () => {
             <TableBody>
               {adjustments.map((adjustment) => (
                 <TableRow key={adjustment.id}>
-                  <TableCell className="font-mono">{adjustment.adjustment_number}</TableCell>
+                  <TableCell>
+                    <div className="font-mono">{adjustment.adjustment_number}</div>
+                    {adjustment.reversal_of_id && (
+                      <div className="text-xs text-muted-foreground">
+                        Reversal of {adjustmentsById.get(adjustment.reversal_of_id)?.adjustment_number}
+                      </div>
+                    )}
+                    {reversalsById.has(adjustment.id) && (
+                      <div className="text-xs text-muted-foreground">
+                        Reversed by {reversalsById.get(adjustment.id).adjustment_number}
+                      </div>
+                    )}
+                  </TableCell>
                   <TableCell>{adjustment.products?.name}</TableCell>
                   <TableCell>{adjustment.warehouses?.name}</TableCell>
                   <TableCell>{adjustment.system_quantity}</TableCell>
@@ -267,9 +277,7 @@ const Adjustments = () => {
                     </span>
                   </TableCell>
                   <TableCell>
-                    <Badge variant={adjustment.status === "done" ? "default" : "secondary"}>
-                      {adjustment.status}
-                    </Badge>
+                    <StatusBadge status={adjustment.status} />
                   </TableCell>
                   <TableCell>
                     {adjustment.status !== "done" && (
@@ -278,6 +286,12 @@ const Adjustments = () => {
                         Validate
                       </Button>
                     )}
+                    {adjustment.status === "done" && !adjustment.reversal_of_id && !reversalsById.has(adjustment.id) && (
+                      <Button size="sm" variant="outline" onClick={() => setReversingAdjustment(adjustment)}>
+                        <Undo2 className="mr-1 h-3 w-3" />
+                        Reverse
+                      </Button>
+                    )}
                   </TableCell>
                 </TableRow>
               ))}
@@ -292,6 +306,12 @@ const Adjustments = () => {
           </Table>
         </CardContent>
       </Card>
+
+      <ReverseDocumentDialog
+        documentNumber={reversingAdjustment?.adjustment_number ?? null}
+        onClose={() => setReversingAdjustment(null)}
+        onConfirm={handleReverseAdjustment}
+      />
     </div>
   );
 };
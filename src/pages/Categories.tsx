@@ -0,0 +1,219 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { toast } from "sonner";
+import { Plus, Pencil, Trash2 } from "lucide-react";
+import { getCategoryIds, sortCategoryTree } from "@/lib/categories";
+
+const Categories = () => {
+  const [categories, setCategories] = useState<any[]>([]);
+  const [products, setProducts] = useState<any[]>([]);
+  const [warehouses, setWarehouses] = useState<any[]>([]);
+  const [categoryStock, setCategoryStock] = useState<any[]>([]);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingCategory, setEditingCategory] = useState<any>(null);
+  const [parentId, setParentId] = useState("none");
+
+  useEffect(() => {
+    loadCategories();
+    loadProducts();
+    loadWarehouses();
+    loadCategoryStock();
+  }, []);
+
+  const loadCategories = async () => {
+    const { data } = await supabase.from("product_categories").select("*").order("name");
+    setCategories(data || []);
+  };
+
+  const loadProducts = async () => {
+    const { data } = await supabase.from("products").select("id, category_id").eq("active", true);
+    setProducts(data || []);
+  };
+
+  const loadWarehouses = async () => {
+    const { data } = await supabase.from("warehouses").select("*").eq("active", true).order("name");
+    setWarehouses(data || []);
+  };
+
+  const loadCategoryStock = async () => {
+    const { data } = await supabase.from("category_stock").select("*");
+    setCategoryStock(data || []);
+  };
+
+  const openDialog = (category: any, parent: string | null = null) => {
+    setEditingCategory(category);
+    setParentId(category?.parent_id ?? parent ?? "none");
+    setDialogOpen(true);
+  };
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const formData = new FormData(e.currentTarget);
+
+    const category = {
+      name: (formData.get("name") as string).trim(),
+      description: (formData.get("description") as string) || null,
+      parent_id: parentId !== "none" ? parentId : null,
+    };
+
+    try {
+      const { error } = editingCategory
+        ? await supabase.from("product_categories").update(category).eq("id", editingCategory.id)
+        : await supabase.from("product_categories").insert(category);
+
+      if (error) throw error;
+
+      toast.success(editingCategory ? "Category updated successfully" : "Category created successfully");
+      setDialogOpen(false);
+      loadCategories();
+      loadCategoryStock();
+    } catch (error: any) {
+      toast.error(error.message || "Failed to save category");
+    }
+  };
+
+  // Refused while the category still has subcategories or products
+  const handleDelete = async (category: any) => {
+    try {
+      const { error } = await supabase.from("product_categories").delete().eq("id", category.id);
+      if (error) throw error;
+
+      toast.success("Category deleted");
+      loadCategories();
+    } catch (error: any) {
+      toast.error(error.message || "Failed to delete category");
+    }
+  };
+
+  const getStock = (categoryId: string, warehouseId?: string) =>
+    categoryStock
+      .filter((cs) => cs.category_id === categoryId && (!warehouseId || cs.warehouse_id === warehouseId))
+      .reduce((sum, cs) => sum + Number(cs.quantity), 0);
+
+  const tree = sortCategoryTree(categories);
+  const editingSubtree = editingCategory ? getCategoryIds(categories, editingCategory.id) : new Set<string>();
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-3xl font-bold">Categories</h1>
+          <p className="text-muted-foreground">Product categories, with stock rolled up through subcategories</p>
+        </div>
+        <Button onClick={() => openDialog(null)}>
+          <Plus className="mr-2 h-4 w-4" />
+          Add Category
+        </Button>
+      </div>
+
+      <Card>
+        <CardContent className="pt-6">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Description</TableHead>
+                <TableHead>Products</TableHead>
+                {warehouses.map((wh) => (
+                  <TableHead key={wh.id}>{wh.name}</TableHead>
+                ))}
+                <TableHead>Total Stock</TableHead>
+                <TableHead>Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {tree.map((category) => {
+                const ids = getCategoryIds(categories, category.id);
+
+                return (
+                  <TableRow key={category.id}>
+                    <TableCell className="font-medium" style={{ paddingLeft: `${1 + category.depth * 1.5}rem` }}>
+                      {category.name}
+                    </TableCell>
+                    <TableCell className="text-muted-foreground">{category.description || "-"}</TableCell>
+                    <TableCell>{products.filter((p) => ids.has(p.category_id)).length}</TableCell>
+                    {warehouses.map((wh) => (
+                      <TableCell key={wh.id}>{getStock(category.id, wh.id)}</TableCell>
+                    ))}
+                    <TableCell className="font-medium">{getStock(category.id)}</TableCell>
+                    <TableCell>
+                      <div className="flex gap-2">
+                        <Button size="sm" variant="ghost" onClick={() => openDialog(category)}>
+                          <Pencil className="mr-1 h-3 w-3" />
+                          Edit
+                        </Button>
+                        <Button size="sm" variant="ghost" onClick={() => openDialog(null, category.id)}>
+                          <Plus className="mr-1 h-3 w-3" />
+                          Add Inside
+                        </Button>
+                        <Button size="sm" variant="ghost" onClick={() => handleDelete(category)}>
+                          <Trash2 className="mr-1 h-3 w-3" />
+                          Delete
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+              {tree.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={5 + warehouses.length} className="text-center text-muted-foreground">
+                    No categories found
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editingCategory ? `Edit ${editingCategory.name}` : "Create New Category"}</DialogTitle>
+          </DialogHeader>
+          <form key={editingCategory?.id ?? "new"} onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="name">Name</Label>
+              <Input id="name" name="name" defaultValue={editingCategory?.name} required />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="description">Description</Label>
+              <Input id="description" name="description" defaultValue={editingCategory?.description ?? ""} />
+            </div>
+            <div className="space-y-2">
+              <Label>Inside</Label>
+              <Select value={parentId} onValueChange={setParentId}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">No parent (top level)</SelectItem>
+                  {tree
+                    .filter((c) => !editingSubtree.has(c.id))
+                    .map((c) => (
+                      <SelectItem key={c.id} value={c.id}>
+                        {c.path}
+                      </SelectItem>
+                    ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Button type="submit" className="w-full">
+              {editingCategory ? "Save Category" : "Create Category"}
+            </Button>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default Categories;
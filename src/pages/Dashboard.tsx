@@ -1,12 +1,18 @@
 import { useEffect, useState } from "react";
 import { supabase } from "@/integrations/supabase/client";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-import { Package, AlertTriangle, TruckIcon, FileText, ArrowRightLeft } from "lucide-react";
+import { Package, AlertTriangle, TruckIcon, FileText, ArrowRightLeft, Warehouse, CalendarClock } from "lucide-react";
 import { Badge } from "@/components/ui/badge";
 
+// How far ahead the expiring lots card looks
+const EXPIRY_WARNING_DAYS = 30;
+
 interface DashboardStats {
   totalProducts: number;
   lowStockItems: number;
+  lowStockLocations: number;
+  expiringLots: number;
+  expiredLots: number;
   pendingReceipts: number;
   pendingDeliveries: number;
   scheduledTransfers: number;
@@ -16,6 +22,9 @@ const Dashboard = () => {
   const [stats, setStats] = useState<DashboardStats>({
     totalProducts: 0,
     lowStockItems: 0,
+    lowStockLocations: 0,
+    expiringLots: 0,
+    expiredLots: 0,
     pendingReceipts: 0,
     pendingDeliveries: 0,
     scheduledTransfers: 0,
@@ -28,39 +37,22 @@ const Dashboard = () => {
 
   const loadDashboardData = async () => {
     try {
-      // Fetch all products with id and reorder_level
-      const { data: allProducts, count: productsCount } = await supabase
+      // Get total products, leaving out archived ones
+      const { count: productsCount } = await supabase
         .from("products")
-        .select("id, reorder_level", { count: "exact" });
-
-      // Fetch all stock levels (per product, per warehouse)
-      const { data: allStockLevels } = await supabase
-        .from("stock_levels")
-        .select("product_id, quantity");
-
-      // Create a sum of stock quantities per product
-      const stockMap = new Map<string, number>();
-      if (allStockLevels) {
-        allStockLevels.forEach(sl => {
-          stockMap.set(
-            sl.product_id,
-            (stockMap.get(sl.product_id) || 0) + Number(sl.quantity)
-          );
-        });
-      }
-
-      // Compute how many products are 'low stock' by dashboard logic
-      let lowStockCount = 0;
-      if (allProducts) {
-        for (const product of allProducts) {
-          const totalStock = stockMap.get(product.id) || 0;
-          if (totalStock <= product.reorder_level) {
-            lowStockCount += 1;
-          }
-        }
-      }
-
-      // -- The rest of your dashboard stats remain the same --
+        .select("*", { count: "exact", head: true })
+        .eq("active", true);
+
+      // Product-warehouse pairs at or below that warehouse's reorder level
+      const { data: lowStock } = await supabase.from("low_stock").select("product_id, warehouse_id");
+
+      const lowStockProducts = new Set((lowStock || []).map((ls) => ls.product_id));
+
+      // Lots in stock that expire within the warning window, or already have
+      const { data: expiring } = await supabase
+        .from("lot_expiry")
+        .select("days_left")
+        .lte("days_left", EXPIRY_WARNING_DAYS);
 
       // Get pending receipts
       const { count: receiptsCount } = await supabase
@@ -82,7 +74,10 @@ const Dashboard = () => {
 
       setStats({
         totalProducts: productsCount || 0,
-        lowStockItems: lowStockCount,
+        lowStockItems: lowStockProducts.size,
+        lowStockLocations: lowStock?.length || 0,
+        expiringLots: (expiring || []).filter((lot) => lot.days_left >= 0).length,
+        expiredLots: (expiring || []).filter((lot) => lot.days_left < 0).length,
         pendingReceipts: receiptsCount || 0,
         pendingDeliveries: deliveriesCount || 0,
         scheduledTransfers: transfersCount || 0,
@@ -132,6 +127,36 @@ const Dashboard = () => {
           </CardContent>
         </Card>
 
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Low Stock Locations</CardTitle>
+            <Warehouse className="h-4 w-4 text-warning" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold text-warning">{stats.lowStockLocations}</div>
+            <p className="text-xs text-muted-foreground">
+              <a href="/low-stock" className="hover:underline">
+                Product-warehouse pairs below threshold
+              </a>
+            </p>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Expiring Within {EXPIRY_WARNING_DAYS} Days</CardTitle>
+            <CalendarClock className="h-4 w-4 text-warning" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold text-warning">{stats.expiringLots}</div>
+            <p className="text-xs text-muted-foreground">
+              <a href="/expired-stock" className="hover:underline">
+                Lots in stock · {stats.expiredLots} already expired
+              </a>
+            </p>
+          </CardContent>
+        </Card>
+
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
             <CardTitle className="text-sm font-medium">Pending Receipts</CardTitle>
@@ -186,6 +211,12 @@ const Dashboard = () => {
           <Badge variant="outline" className="cursor-pointer hover:bg-accent">
             <a href="/adjustments">Adjust Stock</a>
           </Badge>
+          <Badge variant="outline" className="cursor-pointer hover:bg-accent">
+            <a href="/low-stock">Low Stock Report</a>
+          </Badge>
+          <Badge variant="outline" className="cursor-pointer hover:bg-accent">
+            <a href="/expired-stock">Expired Stock Report</a>
+          </Badge>
         </CardContent>
       </Card>
     </div>
@@ -8,55 +8,178 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { toast } from "sonner";
-import { Plus, Check } from "lucide-react";
-import { Badge } from "@/components/ui/badge";
+import { Plus, Check, ListTodo, X, Undo2 } from "lucide-react";
+import StatusBadge from "@/components/StatusBadge";
+import CancelDocumentDialog from "@/components/CancelDocumentDialog";
+import PartnerPicker from "@/components/PartnerPicker";
+import ReverseDocumentDialog from "@/components/ReverseDocumentDialog";
+import SerialPicker from "@/components/SerialPicker";
 import { useAuth } from "@/contexts/AuthContext";
+import { getCompatibleUnits, toBaseQuantity } from "@/lib/uom";
+import { getKitQuantity } from "@/lib/products";
 
 const Deliveries = () => {
   const { user } = useAuth();
   const [deliveries, setDeliveries] = useState<any[]>([]);
   const [products, setProducts] = useState<any[]>([]);
   const [warehouses, setWarehouses] = useState<any[]>([]);
+  const [partners, setPartners] = useState<any[]>([]);
+  const [selectedPartner, setSelectedPartner] = useState<any>(null);
+  const [availability, setAvailability] = useState<any[]>([]);
+  const [selectedWarehouse, setSelectedWarehouse] = useState("");
   const [dialogOpen, setDialogOpen] = useState(false);
-  const [selectedProducts, setSelectedProducts] = useState<{ productId: string; quantity: number }[]>([
-    { productId: "", quantity: 0 },
-  ]);
+  const [lotLevels, setLotLevels] = useState<any[]>([]);
+  const [locationLevels, setLocationLevels] = useState<any[]>([]);
+  const [selectedProducts, setSelectedProducts] = useState<
+    { productId: string; lotId: string; serialIds: string[]; locationId: string; uomId: string; quantity: number }[]
+  >([{ productId: "", lotId: "auto", serialIds: [], locationId: "any", uomId: "", quantity: 0 }]);
+  const [shortDelivery, setShortDelivery] = useState<any>(null);
+  const [shortLines, setShortLines] = useState<any[]>([]);
+  const [cancelingDelivery, setCancelingDelivery] = useState<any>(null);
+  const [reversingDelivery, setReversingDelivery] = useState<any>(null);
+  const [serialDelivery, setSerialDelivery] = useState<any>(null);
+  const [serialLines, setSerialLines] = useState<any[]>([]);
+  const [units, setUnits] = useState<any[]>([]);
+  const [kitComponents, setKitComponents] = useState<any[]>([]);
 
   useEffect(() => {
     loadDeliveries();
     loadProducts();
     loadWarehouses();
+    loadPartners();
+    loadAvailability();
+    loadLotLevels();
+    loadLocationLevels();
+    loadUnits();
+    loadKitComponents();
   }, []);
 
   const loadDeliveries = async () => {
     const { data } = await supabase
       .from("deliveries")
-      .select("*, warehouses(name)")
+      .select("*, warehouses(name), sales_orders(so_number)")
       .order("created_at", { ascending: false });
     setDeliveries(data || []);
   };
 
   const loadProducts = async () => {
-    const { data } = await supabase.from("products").select("*").order("name");
+    const { data } = await supabase.from("products").select("*").eq("active", true).order("name");
     setProducts(data || []);
   };
 
   const loadWarehouses = async () => {
-    const { data } = await supabase.from("warehouses").select("*").order("name");
+    const { data } = await supabase.from("warehouses").select("*").eq("active", true).order("name");
     setWarehouses(data || []);
   };
 
+  const loadUnits = async () => {
+    const { data } = await supabase.from("units_of_measure").select("*").order("name");
+    setUnits(data || []);
+  };
+
+  const loadKitComponents = async () => {
+    const { data } = await supabase.from("kit_components").select("*");
+    setKitComponents(data || []);
+  };
+
+  const loadPartners = async () => {
+    const { data } = await supabase
+      .from("partners")
+      .select("*")
+      .in("type", ["customer", "both"])
+      .order("name");
+    setPartners(data || []);
+  };
+
+  const selectPartner = (partner: any) => {
+    setSelectedPartner(partner);
+    if (partner.default_warehouse_id) {
+      setSelectedWarehouse(partner.default_warehouse_id);
+    }
+  };
+
+  const loadAvailability = async () => {
+    const { data } = await supabase.from("stock_availability").select("*");
+    setAvailability(data || []);
+  };
+
+  const loadLotLevels = async () => {
+    const { data } = await supabase
+      .from("stock_lot_levels")
+      .select("*, lots(lot_number, product_id, expiration_date)")
+      .gt("quantity", 0);
+    setLotLevels(data || []);
+  };
+
+  const loadLocationLevels = async () => {
+    const { data } = await supabase
+      .from("stock_location_levels")
+      .select("*, locations(code, warehouse_id)")
+      .gt("quantity", 0);
+    setLocationLevels(data || []);
+  };
+
+  const getLocations = (productId: string) =>
+    locationLevels
+      .filter((sl) => sl.product_id === productId && sl.locations?.warehouse_id === selectedWarehouse)
+      .sort((a, b) => a.locations.code.localeCompare(b.locations.code));
+
+  // The warehouse's default pick location, when it holds the product
+  const getDefaultLocation = (productId: string) => {
+    const locationId = warehouses.find((w) => w.id === selectedWarehouse)?.default_delivery_location_id;
+    return getLocations(productId).some((sl) => sl.location_id === locationId) ? locationId : "any";
+  };
+
+  const isExpired = (lotLevel: any) =>
+    !!lotLevel.lots?.expiration_date && lotLevel.lots.expiration_date < new Date().toISOString().slice(0, 10);
+
+  // First expiry first out, matching the order validation picks lots in.
+  // Validation never picks expired lots, so they are listed last.
+  const getLots = (productId: string, warehouseId = selectedWarehouse) =>
+    lotLevels
+      .filter((ll) => ll.lots?.product_id === productId && ll.warehouse_id === warehouseId)
+      .sort(
+        (a, b) =>
+          Number(isExpired(a)) - Number(isExpired(b)) ||
+          (a.lots?.expiration_date ?? "9999-12-31").localeCompare(b.lots?.expiration_date ?? "9999-12-31")
+      );
+
+  const getSerials = (productId: string, warehouseId = selectedWarehouse) =>
+    getLots(productId, warehouseId).map((ll) => ({ id: ll.lot_id, lot_number: ll.lots?.lot_number }));
+
+  // A kit is available as the number of whole kits its components make up
+  const getAvailable = (productId: string) => {
+    if (productsById.get(productId)?.product_type === "kit") {
+      return getKitQuantity(getComponents(productId), getAvailable);
+    }
+    const stock = availability.find(
+      (sa) => sa.product_id === productId && sa.warehouse_id === selectedWarehouse
+    );
+    return stock ? Number(stock.available_quantity) : 0;
+  };
+
+  const getComponents = (kitId: string) => kitComponents.filter((kc) => kc.kit_id === kitId);
+
+  const getLineQuantity = (item: { productId: string; uomId: string; quantity: number }) =>
+    toBaseQuantity(units, productsById.get(item.productId), item.uomId, item.quantity);
+
   const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
     e.preventDefault();
     const formData = new FormData(e.currentTarget);
 
+    if (!selectedPartner) {
+      toast.error("Select a customer");
+      return;
+    }
+
     try {
       const deliveryNumber = `DEL-${Date.now()}`;
       const { data: delivery, error: deliveryError } = await supabase
         .from("deliveries")
         .insert({
           delivery_number: deliveryNumber,
-          customer_name: formData.get("customer_name") as string,
+          partner_id: selectedPartner.id,
+          customer_name: selectedPartner.name,
           warehouse_id: formData.get("warehouse_id") as string,
           notes: formData.get("notes") as string,
           created_by: user?.id,
@@ -67,13 +190,30 @@ const Deliveries = () => {
 
       if (deliveryError) throw deliveryError;
 
+      // Serialized products ship one line per chosen serial
       const lines = selectedProducts
         .filter((p) => p.productId && p.quantity > 0)
-        .map((p) => ({
-          delivery_id: delivery.id,
-          product_id: p.productId,
-          quantity: p.quantity,
-        }));
+        .flatMap((p) =>
+          productsById.get(p.productId)?.tracking === "serial"
+            ? p.serialIds.map((serialId) => ({
+                delivery_id: delivery.id,
+                product_id: p.productId,
+                lot_id: serialId,
+                location_id: p.locationId !== "any" ? p.locationId : null,
+                quantity: 1,
+              }))
+            : [
+                {
+                  delivery_id: delivery.id,
+                  product_id: p.productId,
+                  lot_id: p.lotId !== "auto" ? p.lotId : null,
+                  location_id: p.locationId !== "any" ? p.locationId : null,
+                  quantity: toBaseQuantity(units, productsById.get(p.productId), p.uomId, p.quantity),
+                  uom_id: p.uomId !== productsById.get(p.productId)?.uom_id ? p.uomId : null,
+                  uom_quantity: p.uomId !== productsById.get(p.productId)?.uom_id ? p.quantity : null,
+                },
+              ]
+        );
 
       if (lines.length > 0) {
         const { error: linesError } = await supabase.from("delivery_lines").insert(lines);
@@ -83,7 +223,9 @@ const Deliveries = () => {
       toast.success("Delivery created successfully");
       setDialogOpen(false);
       loadDeliveries();
-      setSelectedProducts([{ productId: "", quantity: 0 }]);
+      setSelectedProducts([{ productId: "", lotId: "auto", serialIds: [], locationId: "any", uomId: "", quantity: 0 }]);
+      setSelectedWarehouse("");
+      setSelectedPartner(null);
     } catch (error: any) {
       toast.error(error.message || "Failed to create delivery");
     }
@@ -91,57 +233,133 @@ const Deliveries = () => {
 
   const handleValidateDelivery = async (delivery: any) => {
     try {
-      const { data: lines } = await supabase
+      // Serialized lines must name the serials they ship first
+      const { data: lines, error: linesError } = await supabase
         .from("delivery_lines")
-        .select("*")
-        .eq("delivery_id", delivery.id);
+        .select("*, products(name, sku, tracking)")
+        .eq("delivery_id", delivery.id)
+        .is("lot_id", null);
+      if (linesError) throw linesError;
+
+      const unpicked = (lines || []).filter((line) => line.products?.tracking === "serial");
+      if (unpicked.length > 0) {
+        setSerialLines(unpicked.map((line) => ({ ...line, serialIds: [] })));
+        setSerialDelivery(delivery);
+        return;
+      }
 
-      if (!lines || lines.length === 0) {
+      // Check every line before moving any stock
+      const { data: availability, error } = await supabase.rpc("check_delivery_availability", {
+        p_delivery_id: delivery.id,
+      });
+      if (error) throw error;
+
+      if (!availability || availability.length === 0) {
         toast.error("Cannot validate delivery without products");
         return;
       }
 
-      for (const line of lines) {
-        const { data: existing } = await supabase
-          .from("stock_levels")
-          .select("*")
-          .eq("product_id", line.product_id)
-          .eq("warehouse_id", delivery.warehouse_id)
-          .single();
-
-        if (!existing || Number(existing.quantity) < Number(line.quantity)) {
-          toast.error("Insufficient stock for this delivery");
-          return;
-        }
-
-        await supabase
-          .from("stock_levels")
-          .update({ quantity: Number(existing.quantity) - Number(line.quantity) })
-          .eq("id", existing.id);
-
-        await supabase.from("stock_movements").insert({
-          product_id: line.product_id,
-          warehouse_id: delivery.warehouse_id,
-          movement_type: "delivery",
-          quantity: -line.quantity,
-          reference_id: delivery.id,
-          reference_type: "delivery",
-          created_by: user?.id,
-        });
+      if (availability.some((line) => Number(line.available_quantity) < Number(line.quantity))) {
+        setShortLines(availability);
+        setShortDelivery(delivery);
+        return;
       }
 
-      await supabase
-        .from("deliveries")
-        .update({ status: "done", validated_at: new Date().toISOString() })
-        .eq("id", delivery.id);
+      await validateDelivery(delivery, false);
+    } catch (error: any) {
+      toast.error(error.message || "Failed to validate delivery");
+    }
+  };
 
-      toast.success("Delivery validated and stock updated");
+  const handleSetSerials = async () => {
+    try {
+      const { error } = await supabase.rpc("set_delivery_serials", {
+        p_delivery_id: serialDelivery.id,
+        p_serials: Object.fromEntries(serialLines.map((line) => [line.id, line.serialIds])),
+      });
+      if (error) throw error;
+
+      const delivery = serialDelivery;
+      setSerialDelivery(null);
+      await handleValidateDelivery(delivery);
+    } catch (error: any) {
+      toast.error(error.message || "Failed to choose serials");
+    }
+  };
+
+  const validateDelivery = async (delivery: any, shipAvailable: boolean) => {
+    try {
+      const { data: backorderId, error } = await supabase.rpc("validate_delivery", {
+        p_delivery_id: delivery.id,
+        p_ship_available: shipAvailable,
+      });
+      if (error) throw error;
+
+      toast.success(
+        backorderId
+          ? "Available stock shipped. A backorder was created for the rest"
+          : "Delivery validated and stock updated"
+      );
+      setShortDelivery(null);
       loadDeliveries();
+      loadAvailability();
+      loadLotLevels();
+      loadLocationLevels();
     } catch (error: any) {
       toast.error(error.message || "Failed to validate delivery");
     }
   };
 
+  const handleConfirmDelivery = async (delivery: any) => {
+    try {
+      const { error } = await supabase.rpc("confirm_delivery", { p_delivery_id: delivery.id });
+      if (error) throw error;
+
+      toast.success("Delivery marked as todo");
+      loadDeliveries();
+      loadAvailability();
+    } catch (error: any) {
+      toast.error(error.message || "Failed to update delivery");
+    }
+  };
+
+  const handleCancelDelivery = async (reason: string) => {
+    try {
+      const { error } = await supabase.rpc("cancel_delivery", {
+        p_delivery_id: cancelingDelivery.id,
+        p_reason: reason,
+      });
+      if (error) throw error;
+
+      toast.success("Delivery canceled");
+      setCancelingDelivery(null);
+      loadDeliveries();
+      loadAvailability();
+    } catch (error: any) {
+      toast.error(error.message || "Failed to cancel delivery");
+    }
+  };
+
+  const handleReverseDelivery = async () => {
+    try {
+      const { error } = await supabase.rpc("reverse_delivery", { p_delivery_id: reversingDelivery.id });
+      if (error) throw error;
+
+      toast.success("Delivery reversed and stock restored");
+      setReversingDelivery(null);
+      loadDeliveries();
+      loadAvailability();
+      loadLotLevels();
+      loadLocationLevels();
+    } catch (error: any) {
+      toast.error(error.message || "Failed to reverse delivery");
+    }
+  };
+
+  const deliveriesById = new Map(deliveries.map((d) => [d.id, d]));
+  const productsById = new Map(products.map((p) => [p.id, p]));
+  const reversalsById = new Map(deliveries.filter((d) => d.reversal_of_id).map((d) => [d.reversal_of_id, d]));
+
   return (
     <div className="space-y-6">
       <div className="flex justify-between items-center">
@@ -156,18 +374,28 @@ const Deliveries = () => {
               Create Delivery
             </Button>
           </DialogTrigger>
-          <DialogContent className="max-w-2xl max-h-[80vh] overflow-y-auto">
+          <DialogContent className="max-w-3xl max-h-[80vh] overflow-y-auto">
             <DialogHeader>
               <DialogTitle>Create New Delivery</DialogTitle>
             </DialogHeader>
             <form onSubmit={handleSubmit} className="space-y-4">
               <div className="space-y-2">
-                <Label htmlFor="customer_name">Customer Name</Label>
-                <Input id="customer_name" name="customer_name" required />
+                <Label>Customer</Label>
+                <PartnerPicker
+                  partners={partners}
+                  value={selectedPartner?.id ?? ""}
+                  onChange={selectPartner}
+                  placeholder="Select customer"
+                />
               </div>
               <div className="space-y-2">
                 <Label htmlFor="warehouse_id">Warehouse</Label>
-                <Select name="warehouse_id" required>
+                <Select
+                  name="warehouse_id"
+                  value={selectedWarehouse}
+                  onValueChange={setSelectedWarehouse}
+                  required
+                >
                   <SelectTrigger>
                     <SelectValue placeholder="Select warehouse" />
                   </SelectTrigger>
@@ -183,43 +411,158 @@ const Deliveries = () => {
               <div className="space-y-2">
                 <Label>Products</Label>
                 {selectedProducts.map((item, index) => (
-                  <div key={index} className="flex gap-2">
-                    <Select
-                      value={item.productId}
-                      onValueChange={(value) => {
-                        const newProducts = [...selectedProducts];
-                        newProducts[index].productId = value;
-                        setSelectedProducts(newProducts);
-                      }}
-                    >
-                      <SelectTrigger className="flex-1">
-                        <SelectValue placeholder="Select product" />
-                      </SelectTrigger>
-                      <SelectContent>
-                        {products.map((p) => (
-                          <SelectItem key={p.id} value={p.id}>
-                            {p.name} ({p.sku})
-                          </SelectItem>
-                        ))}
-                      </SelectContent>
-                    </Select>
-                    <Input
-                      type="number"
-                      placeholder="Quantity"
-                      value={item.quantity}
-                      onChange={(e) => {
-                        const newProducts = [...selectedProducts];
-                        newProducts[index].quantity = parseInt(e.target.value) || 0;
-                        setSelectedProducts(newProducts);
-                      }}
-                      className="w-32"
-                    />
+                  <div key={index} className="space-y-1">
+                    <div className="flex gap-2">
+                      <Select
+                        value={item.productId}
+                        onValueChange={(value) => {
+                          const newProducts = [...selectedProducts];
+                          newProducts[index].productId = value;
+                          newProducts[index].lotId = "auto";
+                          newProducts[index].serialIds = [];
+                          newProducts[index].locationId = getDefaultLocation(value);
+                          newProducts[index].uomId =
+                            productsById.get(value)?.sales_uom_id ?? productsById.get(value)?.uom_id ?? "";
+                          setSelectedProducts(newProducts);
+                        }}
+                      >
+                        <SelectTrigger className="flex-1">
+                          <SelectValue placeholder="Select product" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {products.map((p) => (
+                            <SelectItem key={p.id} value={p.id}>
+                              {p.name} ({p.sku})
+                              {selectedWarehouse && ` · ${getAvailable(p.id)} available`}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      {productsById.get(item.productId)?.tracking === "lot" && (
+                        <Select
+                          value={item.lotId}
+                          onValueChange={(value) => {
+                            const newProducts = [...selectedProducts];
+                            newProducts[index].lotId = value;
+                            setSelectedProducts(newProducts);
+                          }}
+                        >
+                          <SelectTrigger className="w-56">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="auto">First expiry first</SelectItem>
+                            {getLots(item.productId).map((ll) => (
+                              <SelectItem key={ll.lot_id} value={ll.lot_id}>
+                                {ll.lots?.lot_number} · {ll.quantity}
+                                {ll.lots?.expiration_date &&
+                                  ` · ${isExpired(ll) ? "expired" : "exp."} ${new Date(
+                                    ll.lots.expiration_date
+                                  ).toLocaleDateString()}`}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      )}
+                      {getLocations(item.productId).length > 0 && (
+                        <Select
+                          value={item.locationId}
+                          onValueChange={(value) => {
+                            const newProducts = [...selectedProducts];
+                            newProducts[index].locationId = value;
+                            setSelectedProducts(newProducts);
+                          }}
+                        >
+                          <SelectTrigger className="w-40">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="any">Any location</SelectItem>
+                            {getLocations(item.productId).map((sl) => (
+                              <SelectItem key={sl.location_id} value={sl.location_id}>
+                                {sl.locations?.code} · {sl.quantity}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      )}
+                      {productsById.get(item.productId)?.tracking === "serial" && (
+                        <div className="w-44">
+                          <SerialPicker
+                            serials={getSerials(item.productId)}
+                            value={item.serialIds}
+                            onChange={(serialIds) => {
+                              const newProducts = [...selectedProducts];
+                              newProducts[index].serialIds = serialIds;
+                              newProducts[index].quantity = serialIds.length;
+                              setSelectedProducts(newProducts);
+                            }}
+                          />
+                        </div>
+                      )}
+                      <Input
+                        type="number"
+                        step="any"
+                        placeholder="Quantity"
+                        value={item.quantity}
+                        disabled={productsById.get(item.productId)?.tracking === "serial"}
+                        onChange={(e) => {
+                          const newProducts = [...selectedProducts];
+                          newProducts[index].quantity = parseFloat(e.target.value) || 0;
+                          setSelectedProducts(newProducts);
+                        }}
+                        className="w-32"
+                      />
+                      {productsById.get(item.productId)?.tracking !== "serial" && (
+                        <Select
+                          value={item.uomId}
+                          onValueChange={(value) => {
+                            const newProducts = [...selectedProducts];
+                            newProducts[index].uomId = value;
+                            setSelectedProducts(newProducts);
+                          }}
+                          disabled={!item.productId}
+                        >
+                          <SelectTrigger className="w-36">
+                            <SelectValue placeholder="Unit" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {getCompatibleUnits(units, productsById.get(item.productId)).map((u) => (
+                              <SelectItem key={u.id} value={u.id}>
+                                {u.name}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      )}
+                    </div>
+                    {productsById.get(item.productId)?.product_type === "kit" && selectedWarehouse && (
+                      <div className="text-xs text-muted-foreground">
+                        Components:{" "}
+                        {getComponents(item.productId)
+                          .map(
+                            (kc) =>
+                              `${getLineQuantity(item) * Number(kc.quantity)} × ${
+                                productsById.get(kc.component_id)?.name
+                              } (${getAvailable(kc.component_id)} available)`
+                          )
+                          .join(", ")}
+                        {getAvailable(item.productId) < getLineQuantity(item) && (
+                          <span className="text-destructive font-medium"> · Not enough components in stock</span>
+                        )}
+                      </div>
+                    )}
                   </div>
                 ))}
                 <Button
                   type="button"
                   variant="outline"
-                  onClick={() => setSelectedProducts([...selectedProducts, { productId: "", quantity: 0 }])}
+                  onClick={() =>
+                    setSelectedProducts([
+                      ...selectedProducts,
+                      { productId: "", lotId: "auto", serialIds: [], locationId: "any", uomId: "", quantity: 0 },
+                    ])
+                  }
                 >
                   Add Product
                 </Button>
@@ -252,22 +595,70 @@ const Deliveries = () => {
             <TableBody>
               {deliveries.map((delivery) => (
                 <TableRow key={delivery.id}>
-                  <TableCell className="font-mono">{delivery.delivery_number}</TableCell>
+                  <TableCell>
+                    <div className="font-mono">{delivery.delivery_number}</div>
+                    {delivery.sales_orders && (
+                      <div className="text-xs text-muted-foreground">From {delivery.sales_orders.so_number}</div>
+                    )}
+                    {delivery.backorder_of_id && (
+                      <div className="text-xs text-muted-foreground">
+                        Backorder of {deliveriesById.get(delivery.backorder_of_id)?.delivery_number}
+                      </div>
+                    )}
+                    {deliveries
+                      .filter((d) => d.backorder_of_id === delivery.id)
+                      .map((backorder) => (
+                        <div key={backorder.id} className="text-xs text-muted-foreground">
+                          Backordered as {backorder.delivery_number}
+                        </div>
+                      ))}
+                    {delivery.reversal_of_id && (
+                      <div className="text-xs text-muted-foreground">
+                        Reversal of {deliveriesById.get(delivery.reversal_of_id)?.delivery_number}
+                      </div>
+                    )}
+                    {reversalsById.has(delivery.id) && (
+                      <div className="text-xs text-muted-foreground">
+                        Reversed by {reversalsById.get(delivery.id).delivery_number}
+                      </div>
+                    )}
+                  </TableCell>
                   <TableCell>{delivery.customer_name}</TableCell>
                   <TableCell>{delivery.warehouses?.name}</TableCell>
                   <TableCell>
-                    <Badge variant={delivery.status === "done" ? "default" : "secondary"}>
-                      {delivery.status}
-                    </Badge>
+                    <StatusBadge status={delivery.status} />
+                    {delivery.cancel_reason && (
+                      <div className="text-xs text-muted-foreground">{delivery.cancel_reason}</div>
+                    )}
                   </TableCell>
                   <TableCell>{new Date(delivery.created_at).toLocaleDateString()}</TableCell>
                   <TableCell>
-                    {delivery.status !== "done" && (
-                      <Button size="sm" onClick={() => handleValidateDelivery(delivery)}>
-                        <Check className="mr-1 h-3 w-3" />
-                        Validate
-                      </Button>
-                    )}
+                    <div className="flex gap-2">
+                      {delivery.status === "draft" && (
+                        <Button size="sm" variant="outline" onClick={() => handleConfirmDelivery(delivery)}>
+                          <ListTodo className="mr-1 h-3 w-3" />
+                          Mark as Todo
+                        </Button>
+                      )}
+                      {!["done", "canceled"].includes(delivery.status) && (
+                        <>
+                          <Button size="sm" onClick={() => handleValidateDelivery(delivery)}>
+                            <Check className="mr-1 h-3 w-3" />
+                            Validate
+                          </Button>
+                          <Button size="sm" variant="ghost" onClick={() => setCancelingDelivery(delivery)}>
+                            <X className="mr-1 h-3 w-3" />
+                            Cancel
+                          </Button>
+                        </>
+                      )}
+                      {delivery.status === "done" && !delivery.reversal_of_id && !reversalsById.has(delivery.id) && (
+                        <Button size="sm" variant="outline" onClick={() => setReversingDelivery(delivery)}>
+                          <Undo2 className="mr-1 h-3 w-3" />
+                          Reverse
+                        </Button>
+                      )}
+                    </div>
                   </TableCell>
                 </TableRow>
               ))}
@@ -282,6 +673,123 @@ const Deliveries = () => {
           </Table>
         </CardContent>
       </Card>
+
+      <Dialog open={!!shortDelivery} onOpenChange={(open) => !open && setShortDelivery(null)}>
+        <DialogContent className="max-w-2xl max-h-[80vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Insufficient Stock for {shortDelivery?.delivery_number}</DialogTitle>
+          </DialogHeader>
+          <p className="text-sm text-muted-foreground">
+            Not every line can be shipped in full. Ship what is available and backorder the rest, or cancel
+            and leave the delivery unchanged.
+          </p>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Product</TableHead>
+                <TableHead>Ordered</TableHead>
+                <TableHead>Available</TableHead>
+                <TableHead>Backorder</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {shortLines.map((line) => {
+                const product = products.find((p) => p.id === line.product_id);
+                const shortfall = Number(line.quantity) - Number(line.available_quantity);
+
+                return (
+                  <TableRow key={line.line_id}>
+                    <TableCell>
+                      {product?.name} ({product?.sku})
+                    </TableCell>
+                    <TableCell>{line.quantity}</TableCell>
+                    <TableCell>{line.available_quantity}</TableCell>
+                    <TableCell className={shortfall > 0 ? "text-destructive font-medium" : ""}>
+                      {shortfall}
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+          <div className="flex gap-2">
+            <Button variant="outline" className="flex-1" onClick={() => setShortDelivery(null)}>
+              Cancel
+            </Button>
+            <Button
+              className="flex-1"
+              disabled={!shortLines.some((line) => Number(line.available_quantity) > 0)}
+              onClick={() => validateDelivery(shortDelivery, true)}
+            >
+              <Check className="mr-2 h-4 w-4" />
+              Ship Available &amp; Backorder Rest
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!serialDelivery} onOpenChange={(open) => !open && setSerialDelivery(null)}>
+        <DialogContent className="max-w-2xl max-h-[80vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Choose Serials for {serialDelivery?.delivery_number}</DialogTitle>
+          </DialogHeader>
+          <p className="text-sm text-muted-foreground">
+            Pick the serial number of every unit that ships before validating the delivery.
+          </p>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Product</TableHead>
+                <TableHead>Quantity</TableHead>
+                <TableHead>Serials</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {serialLines.map((line, index) => (
+                <TableRow key={line.id}>
+                  <TableCell>
+                    {line.products?.name} ({line.products?.sku})
+                  </TableCell>
+                  <TableCell>
+                    {line.serialIds.length} / {line.quantity}
+                  </TableCell>
+                  <TableCell className="w-56">
+                    <SerialPicker
+                      serials={getSerials(line.product_id, serialDelivery?.warehouse_id)}
+                      value={line.serialIds}
+                      onChange={(serialIds) => {
+                        const newLines = [...serialLines];
+                        newLines[index].serialIds = serialIds;
+                        setSerialLines(newLines);
+                      }}
+                    />
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+          <Button
+            className="w-full"
+            disabled={serialLines.some((line) => line.serialIds.length !== Number(line.quantity))}
+            onClick={handleSetSerials}
+          >
+            <Check className="mr-2 h-4 w-4" />
+            Validate
+          </Button>
+        </DialogContent>
+      </Dialog>
+
+      <CancelDocumentDialog
+        documentNumber={cancelingDelivery?.delivery_number ?? null}
+        onClose={() => setCancelingDelivery(null)}
+        onConfirm={handleCancelDelivery}
+      />
+
+      <ReverseDocumentDialog
+        documentNumber={reversingDelivery?.delivery_number ?? null}
+        onClose={() => setReversingDelivery(null)}
+        onConfirm={handleReverseDelivery}
+      />
     </div>
   );
 };
@@ -0,0 +1,99 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+
+const ExpiredStock = () => {
+  const [expired, setExpired] = useState<any[]>([]);
+  const [products, setProducts] = useState<any[]>([]);
+  const [warehouses, setWarehouses] = useState<any[]>([]);
+
+  useEffect(() => {
+    loadExpired();
+    loadProducts();
+    loadWarehouses();
+  }, []);
+
+  const loadExpired = async () => {
+    const { data } = await supabase
+      .from("lot_expiry")
+      .select("*")
+      .lt("days_left", 0)
+      .order("expiration_date");
+    setExpired(data || []);
+  };
+
+  const loadProducts = async () => {
+    const { data } = await supabase.from("products").select("*").order("name");
+    setProducts(data || []);
+  };
+
+  const loadWarehouses = async () => {
+    const { data } = await supabase.from("warehouses").select("*").order("name");
+    setWarehouses(data || []);
+  };
+
+  const productsById = new Map(products.map((p) => [p.id, p]));
+  const warehousesWithExpired = warehouses.filter((w) => expired.some((e) => e.warehouse_id === w.id));
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold">Expired Stock</h1>
+        <p className="text-muted-foreground">Lots past their expiration date still in stock, by warehouse</p>
+      </div>
+
+      {warehousesWithExpired.map((warehouse) => {
+        const rows = expired.filter((e) => e.warehouse_id === warehouse.id);
+
+        return (
+          <Card key={warehouse.id}>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0">
+              <CardTitle>{warehouse.name}</CardTitle>
+              <Badge variant="destructive">{rows.length} expired</Badge>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>SKU</TableHead>
+                    <TableHead>Product</TableHead>
+                    <TableHead>Lot</TableHead>
+                    <TableHead>On Hand</TableHead>
+                    <TableHead>Expired On</TableHead>
+                    <TableHead>Days Past</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {rows.map((row) => {
+                    const product = productsById.get(row.product_id);
+
+                    return (
+                      <TableRow key={row.lot_id}>
+                        <TableCell className="font-mono">{product?.sku}</TableCell>
+                        <TableCell className="font-medium">{product?.name}</TableCell>
+                        <TableCell className="font-mono">{row.lot_number}</TableCell>
+                        <TableCell>{row.quantity}</TableCell>
+                        <TableCell>{new Date(row.expiration_date).toLocaleDateString()}</TableCell>
+                        <TableCell className="text-destructive font-medium">{-row.days_left}</TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        );
+      })}
+
+      {warehousesWithExpired.length === 0 && (
+        <Card>
+          <CardContent className="pt-6 text-center text-muted-foreground">No expired stock found</CardContent>
+        </Card>
+      )}
+    </div>
+  );
+};
+
+export default ExpiredStock;
@@ -0,0 +1,234 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import { toast } from "sonner";
+import { Plus, Pencil } from "lucide-react";
+import { locationTypeLabels, sortLocationTree } from "@/lib/locations";
+
+const Locations = () => {
+  const [warehouses, setWarehouses] = useState<any[]>([]);
+  const [locations, setLocations] = useState<any[]>([]);
+  const [locationLevels, setLocationLevels] = useState<any[]>([]);
+  const [selectedWarehouse, setSelectedWarehouse] = useState("");
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingLocation, setEditingLocation] = useState<any>(null);
+  const [parentId, setParentId] = useState("none");
+
+  useEffect(() => {
+    loadWarehouses();
+    loadLocations();
+    loadLocationLevels();
+  }, []);
+
+  const loadWarehouses = async () => {
+    const { data } = await supabase.from("warehouses").select("*").order("name");
+    setWarehouses(data || []);
+    if (data && data.length > 0) {
+      setSelectedWarehouse((current) => current || data[0].id);
+    }
+  };
+
+  const loadLocations = async () => {
+    const { data } = await supabase.from("locations").select("*").order("code");
+    setLocations(data || []);
+  };
+
+  const loadLocationLevels = async () => {
+    const { data } = await supabase
+      .from("stock_location_levels")
+      .select("*, products(name, sku)")
+      .gt("quantity", 0);
+    setLocationLevels(data || []);
+  };
+
+  const openDialog = (location: any, parent: string | null = null) => {
+    setEditingLocation(location);
+    setParentId(location?.parent_id ?? parent ?? "none");
+    setDialogOpen(true);
+  };
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const formData = new FormData(e.currentTarget);
+
+    const location = {
+      warehouse_id: selectedWarehouse,
+      parent_id: parentId !== "none" ? parentId : null,
+      name: (formData.get("name") as string).trim(),
+      code: (formData.get("code") as string).trim().toUpperCase(),
+      location_type: formData.get("location_type") as string,
+    };
+
+    try {
+      const { error } = editingLocation
+        ? await supabase.from("locations").update(location).eq("id", editingLocation.id)
+        : await supabase.from("locations").insert(location);
+
+      if (error) throw error;
+
+      toast.success(editingLocation ? "Location updated successfully" : "Location created successfully");
+      setDialogOpen(false);
+      loadLocations();
+    } catch (error: any) {
+      toast.error(error.message || "Failed to save location");
+    }
+  };
+
+  const warehouseLocations = sortLocationTree(locations.filter((l) => l.warehouse_id === selectedWarehouse));
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-3xl font-bold">Locations</h1>
+          <p className="text-muted-foreground">Zones, aisles, racks and bins inside each warehouse</p>
+        </div>
+        <Button onClick={() => openDialog(null)} disabled={!selectedWarehouse}>
+          <Plus className="mr-2 h-4 w-4" />
+          Add Location
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-4">
+            <span>Location Tree</span>
+            <Select value={selectedWarehouse} onValueChange={setSelectedWarehouse}>
+              <SelectTrigger className="w-64">
+                <SelectValue placeholder="Select warehouse" />
+              </SelectTrigger>
+              <SelectContent>
+                {warehouses.map((wh) => (
+                  <SelectItem key={wh.id} value={wh.id}>
+                    {wh.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Code</TableHead>
+                <TableHead>Name</TableHead>
+                <TableHead>Type</TableHead>
+                <TableHead>Stock</TableHead>
+                <TableHead>Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {warehouseLocations.map((location) => (
+                <TableRow key={location.id}>
+                  <TableCell className="font-mono" style={{ paddingLeft: `${1 + location.depth * 1.5}rem` }}>
+                    {location.code}
+                  </TableCell>
+                  <TableCell className="font-medium">{location.name}</TableCell>
+                  <TableCell>
+                    <Badge variant="outline">
+                      {locationTypeLabels[location.location_type] || location.location_type}
+                    </Badge>
+                  </TableCell>
+                  <TableCell>
+                    {locationLevels
+                      .filter((sl) => sl.location_id === location.id)
+                      .map((sl) => (
+                        <div key={sl.id} className="text-sm">
+                          {sl.products?.name} × {sl.quantity}
+                        </div>
+                      ))}
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex gap-2">
+                      <Button size="sm" variant="ghost" onClick={() => openDialog(location)}>
+                        <Pencil className="mr-1 h-3 w-3" />
+                        Edit
+                      </Button>
+                      <Button size="sm" variant="ghost" onClick={() => openDialog(null, location.id)}>
+                        <Plus className="mr-1 h-3 w-3" />
+                        Add Inside
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+              {warehouseLocations.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={5} className="text-center text-muted-foreground">
+                    No locations found
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editingLocation ? `Edit ${editingLocation.code}` : "Create New Location"}</DialogTitle>
+          </DialogHeader>
+          <form key={editingLocation?.id ?? "new"} onSubmit={handleSubmit} className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="code">Code</Label>
+                <Input id="code" name="code" defaultValue={editingLocation?.code} required />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="location_type">Type</Label>
+                <Select name="location_type" defaultValue={editingLocation?.location_type ?? "bin"}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(locationTypeLabels).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="name">Name</Label>
+              <Input id="name" name="name" defaultValue={editingLocation?.name} required />
+            </div>
+            <div className="space-y-2">
+              <Label>Inside</Label>
+              <Select value={parentId} onValueChange={setParentId}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">Warehouse (top level)</SelectItem>
+                  {warehouseLocations
+                    .filter((l) => l.id !== editingLocation?.id)
+                    .map((l) => (
+                      <SelectItem key={l.id} value={l.id}>
+                        {l.code} · {l.name}
+                      </SelectItem>
+                    ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Button type="submit" className="w-full">
+              {editingLocation ? "Save Location" : "Create Location"}
+            </Button>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default Locations;
@@ -0,0 +1,109 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+
+const LowStock = () => {
+  const [lowStock, setLowStock] = useState<any[]>([]);
+  const [products, setProducts] = useState<any[]>([]);
+  const [warehouses, setWarehouses] = useState<any[]>([]);
+  const [rules, setRules] = useState<any[]>([]);
+
+  useEffect(() => {
+    loadLowStock();
+    loadProducts();
+    loadWarehouses();
+    loadRules();
+  }, []);
+
+  const loadLowStock = async () => {
+    const { data } = await supabase.from("low_stock").select("*");
+    setLowStock(data || []);
+  };
+
+  const loadProducts = async () => {
+    const { data } = await supabase.from("products").select("*").order("name");
+    setProducts(data || []);
+  };
+
+  const loadWarehouses = async () => {
+    const { data } = await supabase.from("warehouses").select("*").order("name");
+    setWarehouses(data || []);
+  };
+
+  const loadRules = async () => {
+    const { data } = await supabase.from("reorder_rules").select("product_id, warehouse_id");
+    setRules(data || []);
+  };
+
+  const productsById = new Map(products.map((p) => [p.id, p]));
+  const warehousesWithLowStock = warehouses.filter((w) => lowStock.some((ls) => ls.warehouse_id === w.id));
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold">Low Stock</h1>
+        <p className="text-muted-foreground">Products at or below their reorder level, by warehouse</p>
+      </div>
+
+      {warehousesWithLowStock.map((warehouse) => {
+        const rows = lowStock
+          .filter((ls) => ls.warehouse_id === warehouse.id)
+          .sort((a, b) =>
+            (productsById.get(a.product_id)?.name ?? "").localeCompare(productsById.get(b.product_id)?.name ?? "")
+          );
+
+        return (
+          <Card key={warehouse.id}>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0">
+              <CardTitle>{warehouse.name}</CardTitle>
+              <Badge variant="destructive">{rows.length} low</Badge>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>SKU</TableHead>
+                    <TableHead>Product</TableHead>
+                    <TableHead>On Hand</TableHead>
+                    <TableHead>Reorder Level</TableHead>
+                    <TableHead>Threshold From</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {rows.map((row) => {
+                    const product = productsById.get(row.product_id);
+                    const hasRule = rules.some(
+                      (r) => r.product_id === row.product_id && r.warehouse_id === row.warehouse_id
+                    );
+
+                    return (
+                      <TableRow key={row.product_id}>
+                        <TableCell className="font-mono">{product?.sku}</TableCell>
+                        <TableCell className="font-medium">{product?.name}</TableCell>
+                        <TableCell>{row.quantity}</TableCell>
+                        <TableCell>{row.reorder_level}</TableCell>
+                        <TableCell className="text-muted-foreground">
+                          {hasRule ? "Reorder rule" : "Product default"}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        );
+      })}
+
+      {warehousesWithLowStock.length === 0 && (
+        <Card>
+          <CardContent className="pt-6 text-center text-muted-foreground">No low stock found</CardContent>
+        </Card>
+      )}
+    </div>
+  );
+};
+
+export default LowStock;
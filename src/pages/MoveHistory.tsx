@@ -4,41 +4,70 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Badge } from "@/components/ui/badge";
-import { ArrowUp, ArrowDown, ArrowRightLeft, ClipboardCheck } from "lucide-react";
+import { ArrowUp, ArrowDown, ArrowRightLeft, ClipboardCheck, Undo2 } from "lucide-react";
+import { DocumentRef, loadMovementDocuments, movementLabels } from "@/lib/documents";
 
 const MoveHistory = () => {
   const [movements, setMovements] = useState<any[]>([]);
   const [products, setProducts] = useState<any[]>([]);
+  const [lots, setLots] = useState<any[]>([]);
+  const [documents, setDocuments] = useState<Map<string, DocumentRef>>(new Map());
   const [selectedProduct, setSelectedProduct] = useState("all");
+  const [selectedLot, setSelectedLot] = useState("all");
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
-    loadMovements();
     loadProducts();
+    loadLots();
   }, []);
 
-  const loadMovements = async () => {
-    try {
-      const { data, error } = await supabase
-        .from("stock_movements")
-        .select("*, products(name, sku), warehouses(name), profiles(full_name)")
-        .order("created_at", { ascending: false })
-        .limit(100);
-
-      if (error) throw error;
-      setMovements(data || []);
-    } catch (error) {
-      console.error("Error loading movements:", error);
-    } finally {
-      setLoading(false);
-    }
-  };
+  useEffect(() => {
+    // Responses for a lot that is no longer selected are dropped
+    let ignore = false;
+
+    const loadMovements = async () => {
+      try {
+        let query = supabase
+          .from("stock_movements")
+          .select(
+            "*, products(name, sku), warehouses(name), profiles(full_name), lots(lot_number), locations(code), delivery_lines(products(name, sku))"
+          )
+          .order("created_at", { ascending: false });
+
+        // A lot's full trace is loaded; otherwise only the latest movements
+        query = selectedLot === "all" ? query.limit(100) : query.eq("lot_id", selectedLot);
+
+        const { data, error } = await query;
+
+        if (error) throw error;
+        if (ignore) return;
+        setMovements(data || []);
+
+        const documents = await loadMovementDocuments(data || []);
+        if (!ignore) setDocuments(documents);
+      } catch (error) {
+        console.error("Error loading movements:", error);
+      } finally {
+        if (!ignore) setLoading(false);
+      }
+    };
+
+    loadMovements();
+    return () => {
+      ignore = true;
+    };
+  }, [selectedLot]);
 
   const loadProducts = async () => {
     const { data } = await supabase.from("products").select("id, name").order("name");
     setProducts(data || []);
   };
 
+  const loadLots = async () => {
+    const { data } = await supabase.from("lots").select("id, lot_number, products(name)").order("lot_number");
+    setLots(data || []);
+  };
+
   const getMovementIcon = (type: string) => {
     switch (type) {
       case "receipt":
@@ -50,22 +79,15 @@ const MoveHistory = () => {
         return <ArrowRightLeft className="h-4 w-4 text-primary" />;
       case "adjustment":
         return <ClipboardCheck className="h-4 w-4 text-warning" />;
+      case "return_in":
+        return <Undo2 className="h-4 w-4 text-success" />;
+      case "return_out":
+        return <Undo2 className="h-4 w-4 text-destructive" />;
       default:
         return null;
     }
   };
 
-  const getMovementLabel = (type: string) => {
-    const labels: Record<string, string> = {
-      receipt: "Receipt",
-      delivery: "Delivery",
-      transfer_in: "Transfer In",
-      transfer_out: "Transfer Out",
-      adjustment: "Adjustment",
-    };
-    return labels[type] || type;
-  };
-
   const filteredMovements =
     selectedProduct === "all"
       ? movements
@@ -82,6 +104,19 @@ const MoveHistory = () => {
         <CardHeader>
           <CardTitle className="flex items-center gap-4">
             <span>Stock Movement Ledger</span>
+            <Select value={selectedLot} onValueChange={setSelectedLot}>
+              <SelectTrigger className="w-64">
+                <SelectValue placeholder="Filter by lot" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Lots</SelectItem>
+                {lots.map((lot) => (
+                  <SelectItem key={lot.id} value={lot.id}>
+                    {lot.lot_number} ({lot.products?.name})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
             <Select value={selectedProduct} onValueChange={setSelectedProduct}>
               <SelectTrigger className="w-64">
                 <SelectValue placeholder="Filter by product" />
@@ -109,7 +144,9 @@ const MoveHistory = () => {
                   <TableHead>Date</TableHead>
                   <TableHead>Type</TableHead>
                   <TableHead>Product</TableHead>
+                  <TableHead>Lot</TableHead>
                   <TableHead>Warehouse</TableHead>
+                  <TableHead>Document</TableHead>
                   <TableHead>Quantity</TableHead>
                   <TableHead>Created By</TableHead>
                   <TableHead>Notes</TableHead>
@@ -124,16 +161,35 @@ const MoveHistory = () => {
                     <TableCell>
                       <Badge variant="outline" className="gap-2">
                         {getMovementIcon(movement.movement_type)}
-                        {getMovementLabel(movement.movement_type)}
+                        {movementLabels[movement.movement_type] || movement.movement_type}
                       </Badge>
                     </TableCell>
                     <TableCell>
                       <div>
                         <div className="font-medium">{movement.products?.name}</div>
                         <div className="text-xs text-muted-foreground">{movement.products?.sku}</div>
+                        {movement.delivery_lines && (
+                          <div className="text-xs text-muted-foreground">
+                            Sold as kit {movement.delivery_lines.products?.name}
+                          </div>
+                        )}
                       </div>
                     </TableCell>
-                    <TableCell>{movement.warehouses?.name}</TableCell>
+                    <TableCell className="font-mono text-sm">{movement.lots?.lot_number || "-"}</TableCell>
+                    <TableCell>
+                      <div>{movement.warehouses?.name}</div>
+                      {movement.locations && (
+                        <div className="text-xs font-mono text-muted-foreground">{movement.locations.code}</div>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <div className="font-mono text-sm">{documents.get(movement.reference_id)?.number || "-"}</div>
+                      {documents.get(movement.reference_id)?.partner && (
+                        <div className="text-xs text-muted-foreground">
+                          {documents.get(movement.reference_id).partner}
+                        </div>
+                      )}
+                    </TableCell>
                     <TableCell>
                       <span
                         className={`font-medium ${
@@ -150,7 +206,7 @@ const MoveHistory = () => {
                 ))}
                 {filteredMovements.length === 0 && (
                   <TableRow>
-                    <TableCell colSpan={7} className="text-center text-muted-foreground">
+                    <TableCell colSpan={9} className="text-center text-muted-foreground">
                       No movements found
                     </TableCell>
                   </TableRow>
@@ -0,0 +1,241 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardHeader } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import { toast } from "sonner";
+import { Plus, Search, Pencil } from "lucide-react";
+
+const partnerTypeLabels: Record<string, string> = {
+  supplier: "Supplier",
+  customer: "Customer",
+  both: "Supplier & Customer",
+};
+
+const Partners = () => {
+  const [partners, setPartners] = useState<any[]>([]);
+  const [warehouses, setWarehouses] = useState<any[]>([]);
+  const [searchTerm, setSearchTerm] = useState("");
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingPartner, setEditingPartner] = useState<any>(null);
+
+  useEffect(() => {
+    loadPartners();
+    loadWarehouses();
+  }, []);
+
+  const loadPartners = async () => {
+    const { data } = await supabase.from("partners").select("*, warehouses(name)").order("name");
+    setPartners(data || []);
+  };
+
+  const loadWarehouses = async () => {
+    const { data } = await supabase.from("warehouses").select("*").eq("active", true).order("name");
+    setWarehouses(data || []);
+  };
+
+  const openDialog = (partner: any) => {
+    setEditingPartner(partner);
+    setDialogOpen(true);
+  };
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const formData = new FormData(e.currentTarget);
+    const defaultWarehouse = formData.get("default_warehouse_id") as string;
+
+    const partner = {
+      name: (formData.get("name") as string).trim(),
+      type: formData.get("type") as string,
+      contact_name: (formData.get("contact_name") as string) || null,
+      email: (formData.get("email") as string) || null,
+      phone: (formData.get("phone") as string) || null,
+      billing_address: (formData.get("billing_address") as string) || null,
+      shipping_address: (formData.get("shipping_address") as string) || null,
+      default_warehouse_id: defaultWarehouse && defaultWarehouse !== "none" ? defaultWarehouse : null,
+    };
+
+    try {
+      const { error } = editingPartner
+        ? await supabase.from("partners").update(partner).eq("id", editingPartner.id)
+        : await supabase.from("partners").insert(partner);
+
+      if (error) throw error;
+
+      toast.success(editingPartner ? "Partner updated successfully" : "Partner created successfully");
+      setDialogOpen(false);
+      loadPartners();
+    } catch (error: any) {
+      toast.error(error.message || "Failed to save partner");
+    }
+  };
+
+  const filteredPartners = partners.filter(
+    (p) =>
+      p.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
+      (p.email || "").toLowerCase().includes(searchTerm.toLowerCase())
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-3xl font-bold">Partners</h1>
+          <p className="text-muted-foreground">Suppliers and customers</p>
+        </div>
+        <Button onClick={() => openDialog(null)}>
+          <Plus className="mr-2 h-4 w-4" />
+          Add Partner
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center gap-4">
+            <div className="relative flex-1">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+              <Input
+                placeholder="Search by name or email..."
+                value={searchTerm}
+                onChange={(e) => setSearchTerm(e.target.value)}
+                className="pl-10"
+              />
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Type</TableHead>
+                <TableHead>Contact</TableHead>
+                <TableHead>Default Warehouse</TableHead>
+                <TableHead>Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {filteredPartners.map((partner) => (
+                <TableRow key={partner.id}>
+                  <TableCell className="font-medium">{partner.name}</TableCell>
+                  <TableCell>
+                    <Badge variant="outline">{partnerTypeLabels[partner.type] || partner.type}</Badge>
+                  </TableCell>
+                  <TableCell>
+                    {partner.contact_name && <div>{partner.contact_name}</div>}
+                    {(partner.email || partner.phone) && (
+                      <div className="text-xs text-muted-foreground">
+                        {[partner.email, partner.phone].filter(Boolean).join(" · ")}
+                      </div>
+                    )}
+                  </TableCell>
+                  <TableCell>{partner.warehouses?.name || "-"}</TableCell>
+                  <TableCell>
+                    <Button size="sm" variant="ghost" onClick={() => openDialog(partner)}>
+                      <Pencil className="mr-1 h-3 w-3" />
+                      Edit
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+              {filteredPartners.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={5} className="text-center text-muted-foreground">
+                    No partners found
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="max-w-2xl max-h-[80vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingPartner ? `Edit ${editingPartner.name}` : "Create New Partner"}</DialogTitle>
+          </DialogHeader>
+          <form key={editingPartner?.id ?? "new"} onSubmit={handleSubmit} className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="name">Name</Label>
+                <Input id="name" name="name" defaultValue={editingPartner?.name} required />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="type">Type</Label>
+                <Select name="type" defaultValue={editingPartner?.type ?? "customer"}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(partnerTypeLabels).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="grid grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="contact_name">Contact Name</Label>
+                <Input id="contact_name" name="contact_name" defaultValue={editingPartner?.contact_name ?? ""} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="email">Email</Label>
+                <Input id="email" name="email" type="email" defaultValue={editingPartner?.email ?? ""} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="phone">Phone</Label>
+                <Input id="phone" name="phone" defaultValue={editingPartner?.phone ?? ""} />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="billing_address">Billing Address</Label>
+              <Input
+                id="billing_address"
+                name="billing_address"
+                defaultValue={editingPartner?.billing_address ?? ""}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="shipping_address">Shipping Address</Label>
+              <Input
+                id="shipping_address"
+                name="shipping_address"
+                defaultValue={editingPartner?.shipping_address ?? ""}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="default_warehouse_id">Default Warehouse</Label>
+              <Select name="default_warehouse_id" defaultValue={editingPartner?.default_warehouse_id ?? "none"}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">No default</SelectItem>
+                  {warehouses.map((wh) => (
+                    <SelectItem key={wh.id} value={wh.id}>
+                      {wh.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Button type="submit" className="w-full">
+              {editingPartner ? "Save Partner" : "Create Partner"}
+            </Button>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default Partners;
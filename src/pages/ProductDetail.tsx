@@ -0,0 +1,568 @@
+import { useCallback, useEffect, useState } from "react";
+import { Link, useParams } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Badge } from "@/components/ui/badge";
+import { toast } from "sonner";
+import { Archive, ArchiveRestore, ArrowLeft, Plus, Trash2 } from "lucide-react";
+import StatusBadge from "@/components/StatusBadge";
+import { DocumentRef, loadMovementDocuments, movementLabels } from "@/lib/documents";
+import { productTypeLabels, trackingLabels } from "@/lib/products";
+import { sortCategoryTree } from "@/lib/categories";
+import { readProductUnits } from "@/lib/uom";
+import ProductUnitFields from "@/components/ProductUnitFields";
+
+const OPEN_STATUSES = ["draft", "waiting", "ready"];
+
+const ProductDetail = () => {
+  const { id } = useParams();
+  const [product, setProduct] = useState<any>(null);
+  const [categories, setCategories] = useState<any[]>([]);
+  const [units, setUnits] = useState<any[]>([]);
+  const [stockLevels, setStockLevels] = useState<any[]>([]);
+  const [openDocuments, setOpenDocuments] = useState<any[]>([]);
+  const [movements, setMovements] = useState<any[]>([]);
+  const [documents, setDocuments] = useState<Map<string, DocumentRef>>(new Map());
+  const [kitComponents, setKitComponents] = useState<any[]>([]);
+  const [componentProducts, setComponentProducts] = useState<any[]>([]);
+
+  const loadProduct = useCallback(async () => {
+    const { data } = await supabase.from("products").select("*").eq("id", id).maybeSingle();
+    setProduct(data);
+  }, [id]);
+
+  const loadCategories = async () => {
+    const { data } = await supabase.from("product_categories").select("*").order("name");
+    setCategories(data || []);
+  };
+
+  const loadUnits = async () => {
+    const { data } = await supabase.from("units_of_measure").select("*").order("name");
+    setUnits(data || []);
+  };
+
+  const loadKitComponents = useCallback(async () => {
+    const { data } = await supabase
+      .from("kit_components")
+      .select("*, products!kit_components_component_id_fkey(name, sku, uom_id)")
+      .eq("kit_id", id)
+      .order("created_at");
+    setKitComponents(data || []);
+  }, [id]);
+
+  // Kits are made of stocked products that are not tracked by serial
+  const loadComponentProducts = async () => {
+    const { data } = await supabase
+      .from("products")
+      .select("*")
+      .eq("active", true)
+      .eq("product_type", "stock")
+      .neq("tracking", "serial")
+      .order("name");
+    setComponentProducts(data || []);
+  };
+
+  const loadStockLevels = useCallback(async () => {
+    const { data } = await supabase.from("stock_availability").select("*, warehouses(name)").eq("product_id", id);
+    setStockLevels(data || []);
+  }, [id]);
+
+  // Lines of this product on documents that have not moved stock yet
+  const loadOpenDocuments = useCallback(async () => {
+    const [receipts, deliveries, transfers, adjustments, purchaseOrders, salesOrders] = await Promise.all([
+      supabase
+        .from("receipt_lines")
+        .select("quantity, receipts!inner(receipt_number, status, created_at, warehouses(name))")
+        .eq("product_id", id)
+        .in("receipts.status", OPEN_STATUSES),
+      supabase
+        .from("delivery_lines")
+        .select("quantity, deliveries!inner(delivery_number, status, created_at, warehouses(name))")
+        .eq("product_id", id)
+        .in("deliveries.status", OPEN_STATUSES),
+      supabase
+        .from("transfer_lines")
+        .select(
+          "quantity, internal_transfers!inner(transfer_number, status, created_at, source:warehouses!internal_transfers_source_warehouse_id_fkey(name))"
+        )
+        .eq("product_id", id)
+        .in("internal_transfers.status", OPEN_STATUSES),
+      supabase
+        .from("stock_adjustments")
+        .select("adjustment_number, difference, status, created_at, warehouses(name)")
+        .eq("product_id", id)
+        .eq("status", "draft"),
+      supabase
+        .from("purchase_order_lines")
+        .select("quantity, purchase_orders!inner(po_number, status, created_at, warehouses(name))")
+        .eq("product_id", id)
+        .eq("purchase_orders.status", "draft"),
+      supabase
+        .from("sales_order_lines")
+        .select("quantity, sales_orders!inner(so_number, status, created_at, warehouses(name))")
+        .eq("product_id", id)
+        .eq("sales_orders.status", "draft"),
+    ]);
+
+    setOpenDocuments(
+      [
+        ...(receipts.data || []).map((l: any) => ({
+          type: "Receipt",
+          number: l.receipts.receipt_number,
+          warehouse: l.receipts.warehouses?.name,
+          quantity: l.quantity,
+          status: l.receipts.status,
+          created_at: l.receipts.created_at,
+        })),
+        ...(deliveries.data || []).map((l: any) => ({
+          type: "Delivery",
+          number: l.deliveries.delivery_number,
+          warehouse: l.deliveries.warehouses?.name,
+          quantity: l.quantity,
+          status: l.deliveries.status,
+          created_at: l.deliveries.created_at,
+        })),
+        ...(transfers.data || []).map((l: any) => ({
+          type: "Transfer",
+          number: l.internal_transfers.transfer_number,
+          warehouse: l.internal_transfers.source?.name,
+          quantity: l.quantity,
+          status: l.internal_transfers.status,
+          created_at: l.internal_transfers.created_at,
+        })),
+        ...(adjustments.data || []).map((a: any) => ({
+          type: "Adjustment",
+          number: a.adjustment_number,
+          warehouse: a.warehouses?.name,
+          quantity: a.difference,
+          status: a.status,
+          created_at: a.created_at,
+        })),
+        ...(purchaseOrders.data || []).map((l: any) => ({
+          type: "Purchase Order",
+          number: l.purchase_orders.po_number,
+          warehouse: l.purchase_orders.warehouses?.name,
+          quantity: l.quantity,
+          status: l.purchase_orders.status,
+          created_at: l.purchase_orders.created_at,
+        })),
+        ...(salesOrders.data || []).map((l: any) => ({
+          type: "Sales Order",
+          number: l.sales_orders.so_number,
+          warehouse: l.sales_orders.warehouses?.name,
+          quantity: l.quantity,
+          status: l.sales_orders.status,
+          created_at: l.sales_orders.created_at,
+        })),
+      ].sort((a, b) => b.created_at.localeCompare(a.created_at))
+    );
+  }, [id]);
+
+  const loadMovements = useCallback(async () => {
+    const { data } = await supabase
+      .from("stock_movements")
+      .select("*, warehouses(name), lots(lot_number), locations(code), delivery_lines(products(name, sku))")
+      .eq("product_id", id)
+      .order("created_at", { ascending: false });
+
+    setMovements(data || []);
+    loadMovementDocuments(data || []).then(setDocuments);
+  }, [id]);
+
+  useEffect(() => {
+    loadProduct();
+    loadCategories();
+    loadUnits();
+    loadStockLevels();
+    loadOpenDocuments();
+    loadMovements();
+    loadKitComponents();
+    loadComponentProducts();
+  }, [loadProduct, loadStockLevels, loadOpenDocuments, loadMovements, loadKitComponents]);
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const formData = new FormData(e.currentTarget);
+
+    try {
+      const { error } = await supabase
+        .from("products")
+        .update({
+          name: (formData.get("name") as string).trim(),
+          sku: (formData.get("sku") as string).trim(),
+          category_id: (formData.get("category_id") as string) || null,
+          ...readProductUnits(formData),
+          reorder_level: parseInt(formData.get("reorder_level") as string),
+        })
+        .eq("id", id);
+
+      if (error) throw error;
+
+      toast.success("Product updated successfully");
+      loadProduct();
+    } catch (error: any) {
+      toast.error(error.message || "Failed to update product");
+    }
+  };
+
+  const handleAddComponent = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const form = e.currentTarget;
+    const formData = new FormData(form);
+
+    try {
+      const { error } = await supabase.from("kit_components").insert({
+        kit_id: id,
+        component_id: formData.get("component_id") as string,
+        quantity: parseFloat(formData.get("quantity") as string),
+      });
+
+      if (error) throw error;
+
+      toast.success("Component added");
+      form.reset();
+      loadKitComponents();
+    } catch (error: any) {
+      toast.error(error.message || "Failed to add component");
+    }
+  };
+
+  const handleRemoveComponent = async (component: any) => {
+    try {
+      const { error } = await supabase.from("kit_components").delete().eq("id", component.id);
+      if (error) throw error;
+
+      toast.success("Component removed");
+      loadKitComponents();
+    } catch (error: any) {
+      toast.error(error.message || "Failed to remove component");
+    }
+  };
+
+  const handleSetActive = async (active: boolean) => {
+    try {
+      const { error } = await supabase.from("products").update({ active }).eq("id", id);
+      if (error) throw error;
+
+      toast.success(active ? "Product restored" : "Product archived");
+      loadProduct();
+    } catch (error: any) {
+      toast.error(error.message || "Failed to update product");
+    }
+  };
+
+  const unitsById = new Map(units.map((u) => [u.id, u]));
+
+  if (!product) {
+    return (
+      <div className="flex justify-center py-8">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <Link to="/products" className="flex items-center gap-1 text-sm text-muted-foreground hover:underline">
+            <ArrowLeft className="h-3 w-3" />
+            Products
+          </Link>
+          <h1 className="text-3xl font-bold flex items-center gap-3">
+            {product.name}
+            {!product.active && <Badge variant="secondary">Archived</Badge>}
+          </h1>
+          <p className="text-muted-foreground font-mono">{product.sku}</p>
+        </div>
+        {product.active ? (
+          <Button variant="outline" onClick={() => handleSetActive(false)}>
+            <Archive className="mr-2 h-4 w-4" />
+            Archive Product
+          </Button>
+        ) : (
+          <Button variant="outline" onClick={() => handleSetActive(true)}>
+            <ArchiveRestore className="mr-2 h-4 w-4" />
+            Restore Product
+          </Button>
+        )}
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Details</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <form key={product.updated_at} onSubmit={handleSubmit} className="space-y-4">
+            <div className="grid grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="name">Product Name</Label>
+                <Input id="name" name="name" defaultValue={product.name} required />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="sku">SKU</Label>
+                <Input id="sku" name="sku" defaultValue={product.sku} required />
+              </div>
+              <div className="space-y-2">
+                <Label>Type</Label>
+                <Input value={productTypeLabels[product.product_type] || product.product_type} disabled />
+              </div>
+            </div>
+            <div className="grid grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="category_id">Category</Label>
+                <Select name="category_id" defaultValue={product.category_id ?? undefined}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select category" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {sortCategoryTree(categories).map((cat) => (
+                      <SelectItem key={cat.id} value={cat.id}>
+                        {cat.path}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="reorder_level">Reorder Level</Label>
+                <Input
+                  id="reorder_level"
+                  name="reorder_level"
+                  type="number"
+                  defaultValue={product.reorder_level ?? 0}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Tracking</Label>
+                <Input value={trackingLabels[product.tracking] || product.tracking} disabled />
+              </div>
+            </div>
+            {units.length > 0 && <ProductUnitFields units={units} product={product} />}
+            <Button type="submit">Save Product</Button>
+          </form>
+        </CardContent>
+      </Card>
+
+      {product.product_type === "kit" && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Components</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Component</TableHead>
+                  <TableHead>Quantity per Kit</TableHead>
+                  <TableHead>Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {kitComponents.map((component) => (
+                  <TableRow key={component.id}>
+                    <TableCell>
+                      <Link to={`/products/${component.component_id}`} className="font-medium hover:underline">
+                        {component.products?.name}
+                      </Link>
+                      <div className="text-xs font-mono text-muted-foreground">{component.products?.sku}</div>
+                    </TableCell>
+                    <TableCell>
+                      {component.quantity} {unitsById.get(component.products?.uom_id)?.name}
+                    </TableCell>
+                    <TableCell>
+                      <Button size="sm" variant="ghost" onClick={() => handleRemoveComponent(component)}>
+                        <Trash2 className="mr-1 h-3 w-3" />
+                        Remove
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+                {kitComponents.length === 0 && (
+                  <TableRow>
+                    <TableCell colSpan={3} className="text-center text-muted-foreground">
+                      No components yet. A kit cannot be delivered until it has some.
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+            <form onSubmit={handleAddComponent} className="flex gap-2">
+              <Select name="component_id" required>
+                <SelectTrigger className="flex-1">
+                  <SelectValue placeholder="Select component" />
+                </SelectTrigger>
+                <SelectContent>
+                  {componentProducts
+                    .filter((p) => !kitComponents.some((kc) => kc.component_id === p.id))
+                    .map((p) => (
+                      <SelectItem key={p.id} value={p.id}>
+                        {p.name} ({p.sku})
+                      </SelectItem>
+                    ))}
+                </SelectContent>
+              </Select>
+              <Input name="quantity" type="number" step="any" min="0" placeholder="Quantity" className="w-32" required />
+              <Button type="submit" variant="outline">
+                <Plus className="mr-2 h-4 w-4" />
+                Add Component
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+      )}
+
+      <Tabs defaultValue="stock">
+        <TabsList>
+          <TabsTrigger value="stock">Stock</TabsTrigger>
+          <TabsTrigger value="documents">Open Documents ({openDocuments.length})</TabsTrigger>
+          <TabsTrigger value="movements">Movements</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="stock">
+          <Card>
+            <CardContent className="pt-6">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Warehouse</TableHead>
+                    <TableHead>On Hand</TableHead>
+                    <TableHead>Reserved</TableHead>
+                    <TableHead>Available</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {stockLevels.map((sl) => (
+                    <TableRow key={sl.warehouse_id}>
+                      <TableCell className="font-medium">{sl.warehouses?.name}</TableCell>
+                      <TableCell>{sl.quantity}</TableCell>
+                      <TableCell>{sl.reserved_quantity}</TableCell>
+                      <TableCell>{sl.available_quantity}</TableCell>
+                    </TableRow>
+                  ))}
+                  {stockLevels.length === 0 && (
+                    <TableRow>
+                      <TableCell colSpan={4} className="text-center text-muted-foreground">
+                        No stock found
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="documents">
+          <Card>
+            <CardContent className="pt-6">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Document</TableHead>
+                    <TableHead>Type</TableHead>
+                    <TableHead>Warehouse</TableHead>
+                    <TableHead>Quantity</TableHead>
+                    <TableHead>Created</TableHead>
+                    <TableHead>Status</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {openDocuments.map((doc, index) => (
+                    <TableRow key={index}>
+                      <TableCell className="font-mono">{doc.number}</TableCell>
+                      <TableCell>{doc.type}</TableCell>
+                      <TableCell>{doc.warehouse}</TableCell>
+                      <TableCell>{doc.quantity}</TableCell>
+                      <TableCell>{new Date(doc.created_at).toLocaleDateString()}</TableCell>
+                      <TableCell>
+                        <StatusBadge status={doc.status} />
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                  {openDocuments.length === 0 && (
+                    <TableRow>
+                      <TableCell colSpan={6} className="text-center text-muted-foreground">
+                        No open documents found
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="movements">
+          <Card>
+            <CardContent className="pt-6">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Type</TableHead>
+                    <TableHead>Lot</TableHead>
+                    <TableHead>Warehouse</TableHead>
+                    <TableHead>Document</TableHead>
+                    <TableHead>Quantity</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {movements.map((movement) => (
+                    <TableRow key={movement.id}>
+                      <TableCell className="font-mono text-sm">
+                        {new Date(movement.created_at).toLocaleString()}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant="outline">
+                          {movementLabels[movement.movement_type] || movement.movement_type}
+                        </Badge>
+                        {movement.delivery_lines && (
+                          <div className="text-xs text-muted-foreground">
+                            Sold as kit {movement.delivery_lines.products?.name}
+                          </div>
+                        )}
+                      </TableCell>
+                      <TableCell className="font-mono text-sm">{movement.lots?.lot_number || "-"}</TableCell>
+                      <TableCell>
+                        <div>{movement.warehouses?.name}</div>
+                        {movement.locations && (
+                          <div className="text-xs font-mono text-muted-foreground">{movement.locations.code}</div>
+                        )}
+                      </TableCell>
+                      <TableCell className="font-mono text-sm">
+                        {documents.get(movement.reference_id)?.number || "-"}
+                      </TableCell>
+                      <TableCell>
+                        <span className={`font-medium ${movement.quantity > 0 ? "text-success" : "text-destructive"}`}>
+                          {movement.quantity > 0 ? "+" : ""}
+                          {movement.quantity}
+                        </span>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                  {movements.length === 0 && (
+                    <TableRow>
+                      <TableCell colSpan={6} className="text-center text-muted-foreground">
+                        No movements found
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        </TabsContent>
+      </Tabs>
+    </div>
+  );
+};
+
+export default ProductDetail;
@@ -0,0 +1,459 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Badge } from "@/components/ui/badge";
+import { toast } from "sonner";
+import { Plus, Pencil, Layers } from "lucide-react";
+import { sortCategoryTree } from "@/lib/categories";
+import { trackingLabels } from "@/lib/products";
+
+const ProductTemplates = () => {
+  const [templates, setTemplates] = useState<any[]>([]);
+  const [attributes, setAttributes] = useState<any[]>([]);
+  const [categories, setCategories] = useState<any[]>([]);
+  const [units, setUnits] = useState<any[]>([]);
+  const [variants, setVariants] = useState<any[]>([]);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingTemplate, setEditingTemplate] = useState<any>(null);
+  const [selectedValues, setSelectedValues] = useState<string[]>([]);
+  const [attributeDialogOpen, setAttributeDialogOpen] = useState(false);
+  const [valueAttribute, setValueAttribute] = useState<any>(null);
+
+  useEffect(() => {
+    loadTemplates();
+    loadAttributes();
+    loadCategories();
+    loadUnits();
+    loadVariants();
+  }, []);
+
+  const loadTemplates = async () => {
+    const { data } = await supabase
+      .from("product_templates")
+      .select("*, product_template_values(value_id)")
+      .order("name");
+    setTemplates(data || []);
+  };
+
+  const loadAttributes = async () => {
+    const { data } = await supabase
+      .from("product_attributes")
+      .select("*, product_attribute_values(id, value)")
+      .order("name");
+    setAttributes(data || []);
+  };
+
+  const loadCategories = async () => {
+    const { data } = await supabase.from("product_categories").select("*").order("name");
+    setCategories(data || []);
+  };
+
+  const loadUnits = async () => {
+    const { data } = await supabase.from("units_of_measure").select("*").order("name");
+    setUnits(data || []);
+  };
+
+  const loadVariants = async () => {
+    const { data } = await supabase.from("products").select("id, template_id").not("template_id", "is", null);
+    setVariants(data || []);
+  };
+
+  const openDialog = (template: any) => {
+    setEditingTemplate(template);
+    setSelectedValues((template?.product_template_values || []).map((tv: any) => tv.value_id));
+    setDialogOpen(true);
+  };
+
+  // Template fields only apply to variants generated afterwards
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const formData = new FormData(e.currentTarget);
+
+    const template = {
+      name: (formData.get("name") as string).trim(),
+      sku: (formData.get("sku") as string).trim().toUpperCase(),
+      category_id: (formData.get("category_id") as string) || null,
+      uom_id: formData.get("uom_id") as string,
+      reorder_level: parseInt(formData.get("reorder_level") as string),
+      tracking: formData.get("tracking") as string,
+    };
+
+    try {
+      const { data: saved, error } = editingTemplate
+        ? await supabase.from("product_templates").update(template).eq("id", editingTemplate.id).select().single()
+        : await supabase.from("product_templates").insert(template).select().single();
+
+      if (error) throw error;
+
+      const currentValues = (editingTemplate?.product_template_values || []).map((tv: any) => tv.value_id);
+      const added = selectedValues.filter((id) => !currentValues.includes(id));
+      const removed = currentValues.filter((id: string) => !selectedValues.includes(id));
+
+      if (added.length > 0) {
+        const { error: addError } = await supabase
+          .from("product_template_values")
+          .insert(added.map((valueId) => ({ template_id: saved.id, value_id: valueId })));
+        if (addError) throw addError;
+      }
+
+      if (removed.length > 0) {
+        const { error: removeError } = await supabase
+          .from("product_template_values")
+          .delete()
+          .eq("template_id", saved.id)
+          .in("value_id", removed);
+        if (removeError) throw removeError;
+      }
+
+      toast.success(editingTemplate ? "Template updated successfully" : "Template created successfully");
+      setDialogOpen(false);
+      loadTemplates();
+    } catch (error: any) {
+      toast.error(error.message || "Failed to save template");
+    }
+  };
+
+  const handleGenerate = async (template: any) => {
+    try {
+      const { data: created, error } = await supabase.rpc("generate_product_variants", {
+        p_template_id: template.id,
+      });
+      if (error) throw error;
+
+      toast.success(created > 0 ? `${created} variants created` : "All variants already exist");
+      loadVariants();
+    } catch (error: any) {
+      toast.error(error.message || "Failed to generate variants");
+    }
+  };
+
+  const handleAttributeSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const formData = new FormData(e.currentTarget);
+    const values = (formData.get("values") as string)
+      .split(",")
+      .map((value) => value.trim())
+      .filter(Boolean);
+
+    try {
+      const { data: attribute, error } = await supabase
+        .from("product_attributes")
+        .insert({ name: (formData.get("name") as string).trim() })
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      if (values.length > 0) {
+        const { error: valuesError } = await supabase
+          .from("product_attribute_values")
+          .insert(values.map((value) => ({ attribute_id: attribute.id, value })));
+        if (valuesError) throw valuesError;
+      }
+
+      toast.success("Attribute created successfully");
+      setAttributeDialogOpen(false);
+      loadAttributes();
+    } catch (error: any) {
+      toast.error(error.message || "Failed to create attribute");
+    }
+  };
+
+  const handleValueSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const formData = new FormData(e.currentTarget);
+
+    try {
+      const { error } = await supabase
+        .from("product_attribute_values")
+        .insert({ attribute_id: valueAttribute.id, value: (formData.get("value") as string).trim() });
+
+      if (error) throw error;
+
+      toast.success("Value added");
+      setValueAttribute(null);
+      loadAttributes();
+    } catch (error: any) {
+      toast.error(error.message || "Failed to add value");
+    }
+  };
+
+  // "Size: S, M · Colour: Red" for a template's chosen values
+  const describeValues = (template: any) =>
+    attributes
+      .map((a) => {
+        const chosen = (a.product_attribute_values || []).filter((v: any) =>
+          template.product_template_values?.some((tv: any) => tv.value_id === v.id)
+        );
+        return chosen.length > 0 ? `${a.name}: ${chosen.map((v: any) => v.value).join(", ")}` : null;
+      })
+      .filter(Boolean)
+      .join(" · ");
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-3xl font-bold">Product Templates</h1>
+          <p className="text-muted-foreground">Products that come in variants such as sizes and colours</p>
+        </div>
+        <Button onClick={() => openDialog(null)}>
+          <Plus className="mr-2 h-4 w-4" />
+          Add Template
+        </Button>
+      </div>
+
+      <Card>
+        <CardContent className="pt-6">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>SKU</TableHead>
+                <TableHead>Name</TableHead>
+                <TableHead>Attributes</TableHead>
+                <TableHead>Variants</TableHead>
+                <TableHead>Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {templates.map((template) => (
+                <TableRow key={template.id}>
+                  <TableCell className="font-mono">{template.sku}</TableCell>
+                  <TableCell className="font-medium">{template.name}</TableCell>
+                  <TableCell className="text-sm">{describeValues(template) || "-"}</TableCell>
+                  <TableCell>{variants.filter((v) => v.template_id === template.id).length}</TableCell>
+                  <TableCell>
+                    <div className="flex gap-2">
+                      <Button size="sm" variant="ghost" onClick={() => openDialog(template)}>
+                        <Pencil className="mr-1 h-3 w-3" />
+                        Edit
+                      </Button>
+                      <Button size="sm" onClick={() => handleGenerate(template)}>
+                        <Layers className="mr-1 h-3 w-3" />
+                        Generate Variants
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+              {templates.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={5} className="text-center text-muted-foreground">
+                    No templates found
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
+          <CardTitle>Attributes</CardTitle>
+          <Button variant="outline" onClick={() => setAttributeDialogOpen(true)}>
+            <Plus className="mr-2 h-4 w-4" />
+            Add Attribute
+          </Button>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Attribute</TableHead>
+                <TableHead>Values</TableHead>
+                <TableHead>Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {attributes.map((attribute) => (
+                <TableRow key={attribute.id}>
+                  <TableCell className="font-medium">{attribute.name}</TableCell>
+                  <TableCell>
+                    <div className="flex flex-wrap gap-1">
+                      {(attribute.product_attribute_values || []).map((v: any) => (
+                        <Badge key={v.id} variant="outline">
+                          {v.value}
+                        </Badge>
+                      ))}
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    <Button size="sm" variant="ghost" onClick={() => setValueAttribute(attribute)}>
+                      <Plus className="mr-1 h-3 w-3" />
+                      Add Value
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+              {attributes.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={3} className="text-center text-muted-foreground">
+                    No attributes found
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="max-w-2xl max-h-[80vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingTemplate ? `Edit ${editingTemplate.name}` : "Create New Template"}</DialogTitle>
+          </DialogHeader>
+          <form key={editingTemplate?.id ?? "new"} onSubmit={handleSubmit} className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="name">Name</Label>
+                <Input id="name" name="name" defaultValue={editingTemplate?.name} required />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="sku">SKU Prefix</Label>
+                <Input id="sku" name="sku" defaultValue={editingTemplate?.sku} required />
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="category_id">Category</Label>
+                <Select name="category_id" defaultValue={editingTemplate?.category_id ?? undefined}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select category" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {sortCategoryTree(categories).map((cat) => (
+                      <SelectItem key={cat.id} value={cat.id}>
+                        {cat.path}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="uom_id">Base Unit</Label>
+                <Select
+                  name="uom_id"
+                  defaultValue={editingTemplate?.uom_id ?? units.find((u) => u.name === "Units")?.id}
+                  required
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select unit" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {units.map((u) => (
+                      <SelectItem key={u.id} value={u.id}>
+                        {u.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="reorder_level">Reorder Level</Label>
+                <Input
+                  id="reorder_level"
+                  name="reorder_level"
+                  type="number"
+                  defaultValue={editingTemplate?.reorder_level ?? 10}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="tracking">Tracking</Label>
+                <Select name="tracking" defaultValue={editingTemplate?.tracking ?? "none"}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(trackingLabels).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="space-y-3">
+              <Label>Attribute Values</Label>
+              {attributes.map((attribute) => (
+                <div key={attribute.id} className="space-y-1">
+                  <div className="text-sm font-medium">{attribute.name}</div>
+                  <div className="flex flex-wrap gap-4">
+                    {(attribute.product_attribute_values || []).map((v: any) => (
+                      <label key={v.id} className="flex items-center gap-2 text-sm">
+                        <Checkbox
+                          checked={selectedValues.includes(v.id)}
+                          onCheckedChange={(checked) =>
+                            setSelectedValues(
+                              checked ? [...selectedValues, v.id] : selectedValues.filter((id) => id !== v.id)
+                            )
+                          }
+                        />
+                        {v.value}
+                      </label>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+            <Button type="submit" className="w-full">
+              {editingTemplate ? "Save Template" : "Create Template"}
+            </Button>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={attributeDialogOpen} onOpenChange={setAttributeDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Create New Attribute</DialogTitle>
+          </DialogHeader>
+          <form onSubmit={handleAttributeSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="attribute_name">Name</Label>
+              <Input id="attribute_name" name="name" placeholder="Size" required />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="values">Values</Label>
+              <Input id="values" name="values" placeholder="S, M, L, XL" />
+              <p className="text-xs text-muted-foreground">Separate values with commas.</p>
+            </div>
+            <Button type="submit" className="w-full">
+              Create Attribute
+            </Button>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!valueAttribute} onOpenChange={(open) => !open && setValueAttribute(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Add Value to {valueAttribute?.name}</DialogTitle>
+          </DialogHeader>
+          <form onSubmit={handleValueSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="value">Value</Label>
+              <Input id="value" name="value" required />
+            </div>
+            <Button type="submit" className="w-full">
+              Add Value
+            </Button>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default ProductTemplates;
@@ -1,4 +1,5 @@
-import { useEffect, useState } from "react";
+import { Fragment, useEffect, useState } from "react";
+import { Link } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -10,14 +11,23 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { toast } from "sonner";
 import { Plus, Search, AlertTriangle } from "lucide-react";
 import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { getKitQuantity, productTypeLabels, trackingLabels } from "@/lib/products";
+import { getCategoryIds, sortCategoryTree } from "@/lib/categories";
+import { readProductUnits } from "@/lib/uom";
+import ProductUnitFields from "@/components/ProductUnitFields";
 
 interface Product {
   id: string;
   name: string;
   sku: string;
   category_id: string | null;
-  unit_of_measure: string;
+  uom_id: string;
   reorder_level: number;
+  tracking: string;
+  product_type: string;
+  active: boolean;
+  template_id: string | null;
   product_categories: { name: string } | null;
 }
 
@@ -25,15 +35,23 @@ interface StockLevel {
   product_id: string;
   warehouse_id: string;
   quantity: number;
+  reserved_quantity: number;
+  available_quantity: number;
   warehouses: { name: string };
 }
 
 const Products = () => {
   const [products, setProducts] = useState<Product[]>([]);
   const [stockLevels, setStockLevels] = useState<StockLevel[]>([]);
+  const [lowStock, setLowStock] = useState<any[]>([]);
   const [categories, setCategories] = useState<any[]>([]);
   const [warehouses, setWarehouses] = useState<any[]>([]);
+  const [units, setUnits] = useState<any[]>([]);
+  const [templates, setTemplates] = useState<any[]>([]);
+  const [kitComponents, setKitComponents] = useState<any[]>([]);
   const [searchTerm, setSearchTerm] = useState("");
+  const [showArchived, setShowArchived] = useState(false);
+  const [selectedCategory, setSelectedCategory] = useState("all");
   const [dialogOpen, setDialogOpen] = useState(false);
   const [loading, setLoading] = useState(true);
 
@@ -42,6 +60,10 @@ const Products = () => {
     loadCategories();
     loadWarehouses();
     loadStockLevels();
+    loadLowStock();
+    loadUnits();
+    loadTemplates();
+    loadKitComponents();
   }, []);
 
   const loadProducts = async () => {
@@ -71,10 +93,30 @@ const Products = () => {
   };
 
   const loadStockLevels = async () => {
-    const { data } = await supabase.from("stock_levels").select("*, warehouses(name)");
+    const { data } = await supabase.from("stock_availability").select("*, warehouses(name)");
     setStockLevels(data || []);
   };
 
+  const loadLowStock = async () => {
+    const { data } = await supabase.from("low_stock").select("*");
+    setLowStock(data || []);
+  };
+
+  const loadUnits = async () => {
+    const { data } = await supabase.from("units_of_measure").select("*").order("name");
+    setUnits(data || []);
+  };
+
+  const loadTemplates = async () => {
+    const { data } = await supabase.from("product_templates").select("id, name, sku");
+    setTemplates(data || []);
+  };
+
+  const loadKitComponents = async () => {
+    const { data } = await supabase.from("kit_components").select("*");
+    setKitComponents(data || []);
+  };
+
   const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
     e.preventDefault();
     const formData = new FormData(e.currentTarget);
@@ -84,8 +126,10 @@ const Products = () => {
         name: formData.get("name") as string,
         sku: formData.get("sku") as string,
         category_id: formData.get("category_id") as string || null,
-        unit_of_measure: formData.get("unit_of_measure") as string,
+        ...readProductUnits(formData),
         reorder_level: parseInt(formData.get("reorder_level") as string),
+        tracking: formData.get("tracking") as string,
+        product_type: formData.get("product_type") as string,
       });
 
       if (error) throw error;
@@ -99,17 +143,97 @@ const Products = () => {
     }
   };
 
+  // A kit's stock is the number of whole kits its components make up
   const getProductStock = (productId: string) => {
+    if (productsById.get(productId)?.product_type === "kit") {
+      return getKitQuantity(getComponents(productId), getProductStock);
+    }
     const stock = stockLevels.filter(sl => sl.product_id === productId);
     return stock.reduce((sum, sl) => sum + Number(sl.quantity), 0);
   };
 
+  const getProductAvailable = (productId: string) => {
+    if (productsById.get(productId)?.product_type === "kit") {
+      return getKitQuantity(getComponents(productId), getProductAvailable);
+    }
+    const stock = stockLevels.filter(sl => sl.product_id === productId);
+    return stock.reduce((sum, sl) => sum + Number(sl.available_quantity), 0);
+  };
+
+  const getComponents = (kitId: string) => kitComponents.filter((kc) => kc.kit_id === kitId);
+
+  // Warehouses where the product is at or below that warehouse's reorder level
+  const getLowStockWarehouses = (productId: string) =>
+    lowStock
+      .filter((ls) => ls.product_id === productId)
+      .map((ls) => warehouses.find((w) => w.id === ls.warehouse_id)?.name)
+      .filter(Boolean);
+
+  const productsById = new Map(products.map((p) => [p.id, p]));
+  const unitsById = new Map(units.map((u) => [u.id, u]));
+  const templatesById = new Map(templates.map((t) => [t.id, t]));
+  const categoryTree = sortCategoryTree(categories);
+  // Filtering by a category includes its subcategories
+  const categoryIds = selectedCategory !== "all" ? getCategoryIds(categories, selectedCategory) : null;
+
   const filteredProducts = products.filter(
     (p) =>
-      p.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      p.sku.toLowerCase().includes(searchTerm.toLowerCase())
+      (showArchived || p.active) &&
+      (!categoryIds || categoryIds.has(p.category_id)) &&
+      (p.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
+        p.sku.toLowerCase().includes(searchTerm.toLowerCase()))
   );
 
+  const renderProductRow = (product: Product, depth = 0) => {
+    const currentStock = getProductStock(product.id);
+    const lowStockWarehouses = getLowStockWarehouses(product.id);
+    // Never-stocked products have no warehouse to be low in
+    const isLowStock =
+      lowStockWarehouses.length > 0 ||
+      (!stockLevels.some((sl) => sl.product_id === product.id) && currentStock <= product.reorder_level);
+
+    return (
+      <TableRow key={product.id}>
+        <TableCell className="font-mono">{product.sku}</TableCell>
+        <TableCell style={{ paddingLeft: `${1 + depth * 1.5}rem` }}>
+          <Link to={`/products/${product.id}`} className="font-medium hover:underline">
+            {product.name}
+          </Link>
+          {product.tracking !== "none" && (
+            <div className="text-xs text-muted-foreground">
+              Tracked {trackingLabels[product.tracking]?.toLowerCase()}
+            </div>
+          )}
+        </TableCell>
+        <TableCell>{product.product_categories?.name || "-"}</TableCell>
+        <TableCell>{unitsById.get(product.uom_id)?.name}</TableCell>
+        <TableCell>{currentStock}</TableCell>
+        <TableCell>{getProductAvailable(product.id)}</TableCell>
+        <TableCell>{product.reorder_level}</TableCell>
+        <TableCell>
+          {!product.active ? (
+            <Badge variant="secondary">Archived</Badge>
+          ) : product.product_type === "kit" ? (
+            <Badge variant="outline">Kit of {getComponents(product.id).length}</Badge>
+          ) : isLowStock ? (
+            <Badge
+              variant="destructive"
+              className="gap-1"
+              title={lowStockWarehouses.length > 0 ? `Low in ${lowStockWarehouses.join(", ")}` : undefined}
+            >
+              <AlertTriangle className="h-3 w-3" />
+              Low Stock
+            </Badge>
+          ) : (
+            <Badge variant="outline" className="bg-success/10 text-success border-success/30">
+              In Stock
+            </Badge>
+          )}
+        </TableCell>
+      </TableRow>
+    );
+  };
+
   return (
     <div className="space-y-6">
       <div className="flex justify-between items-center">
@@ -144,22 +268,52 @@ const Products = () => {
                     <SelectValue placeholder="Select category" />
                   </SelectTrigger>
                   <SelectContent>
-                    {categories.map((cat) => (
+                    {categoryTree.map((cat) => (
                       <SelectItem key={cat.id} value={cat.id}>
-                        {cat.name}
+                        {cat.path}
                       </SelectItem>
                     ))}
                   </SelectContent>
                 </Select>
               </div>
-              <div className="space-y-2">
-                <Label htmlFor="unit_of_measure">Unit of Measure</Label>
-                <Input id="unit_of_measure" name="unit_of_measure" defaultValue="Units" required />
-              </div>
+              {units.length > 0 && <ProductUnitFields units={units} />}
               <div className="space-y-2">
                 <Label htmlFor="reorder_level">Reorder Level</Label>
                 <Input id="reorder_level" name="reorder_level" type="number" defaultValue="10" required />
               </div>
+              <div className="space-y-2">
+                <Label htmlFor="product_type">Type</Label>
+                <Select name="product_type" defaultValue="stock">
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(productTypeLabels).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground">
+                  Kits hold no stock of their own. Add their components on the product page.
+                </p>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="tracking">Tracking</Label>
+                <Select name="tracking" defaultValue="none">
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(trackingLabels).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
               <Button type="submit" className="w-full">Create Product</Button>
             </form>
           </DialogContent>
@@ -176,6 +330,23 @@ const Products = () => {
               onChange={(e) => setSearchTerm(e.target.value)}
               className="max-w-sm"
             />
+            <Select value={selectedCategory} onValueChange={setSelectedCategory}>
+              <SelectTrigger className="w-64">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Categories</SelectItem>
+                {categoryTree.map((cat) => (
+                  <SelectItem key={cat.id} value={cat.id}>
+                    {cat.path}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <div className="ml-auto flex items-center gap-2">
+              <Switch id="show_archived" checked={showArchived} onCheckedChange={setShowArchived} />
+              <Label htmlFor="show_archived">Show archived</Label>
+            </div>
           </div>
         </CardHeader>
         <CardContent>
@@ -191,42 +362,46 @@ const Products = () => {
                   <TableHead>Name</TableHead>
                   <TableHead>Category</TableHead>
                   <TableHead>Unit</TableHead>
-                  <TableHead>Stock</TableHead>
+                  <TableHead>On Hand</TableHead>
+                  <TableHead>Available</TableHead>
                   <TableHead>Reorder Level</TableHead>
                   <TableHead>Status</TableHead>
                 </TableRow>
               </TableHeader>
               <TableBody>
                 {filteredProducts.map((product) => {
-                  const currentStock = getProductStock(product.id);
-                  const isLowStock = currentStock <= product.reorder_level;
+                  if (!product.template_id) return renderProductRow(product);
+                  // Variants are listed together under their template, at the first one's position
+                  if (filteredProducts.find((p) => p.template_id === product.template_id) !== product) return null;
+
+                  const variants = filteredProducts.filter((p) => p.template_id === product.template_id);
+                  const template = templatesById.get(product.template_id);
 
                   return (
-                    <TableRow key={product.id}>
-                      <TableCell className="font-mono">{product.sku}</TableCell>
-                      <TableCell className="font-medium">{product.name}</TableCell>
-                      <TableCell>{product.product_categories?.name || "-"}</TableCell>
-                      <TableCell>{product.unit_of_measure}</TableCell>
-                      <TableCell>{currentStock}</TableCell>
-                      <TableCell>{product.reorder_level}</TableCell>
-                      <TableCell>
-                        {isLowStock ? (
-                          <Badge variant="destructive" className="gap-1">
-                            <AlertTriangle className="h-3 w-3" />
-                            Low Stock
-                          </Badge>
-                        ) : (
-                          <Badge variant="outline" className="bg-success/10 text-success border-success/30">
-                            In Stock
-                          </Badge>
-                        )}
-                      </TableCell>
-                    </TableRow>
+                    <Fragment key={product.template_id}>
+                      <TableRow className="bg-muted/50">
+                        <TableCell className="font-mono">{template?.sku}</TableCell>
+                        <TableCell>
+                          <div className="font-medium">{template?.name}</div>
+                          <div className="text-xs text-muted-foreground">{variants.length} variants</div>
+                        </TableCell>
+                        <TableCell>{product.product_categories?.name || "-"}</TableCell>
+                        <TableCell>{unitsById.get(product.uom_id)?.name}</TableCell>
+                        <TableCell className="font-medium">
+                          {variants.reduce((sum, v) => sum + getProductStock(v.id), 0)}
+                        </TableCell>
+                        <TableCell className="font-medium">
+                          {variants.reduce((sum, v) => sum + getProductAvailable(v.id), 0)}
+                        </TableCell>
+                        <TableCell colSpan={2} />
+                      </TableRow>
+                      {variants.map((variant) => renderProductRow(variant, 1))}
+                    </Fragment>
                   );
                 })}
                 {filteredProducts.length === 0 && (
                   <TableRow>
-                    <TableCell colSpan={7} className="text-center text-muted-foreground">
+                    <TableCell colSpan={8} className="text-center text-muted-foreground">
                       No products found
                     </TableCell>
                   </TableRow>
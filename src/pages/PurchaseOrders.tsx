@@ -0,0 +1,377 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { toast } from "sonner";
+import { Plus, Check, X } from "lucide-react";
+import StatusBadge from "@/components/StatusBadge";
+import PartnerPicker from "@/components/PartnerPicker";
+import CancelDocumentDialog from "@/components/CancelDocumentDialog";
+import { useAuth } from "@/contexts/AuthContext";
+
+const PurchaseOrders = () => {
+  const { user } = useAuth();
+  const [orders, setOrders] = useState<any[]>([]);
+  const [products, setProducts] = useState<any[]>([]);
+  const [warehouses, setWarehouses] = useState<any[]>([]);
+  const [partners, setPartners] = useState<any[]>([]);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [cancelingOrder, setCancelingOrder] = useState<any>(null);
+  const [selectedPartner, setSelectedPartner] = useState<any>(null);
+  const [selectedWarehouse, setSelectedWarehouse] = useState("");
+  const [selectedProducts, setSelectedProducts] = useState<
+    { productId: string; quantity: number; unitPrice: number }[]
+  >([{ productId: "", quantity: 0, unitPrice: 0 }]);
+
+  useEffect(() => {
+    loadOrders();
+    loadProducts();
+    loadWarehouses();
+    loadPartners();
+  }, []);
+
+  const loadOrders = async () => {
+    const { data } = await supabase
+      .from("purchase_orders")
+      .select(
+        "*, partners(name), warehouses(name), purchase_order_lines(quantity, unit_price, received_quantity, products(name)), receipts(receipt_number)"
+      )
+      .order("created_at", { ascending: false });
+    setOrders(data || []);
+  };
+
+  const loadProducts = async () => {
+    const { data } = await supabase
+      .from("products")
+      .select("*")
+      .eq("active", true)
+      .eq("product_type", "stock")
+      .order("name");
+    setProducts(data || []);
+  };
+
+  const loadWarehouses = async () => {
+    const { data } = await supabase.from("warehouses").select("*").eq("active", true).order("name");
+    setWarehouses(data || []);
+  };
+
+  const loadPartners = async () => {
+    const { data } = await supabase
+      .from("partners")
+      .select("*")
+      .in("type", ["supplier", "both"])
+      .order("name");
+    setPartners(data || []);
+  };
+
+  const selectPartner = (partner: any) => {
+    setSelectedPartner(partner);
+    if (partner.default_warehouse_id) {
+      setSelectedWarehouse(partner.default_warehouse_id);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const formData = new FormData(e.currentTarget);
+
+    if (!selectedPartner) {
+      toast.error("Select a supplier");
+      return;
+    }
+
+    try {
+      // Create purchase order
+      const poNumber = `PO-${Date.now()}`;
+      const { data: order, error: orderError } = await supabase
+        .from("purchase_orders")
+        .insert({
+          po_number: poNumber,
+          partner_id: selectedPartner.id,
+          warehouse_id: selectedWarehouse,
+          expected_date: (formData.get("expected_date") as string) || null,
+          notes: formData.get("notes") as string,
+          created_by: user?.id,
+          status: "draft",
+        })
+        .select()
+        .single();
+
+      if (orderError) throw orderError;
+
+      // Create purchase order lines
+      const lines = selectedProducts
+        .filter((p) => p.productId && p.quantity > 0)
+        .map((p) => ({
+          purchase_order_id: order.id,
+          product_id: p.productId,
+          quantity: p.quantity,
+          unit_price: p.unitPrice,
+        }));
+
+      if (lines.length > 0) {
+        const { error: linesError } = await supabase.from("purchase_order_lines").insert(lines);
+        if (linesError) throw linesError;
+      }
+
+      toast.success("Purchase order created successfully");
+      setDialogOpen(false);
+      loadOrders();
+      setSelectedProducts([{ productId: "", quantity: 0, unitPrice: 0 }]);
+      setSelectedWarehouse("");
+      setSelectedPartner(null);
+    } catch (error: any) {
+      toast.error(error.message || "Failed to create purchase order");
+    }
+  };
+
+  const handleConfirmOrder = async (order: any) => {
+    try {
+      const { error } = await supabase.rpc("confirm_purchase_order", { p_purchase_order_id: order.id });
+      if (error) throw error;
+
+      toast.success("Purchase order confirmed and receipt created");
+      loadOrders();
+    } catch (error: any) {
+      toast.error(error.message || "Failed to confirm purchase order");
+    }
+  };
+
+  const handleCancelOrder = async (reason: string) => {
+    try {
+      const { error } = await supabase.rpc("cancel_purchase_order", {
+        p_purchase_order_id: cancelingOrder.id,
+        p_reason: reason,
+      });
+      if (error) throw error;
+
+      toast.success("Purchase order canceled");
+      setCancelingOrder(null);
+      loadOrders();
+    } catch (error: any) {
+      toast.error(error.message || "Failed to cancel purchase order");
+    }
+  };
+
+  const getOrderTotal = (order: any) =>
+    (order.purchase_order_lines || []).reduce(
+      (sum: number, line: any) => sum + Number(line.quantity) * Number(line.unit_price),
+      0
+    );
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-3xl font-bold">Purchase Orders</h1>
+          <p className="text-muted-foreground">Stock ordered from suppliers</p>
+        </div>
+        <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+          <DialogTrigger asChild>
+            <Button>
+              <Plus className="mr-2 h-4 w-4" />
+              Create Purchase Order
+            </Button>
+          </DialogTrigger>
+          <DialogContent className="max-w-2xl max-h-[80vh] overflow-y-auto">
+            <DialogHeader>
+              <DialogTitle>Create New Purchase Order</DialogTitle>
+            </DialogHeader>
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="space-y-2">
+                <Label>Supplier</Label>
+                <PartnerPicker
+                  partners={partners}
+                  value={selectedPartner?.id ?? ""}
+                  onChange={selectPartner}
+                  placeholder="Select supplier"
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="warehouse_id">Warehouse</Label>
+                  <Select
+                    name="warehouse_id"
+                    value={selectedWarehouse}
+                    onValueChange={setSelectedWarehouse}
+                    required
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select warehouse" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {warehouses.map((wh) => (
+                        <SelectItem key={wh.id} value={wh.id}>
+                          {wh.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="expected_date">Expected Date</Label>
+                  <Input id="expected_date" name="expected_date" type="date" />
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label>Products</Label>
+                {selectedProducts.map((item, index) => (
+                  <div key={index} className="flex gap-2">
+                    <Select
+                      value={item.productId}
+                      onValueChange={(value) => {
+                        const newProducts = [...selectedProducts];
+                        newProducts[index].productId = value;
+                        setSelectedProducts(newProducts);
+                      }}
+                    >
+                      <SelectTrigger className="flex-1">
+                        <SelectValue placeholder="Select product" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {products.map((p) => (
+                          <SelectItem key={p.id} value={p.id}>
+                            {p.name} ({p.sku})
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Input
+                      type="number"
+                      placeholder="Quantity"
+                      value={item.quantity}
+                      onChange={(e) => {
+                        const newProducts = [...selectedProducts];
+                        newProducts[index].quantity = parseInt(e.target.value) || 0;
+                        setSelectedProducts(newProducts);
+                      }}
+                      className="w-24"
+                    />
+                    <Input
+                      type="number"
+                      step="0.01"
+                      min="0"
+                      placeholder="Unit price"
+                      value={item.unitPrice}
+                      onChange={(e) => {
+                        const newProducts = [...selectedProducts];
+                        newProducts[index].unitPrice = parseFloat(e.target.value) || 0;
+                        setSelectedProducts(newProducts);
+                      }}
+                      className="w-28"
+                    />
+                  </div>
+                ))}
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() =>
+                    setSelectedProducts([...selectedProducts, { productId: "", quantity: 0, unitPrice: 0 }])
+                  }
+                >
+                  Add Product
+                </Button>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="notes">Notes</Label>
+                <Input id="notes" name="notes" />
+              </div>
+              <Button type="submit" className="w-full">
+                Create Purchase Order
+              </Button>
+            </form>
+          </DialogContent>
+        </Dialog>
+      </div>
+
+      <Card>
+        <CardContent className="pt-6">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>PO Number</TableHead>
+                <TableHead>Supplier</TableHead>
+                <TableHead>Received / Ordered</TableHead>
+                <TableHead>Total</TableHead>
+                <TableHead>Expected</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {orders.map((order) => (
+                <TableRow key={order.id}>
+                  <TableCell>
+                    <div className="font-mono">{order.po_number}</div>
+                    {order.receipts?.map((receipt: any) => (
+                      <div key={receipt.receipt_number} className="text-xs text-muted-foreground">
+                        Receipt {receipt.receipt_number}
+                      </div>
+                    ))}
+                  </TableCell>
+                  <TableCell>
+                    <div>{order.partners?.name}</div>
+                    <div className="text-xs text-muted-foreground">{order.warehouses?.name}</div>
+                  </TableCell>
+                  <TableCell>
+                    {order.purchase_order_lines?.map((line: any, index: number) => (
+                      <div key={index} className="text-sm">
+                        {line.products?.name}: {line.received_quantity} / {line.quantity}
+                      </div>
+                    ))}
+                  </TableCell>
+                  <TableCell>{getOrderTotal(order).toFixed(2)}</TableCell>
+                  <TableCell>
+                    {order.expected_date ? new Date(order.expected_date).toLocaleDateString() : "-"}
+                  </TableCell>
+                  <TableCell>
+                    <StatusBadge status={order.status} />
+                    {order.cancel_reason && (
+                      <div className="text-xs text-muted-foreground">{order.cancel_reason}</div>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex gap-2">
+                      {order.status === "draft" && (
+                        <Button size="sm" onClick={() => handleConfirmOrder(order)}>
+                          <Check className="mr-1 h-3 w-3" />
+                          Confirm
+                        </Button>
+                      )}
+                      {["draft", "confirmed"].includes(order.status) && (
+                        <Button size="sm" variant="ghost" onClick={() => setCancelingOrder(order)}>
+                          <X className="mr-1 h-3 w-3" />
+                          Cancel
+                        </Button>
+                      )}
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+              {orders.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={7} className="text-center text-muted-foreground">
+                    No purchase orders found
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <CancelDocumentDialog
+        documentNumber={cancelingOrder?.po_number ?? null}
+        onClose={() => setCancelingOrder(null)}
+        onConfirm={handleCancelOrder}
+      />
+    </div>
+  );
+};
+
+export default PurchaseOrders;
@@ -8,48 +8,104 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { toast } from "sonner";
-import { Plus, Check } from "lucide-react";
-import { Badge } from "@/components/ui/badge";
+import { Plus, Check, ListTodo, X, Undo2 } from "lucide-react";
+import StatusBadge from "@/components/StatusBadge";
+import CancelDocumentDialog from "@/components/CancelDocumentDialog";
+import PartnerPicker from "@/components/PartnerPicker";
+import ReverseDocumentDialog from "@/components/ReverseDocumentDialog";
 import { useAuth } from "@/contexts/AuthContext";
+import { sortLocationTree } from "@/lib/locations";
+import { parseSerials } from "@/lib/stock";
+import { getCompatibleUnits, toBaseQuantity } from "@/lib/uom";
 
 const Receipts = () => {
   const { user } = useAuth();
   const [receipts, setReceipts] = useState<any[]>([]);
   const [products, setProducts] = useState<any[]>([]);
   const [warehouses, setWarehouses] = useState<any[]>([]);
+  const [partners, setPartners] = useState<any[]>([]);
+  const [selectedPartner, setSelectedPartner] = useState<any>(null);
+  const [selectedWarehouse, setSelectedWarehouse] = useState("");
   const [dialogOpen, setDialogOpen] = useState(false);
-  const [selectedProducts, setSelectedProducts] = useState<{ productId: string; quantity: number }[]>([
-    { productId: "", quantity: 0 },
+  const [selectedProducts, setSelectedProducts] = useState<{ productId: string; uomId: string; quantity: number }[]>([
+    { productId: "", uomId: "", quantity: 0 },
   ]);
+  const [validatingReceipt, setValidatingReceipt] = useState<any>(null);
+  const [receivedLines, setReceivedLines] = useState<any[]>([]);
+  const [cancelingReceipt, setCancelingReceipt] = useState<any>(null);
+  const [reversingReceipt, setReversingReceipt] = useState<any>(null);
+  const [viewingReceipt, setViewingReceipt] = useState<any>(null);
+  const [detailLines, setDetailLines] = useState<any[]>([]);
+  const [locations, setLocations] = useState<any[]>([]);
+  const [units, setUnits] = useState<any[]>([]);
 
   useEffect(() => {
     loadReceipts();
     loadProducts();
     loadWarehouses();
+    loadPartners();
+    loadLocations();
+    loadUnits();
   }, []);
 
   const loadReceipts = async () => {
     const { data } = await supabase
       .from("receipts")
-      .select("*, warehouses(name)")
+      .select("*, warehouses(name), purchase_orders(po_number)")
       .order("created_at", { ascending: false });
     setReceipts(data || []);
   };
 
   const loadProducts = async () => {
-    const { data } = await supabase.from("products").select("*").order("name");
+    const { data } = await supabase
+      .from("products")
+      .select("*")
+      .eq("active", true)
+      .eq("product_type", "stock")
+      .order("name");
     setProducts(data || []);
   };
 
   const loadWarehouses = async () => {
-    const { data } = await supabase.from("warehouses").select("*").order("name");
+    const { data } = await supabase.from("warehouses").select("*").eq("active", true).order("name");
     setWarehouses(data || []);
   };
 
+  const loadLocations = async () => {
+    const { data } = await supabase.from("locations").select("*").order("code");
+    setLocations(data || []);
+  };
+
+  const loadUnits = async () => {
+    const { data } = await supabase.from("units_of_measure").select("*").order("name");
+    setUnits(data || []);
+  };
+
+  const loadPartners = async () => {
+    const { data } = await supabase
+      .from("partners")
+      .select("*")
+      .in("type", ["supplier", "both"])
+      .order("name");
+    setPartners(data || []);
+  };
+
+  const selectPartner = (partner: any) => {
+    setSelectedPartner(partner);
+    if (partner.default_warehouse_id) {
+      setSelectedWarehouse(partner.default_warehouse_id);
+    }
+  };
+
   const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
     e.preventDefault();
     const formData = new FormData(e.currentTarget);
 
+    if (!selectedPartner) {
+      toast.error("Select a supplier");
+      return;
+    }
+
     try {
       // Create receipt
       const receiptNumber = `RCP-${Date.now()}`;
@@ -57,7 +113,8 @@ const Receipts = () => {
         .from("receipts")
         .insert({
           receipt_number: receiptNumber,
-          supplier_name: formData.get("supplier_name") as string,
+          partner_id: selectedPartner.id,
+          supplier_name: selectedPartner.name,
           warehouse_id: formData.get("warehouse_id") as string,
           notes: formData.get("notes") as string,
           created_by: user?.id,
@@ -68,14 +125,21 @@ const Receipts = () => {
 
       if (receiptError) throw receiptError;
 
-      // Create receipt lines
+      // Create receipt lines; lines in another unit keep the entered quantity alongside the base one
       const lines = selectedProducts
         .filter((p) => p.productId && p.quantity > 0)
-        .map((p) => ({
-          receipt_id: receipt.id,
-          product_id: p.productId,
-          quantity: p.quantity,
-        }));
+        .map((p) => {
+          const product = productsById.get(p.productId);
+          const inBaseUnit = p.uomId === product?.uom_id;
+
+          return {
+            receipt_id: receipt.id,
+            product_id: p.productId,
+            quantity: toBaseQuantity(units, product, p.uomId, p.quantity),
+            uom_id: inBaseUnit ? null : p.uomId,
+            uom_quantity: inBaseUnit ? null : p.quantity,
+          };
+        });
 
       if (lines.length > 0) {
         const { error: linesError } = await supabase.from("receipt_lines").insert(lines);
@@ -85,75 +149,149 @@ const Receipts = () => {
       toast.success("Receipt created successfully");
       setDialogOpen(false);
       loadReceipts();
-      setSelectedProducts([{ productId: "", quantity: 0 }]);
+      setSelectedProducts([{ productId: "", uomId: "", quantity: 0 }]);
+      setSelectedWarehouse("");
+      setSelectedPartner(null);
     } catch (error: any) {
       toast.error(error.message || "Failed to create receipt");
     }
   };
 
-  const handleValidateReceipt = async (receipt: any) => {
-    try {
-      // Get receipt lines
-      const { data: lines } = await supabase
-        .from("receipt_lines")
-        .select("*")
-        .eq("receipt_id", receipt.id);
-
-      if (!lines || lines.length === 0) {
-        toast.error("Cannot validate receipt without products");
-        return;
-      }
+  const openValidateDialog = async (receipt: any) => {
+    const { data: lines } = await supabase
+      .from("receipt_lines")
+      .select("*, products(name, sku, tracking), units_of_measure(name)")
+      .eq("receipt_id", receipt.id)
+      .order("created_at");
 
-      // Update stock levels
-      for (const line of lines) {
-        // Check if stock level exists
-        const { data: existing } = await supabase
-          .from("stock_levels")
-          .select("*")
-          .eq("product_id", line.product_id)
-          .eq("warehouse_id", receipt.warehouse_id)
-          .single();
-
-        if (existing) {
-          // Update existing stock level
-          await supabase
-            .from("stock_levels")
-            .update({ quantity: Number(existing.quantity) + Number(line.quantity) })
-            .eq("id", existing.id);
-        } else {
-          // Create new stock level
-          await supabase.from("stock_levels").insert({
-            product_id: line.product_id,
-            warehouse_id: receipt.warehouse_id,
-            quantity: line.quantity,
-          });
-        }
-
-        // Create stock movement
-        await supabase.from("stock_movements").insert({
-          product_id: line.product_id,
-          warehouse_id: receipt.warehouse_id,
-          movement_type: "receipt",
-          quantity: line.quantity,
-          reference_id: receipt.id,
-          reference_type: "receipt",
-          created_by: user?.id,
-        });
-      }
+    if (!lines || lines.length === 0) {
+      toast.error("Cannot validate receipt without products");
+      return;
+    }
 
-      // Update receipt status
-      await supabase
-        .from("receipts")
-        .update({ status: "done", validated_at: new Date().toISOString() })
-        .eq("id", receipt.id);
+    const warehouse = warehouses.find((w) => w.id === receipt.warehouse_id);
+
+    setReceivedLines(
+      lines.map((line) => ({
+        ...line,
+        received: Number(line.quantity),
+        lotNumber: "",
+        expirationDate: "",
+        bestBeforeDate: "",
+        locationId: line.location_id ?? warehouse?.default_receipt_location_id ?? "none",
+      }))
+    );
+    setValidatingReceipt(receipt);
+  };
+
+  const openDetailDialog = async (receipt: any) => {
+    const { data: lines } = await supabase
+      .from("receipt_lines")
+      .select("*, products(name, sku), units_of_measure(name), lots(lot_number, expiration_date), locations(code), supplier_return_lines(quantity, supplier_returns(status))")
+      .eq("receipt_id", receipt.id)
+      .order("created_at");
+
+    setDetailLines(
+      (lines || []).map((line) => ({
+        ...line,
+        returned: line.supplier_return_lines
+          .filter((rl) => rl.supplier_returns?.status === "done")
+          .reduce((sum, rl) => sum + Number(rl.quantity), 0),
+      }))
+    );
+    setViewingReceipt(receipt);
+  };
 
-      toast.success("Receipt validated and stock updated");
+  const handleValidateReceipt = async () => {
+    const received = Object.fromEntries(receivedLines.map((line) => [line.id, line.received]));
+    // Lot-tracked lines send one lot number, serialized lines one serial per unit
+    const lots = Object.fromEntries(
+      receivedLines
+        .filter((line) => line.products?.tracking !== "none")
+        .map((line) => [
+          line.id,
+          line.products?.tracking === "serial" ? parseSerials(line.lotNumber) : line.lotNumber,
+        ])
+    );
+    const lotDates = Object.fromEntries(
+      receivedLines
+        .filter((line) => line.products?.tracking !== "none")
+        .map((line) => [
+          line.id,
+          { expiration_date: line.expirationDate || null, best_before_date: line.bestBeforeDate || null },
+        ])
+    );
+
+    try {
+      const { data: backorderId, error } = await supabase.rpc("validate_receipt", {
+        p_receipt_id: validatingReceipt.id,
+        p_received: received,
+        p_lots: lots,
+        p_lot_dates: lotDates,
+        p_locations: Object.fromEntries(
+          receivedLines.filter((line) => line.locationId !== "none").map((line) => [line.id, line.locationId])
+        ),
+      });
+      if (error) throw error;
+
+      toast.success(
+        backorderId
+          ? "Receipt validated. A backorder was created for the remaining quantity"
+          : "Receipt validated and stock updated"
+      );
+      setValidatingReceipt(null);
       loadReceipts();
     } catch (error: any) {
       toast.error(error.message || "Failed to validate receipt");
     }
   };
 
+  const handleConfirmReceipt = async (receipt: any) => {
+    try {
+      const { error } = await supabase.rpc("confirm_receipt", { p_receipt_id: receipt.id });
+      if (error) throw error;
+
+      toast.success("Receipt marked as todo");
+      loadReceipts();
+    } catch (error: any) {
+      toast.error(error.message || "Failed to update receipt");
+    }
+  };
+
+  const handleCancelReceipt = async (reason: string) => {
+    try {
+      const { error } = await supabase.rpc("cancel_receipt", {
+        p_receipt_id: cancelingReceipt.id,
+        p_reason: reason,
+      });
+      if (error) throw error;
+
+      toast.success("Receipt canceled");
+      setCancelingReceipt(null);
+      loadReceipts();
+    } catch (error: any) {
+      toast.error(error.message || "Failed to cancel receipt");
+    }
+  };
+
+  const handleReverseReceipt = async () => {
+    try {
+      const { error } = await supabase.rpc("reverse_receipt", { p_receipt_id: reversingReceipt.id });
+      if (error) throw error;
+
+      toast.success("Receipt reversed and stock restored");
+      setReversingReceipt(null);
+      loadReceipts();
+    } catch (error: any) {
+      toast.error(error.message || "Failed to reverse receipt");
+    }
+  };
+
+  const receiptsById = new Map(receipts.map((r) => [r.id, r]));
+  const reversalsById = new Map(receipts.filter((r) => r.reversal_of_id).map((r) => [r.reversal_of_id, r]));
+
+  const productsById = new Map(products.map((p) => [p.id, p]));
+
   return (
     <div className="space-y-6">
       <div className="flex justify-between items-center">
@@ -174,12 +312,22 @@ const Receipts = () => {
             </DialogHeader>
             <form onSubmit={handleSubmit} className="space-y-4">
               <div className="space-y-2">
-                <Label htmlFor="supplier_name">Supplier Name</Label>
-                <Input id="supplier_name" name="supplier_name" required />
+                <Label>Supplier</Label>
+                <PartnerPicker
+                  partners={partners}
+                  value={selectedPartner?.id ?? ""}
+                  onChange={selectPartner}
+                  placeholder="Select supplier"
+                />
               </div>
               <div className="space-y-2">
                 <Label htmlFor="warehouse_id">Warehouse</Label>
-                <Select name="warehouse_id" required>
+                <Select
+                  name="warehouse_id"
+                  value={selectedWarehouse}
+                  onValueChange={setSelectedWarehouse}
+                  required
+                >
                   <SelectTrigger>
                     <SelectValue placeholder="Select warehouse" />
                   </SelectTrigger>
@@ -200,7 +348,9 @@ const Receipts = () => {
                       value={item.productId}
                       onValueChange={(value) => {
                         const newProducts = [...selectedProducts];
+                        const product = productsById.get(value);
                         newProducts[index].productId = value;
+                        newProducts[index].uomId = product?.purchase_uom_id ?? product?.uom_id ?? "";
                         setSelectedProducts(newProducts);
                       }}
                     >
@@ -217,21 +367,42 @@ const Receipts = () => {
                     </Select>
                     <Input
                       type="number"
+                      step="any"
                       placeholder="Quantity"
                       value={item.quantity}
                       onChange={(e) => {
                         const newProducts = [...selectedProducts];
-                        newProducts[index].quantity = parseInt(e.target.value) || 0;
+                        newProducts[index].quantity = parseFloat(e.target.value) || 0;
                         setSelectedProducts(newProducts);
                       }}
                       className="w-32"
                     />
+                    <Select
+                      value={item.uomId}
+                      onValueChange={(value) => {
+                        const newProducts = [...selectedProducts];
+                        newProducts[index].uomId = value;
+                        setSelectedProducts(newProducts);
+                      }}
+                      disabled={!item.productId}
+                    >
+                      <SelectTrigger className="w-36">
+                        <SelectValue placeholder="Unit" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {getCompatibleUnits(units, productsById.get(item.productId)).map((u) => (
+                          <SelectItem key={u.id} value={u.id}>
+                            {u.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
                   </div>
                 ))}
                 <Button
                   type="button"
                   variant="outline"
-                  onClick={() => setSelectedProducts([...selectedProducts, { productId: "", quantity: 0 }])}
+                  onClick={() => setSelectedProducts([...selectedProducts, { productId: "", uomId: "", quantity: 0 }])}
                 >
                   Add Product
                 </Button>
@@ -264,22 +435,72 @@ const Receipts = () => {
             <TableBody>
               {receipts.map((receipt) => (
                 <TableRow key={receipt.id}>
-                  <TableCell className="font-mono">{receipt.receipt_number}</TableCell>
+                  <TableCell>
+                    <button className="font-mono hover:underline" onClick={() => openDetailDialog(receipt)}>
+                      {receipt.receipt_number}
+                    </button>
+                    {receipt.purchase_orders && (
+                      <div className="text-xs text-muted-foreground">From {receipt.purchase_orders.po_number}</div>
+                    )}
+                    {receipt.backorder_of_id && (
+                      <div className="text-xs text-muted-foreground">
+                        Backorder of {receiptsById.get(receipt.backorder_of_id)?.receipt_number}
+                      </div>
+                    )}
+                    {receipts
+                      .filter((r) => r.backorder_of_id === receipt.id)
+                      .map((backorder) => (
+                        <div key={backorder.id} className="text-xs text-muted-foreground">
+                          Backordered as {backorder.receipt_number}
+                        </div>
+                      ))}
+                    {receipt.reversal_of_id && (
+                      <div className="text-xs text-muted-foreground">
+                        Reversal of {receiptsById.get(receipt.reversal_of_id)?.receipt_number}
+                      </div>
+                    )}
+                    {reversalsById.has(receipt.id) && (
+                      <div className="text-xs text-muted-foreground">
+                        Reversed by {reversalsById.get(receipt.id).receipt_number}
+                      </div>
+                    )}
+                  </TableCell>
                   <TableCell>{receipt.supplier_name}</TableCell>
                   <TableCell>{receipt.warehouses?.name}</TableCell>
                   <TableCell>
-                    <Badge variant={receipt.status === "done" ? "default" : "secondary"}>
-                      {receipt.status}
-                    </Badge>
+                    <StatusBadge status={receipt.status} />
+                    {receipt.cancel_reason && (
+                      <div className="text-xs text-muted-foreground">{receipt.cancel_reason}</div>
+                    )}
                   </TableCell>
                   <TableCell>{new Date(receipt.created_at).toLocaleDateString()}</TableCell>
                   <TableCell>
-                    {receipt.status !== "done" && (
-                      <Button size="sm" onClick={() => handleValidateReceipt(receipt)}>
-                        <Check className="mr-1 h-3 w-3" />
-                        Validate
-                      </Button>
-                    )}
+                    <div className="flex gap-2">
+                      {receipt.status === "draft" && (
+                        <Button size="sm" variant="outline" onClick={() => handleConfirmReceipt(receipt)}>
+                          <ListTodo className="mr-1 h-3 w-3" />
+                          Mark as Todo
+                        </Button>
+                      )}
+                      {!["done", "canceled"].includes(receipt.status) && (
+                        <>
+                          <Button size="sm" onClick={() => openValidateDialog(receipt)}>
+                            <Check className="mr-1 h-3 w-3" />
+                            Validate
+                          </Button>
+                          <Button size="sm" variant="ghost" onClick={() => setCancelingReceipt(receipt)}>
+                            <X className="mr-1 h-3 w-3" />
+                            Cancel
+                          </Button>
+                        </>
+                      )}
+                      {receipt.status === "done" && !receipt.reversal_of_id && !reversalsById.has(receipt.id) && (
+                        <Button size="sm" variant="outline" onClick={() => setReversingReceipt(receipt)}>
+                          <Undo2 className="mr-1 h-3 w-3" />
+                          Reverse
+                        </Button>
+                      )}
+                    </div>
                   </TableCell>
                 </TableRow>
               ))}
@@ -294,6 +515,213 @@ const Receipts = () => {
           </Table>
         </CardContent>
       </Card>
+
+      <Dialog open={!!validatingReceipt} onOpenChange={(open) => !open && setValidatingReceipt(null)}>
+        <DialogContent className="max-w-4xl max-h-[80vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Validate Receipt {validatingReceipt?.receipt_number}</DialogTitle>
+          </DialogHeader>
+          <p className="text-sm text-muted-foreground">
+            Enter the quantity actually received and, for lot-tracked products, its lot number. Serialized products
+            need one serial number per unit received. Expiration and best-before dates and the putaway location are
+            optional. No line can receive more than it expects; any shortfall is moved to a backorder receipt.
+          </p>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Product</TableHead>
+                <TableHead>Ordered</TableHead>
+                <TableHead>Received</TableHead>
+                <TableHead>Lot / Serials</TableHead>
+                <TableHead>Expires / Best Before</TableHead>
+                <TableHead>Put Away To</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {receivedLines.map((line, index) => (
+                <TableRow key={line.id}>
+                  <TableCell>
+                    {line.products?.name} ({line.products?.sku})
+                  </TableCell>
+                  <TableCell>
+                    <div>{line.quantity}</div>
+                    {line.units_of_measure && (
+                      <div className="text-xs text-muted-foreground">
+                        {line.uom_quantity} × {line.units_of_measure.name}
+                      </div>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <Input
+                      type="number"
+                      min="0"
+                      max={line.quantity}
+                      value={line.received}
+                      onChange={(e) => {
+                        const newLines = [...receivedLines];
+                        newLines[index].received = parseFloat(e.target.value) || 0;
+                        setReceivedLines(newLines);
+                      }}
+                      className="w-32"
+                    />
+                  </TableCell>
+                  <TableCell>
+                    {line.products?.tracking === "lot" ? (
+                      <Input
+                        placeholder="Lot number"
+                        value={line.lotNumber}
+                        onChange={(e) => {
+                          const newLines = [...receivedLines];
+                          newLines[index].lotNumber = e.target.value;
+                          setReceivedLines(newLines);
+                        }}
+                        className="w-36"
+                      />
+                    ) : line.products?.tracking === "serial" ? (
+                      <div className="space-y-1">
+                        <Input
+                          placeholder="Serial numbers"
+                          value={line.lotNumber}
+                          onChange={(e) => {
+                            const newLines = [...receivedLines];
+                            newLines[index].lotNumber = e.target.value;
+                            setReceivedLines(newLines);
+                          }}
+                          className="w-48"
+                        />
+                        <div className="text-xs text-muted-foreground">
+                          {parseSerials(line.lotNumber).length} of {line.received} entered
+                        </div>
+                      </div>
+                    ) : (
+                      <span className="text-muted-foreground">-</span>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    {line.products?.tracking !== "none" ? (
+                      <div className="space-y-1">
+                        <Input
+                          type="date"
+                          value={line.expirationDate}
+                          onChange={(e) => {
+                            const newLines = [...receivedLines];
+                            newLines[index].expirationDate = e.target.value;
+                            setReceivedLines(newLines);
+                          }}
+                          className="w-40"
+                        />
+                        <Input
+                          type="date"
+                          value={line.bestBeforeDate}
+                          onChange={(e) => {
+                            const newLines = [...receivedLines];
+                            newLines[index].bestBeforeDate = e.target.value;
+                            setReceivedLines(newLines);
+                          }}
+                          className="w-40"
+                        />
+                      </div>
+                    ) : (
+                      <span className="text-muted-foreground">-</span>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <Select
+                      value={line.locationId}
+                      onValueChange={(value) => {
+                        const newLines = [...receivedLines];
+                        newLines[index].locationId = value;
+                        setReceivedLines(newLines);
+                      }}
+                    >
+                      <SelectTrigger className="w-36">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="none">No location</SelectItem>
+                        {sortLocationTree(
+                          locations.filter((l) => l.warehouse_id === validatingReceipt?.warehouse_id)
+                        ).map((l) => (
+                          <SelectItem key={l.id} value={l.id}>
+                            {l.code}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+          <Button className="w-full" onClick={handleValidateReceipt}>
+            <Check className="mr-2 h-4 w-4" />
+            Validate
+          </Button>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!viewingReceipt} onOpenChange={(open) => !open && setViewingReceipt(null)}>
+        <DialogContent className="max-w-2xl max-h-[80vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Receipt {viewingReceipt?.receipt_number}</DialogTitle>
+          </DialogHeader>
+          <p className="text-sm text-muted-foreground">
+            {viewingReceipt?.supplier_name} · {viewingReceipt?.warehouses?.name}
+          </p>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Product</TableHead>
+                <TableHead>Ordered</TableHead>
+                <TableHead>Received</TableHead>
+                <TableHead>Lot</TableHead>
+                <TableHead>Location</TableHead>
+                <TableHead>Returned</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {detailLines.map((line) => (
+                <TableRow key={line.id}>
+                  <TableCell>
+                    {line.products?.name} ({line.products?.sku})
+                  </TableCell>
+                  <TableCell>
+                    <div>{line.quantity}</div>
+                    {line.units_of_measure && (
+                      <div className="text-xs text-muted-foreground">
+                        {line.uom_quantity} × {line.units_of_measure.name}
+                      </div>
+                    )}
+                  </TableCell>
+                  <TableCell>{line.received_quantity ?? "-"}</TableCell>
+                  <TableCell>
+                    <div className="font-mono">{line.lots?.lot_number ?? "-"}</div>
+                    {line.lots?.expiration_date && (
+                      <div className="text-xs text-muted-foreground">
+                        Expires {new Date(line.lots.expiration_date).toLocaleDateString()}
+                      </div>
+                    )}
+                  </TableCell>
+                  <TableCell className="font-mono">{line.locations?.code ?? "-"}</TableCell>
+                  <TableCell>{line.returned}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </DialogContent>
+      </Dialog>
+
+      <CancelDocumentDialog
+        documentNumber={cancelingReceipt?.receipt_number ?? null}
+        onClose={() => setCancelingReceipt(null)}
+        onConfirm={handleCancelReceipt}
+      />
+
+      <ReverseDocumentDialog
+        documentNumber={reversingReceipt?.receipt_number ?? null}
+        onClose={() => setReversingReceipt(null)}
+        onConfirm={handleReverseReceipt}
+      />
     </div>
   );
 };
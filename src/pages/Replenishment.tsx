@@ -0,0 +1,406 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { toast } from "sonner";
+import { Plus, Pencil, Trash2, RefreshCw, Check } from "lucide-react";
+import PartnerPicker from "@/components/PartnerPicker";
+
+const Replenishment = () => {
+  const [rules, setRules] = useState<any[]>([]);
+  const [products, setProducts] = useState<any[]>([]);
+  const [warehouses, setWarehouses] = useState<any[]>([]);
+  const [partners, setPartners] = useState<any[]>([]);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingRule, setEditingRule] = useState<any>(null);
+  const [selectedPartner, setSelectedPartner] = useState<any>(null);
+  const [proposals, setProposals] = useState<any[] | null>(null);
+  const [running, setRunning] = useState(false);
+
+  useEffect(() => {
+    loadRules();
+    loadProducts();
+    loadWarehouses();
+    loadPartners();
+  }, []);
+
+  const loadRules = async () => {
+    const { data } = await supabase
+      .from("reorder_rules")
+      .select("*, products(name, sku), warehouses(name), partners(name)")
+      .order("created_at");
+    setRules(data || []);
+  };
+
+  const loadProducts = async () => {
+    const { data } = await supabase
+      .from("products")
+      .select("*")
+      .eq("active", true)
+      .eq("product_type", "stock")
+      .order("name");
+    setProducts(data || []);
+  };
+
+  const loadWarehouses = async () => {
+    const { data } = await supabase.from("warehouses").select("*").eq("active", true).order("name");
+    setWarehouses(data || []);
+  };
+
+  const loadPartners = async () => {
+    const { data } = await supabase
+      .from("partners")
+      .select("*")
+      .in("type", ["supplier", "both"])
+      .order("name");
+    setPartners(data || []);
+  };
+
+  const openDialog = (rule: any) => {
+    setEditingRule(rule);
+    setSelectedPartner(rule ? partners.find((p) => p.id === rule.partner_id) ?? null : null);
+    setDialogOpen(true);
+  };
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const formData = new FormData(e.currentTarget);
+
+    const rule = {
+      product_id: formData.get("product_id") as string,
+      warehouse_id: formData.get("warehouse_id") as string,
+      partner_id: selectedPartner?.id ?? null,
+      min_quantity: parseFloat(formData.get("min_quantity") as string) || 0,
+      max_quantity: parseFloat(formData.get("max_quantity") as string) || 0,
+      multiple_of: parseFloat(formData.get("multiple_of") as string) || 1,
+    };
+
+    if (rule.max_quantity < rule.min_quantity) {
+      toast.error("Maximum cannot be below minimum");
+      return;
+    }
+
+    try {
+      const { error } = editingRule
+        ? await supabase.from("reorder_rules").update(rule).eq("id", editingRule.id)
+        : await supabase.from("reorder_rules").insert(rule);
+
+      if (error) throw error;
+
+      toast.success(editingRule ? "Reorder rule updated successfully" : "Reorder rule created successfully");
+      setDialogOpen(false);
+      loadRules();
+    } catch (error: any) {
+      toast.error(error.message || "Failed to save reorder rule");
+    }
+  };
+
+  const handleDeleteRule = async (rule: any) => {
+    try {
+      const { error } = await supabase.from("reorder_rules").delete().eq("id", rule.id);
+      if (error) throw error;
+
+      toast.success("Reorder rule deleted");
+      loadRules();
+    } catch (error: any) {
+      toast.error(error.message || "Failed to delete reorder rule");
+    }
+  };
+
+  const handleRunReplenishment = async () => {
+    setRunning(true);
+    try {
+      const { data, error } = await supabase.rpc("replenishment_proposals");
+      if (error) throw error;
+
+      setProposals((data || []).map((p) => ({ ...p, quantity: Number(p.proposed_quantity) })));
+      if (!data?.length) {
+        toast.success("Every rule is above its minimum");
+      }
+    } catch (error: any) {
+      toast.error(error.message || "Failed to run replenishment");
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const updateProposal = (ruleId: string, changes: any) => {
+    setProposals((proposals || []).map((p) => (p.rule_id === ruleId ? { ...p, ...changes } : p)));
+  };
+
+  const handleConfirmProposals = async () => {
+    const selected = (proposals || []).filter((p) => p.quantity > 0);
+
+    if (selected.length === 0) {
+      toast.error("Enter a quantity for at least one proposal");
+      return;
+    }
+
+    if (selected.some((p) => !p.partner_id)) {
+      toast.error("Choose a supplier for every proposal");
+      return;
+    }
+
+    try {
+      const { data: count, error } = await supabase.rpc("create_purchase_orders_from_proposals", {
+        p_proposals: selected.map((p) => ({ rule_id: p.rule_id, partner_id: p.partner_id, quantity: p.quantity })),
+      });
+      if (error) throw error;
+
+      toast.success(`${count} draft purchase order${count === 1 ? "" : "s"} created`);
+      setProposals(null);
+    } catch (error: any) {
+      toast.error(error.message || "Failed to create purchase orders");
+    }
+  };
+
+  const productsById = new Map(products.map((p) => [p.id, p]));
+  const warehousesById = new Map(warehouses.map((w) => [w.id, w]));
+  const partnersById = new Map(partners.map((p) => [p.id, p]));
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-3xl font-bold">Replenishment</h1>
+          <p className="text-muted-foreground">Reorder rules and proposed purchase orders</p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={() => openDialog(null)}>
+            <Plus className="mr-2 h-4 w-4" />
+            Add Rule
+          </Button>
+          <Button onClick={handleRunReplenishment} disabled={running}>
+            <RefreshCw className="mr-2 h-4 w-4" />
+            Run Replenishment
+          </Button>
+        </div>
+      </div>
+
+      {proposals && proposals.length > 0 && (
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0">
+            <CardTitle>Proposals</CardTitle>
+            <div className="flex gap-2">
+              <Button variant="outline" onClick={() => setProposals(null)}>
+                Discard
+              </Button>
+              <Button onClick={handleConfirmProposals}>
+                <Check className="mr-2 h-4 w-4" />
+                Create Purchase Orders
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Product</TableHead>
+                  <TableHead>Warehouse</TableHead>
+                  <TableHead>On Hand</TableHead>
+                  <TableHead>Incoming</TableHead>
+                  <TableHead>Outgoing</TableHead>
+                  <TableHead>Forecast</TableHead>
+                  <TableHead>Min / Max</TableHead>
+                  <TableHead>Supplier</TableHead>
+                  <TableHead>Order</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {[...proposals]
+                  .sort((a, b) =>
+                    (partnersById.get(a.partner_id)?.name ?? "").localeCompare(
+                      partnersById.get(b.partner_id)?.name ?? ""
+                    )
+                  )
+                  .map((proposal) => (
+                    <TableRow key={proposal.rule_id}>
+                      <TableCell className="font-medium">{productsById.get(proposal.product_id)?.name}</TableCell>
+                      <TableCell>{warehousesById.get(proposal.warehouse_id)?.name}</TableCell>
+                      <TableCell>{proposal.on_hand}</TableCell>
+                      <TableCell>{proposal.incoming}</TableCell>
+                      <TableCell>{proposal.outgoing}</TableCell>
+                      <TableCell>{proposal.forecast_quantity}</TableCell>
+                      <TableCell>
+                        {proposal.min_quantity} / {proposal.max_quantity}
+                      </TableCell>
+                      <TableCell className="w-48">
+                        <PartnerPicker
+                          partners={partners}
+                          value={proposal.partner_id ?? ""}
+                          onChange={(partner) => updateProposal(proposal.rule_id, { partner_id: partner.id })}
+                          placeholder="Select supplier"
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <Input
+                          type="number"
+                          min="0"
+                          value={proposal.quantity}
+                          onChange={(e) =>
+                            updateProposal(proposal.rule_id, { quantity: parseFloat(e.target.value) || 0 })
+                          }
+                          className="w-24"
+                        />
+                      </TableCell>
+                    </TableRow>
+                  ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Reorder Rules</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Product</TableHead>
+                <TableHead>Warehouse</TableHead>
+                <TableHead>Preferred Supplier</TableHead>
+                <TableHead>Min</TableHead>
+                <TableHead>Max</TableHead>
+                <TableHead>Multiple Of</TableHead>
+                <TableHead>Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rules.map((rule) => (
+                <TableRow key={rule.id}>
+                  <TableCell>
+                    <div className="font-medium">{rule.products?.name}</div>
+                    <div className="text-xs text-muted-foreground">{rule.products?.sku}</div>
+                  </TableCell>
+                  <TableCell>{rule.warehouses?.name}</TableCell>
+                  <TableCell>{rule.partners?.name || "-"}</TableCell>
+                  <TableCell>{rule.min_quantity}</TableCell>
+                  <TableCell>{rule.max_quantity}</TableCell>
+                  <TableCell>{rule.multiple_of}</TableCell>
+                  <TableCell>
+                    <div className="flex gap-2">
+                      <Button size="sm" variant="ghost" onClick={() => openDialog(rule)}>
+                        <Pencil className="mr-1 h-3 w-3" />
+                        Edit
+                      </Button>
+                      <Button size="sm" variant="ghost" onClick={() => handleDeleteRule(rule)}>
+                        <Trash2 className="mr-1 h-3 w-3" />
+                        Delete
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+              {rules.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={7} className="text-center text-muted-foreground">
+                    No reorder rules found
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>{editingRule ? "Edit Reorder Rule" : "Create New Reorder Rule"}</DialogTitle>
+          </DialogHeader>
+          <form key={editingRule?.id ?? "new"} onSubmit={handleSubmit} className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="product_id">Product</Label>
+                <Select name="product_id" defaultValue={editingRule?.product_id} required>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select product" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {products.map((p) => (
+                      <SelectItem key={p.id} value={p.id}>
+                        {p.name} ({p.sku})
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="warehouse_id">Warehouse</Label>
+                <Select name="warehouse_id" defaultValue={editingRule?.warehouse_id} required>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select warehouse" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {warehouses.map((wh) => (
+                      <SelectItem key={wh.id} value={wh.id}>
+                        {wh.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label>Preferred Supplier</Label>
+              <PartnerPicker
+                partners={partners}
+                value={selectedPartner?.id ?? ""}
+                onChange={setSelectedPartner}
+                placeholder="Select supplier"
+              />
+            </div>
+            <div className="grid grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="min_quantity">Min Quantity (Reorder Level)</Label>
+                <Input
+                  id="min_quantity"
+                  name="min_quantity"
+                  type="number"
+                  min="0"
+                  defaultValue={editingRule?.min_quantity ?? 0}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="max_quantity">Max Quantity</Label>
+                <Input
+                  id="max_quantity"
+                  name="max_quantity"
+                  type="number"
+                  min="0"
+                  defaultValue={editingRule?.max_quantity ?? 0}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="multiple_of">Multiple Of</Label>
+                <Input
+                  id="multiple_of"
+                  name="multiple_of"
+                  type="number"
+                  min="1"
+                  defaultValue={editingRule?.multiple_of ?? 1}
+                  required
+                />
+              </div>
+            </div>
+            <Button type="submit" className="w-full">
+              {editingRule ? "Save Rule" : "Create Rule"}
+            </Button>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default Replenishment;
@@ -0,0 +1,29 @@
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import CustomerReturns from "@/components/returns/CustomerReturns";
+import SupplierReturns from "@/components/returns/SupplierReturns";
+
+const Returns = () => {
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold">Returns</h1>
+        <p className="text-muted-foreground">Goods coming back from customers and going back to suppliers</p>
+      </div>
+
+      <Tabs defaultValue="customer">
+        <TabsList>
+          <TabsTrigger value="customer">Customer Returns</TabsTrigger>
+          <TabsTrigger value="supplier">Supplier Returns</TabsTrigger>
+        </TabsList>
+        <TabsContent value="customer">
+          <CustomerReturns />
+        </TabsContent>
+        <TabsContent value="supplier">
+          <SupplierReturns />
+        </TabsContent>
+      </Tabs>
+    </div>
+  );
+};
+
+export default Returns;
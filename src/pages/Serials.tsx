@@ -0,0 +1,147 @@
+import { useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { toast } from "sonner";
+import { Search } from "lucide-react";
+import { DocumentRef, loadMovementDocuments, movementLabels } from "@/lib/documents";
+
+const Serials = () => {
+  const [searchTerm, setSearchTerm] = useState("");
+  const [serials, setSerials] = useState<any[] | null>(null);
+  const [movements, setMovements] = useState<any[]>([]);
+  const [documents, setDocuments] = useState<Map<string, DocumentRef>>(new Map());
+
+  const handleSearch = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+
+    try {
+      // The same serial number may exist for different products
+      const { data: found, error } = await supabase
+        .from("lots")
+        .select("*, products!inner(name, sku, tracking), stock_lot_levels(quantity, warehouses(name))")
+        .eq("lot_number", searchTerm.trim())
+        .eq("products.tracking", "serial");
+      if (error) throw error;
+
+      const { data: history, error: historyError } = await supabase
+        .from("stock_movements")
+        .select("*, warehouses(name), profiles(full_name)")
+        .in("lot_id", (found || []).map((serial) => serial.id))
+        .order("created_at");
+      if (historyError) throw historyError;
+
+      setSerials(found || []);
+      setMovements(history || []);
+      setDocuments(await loadMovementDocuments(history || []));
+    } catch (error: any) {
+      toast.error(error.message || "Failed to look up serial");
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold">Serial Lookup</h1>
+        <p className="text-muted-foreground">Where a serialized unit is and everywhere it has been</p>
+      </div>
+
+      <Card>
+        <CardContent className="pt-6">
+          <form onSubmit={handleSearch} className="flex gap-2">
+            <div className="relative flex-1">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+              <Input
+                placeholder="Serial number"
+                value={searchTerm}
+                onChange={(e) => setSearchTerm(e.target.value)}
+                className="pl-10 font-mono"
+              />
+            </div>
+            <Button type="submit" disabled={!searchTerm.trim()}>
+              Look Up
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+
+      {serials?.length === 0 && (
+        <Card>
+          <CardContent className="pt-6 text-center text-muted-foreground">No serial found</CardContent>
+        </Card>
+      )}
+
+      {serials?.map((serial) => {
+        const location = serial.stock_lot_levels.find((ll: any) => Number(ll.quantity) > 0);
+        const history = movements.filter((m) => m.lot_id === serial.id);
+
+        return (
+          <Card key={serial.id}>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0">
+              <CardTitle>
+                <span className="font-mono">{serial.lot_number}</span>
+                <span className="ml-2 text-base font-normal text-muted-foreground">
+                  {serial.products.name} ({serial.products.sku})
+                </span>
+              </CardTitle>
+              {location ? (
+                <Badge variant="outline">In stock at {location.warehouses?.name}</Badge>
+              ) : (
+                <Badge variant="secondary">Not in stock</Badge>
+              )}
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Type</TableHead>
+                    <TableHead>Warehouse</TableHead>
+                    <TableHead>Document</TableHead>
+                    <TableHead>Quantity</TableHead>
+                    <TableHead>Created By</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {history.map((movement) => (
+                    <TableRow key={movement.id}>
+                      <TableCell className="font-mono text-sm">
+                        {new Date(movement.created_at).toLocaleString()}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant="outline">
+                          {movementLabels[movement.movement_type] || movement.movement_type}
+                        </Badge>
+                      </TableCell>
+                      <TableCell>{movement.warehouses?.name}</TableCell>
+                      <TableCell>
+                        <div className="font-mono text-sm">{documents.get(movement.reference_id)?.number || "-"}</div>
+                        {documents.get(movement.reference_id)?.partner && (
+                          <div className="text-xs text-muted-foreground">
+                            {documents.get(movement.reference_id).partner}
+                          </div>
+                        )}
+                      </TableCell>
+                      <TableCell
+                        className={`font-medium ${movement.quantity > 0 ? "text-success" : "text-destructive"}`}
+                      >
+                        {movement.quantity > 0 ? "+" : ""}
+                        {movement.quantity}
+                      </TableCell>
+                      <TableCell>{movement.profiles?.full_name || "System"}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        );
+      })}
+    </div>
+  );
+};
+
+export default Serials;
@@ -1,28 +1,436 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-import { Settings as SettingsIcon } from "lucide-react";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import { toast } from "sonner";
+import { Archive, ArchiveRestore, Pencil, Plus, Ruler, Warehouse } from "lucide-react";
+import { sortLocationTree } from "@/lib/locations";
 
 const Settings = () => {
+  const [warehouses, setWarehouses] = useState<any[]>([]);
+  const [locations, setLocations] = useState<any[]>([]);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingWarehouse, setEditingWarehouse] = useState<any>(null);
+  const [uomCategories, setUomCategories] = useState<any[]>([]);
+  const [units, setUnits] = useState<any[]>([]);
+  const [unitDialogOpen, setUnitDialogOpen] = useState(false);
+  const [editingUnit, setEditingUnit] = useState<any>(null);
+  const [uomCategoryDialogOpen, setUomCategoryDialogOpen] = useState(false);
+
+  useEffect(() => {
+    loadWarehouses();
+    loadLocations();
+    loadUomCategories();
+    loadUnits();
+  }, []);
+
+  const loadWarehouses = async () => {
+    const { data } = await supabase.from("warehouses").select("*").order("name");
+    setWarehouses(data || []);
+  };
+
+  const loadLocations = async () => {
+    const { data } = await supabase.from("locations").select("*").order("code");
+    setLocations(data || []);
+  };
+
+  const loadUomCategories = async () => {
+    const { data } = await supabase.from("uom_categories").select("*").order("name");
+    setUomCategories(data || []);
+  };
+
+  const loadUnits = async () => {
+    const { data } = await supabase.from("units_of_measure").select("*").order("ratio");
+    setUnits(data || []);
+  };
+
+  const openDialog = (warehouse: any) => {
+    setEditingWarehouse(warehouse);
+    setDialogOpen(true);
+  };
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const formData = new FormData(e.currentTarget);
+    const receiptLocation = formData.get("default_receipt_location_id") as string;
+    const deliveryLocation = formData.get("default_delivery_location_id") as string;
+
+    const warehouse = {
+      name: (formData.get("name") as string).trim(),
+      code: (formData.get("code") as string).trim().toUpperCase(),
+      address: (formData.get("address") as string) || null,
+      default_receipt_location_id: receiptLocation && receiptLocation !== "none" ? receiptLocation : null,
+      default_delivery_location_id: deliveryLocation && deliveryLocation !== "none" ? deliveryLocation : null,
+    };
+
+    try {
+      const { error } = editingWarehouse
+        ? await supabase.from("warehouses").update(warehouse).eq("id", editingWarehouse.id)
+        : await supabase.from("warehouses").insert(warehouse);
+
+      if (error) throw error;
+
+      toast.success(editingWarehouse ? "Warehouse updated successfully" : "Warehouse created successfully");
+      setDialogOpen(false);
+      loadWarehouses();
+    } catch (error: any) {
+      toast.error(error.message || "Failed to save warehouse");
+    }
+  };
+
+  // Archiving is refused while the warehouse holds stock or open documents
+  const handleSetActive = async (warehouse: any, active: boolean) => {
+    try {
+      const { error } = await supabase.from("warehouses").update({ active }).eq("id", warehouse.id);
+      if (error) throw error;
+
+      toast.success(active ? "Warehouse restored" : "Warehouse archived");
+      loadWarehouses();
+    } catch (error: any) {
+      toast.error(error.message || "Failed to update warehouse");
+    }
+  };
+
+  const openUnitDialog = (unit: any) => {
+    setEditingUnit(unit);
+    setUnitDialogOpen(true);
+  };
+
+  const handleUnitSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const formData = new FormData(e.currentTarget);
+
+    const unit = {
+      name: (formData.get("name") as string).trim(),
+      category_id: formData.get("category_id") as string,
+      ratio: parseFloat(formData.get("ratio") as string),
+    };
+
+    try {
+      const { error } = editingUnit
+        ? await supabase.from("units_of_measure").update(unit).eq("id", editingUnit.id)
+        : await supabase.from("units_of_measure").insert(unit);
+
+      if (error) throw error;
+
+      toast.success(editingUnit ? "Unit updated successfully" : "Unit created successfully");
+      setUnitDialogOpen(false);
+      loadUnits();
+    } catch (error: any) {
+      toast.error(error.message || "Failed to save unit");
+    }
+  };
+
+  const handleUomCategorySubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const formData = new FormData(e.currentTarget);
+
+    try {
+      const { error } = await supabase
+        .from("uom_categories")
+        .insert({ name: (formData.get("name") as string).trim() });
+
+      if (error) throw error;
+
+      toast.success("Unit category created successfully");
+      setUomCategoryDialogOpen(false);
+      loadUomCategories();
+    } catch (error: any) {
+      toast.error(error.message || "Failed to create unit category");
+    }
+  };
+
+  // The unit each category's ratios are measured against
+  const getReferenceUnit = (categoryId: string) =>
+    units.find((u) => u.category_id === categoryId && Number(u.ratio) === 1);
+
+  const locationsById = new Map(locations.map((l) => [l.id, l]));
+  const editingLocations = editingWarehouse
+    ? sortLocationTree(locations.filter((l) => l.warehouse_id === editingWarehouse.id))
+    : [];
+
   return (
-    <div className="max-w-2xl space-y-6">
+    <div className="space-y-6">
       <div>
         <h1 className="text-3xl font-bold">Settings</h1>
         <p className="text-muted-foreground">Manage application settings</p>
       </div>
 
       <Card>
-        <CardHeader>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
+          <CardTitle className="flex items-center gap-2">
+            <Warehouse className="h-5 w-5" />
+            Warehouses
+          </CardTitle>
+          <Button onClick={() => openDialog(null)}>
+            <Plus className="mr-2 h-4 w-4" />
+            Add Warehouse
+          </Button>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Code</TableHead>
+                <TableHead>Name</TableHead>
+                <TableHead>Address</TableHead>
+                <TableHead>Default Locations</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {warehouses.map((warehouse) => (
+                <TableRow key={warehouse.id} className={warehouse.active ? undefined : "text-muted-foreground"}>
+                  <TableCell className="font-mono">{warehouse.code}</TableCell>
+                  <TableCell className="font-medium">{warehouse.name}</TableCell>
+                  <TableCell>{warehouse.address || "-"}</TableCell>
+                  <TableCell className="text-sm">
+                    <div>Putaway: {locationsById.get(warehouse.default_receipt_location_id)?.code ?? "-"}</div>
+                    <div>Pick: {locationsById.get(warehouse.default_delivery_location_id)?.code ?? "-"}</div>
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant={warehouse.active ? "default" : "secondary"}>
+                      {warehouse.active ? "Active" : "Archived"}
+                    </Badge>
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex gap-2">
+                      <Button size="sm" variant="ghost" onClick={() => openDialog(warehouse)}>
+                        <Pencil className="mr-1 h-3 w-3" />
+                        Edit
+                      </Button>
+                      {warehouse.active ? (
+                        <Button size="sm" variant="ghost" onClick={() => handleSetActive(warehouse, false)}>
+                          <Archive className="mr-1 h-3 w-3" />
+                          Archive
+                        </Button>
+                      ) : (
+                        <Button size="sm" variant="ghost" onClick={() => handleSetActive(warehouse, true)}>
+                          <ArchiveRestore className="mr-1 h-3 w-3" />
+                          Restore
+                        </Button>
+                      )}
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+              {warehouses.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center text-muted-foreground">
+                    No warehouses found
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
           <CardTitle className="flex items-center gap-2">
-            <SettingsIcon className="h-5 w-5" />
-            Warehouse Settings
+            <Ruler className="h-5 w-5" />
+            Units of Measure
           </CardTitle>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => setUomCategoryDialogOpen(true)}>
+              <Plus className="mr-2 h-4 w-4" />
+              Add Category
+            </Button>
+            <Button onClick={() => openUnitDialog(null)}>
+              <Plus className="mr-2 h-4 w-4" />
+              Add Unit
+            </Button>
+          </div>
         </CardHeader>
         <CardContent>
-          <p className="text-muted-foreground">
-            Warehouse management settings will be available here. You can manage warehouses,
-            configure reorder rules, and set up notifications.
-          </p>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Category</TableHead>
+                <TableHead>Unit</TableHead>
+                <TableHead>Conversion</TableHead>
+                <TableHead>Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {uomCategories.flatMap((category) =>
+                units
+                  .filter((u) => u.category_id === category.id)
+                  .map((unit) => {
+                    const reference = getReferenceUnit(category.id);
+
+                    return (
+                      <TableRow key={unit.id}>
+                        <TableCell className="text-muted-foreground">{category.name}</TableCell>
+                        <TableCell className="font-medium">{unit.name}</TableCell>
+                        <TableCell>
+                          {reference && reference.id !== unit.id
+                            ? `1 ${unit.name} = ${Number(unit.ratio)} ${reference.name}`
+                            : "Reference unit"}
+                        </TableCell>
+                        <TableCell>
+                          <Button size="sm" variant="ghost" onClick={() => openUnitDialog(unit)}>
+                            <Pencil className="mr-1 h-3 w-3" />
+                            Edit
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })
+              )}
+              {units.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={4} className="text-center text-muted-foreground">
+                    No units found
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
         </CardContent>
       </Card>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>{editingWarehouse ? `Edit ${editingWarehouse.name}` : "Create New Warehouse"}</DialogTitle>
+          </DialogHeader>
+          <form key={editingWarehouse?.id ?? "new"} onSubmit={handleSubmit} className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="name">Name</Label>
+                <Input id="name" name="name" defaultValue={editingWarehouse?.name} required />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="code">Code</Label>
+                <Input id="code" name="code" defaultValue={editingWarehouse?.code} required />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="address">Address</Label>
+              <Input id="address" name="address" defaultValue={editingWarehouse?.address ?? ""} />
+            </div>
+            {editingWarehouse && (
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="default_receipt_location_id">Default Putaway Location</Label>
+                  <Select
+                    name="default_receipt_location_id"
+                    defaultValue={editingWarehouse.default_receipt_location_id ?? "none"}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="none">No default</SelectItem>
+                      {editingLocations.map((location) => (
+                        <SelectItem key={location.id} value={location.id}>
+                          {location.code}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="default_delivery_location_id">Default Pick Location</Label>
+                  <Select
+                    name="default_delivery_location_id"
+                    defaultValue={editingWarehouse.default_delivery_location_id ?? "none"}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="none">No default</SelectItem>
+                      {editingLocations.map((location) => (
+                        <SelectItem key={location.id} value={location.id}>
+                          {location.code}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+            )}
+            <Button type="submit" className="w-full">
+              {editingWarehouse ? "Save Warehouse" : "Create Warehouse"}
+            </Button>
+          </form>
+        </DialogContent>
+      </Dialog>
+      <Dialog open={unitDialogOpen} onOpenChange={setUnitDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editingUnit ? `Edit ${editingUnit.name}` : "Create New Unit"}</DialogTitle>
+          </DialogHeader>
+          <form key={editingUnit?.id ?? "new"} onSubmit={handleUnitSubmit} className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="unit_name">Name</Label>
+                <Input id="unit_name" name="name" defaultValue={editingUnit?.name} required />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="category_id">Category</Label>
+                <Select name="category_id" defaultValue={editingUnit?.category_id} required>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select category" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {uomCategories.map((category) => (
+                      <SelectItem key={category.id} value={category.id}>
+                        {category.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="ratio">Reference Units per Unit</Label>
+              <Input
+                id="ratio"
+                name="ratio"
+                type="number"
+                step="any"
+                min="0"
+                defaultValue={editingUnit?.ratio ?? 1}
+                required
+              />
+              <p className="text-xs text-muted-foreground">
+                For example 12 for a case of 12 when the category counts in single units.
+              </p>
+            </div>
+            <Button type="submit" className="w-full">
+              {editingUnit ? "Save Unit" : "Create Unit"}
+            </Button>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={uomCategoryDialogOpen} onOpenChange={setUomCategoryDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Create New Unit Category</DialogTitle>
+          </DialogHeader>
+          <form onSubmit={handleUomCategorySubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="uom_category_name">Name</Label>
+              <Input id="uom_category_name" name="name" required />
+            </div>
+            <Button type="submit" className="w-full">
+              Create Category
+            </Button>
+          </form>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 };
@@ -8,21 +8,35 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { toast } from "sonner";
-import { Plus, Check, ArrowRight } from "lucide-react";
-import { Badge } from "@/components/ui/badge";
+import { Plus, Check, ArrowRight, ListTodo, X, Undo2 } from "lucide-react";
+import StatusBadge from "@/components/StatusBadge";
+import CancelDocumentDialog from "@/components/CancelDocumentDialog";
+import ReverseDocumentDialog from "@/components/ReverseDocumentDialog";
 import { useAuth } from "@/contexts/AuthContext";
+import { sortLocationTree } from "@/lib/locations";
 
 const Transfers = () => {
   const { user } = useAuth();
   const [transfers, setTransfers] = useState<any[]>([]);
   const [products, setProducts] = useState<any[]>([]);
   const [warehouses, setWarehouses] = useState<any[]>([]);
+  const [locations, setLocations] = useState<any[]>([]);
+  const [sourceWarehouse, setSourceWarehouse] = useState("");
+  const [destinationWarehouse, setDestinationWarehouse] = useState("");
+  const [sourceLocation, setSourceLocation] = useState("none");
+  const [destinationLocation, setDestinationLocation] = useState("none");
   const [dialogOpen, setDialogOpen] = useState(false);
+  const [selectedProducts, setSelectedProducts] = useState<{ productId: string; quantity: number }[]>([
+    { productId: "", quantity: 0 },
+  ]);
+  const [cancelingTransfer, setCancelingTransfer] = useState<any>(null);
+  const [reversingTransfer, setReversingTransfer] = useState<any>(null);
 
   useEffect(() => {
     loadTransfers();
     loadProducts();
     loadWarehouses();
+    loadLocations();
   }, []);
 
   const loadTransfers = async () => {
@@ -30,54 +44,86 @@ const Transfers = () => {
       .from("internal_transfers")
       .select(`
         *,
-        products(name, sku),
+        transfer_lines(quantity, products(name, sku)),
         source:warehouses!internal_transfers_source_warehouse_id_fkey(name),
-        destination:warehouses!internal_transfers_destination_warehouse_id_fkey(name)
+        destination:warehouses!internal_transfers_destination_warehouse_id_fkey(name),
+        source_location:locations!internal_transfers_source_location_id_fkey(code),
+        destination_location:locations!internal_transfers_destination_location_id_fkey(code)
       `)
       .order("created_at", { ascending: false });
     setTransfers(data || []);
   };
 
   const loadProducts = async () => {
-    const { data } = await supabase.from("products").select("*").order("name");
+    const { data } = await supabase
+      .from("products")
+      .select("*")
+      .eq("active", true)
+      .eq("product_type", "stock")
+      .order("name");
     setProducts(data || []);
   };
 
   const loadWarehouses = async () => {
-    const { data } = await supabase.from("warehouses").select("*").order("name");
+    const { data } = await supabase.from("warehouses").select("*").eq("active", true).order("name");
     setWarehouses(data || []);
   };
 
+  const loadLocations = async () => {
+    const { data } = await supabase.from("locations").select("*").order("code");
+    setLocations(data || []);
+  };
+
   const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
     e.preventDefault();
     const formData = new FormData(e.currentTarget);
 
-    const sourceId = formData.get("source_warehouse_id") as string;
-    const destId = formData.get("destination_warehouse_id") as string;
-
-    if (sourceId === destId) {
-      toast.error("Source and destination warehouses must be different");
+    // Within one warehouse, stock moves between two different locations
+    if (sourceWarehouse === destinationWarehouse && sourceLocation === destinationLocation) {
+      toast.error("Choose different locations to move stock within a warehouse");
       return;
     }
 
     try {
       const transferNumber = `TRF-${Date.now()}`;
-      const { error } = await supabase.from("internal_transfers").insert({
-        transfer_number: transferNumber,
-        source_warehouse_id: sourceId,
-        destination_warehouse_id: destId,
-        product_id: formData.get("product_id") as string,
-        quantity: parseInt(formData.get("quantity") as string),
-        notes: formData.get("notes") as string,
-        created_by: user?.id,
-        status: "draft",
-      });
+      const { data: transfer, error: transferError } = await supabase
+        .from("internal_transfers")
+        .insert({
+          transfer_number: transferNumber,
+          source_warehouse_id: sourceWarehouse,
+          destination_warehouse_id: destinationWarehouse,
+          source_location_id: sourceLocation !== "none" ? sourceLocation : null,
+          destination_location_id: destinationLocation !== "none" ? destinationLocation : null,
+          notes: formData.get("notes") as string,
+          created_by: user?.id,
+          status: "draft",
+        })
+        .select()
+        .single();
 
-      if (error) throw error;
+      if (transferError) throw transferError;
+
+      const lines = selectedProducts
+        .filter((p) => p.productId && p.quantity > 0)
+        .map((p) => ({
+          transfer_id: transfer.id,
+          product_id: p.productId,
+          quantity: p.quantity,
+        }));
+
+      if (lines.length > 0) {
+        const { error: linesError } = await supabase.from("transfer_lines").insert(lines);
+        if (linesError) throw linesError;
+      }
 
       toast.success("Transfer created successfully");
       setDialogOpen(false);
       loadTransfers();
+      setSelectedProducts([{ productId: "", quantity: 0 }]);
+      setSourceWarehouse("");
+      setDestinationWarehouse("");
+      setSourceLocation("none");
+      setDestinationLocation("none");
     } catch (error: any) {
       toast.error(error.message || "Failed to create transfer");
     }
@@ -85,87 +131,66 @@ const Transfers = () => {
 
   const handleValidateTransfer = async (transfer: any) => {
     try {
-      // Check source stock
-      const { data: sourceStock } = await supabase
-        .from("stock_levels")
-        .select("*")
-        .eq("product_id", transfer.product_id)
-        .eq("warehouse_id", transfer.source_warehouse_id)
-        .single();
+      const { error } = await supabase.rpc("validate_transfer", { p_transfer_id: transfer.id });
+      if (error) throw error;
 
-      if (!sourceStock || Number(sourceStock.quantity) < Number(transfer.quantity)) {
-        toast.error("Insufficient stock in source warehouse");
-        return;
-      }
+      toast.success("Transfer validated and stock updated");
+      loadTransfers();
+    } catch (error: any) {
+      toast.error(error.message || "Failed to validate transfer");
+    }
+  };
 
-      // Reduce source stock
-      await supabase
-        .from("stock_levels")
-        .update({ quantity: Number(sourceStock.quantity) - Number(transfer.quantity) })
-        .eq("id", sourceStock.id);
+  const handleConfirmTransfer = async (transfer: any) => {
+    try {
+      const { error } = await supabase.rpc("confirm_transfer", { p_transfer_id: transfer.id });
+      if (error) throw error;
 
-      // Increase destination stock
-      const { data: destStock } = await supabase
-        .from("stock_levels")
-        .select("*")
-        .eq("product_id", transfer.product_id)
-        .eq("warehouse_id", transfer.destination_warehouse_id)
-        .single();
+      toast.success("Transfer marked as todo");
+      loadTransfers();
+    } catch (error: any) {
+      toast.error(error.message || "Failed to update transfer");
+    }
+  };
 
-      if (destStock) {
-        await supabase
-          .from("stock_levels")
-          .update({ quantity: Number(destStock.quantity) + Number(transfer.quantity) })
-          .eq("id", destStock.id);
-      } else {
-        await supabase.from("stock_levels").insert({
-          product_id: transfer.product_id,
-          warehouse_id: transfer.destination_warehouse_id,
-          quantity: transfer.quantity,
-        });
-      }
+  const handleCancelTransfer = async (reason: string) => {
+    try {
+      const { error } = await supabase.rpc("cancel_transfer", {
+        p_transfer_id: cancelingTransfer.id,
+        p_reason: reason,
+      });
+      if (error) throw error;
 
-      // Create stock movements
-      await supabase.from("stock_movements").insert([
-        {
-          product_id: transfer.product_id,
-          warehouse_id: transfer.source_warehouse_id,
-          movement_type: "transfer_out",
-          quantity: -transfer.quantity,
-          reference_id: transfer.id,
-          reference_type: "transfer",
-          created_by: user?.id,
-        },
-        {
-          product_id: transfer.product_id,
-          warehouse_id: transfer.destination_warehouse_id,
-          movement_type: "transfer_in",
-          quantity: transfer.quantity,
-          reference_id: transfer.id,
-          reference_type: "transfer",
-          created_by: user?.id,
-        },
-      ]);
+      toast.success("Transfer canceled");
+      setCancelingTransfer(null);
+      loadTransfers();
+    } catch (error: any) {
+      toast.error(error.message || "Failed to cancel transfer");
+    }
+  };
 
-      // Update transfer status
-      await supabase
-        .from("internal_transfers")
-        .update({ status: "done", validated_at: new Date().toISOString() })
-        .eq("id", transfer.id);
+  const handleReverseTransfer = async () => {
+    try {
+      const { error } = await supabase.rpc("reverse_transfer", { p_transfer_id: reversingTransfer.id });
+      if (error) throw error;
 
-      toast.success("Transfer validated and stock updated");
+      toast.success("Transfer reversed and stock restored");
+      setReversingTransfer(null);
       loadTransfers();
     } catch (error: any) {
-      toast.error(error.message || "Failed to validate transfer");
+      toast.error(error.message || "Failed to reverse transfer");
     }
   };
 
+  const transfersById = new Map(transfers.map((t) => [t.id, t]));
+  const reversalsById = new Map(transfers.filter((t) => t.reversal_of_id).map((t) => [t.reversal_of_id, t]));
+
   return (
     <div className="space-y-6">
       <div className="flex justify-between items-center">
         <div>
           <h1 className="text-3xl font-bold">Internal Transfers</h1>
-          <p className="text-muted-foreground">Move stock between warehouses</p>
+          <p className="text-muted-foreground">Move stock between warehouses and locations</p>
         </div>
         <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
           <DialogTrigger asChild>
@@ -174,59 +199,136 @@ const Transfers = () => {
               Create Transfer
             </Button>
           </DialogTrigger>
-          <DialogContent>
+          <DialogContent className="max-w-2xl max-h-[80vh] overflow-y-auto">
             <DialogHeader>
               <DialogTitle>Create Internal Transfer</DialogTitle>
             </DialogHeader>
             <form onSubmit={handleSubmit} className="space-y-4">
-              <div className="space-y-2">
-                <Label htmlFor="source_warehouse_id">From Warehouse</Label>
-                <Select name="source_warehouse_id" required>
-                  <SelectTrigger>
-                    <SelectValue placeholder="Select source warehouse" />
-                  </SelectTrigger>
-                  <SelectContent>
-                    {warehouses.map((wh) => (
-                      <SelectItem key={wh.id} value={wh.id}>
-                        {wh.name}
-                      </SelectItem>
-                    ))}
-                  </SelectContent>
-                </Select>
-              </div>
-              <div className="space-y-2">
-                <Label htmlFor="destination_warehouse_id">To Warehouse</Label>
-                <Select name="destination_warehouse_id" required>
-                  <SelectTrigger>
-                    <SelectValue placeholder="Select destination warehouse" />
-                  </SelectTrigger>
-                  <SelectContent>
-                    {warehouses.map((wh) => (
-                      <SelectItem key={wh.id} value={wh.id}>
-                        {wh.name}
-                      </SelectItem>
-                    ))}
-                  </SelectContent>
-                </Select>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="source_warehouse_id">From Warehouse</Label>
+                  <Select
+                    name="source_warehouse_id"
+                    value={sourceWarehouse}
+                    onValueChange={(value) => {
+                      setSourceWarehouse(value);
+                      setSourceLocation("none");
+                    }}
+                    required
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select source warehouse" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {warehouses.map((wh) => (
+                        <SelectItem key={wh.id} value={wh.id}>
+                          {wh.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label>From Location</Label>
+                  <Select value={sourceLocation} onValueChange={setSourceLocation}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="none">Any location</SelectItem>
+                      {sortLocationTree(locations.filter((l) => l.warehouse_id === sourceWarehouse)).map((l) => (
+                        <SelectItem key={l.id} value={l.id}>
+                          {l.code} · {l.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
               </div>
-              <div className="space-y-2">
-                <Label htmlFor="product_id">Product</Label>
-                <Select name="product_id" required>
-                  <SelectTrigger>
-                    <SelectValue placeholder="Select product" />
-                  </SelectTrigger>
-                  <SelectContent>
-                    {products.map((p) => (
-                      <SelectItem key={p.id} value={p.id}>
-                        {p.name} ({p.sku})
-                      </SelectItem>
-                    ))}
-                  </SelectContent>
-                </Select>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="destination_warehouse_id">To Warehouse</Label>
+                  <Select
+                    name="destination_warehouse_id"
+                    value={destinationWarehouse}
+                    onValueChange={(value) => {
+                      setDestinationWarehouse(value);
+                      setDestinationLocation("none");
+                    }}
+                    required
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select destination warehouse" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {warehouses.map((wh) => (
+                        <SelectItem key={wh.id} value={wh.id}>
+                          {wh.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label>To Location</Label>
+                  <Select value={destinationLocation} onValueChange={setDestinationLocation}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="none">No location</SelectItem>
+                      {sortLocationTree(locations.filter((l) => l.warehouse_id === destinationWarehouse)).map((l) => (
+                        <SelectItem key={l.id} value={l.id}>
+                          {l.code} · {l.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
               </div>
               <div className="space-y-2">
-                <Label htmlFor="quantity">Quantity</Label>
-                <Input id="quantity" name="quantity" type="number" required min="1" />
+                <Label>Products</Label>
+                {selectedProducts.map((item, index) => (
+                  <div key={index} className="flex gap-2">
+                    <Select
+                      value={item.productId}
+                      onValueChange={(value) => {
+                        const newProducts = [...selectedProducts];
+                        newProducts[index].productId = value;
+                        setSelectedProducts(newProducts);
+                      }}
+                    >
+                      <SelectTrigger className="flex-1">
+                        <SelectValue placeholder="Select product" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {products.map((p) => (
+                          <SelectItem key={p.id} value={p.id}>
+                            {p.name} ({p.sku})
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Input
+                      type="number"
+                      placeholder="Quantity"
+                      value={item.quantity}
+                      onChange={(e) => {
+                        const newProducts = [...selectedProducts];
+                        newProducts[index].quantity = parseInt(e.target.value) || 0;
+                        setSelectedProducts(newProducts);
+                      }}
+                      className="w-32"
+                    />
+                  </div>
+                ))}
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => setSelectedProducts([...selectedProducts, { productId: "", quantity: 0 }])}
+                >
+                  Add Product
+                </Button>
               </div>
               <div className="space-y-2">
                 <Label htmlFor="notes">Notes</Label>
@@ -246,10 +348,9 @@ const Transfers = () => {
             <TableHeader>
               <TableRow>
                 <TableHead>Transfer Number</TableHead>
-                <TableHead>Product</TableHead>
+                <TableHead>Products</TableHead>
                 <TableHead>From</TableHead>
                 <TableHead>To</TableHead>
-                <TableHead>Quantity</TableHead>
                 <TableHead>Status</TableHead>
                 <TableHead>Created</TableHead>
                 <TableHead>Actions</TableHead>
@@ -258,33 +359,83 @@ const Transfers = () => {
             <TableBody>
               {transfers.map((transfer) => (
                 <TableRow key={transfer.id}>
-                  <TableCell className="font-mono">{transfer.transfer_number}</TableCell>
-                  <TableCell>{transfer.products?.name}</TableCell>
-                  <TableCell>{transfer.source?.name}</TableCell>
-                  <TableCell className="flex items-center gap-2">
-                    <ArrowRight className="h-3 w-3 text-muted-foreground" />
-                    {transfer.destination?.name}
+                  <TableCell>
+                    <div className="font-mono">{transfer.transfer_number}</div>
+                    {transfer.reversal_of_id && (
+                      <div className="text-xs text-muted-foreground">
+                        Reversal of {transfersById.get(transfer.reversal_of_id)?.transfer_number}
+                      </div>
+                    )}
+                    {reversalsById.has(transfer.id) && (
+                      <div className="text-xs text-muted-foreground">
+                        Reversed by {reversalsById.get(transfer.id).transfer_number}
+                      </div>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    {transfer.transfer_lines?.map((line: any, index: number) => (
+                      <div key={index} className="text-sm">
+                        {line.products?.name} × {line.quantity}
+                      </div>
+                    ))}
                   </TableCell>
-                  <TableCell>{transfer.quantity}</TableCell>
                   <TableCell>
-                    <Badge variant={transfer.status === "done" ? "default" : "secondary"}>
-                      {transfer.status}
-                    </Badge>
+                    <div>{transfer.source?.name}</div>
+                    {transfer.source_location && (
+                      <div className="text-xs font-mono text-muted-foreground">{transfer.source_location.code}</div>
+                    )}
                   </TableCell>
-                  <TableCell>{new Date(transfer.created_at).toLocaleDateString()}</TableCell>
                   <TableCell>
-                    {transfer.status !== "done" && (
-                      <Button size="sm" onClick={() => handleValidateTransfer(transfer)}>
-                        <Check className="mr-1 h-3 w-3" />
-                        Validate
-                      </Button>
+                    <div className="flex items-center gap-2">
+                      <ArrowRight className="h-3 w-3 text-muted-foreground" />
+                      {transfer.destination?.name}
+                    </div>
+                    {transfer.destination_location && (
+                      <div className="ml-5 text-xs font-mono text-muted-foreground">
+                        {transfer.destination_location.code}
+                      </div>
                     )}
                   </TableCell>
+                  <TableCell>
+                    <StatusBadge status={transfer.status} />
+                    {transfer.cancel_reason && (
+                      <div className="text-xs text-muted-foreground">{transfer.cancel_reason}</div>
+                    )}
+                  </TableCell>
+                  <TableCell>{new Date(transfer.created_at).toLocaleDateString()}</TableCell>
+                  <TableCell>
+                    <div className="flex gap-2">
+                      {transfer.status === "draft" && (
+                        <Button size="sm" variant="outline" onClick={() => handleConfirmTransfer(transfer)}>
+                          <ListTodo className="mr-1 h-3 w-3" />
+                          Mark as Todo
+                        </Button>
+                      )}
+                      {!["done", "canceled"].includes(transfer.status) && (
+                        <>
+                          <Button size="sm" onClick={() => handleValidateTransfer(transfer)}>
+                            <Check className="mr-1 h-3 w-3" />
+                            Validate
+                          </Button>
+                          <Button size="sm" variant="ghost" onClick={() => setCancelingTransfer(transfer)}>
+                            <X className="mr-1 h-3 w-3" />
+                            Cancel
+                          </Button>
+                        </>
+                      )}
+                      {transfer.status === "done" && !transfer.reversal_of_id && !reversalsById.has(transfer.id) && (
+                        <Button size="sm" variant="outline" onClick={() => setReversingTransfer(transfer)}>
+                          <Undo2 className="mr-1 h-3 w-3" />
+                          Reverse
+                        </Button>
+                      )}
+                    </div>
+                  </TableCell>
                 </TableRow>
               ))}
               {transfers.length === 0 && (
                 <TableRow>
-                  <TableCell colSpan={8} className="text-center text-muted-foreground">
+                  <TableCell colSpan={7} className="text-center text-muted-foreground">
                     No transfers found
                   </TableCell>
                 </TableRow>
@@ -293,6 +444,18 @@ const Transfers = () => {
           </Table>
         </CardContent>
       </Card>
+
+      <CancelDocumentDialog
+        documentNumber={cancelingTransfer?.transfer_number ?? null}
+        onClose={() => setCancelingTransfer(null)}
+        onConfirm={handleCancelTransfer}
+      />
+
+      <ReverseDocumentDialog
+        documentNumber={reversingTransfer?.transfer_number ?? null}
+        onClose={() => setReversingTransfer(null)}
+        onConfirm={handleReverseTransfer}
+      />
     </div>
   );
 };
@@ -0,0 +1,234 @@
+-- Server-side validation for receipts, deliveries, transfers and adjustments.
+-- Each validate_* function locks the document and the stock rows it touches,
+-- applies every line, writes the ledger and marks the document done in one
+-- transaction, so stock can no longer end up partly updated.
+
+-- Apply a signed quantity change to one product in one warehouse and record it
+-- in the stock movement ledger
+CREATE OR REPLACE FUNCTION public.apply_stock_movement(
+  p_product_id UUID,
+  p_warehouse_id UUID,
+  p_quantity DECIMAL,
+  p_movement_type TEXT,
+  p_reference_type TEXT,
+  p_reference_id UUID,
+  p_notes TEXT DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_stock public.stock_levels%ROWTYPE;
+BEGIN
+  INSERT INTO public.stock_levels (product_id, warehouse_id, quantity)
+  VALUES (p_product_id, p_warehouse_id, 0)
+  ON CONFLICT (product_id, warehouse_id) DO NOTHING;
+
+  SELECT * INTO v_stock
+  FROM public.stock_levels
+  WHERE product_id = p_product_id AND warehouse_id = p_warehouse_id
+  FOR UPDATE;
+
+  IF v_stock.quantity + p_quantity < 0 THEN
+    RAISE EXCEPTION 'Insufficient stock for product % (available %, requested %)',
+      (SELECT sku FROM public.products WHERE id = p_product_id),
+      v_stock.quantity,
+      -p_quantity;
+  END IF;
+
+  UPDATE public.stock_levels
+  SET quantity = v_stock.quantity + p_quantity
+  WHERE id = v_stock.id;
+
+  INSERT INTO public.stock_movements (
+    product_id, warehouse_id, movement_type, quantity, reference_id, reference_type, notes, created_by
+  )
+  VALUES (
+    p_product_id, p_warehouse_id, p_movement_type, p_quantity, p_reference_id, p_reference_type, p_notes, auth.uid()
+  );
+END;
+$$;
+
+-- Only the validate_* functions below may move stock through this helper
+REVOKE EXECUTE ON FUNCTION public.apply_stock_movement(UUID, UUID, DECIMAL, TEXT, TEXT, UUID, TEXT)
+  FROM PUBLIC, anon, authenticated;
+
+-- Validate a receipt: add every line to the receipt's warehouse
+CREATE OR REPLACE FUNCTION public.validate_receipt(p_receipt_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_receipt public.receipts%ROWTYPE;
+  v_line public.receipt_lines%ROWTYPE;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_receipt FROM public.receipts WHERE id = p_receipt_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Receipt not found';
+  END IF;
+
+  IF v_receipt.status IN ('done', 'canceled') THEN
+    RAISE EXCEPTION 'Receipt % is already %', v_receipt.receipt_number, v_receipt.status;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.receipt_lines WHERE receipt_id = p_receipt_id) THEN
+    RAISE EXCEPTION 'Cannot validate receipt without products';
+  END IF;
+
+  FOR v_line IN
+    SELECT * FROM public.receipt_lines WHERE receipt_id = p_receipt_id ORDER BY product_id
+  LOOP
+    PERFORM public.apply_stock_movement(
+      v_line.product_id, v_receipt.warehouse_id, v_line.quantity, 'receipt', 'receipt', p_receipt_id
+    );
+  END LOOP;
+
+  UPDATE public.receipts
+  SET status = 'done', validated_at = NOW()
+  WHERE id = p_receipt_id;
+END;
+$$;
+
+-- Validate a delivery: remove every line from the delivery's warehouse.
+-- Fails as a whole if any line lacks stock.
+CREATE OR REPLACE FUNCTION public.validate_delivery(p_delivery_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_delivery public.deliveries%ROWTYPE;
+  v_line public.delivery_lines%ROWTYPE;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_delivery FROM public.deliveries WHERE id = p_delivery_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Delivery not found';
+  END IF;
+
+  IF v_delivery.status IN ('done', 'canceled') THEN
+    RAISE EXCEPTION 'Delivery % is already %', v_delivery.delivery_number, v_delivery.status;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.delivery_lines WHERE delivery_id = p_delivery_id) THEN
+    RAISE EXCEPTION 'Cannot validate delivery without products';
+  END IF;
+
+  FOR v_line IN
+    SELECT * FROM public.delivery_lines WHERE delivery_id = p_delivery_id ORDER BY product_id
+  LOOP
+    PERFORM public.apply_stock_movement(
+      v_line.product_id, v_delivery.warehouse_id, -v_line.quantity, 'delivery', 'delivery', p_delivery_id
+    );
+  END LOOP;
+
+  UPDATE public.deliveries
+  SET status = 'done', validated_at = NOW()
+  WHERE id = p_delivery_id;
+END;
+$$;
+
+-- Validate an internal transfer: move the quantity from source to destination
+CREATE OR REPLACE FUNCTION public.validate_transfer(p_transfer_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_transfer public.internal_transfers%ROWTYPE;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_transfer FROM public.internal_transfers WHERE id = p_transfer_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Transfer not found';
+  END IF;
+
+  IF v_transfer.status IN ('done', 'canceled') THEN
+    RAISE EXCEPTION 'Transfer % is already %', v_transfer.transfer_number, v_transfer.status;
+  END IF;
+
+  PERFORM public.apply_stock_movement(
+    v_transfer.product_id, v_transfer.source_warehouse_id, -v_transfer.quantity, 'transfer_out', 'transfer', p_transfer_id
+  );
+  PERFORM public.apply_stock_movement(
+    v_transfer.product_id, v_transfer.destination_warehouse_id, v_transfer.quantity, 'transfer_in', 'transfer', p_transfer_id
+  );
+
+  UPDATE public.internal_transfers
+  SET status = 'done', validated_at = NOW()
+  WHERE id = p_transfer_id;
+END;
+$$;
+
+-- Validate a stock adjustment: set stock to the counted quantity and record
+-- the difference against the locked, current stock level
+CREATE OR REPLACE FUNCTION public.validate_adjustment(p_adjustment_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_adjustment public.stock_adjustments%ROWTYPE;
+  v_current DECIMAL;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_adjustment FROM public.stock_adjustments WHERE id = p_adjustment_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Adjustment not found';
+  END IF;
+
+  IF v_adjustment.status = 'done' THEN
+    RAISE EXCEPTION 'Adjustment % is already done', v_adjustment.adjustment_number;
+  END IF;
+
+  INSERT INTO public.stock_levels (product_id, warehouse_id, quantity)
+  VALUES (v_adjustment.product_id, v_adjustment.warehouse_id, 0)
+  ON CONFLICT (product_id, warehouse_id) DO NOTHING;
+
+  SELECT quantity INTO v_current
+  FROM public.stock_levels
+  WHERE product_id = v_adjustment.product_id AND warehouse_id = v_adjustment.warehouse_id
+  FOR UPDATE;
+
+  PERFORM public.apply_stock_movement(
+    v_adjustment.product_id,
+    v_adjustment.warehouse_id,
+    v_adjustment.counted_quantity - v_current,
+    'adjustment',
+    'adjustment',
+    p_adjustment_id,
+    v_adjustment.reason
+  );
+
+  UPDATE public.stock_adjustments
+  SET status = 'done',
+      validated_at = NOW(),
+      system_quantity = v_current,
+      difference = v_adjustment.counted_quantity - v_current
+  WHERE id = p_adjustment_id;
+END;
+$$;
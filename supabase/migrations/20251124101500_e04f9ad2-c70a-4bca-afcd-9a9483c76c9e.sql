@@ -0,0 +1,152 @@
+-- Optimistic locking for stock levels.
+-- Every change to a stock_levels row bumps its version. Stock is only written
+-- through the validate_* functions, which compare-and-swap on that version and
+-- raise serialization_failure (40001) when the row moved underneath a caller.
+
+ALTER TABLE public.stock_levels
+  ADD COLUMN version INTEGER NOT NULL DEFAULT 0;
+
+CREATE OR REPLACE FUNCTION public.bump_stock_level_version()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  NEW.version = OLD.version + 1;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER bump_stock_levels_version BEFORE UPDATE ON public.stock_levels
+  FOR EACH ROW EXECUTE FUNCTION public.bump_stock_level_version();
+
+-- Clients no longer write stock directly; all changes go through the ledger
+DROP POLICY "Users can create stock levels" ON public.stock_levels;
+DROP POLICY "Users can update stock levels" ON public.stock_levels;
+
+-- Stock version an adjustment was counted against (0 = no stock row yet)
+ALTER TABLE public.stock_adjustments
+  ADD COLUMN stock_version INTEGER;
+
+DROP FUNCTION public.apply_stock_movement(UUID, UUID, DECIMAL, TEXT, TEXT, UUID, TEXT);
+
+-- Apply a signed quantity change to one product in one warehouse and record it
+-- in the stock movement ledger. When p_expected_version is given the change is
+-- rejected if the stock level has been modified since that version was read.
+CREATE OR REPLACE FUNCTION public.apply_stock_movement(
+  p_product_id UUID,
+  p_warehouse_id UUID,
+  p_quantity DECIMAL,
+  p_movement_type TEXT,
+  p_reference_type TEXT,
+  p_reference_id UUID,
+  p_notes TEXT DEFAULT NULL,
+  p_expected_version INTEGER DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_stock public.stock_levels%ROWTYPE;
+BEGIN
+  INSERT INTO public.stock_levels (product_id, warehouse_id, quantity)
+  VALUES (p_product_id, p_warehouse_id, 0)
+  ON CONFLICT (product_id, warehouse_id) DO NOTHING;
+
+  SELECT * INTO v_stock
+  FROM public.stock_levels
+  WHERE product_id = p_product_id AND warehouse_id = p_warehouse_id
+  FOR UPDATE;
+
+  IF p_expected_version IS NOT NULL AND v_stock.version <> p_expected_version THEN
+    RAISE EXCEPTION 'Stock for product % changed while you were working',
+      (SELECT sku FROM public.products WHERE id = p_product_id)
+      USING ERRCODE = 'serialization_failure';
+  END IF;
+
+  IF v_stock.quantity + p_quantity < 0 THEN
+    RAISE EXCEPTION 'Insufficient stock for product % (available %, requested %)',
+      (SELECT sku FROM public.products WHERE id = p_product_id),
+      v_stock.quantity,
+      -p_quantity;
+  END IF;
+
+  UPDATE public.stock_levels
+  SET quantity = v_stock.quantity + p_quantity
+  WHERE id = v_stock.id AND version = v_stock.version;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Stock for product % changed while you were working',
+      (SELECT sku FROM public.products WHERE id = p_product_id)
+      USING ERRCODE = 'serialization_failure';
+  END IF;
+
+  INSERT INTO public.stock_movements (
+    product_id, warehouse_id, movement_type, quantity, reference_id, reference_type, notes, created_by
+  )
+  VALUES (
+    p_product_id, p_warehouse_id, p_movement_type, p_quantity, p_reference_id, p_reference_type, p_notes, auth.uid()
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.apply_stock_movement(UUID, UUID, DECIMAL, TEXT, TEXT, UUID, TEXT, INTEGER)
+  FROM PUBLIC, anon, authenticated;
+
+-- Validate a stock adjustment: set stock to the counted quantity. Rejected with
+-- serialization_failure if stock moved after the count was recorded.
+CREATE OR REPLACE FUNCTION public.validate_adjustment(p_adjustment_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_adjustment public.stock_adjustments%ROWTYPE;
+  v_current DECIMAL;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_adjustment FROM public.stock_adjustments WHERE id = p_adjustment_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Adjustment not found';
+  END IF;
+
+  IF v_adjustment.status = 'done' THEN
+    RAISE EXCEPTION 'Adjustment % is already done', v_adjustment.adjustment_number;
+  END IF;
+
+  INSERT INTO public.stock_levels (product_id, warehouse_id, quantity)
+  VALUES (v_adjustment.product_id, v_adjustment.warehouse_id, 0)
+  ON CONFLICT (product_id, warehouse_id) DO NOTHING;
+
+  SELECT quantity INTO v_current
+  FROM public.stock_levels
+  WHERE product_id = v_adjustment.product_id AND warehouse_id = v_adjustment.warehouse_id
+  FOR UPDATE;
+
+  PERFORM public.apply_stock_movement(
+    v_adjustment.product_id,
+    v_adjustment.warehouse_id,
+    v_adjustment.counted_quantity - v_current,
+    'adjustment',
+    'adjustment',
+    p_adjustment_id,
+    v_adjustment.reason,
+    v_adjustment.stock_version
+  );
+
+  UPDATE public.stock_adjustments
+  SET status = 'done',
+      validated_at = NOW(),
+      system_quantity = v_current,
+      difference = v_adjustment.counted_quantity - v_current
+  WHERE id = p_adjustment_id;
+END;
+$$;
@@ -0,0 +1,78 @@
+-- Multi-line internal transfers.
+-- Products and quantities move from the transfer header into transfer_lines,
+-- mirroring receipt_lines and delivery_lines.
+
+CREATE TABLE public.transfer_lines (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  transfer_id UUID NOT NULL REFERENCES public.internal_transfers(id) ON DELETE CASCADE,
+  product_id UUID NOT NULL REFERENCES public.products(id),
+  quantity DECIMAL NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE public.transfer_lines ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view all transfer lines" ON public.transfer_lines
+  FOR SELECT USING (true);
+
+CREATE POLICY "Users can create transfer lines" ON public.transfer_lines
+  FOR INSERT WITH CHECK (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Users can delete transfer lines" ON public.transfer_lines
+  FOR DELETE USING (auth.uid() IS NOT NULL);
+
+-- Move existing single-product transfers into lines
+INSERT INTO public.transfer_lines (transfer_id, product_id, quantity, created_at)
+SELECT id, product_id, quantity, created_at
+FROM public.internal_transfers;
+
+ALTER TABLE public.internal_transfers
+  DROP COLUMN product_id,
+  DROP COLUMN quantity;
+
+-- Validate an internal transfer: move every line from source to destination,
+-- writing a transfer_out/transfer_in movement pair per line
+CREATE OR REPLACE FUNCTION public.validate_transfer(p_transfer_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_transfer public.internal_transfers%ROWTYPE;
+  v_line public.transfer_lines%ROWTYPE;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_transfer FROM public.internal_transfers WHERE id = p_transfer_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Transfer not found';
+  END IF;
+
+  IF v_transfer.status IN ('done', 'canceled') THEN
+    RAISE EXCEPTION 'Transfer % is already %', v_transfer.transfer_number, v_transfer.status;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.transfer_lines WHERE transfer_id = p_transfer_id) THEN
+    RAISE EXCEPTION 'Cannot validate transfer without products';
+  END IF;
+
+  FOR v_line IN
+    SELECT * FROM public.transfer_lines WHERE transfer_id = p_transfer_id ORDER BY product_id
+  LOOP
+    PERFORM public.apply_stock_movement(
+      v_line.product_id, v_transfer.source_warehouse_id, -v_line.quantity, 'transfer_out', 'transfer', p_transfer_id
+    );
+    PERFORM public.apply_stock_movement(
+      v_line.product_id, v_transfer.destination_warehouse_id, v_line.quantity, 'transfer_in', 'transfer', p_transfer_id
+    );
+  END LOOP;
+
+  UPDATE public.internal_transfers
+  SET status = 'done', validated_at = NOW()
+  WHERE id = p_transfer_id;
+END;
+$$;
@@ -0,0 +1,98 @@
+-- Partial receipts and automatic backorders.
+-- Validation books the quantity actually received per line; any shortfall is
+-- carried over to a new receipt linked to the original through backorder_of_id.
+
+ALTER TABLE public.receipt_lines
+  ADD COLUMN received_quantity DECIMAL;
+
+ALTER TABLE public.receipts
+  ADD COLUMN backorder_of_id UUID REFERENCES public.receipts(id);
+
+CREATE INDEX idx_receipts_backorder_of_id ON public.receipts(backorder_of_id);
+
+DROP FUNCTION public.validate_receipt(UUID);
+
+-- Validate a receipt. p_received maps receipt line ids to the quantity that
+-- arrived; lines left out are received in full. Returns the id of the
+-- backorder receipt created for any shortfall, or NULL.
+CREATE OR REPLACE FUNCTION public.validate_receipt(p_receipt_id UUID, p_received JSONB DEFAULT NULL)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_receipt public.receipts%ROWTYPE;
+  v_line public.receipt_lines%ROWTYPE;
+  v_received DECIMAL;
+  v_base_number TEXT;
+  v_backorder_id UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_receipt FROM public.receipts WHERE id = p_receipt_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Receipt not found';
+  END IF;
+
+  IF v_receipt.status IN ('done', 'canceled') THEN
+    RAISE EXCEPTION 'Receipt % is already %', v_receipt.receipt_number, v_receipt.status;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.receipt_lines WHERE receipt_id = p_receipt_id) THEN
+    RAISE EXCEPTION 'Cannot validate receipt without products';
+  END IF;
+
+  FOR v_line IN
+    SELECT * FROM public.receipt_lines WHERE receipt_id = p_receipt_id ORDER BY product_id
+  LOOP
+    v_received := COALESCE((p_received ->> v_line.id::TEXT)::DECIMAL, v_line.quantity);
+
+    IF v_received < 0 THEN
+      RAISE EXCEPTION 'Received quantity cannot be negative';
+    END IF;
+
+    UPDATE public.receipt_lines SET received_quantity = v_received WHERE id = v_line.id;
+
+    IF v_received > 0 THEN
+      PERFORM public.apply_stock_movement(
+        v_line.product_id, v_receipt.warehouse_id, v_received, 'receipt', 'receipt', p_receipt_id
+      );
+    END IF;
+
+    IF v_received < v_line.quantity THEN
+      IF v_backorder_id IS NULL THEN
+        v_base_number := regexp_replace(v_receipt.receipt_number, '-BO\d+$', '');
+
+        INSERT INTO public.receipts (
+          receipt_number, supplier_name, warehouse_id, status, notes, created_by, backorder_of_id
+        )
+        VALUES (
+          v_base_number || '-BO' || (
+            SELECT COUNT(*) + 1 FROM public.receipts WHERE receipt_number LIKE v_base_number || '-BO%'
+          ),
+          v_receipt.supplier_name,
+          v_receipt.warehouse_id,
+          'waiting',
+          v_receipt.notes,
+          auth.uid(),
+          p_receipt_id
+        )
+        RETURNING id INTO v_backorder_id;
+      END IF;
+
+      INSERT INTO public.receipt_lines (receipt_id, product_id, quantity)
+      VALUES (v_backorder_id, v_line.product_id, v_line.quantity - v_received);
+    END IF;
+  END LOOP;
+
+  UPDATE public.receipts
+  SET status = 'done', validated_at = NOW()
+  WHERE id = p_receipt_id;
+
+  RETURN v_backorder_id;
+END;
+$$;
@@ -0,0 +1,159 @@
+-- Partial deliveries with backorders.
+-- Availability is checked across all lines before any stock moves. The caller
+-- can then either ship what is available, carrying the rest over to a linked
+-- backorder delivery, or leave the delivery untouched.
+
+ALTER TABLE public.delivery_lines
+  ADD COLUMN delivered_quantity DECIMAL;
+
+ALTER TABLE public.deliveries
+  ADD COLUMN backorder_of_id UUID REFERENCES public.deliveries(id);
+
+CREATE INDEX idx_deliveries_backorder_of_id ON public.deliveries(backorder_of_id);
+
+-- Per delivery line, how much of it the warehouse can currently cover. Lines
+-- for the same product draw on the same stock in line order.
+CREATE OR REPLACE FUNCTION public.check_delivery_availability(p_delivery_id UUID)
+RETURNS TABLE (line_id UUID, product_id UUID, quantity DECIMAL, available_quantity DECIMAL)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    l.id,
+    l.product_id,
+    l.quantity,
+    GREATEST(
+      LEAST(
+        l.quantity,
+        COALESCE(s.quantity, 0) - COALESCE(
+          SUM(l.quantity) OVER (
+            PARTITION BY l.product_id
+            ORDER BY l.created_at, l.id
+            ROWS BETWEEN UNBOUNDED PRECEDING AND 1 PRECEDING
+          ),
+          0
+        )
+      ),
+      0
+    )
+  FROM public.delivery_lines l
+  JOIN public.deliveries d ON d.id = l.delivery_id
+  LEFT JOIN public.stock_levels s ON s.product_id = l.product_id AND s.warehouse_id = d.warehouse_id
+  WHERE l.delivery_id = p_delivery_id
+  ORDER BY l.product_id, l.created_at, l.id;
+$$;
+
+DROP FUNCTION public.validate_delivery(UUID);
+
+-- Validate a delivery. Fails without moving stock if any line is short, unless
+-- p_ship_available is set, in which case available stock ships and the
+-- remainder goes to a backorder delivery. Returns the backorder id, or NULL.
+CREATE OR REPLACE FUNCTION public.validate_delivery(p_delivery_id UUID, p_ship_available BOOLEAN DEFAULT FALSE)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_delivery public.deliveries%ROWTYPE;
+  v_line public.delivery_lines%ROWTYPE;
+  v_on_hand DECIMAL;
+  v_shipped DECIMAL;
+  v_base_number TEXT;
+  v_backorder_id UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_delivery FROM public.deliveries WHERE id = p_delivery_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Delivery not found';
+  END IF;
+
+  IF v_delivery.status IN ('done', 'canceled') THEN
+    RAISE EXCEPTION 'Delivery % is already %', v_delivery.delivery_number, v_delivery.status;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.delivery_lines WHERE delivery_id = p_delivery_id) THEN
+    RAISE EXCEPTION 'Cannot validate delivery without products';
+  END IF;
+
+  -- Lock every stock row this delivery draws on before checking availability
+  PERFORM 1
+  FROM public.stock_levels
+  WHERE warehouse_id = v_delivery.warehouse_id
+    AND product_id IN (SELECT l.product_id FROM public.delivery_lines l WHERE l.delivery_id = p_delivery_id)
+  ORDER BY product_id
+  FOR UPDATE;
+
+  IF EXISTS (
+    SELECT 1 FROM public.check_delivery_availability(p_delivery_id) a
+    WHERE a.available_quantity < a.quantity
+  ) THEN
+    IF NOT p_ship_available THEN
+      RAISE EXCEPTION 'Insufficient stock for this delivery';
+    END IF;
+
+    IF NOT EXISTS (
+      SELECT 1 FROM public.check_delivery_availability(p_delivery_id) a
+      WHERE a.available_quantity > 0
+    ) THEN
+      RAISE EXCEPTION 'No stock available to ship for this delivery';
+    END IF;
+  END IF;
+
+  FOR v_line IN
+    SELECT * FROM public.delivery_lines
+    WHERE delivery_id = p_delivery_id
+    ORDER BY product_id, created_at, id
+  LOOP
+    SELECT quantity INTO v_on_hand
+    FROM public.stock_levels
+    WHERE product_id = v_line.product_id AND warehouse_id = v_delivery.warehouse_id;
+
+    v_shipped := GREATEST(LEAST(v_line.quantity, COALESCE(v_on_hand, 0)), 0);
+
+    UPDATE public.delivery_lines SET delivered_quantity = v_shipped WHERE id = v_line.id;
+
+    IF v_shipped > 0 THEN
+      PERFORM public.apply_stock_movement(
+        v_line.product_id, v_delivery.warehouse_id, -v_shipped, 'delivery', 'delivery', p_delivery_id
+      );
+    END IF;
+
+    IF v_shipped < v_line.quantity THEN
+      IF v_backorder_id IS NULL THEN
+        v_base_number := regexp_replace(v_delivery.delivery_number, '-BO\d+$', '');
+
+        INSERT INTO public.deliveries (
+          delivery_number, customer_name, warehouse_id, status, notes, created_by, backorder_of_id
+        )
+        VALUES (
+          v_base_number || '-BO' || (
+            SELECT COUNT(*) + 1 FROM public.deliveries WHERE delivery_number LIKE v_base_number || '-BO%'
+          ),
+          v_delivery.customer_name,
+          v_delivery.warehouse_id,
+          'waiting',
+          v_delivery.notes,
+          auth.uid(),
+          p_delivery_id
+        )
+        RETURNING id INTO v_backorder_id;
+      END IF;
+
+      INSERT INTO public.delivery_lines (delivery_id, product_id, quantity)
+      VALUES (v_backorder_id, v_line.product_id, v_line.quantity - v_shipped);
+    END IF;
+  END LOOP;
+
+  UPDATE public.deliveries
+  SET status = 'done', validated_at = NOW()
+  WHERE id = p_delivery_id;
+
+  RETURN v_backorder_id;
+END;
+$$;
@@ -0,0 +1,359 @@
+-- Document lifecycle for receipts, deliveries and transfers:
+-- draft -> waiting -> ready -> done, with canceled reachable from any open state.
+-- Deliveries and transfers move between waiting and ready automatically as the
+-- stock they need becomes available. done and canceled are final.
+
+ALTER TABLE public.receipts
+  ADD COLUMN cancel_reason TEXT,
+  ADD COLUMN canceled_at TIMESTAMPTZ;
+
+ALTER TABLE public.deliveries
+  ADD COLUMN cancel_reason TEXT,
+  ADD COLUMN canceled_at TIMESTAMPTZ;
+
+ALTER TABLE public.internal_transfers
+  ADD COLUMN cancel_reason TEXT,
+  ADD COLUMN canceled_at TIMESTAMPTZ;
+
+-- Reject status changes out of a final state or back to draft
+CREATE OR REPLACE FUNCTION public.guard_document_status()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status = OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  IF OLD.status IN ('done', 'canceled') THEN
+    RAISE EXCEPTION 'A % document cannot be changed to %', OLD.status, NEW.status;
+  END IF;
+
+  IF NEW.status = 'draft' THEN
+    RAISE EXCEPTION 'A % document cannot go back to draft', OLD.status;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER guard_receipts_status BEFORE UPDATE OF status ON public.receipts
+  FOR EACH ROW EXECUTE FUNCTION public.guard_document_status();
+
+CREATE TRIGGER guard_deliveries_status BEFORE UPDATE OF status ON public.deliveries
+  FOR EACH ROW EXECUTE FUNCTION public.guard_document_status();
+
+CREATE TRIGGER guard_internal_transfers_status BEFORE UPDATE OF status ON public.internal_transfers
+  FOR EACH ROW EXECUTE FUNCTION public.guard_document_status();
+
+-- Per transfer line, how much of it the source warehouse can currently cover
+CREATE OR REPLACE FUNCTION public.check_transfer_availability(p_transfer_id UUID)
+RETURNS TABLE (line_id UUID, product_id UUID, quantity DECIMAL, available_quantity DECIMAL)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    l.id,
+    l.product_id,
+    l.quantity,
+    GREATEST(
+      LEAST(
+        l.quantity,
+        COALESCE(s.quantity, 0) - COALESCE(
+          SUM(l.quantity) OVER (
+            PARTITION BY l.product_id
+            ORDER BY l.created_at, l.id
+            ROWS BETWEEN UNBOUNDED PRECEDING AND 1 PRECEDING
+          ),
+          0
+        )
+      ),
+      0
+    )
+  FROM public.transfer_lines l
+  JOIN public.internal_transfers t ON t.id = l.transfer_id
+  LEFT JOIN public.stock_levels s ON s.product_id = l.product_id AND s.warehouse_id = t.source_warehouse_id
+  WHERE l.transfer_id = p_transfer_id
+  ORDER BY l.product_id, l.created_at, l.id;
+$$;
+
+-- Move an open delivery to ready when every line is available, else waiting
+CREATE OR REPLACE FUNCTION public.refresh_delivery_status(p_delivery_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_status TEXT;
+BEGIN
+  v_status := CASE
+    WHEN EXISTS (
+      SELECT 1 FROM public.check_delivery_availability(p_delivery_id) a
+      WHERE a.available_quantity < a.quantity
+    ) THEN 'waiting'
+    ELSE 'ready'
+  END;
+
+  UPDATE public.deliveries
+  SET status = v_status
+  WHERE id = p_delivery_id AND status IN ('waiting', 'ready') AND status <> v_status;
+END;
+$$;
+
+-- Move an open transfer to ready when every line is available, else waiting
+CREATE OR REPLACE FUNCTION public.refresh_transfer_status(p_transfer_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_status TEXT;
+BEGIN
+  v_status := CASE
+    WHEN EXISTS (
+      SELECT 1 FROM public.check_transfer_availability(p_transfer_id) a
+      WHERE a.available_quantity < a.quantity
+    ) THEN 'waiting'
+    ELSE 'ready'
+  END;
+
+  UPDATE public.internal_transfers
+  SET status = v_status
+  WHERE id = p_transfer_id AND status IN ('waiting', 'ready') AND status <> v_status;
+END;
+$$;
+
+-- Re-evaluate open deliveries and transfers whenever the stock they draw on changes
+CREATE OR REPLACE FUNCTION public.refresh_document_statuses()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.refresh_delivery_status(d.id)
+  FROM public.deliveries d
+  WHERE d.warehouse_id = NEW.warehouse_id
+    AND d.status IN ('waiting', 'ready')
+    AND EXISTS (
+      SELECT 1 FROM public.delivery_lines l WHERE l.delivery_id = d.id AND l.product_id = NEW.product_id
+    );
+
+  PERFORM public.refresh_transfer_status(t.id)
+  FROM public.internal_transfers t
+  WHERE t.source_warehouse_id = NEW.warehouse_id
+    AND t.status IN ('waiting', 'ready')
+    AND EXISTS (
+      SELECT 1 FROM public.transfer_lines l WHERE l.transfer_id = t.id AND l.product_id = NEW.product_id
+    );
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER refresh_document_statuses_on_stock AFTER INSERT OR UPDATE OF quantity ON public.stock_levels
+  FOR EACH ROW EXECUTE FUNCTION public.refresh_document_statuses();
+
+-- Mark a draft receipt as todo: the goods are now expected
+CREATE OR REPLACE FUNCTION public.confirm_receipt(p_receipt_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_receipt public.receipts%ROWTYPE;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_receipt FROM public.receipts WHERE id = p_receipt_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Receipt not found';
+  END IF;
+
+  IF v_receipt.status <> 'draft' THEN
+    RAISE EXCEPTION 'Only draft receipts can be marked as todo';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.receipt_lines WHERE receipt_id = p_receipt_id) THEN
+    RAISE EXCEPTION 'Cannot confirm receipt without products';
+  END IF;
+
+  UPDATE public.receipts SET status = 'waiting' WHERE id = p_receipt_id;
+END;
+$$;
+
+-- Mark a draft delivery as todo; it becomes ready at once if stock allows
+CREATE OR REPLACE FUNCTION public.confirm_delivery(p_delivery_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_delivery public.deliveries%ROWTYPE;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_delivery FROM public.deliveries WHERE id = p_delivery_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Delivery not found';
+  END IF;
+
+  IF v_delivery.status <> 'draft' THEN
+    RAISE EXCEPTION 'Only draft deliveries can be marked as todo';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.delivery_lines WHERE delivery_id = p_delivery_id) THEN
+    RAISE EXCEPTION 'Cannot confirm delivery without products';
+  END IF;
+
+  UPDATE public.deliveries SET status = 'waiting' WHERE id = p_delivery_id;
+  PERFORM public.refresh_delivery_status(p_delivery_id);
+END;
+$$;
+
+-- Mark a draft transfer as todo; it becomes ready at once if stock allows
+CREATE OR REPLACE FUNCTION public.confirm_transfer(p_transfer_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_transfer public.internal_transfers%ROWTYPE;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_transfer FROM public.internal_transfers WHERE id = p_transfer_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Transfer not found';
+  END IF;
+
+  IF v_transfer.status <> 'draft' THEN
+    RAISE EXCEPTION 'Only draft transfers can be marked as todo';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.transfer_lines WHERE transfer_id = p_transfer_id) THEN
+    RAISE EXCEPTION 'Cannot confirm transfer without products';
+  END IF;
+
+  UPDATE public.internal_transfers SET status = 'waiting' WHERE id = p_transfer_id;
+  PERFORM public.refresh_transfer_status(p_transfer_id);
+END;
+$$;
+
+-- Cancel an open receipt, recording why
+CREATE OR REPLACE FUNCTION public.cancel_receipt(p_receipt_id UUID, p_reason TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_receipt public.receipts%ROWTYPE;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF COALESCE(TRIM(p_reason), '') = '' THEN
+    RAISE EXCEPTION 'A cancellation reason is required';
+  END IF;
+
+  SELECT * INTO v_receipt FROM public.receipts WHERE id = p_receipt_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Receipt not found';
+  END IF;
+
+  IF v_receipt.status IN ('done', 'canceled') THEN
+    RAISE EXCEPTION 'Receipt % is already %', v_receipt.receipt_number, v_receipt.status;
+  END IF;
+
+  UPDATE public.receipts
+  SET status = 'canceled', cancel_reason = TRIM(p_reason), canceled_at = NOW()
+  WHERE id = p_receipt_id;
+END;
+$$;
+
+-- Cancel an open delivery, recording why
+CREATE OR REPLACE FUNCTION public.cancel_delivery(p_delivery_id UUID, p_reason TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_delivery public.deliveries%ROWTYPE;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF COALESCE(TRIM(p_reason), '') = '' THEN
+    RAISE EXCEPTION 'A cancellation reason is required';
+  END IF;
+
+  SELECT * INTO v_delivery FROM public.deliveries WHERE id = p_delivery_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Delivery not found';
+  END IF;
+
+  IF v_delivery.status IN ('done', 'canceled') THEN
+    RAISE EXCEPTION 'Delivery % is already %', v_delivery.delivery_number, v_delivery.status;
+  END IF;
+
+  UPDATE public.deliveries
+  SET status = 'canceled', cancel_reason = TRIM(p_reason), canceled_at = NOW()
+  WHERE id = p_delivery_id;
+END;
+$$;
+
+-- Cancel an open transfer, recording why
+CREATE OR REPLACE FUNCTION public.cancel_transfer(p_transfer_id UUID, p_reason TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_transfer public.internal_transfers%ROWTYPE;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF COALESCE(TRIM(p_reason), '') = '' THEN
+    RAISE EXCEPTION 'A cancellation reason is required';
+  END IF;
+
+  SELECT * INTO v_transfer FROM public.internal_transfers WHERE id = p_transfer_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Transfer not found';
+  END IF;
+
+  IF v_transfer.status IN ('done', 'canceled') THEN
+    RAISE EXCEPTION 'Transfer % is already %', v_transfer.transfer_number, v_transfer.status;
+  END IF;
+
+  UPDATE public.internal_transfers
+  SET status = 'canceled', cancel_reason = TRIM(p_reason), canceled_at = NOW()
+  WHERE id = p_transfer_id;
+END;
+$$;
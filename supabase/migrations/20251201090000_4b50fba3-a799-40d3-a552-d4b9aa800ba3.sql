@@ -0,0 +1,607 @@
+-- Stock reservations for pending deliveries and transfers.
+-- A delivery or transfer becomes ready only once every line is reserved in its
+-- (source) warehouse. Available stock is on-hand minus reserved, and outgoing
+-- movements can no longer consume stock reserved by another document.
+-- Reservations are released on cancel and consumed on validation.
+
+CREATE TABLE public.stock_reservations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  product_id UUID NOT NULL REFERENCES public.products(id) ON DELETE CASCADE,
+  warehouse_id UUID NOT NULL REFERENCES public.warehouses(id) ON DELETE CASCADE,
+  quantity DECIMAL NOT NULL CHECK (quantity > 0),
+  reference_type TEXT NOT NULL CHECK (reference_type IN ('delivery', 'transfer')),
+  reference_id UUID NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_stock_reservations_stock ON public.stock_reservations(product_id, warehouse_id);
+CREATE INDEX idx_stock_reservations_reference ON public.stock_reservations(reference_type, reference_id);
+
+ALTER TABLE public.stock_reservations ENABLE ROW LEVEL SECURITY;
+
+-- Reservations are only written by the document functions below
+CREATE POLICY "Users can view all stock reservations" ON public.stock_reservations
+  FOR SELECT USING (true);
+
+-- On-hand, reserved and available quantity per product per warehouse
+CREATE VIEW public.stock_availability
+WITH (security_invoker = on) AS
+SELECT
+  s.product_id,
+  s.warehouse_id,
+  s.quantity,
+  COALESCE(r.reserved_quantity, 0) AS reserved_quantity,
+  s.quantity - COALESCE(r.reserved_quantity, 0) AS available_quantity
+FROM public.stock_levels s
+LEFT JOIN (
+  SELECT product_id, warehouse_id, SUM(quantity) AS reserved_quantity
+  FROM public.stock_reservations
+  GROUP BY product_id, warehouse_id
+) r ON r.product_id = s.product_id AND r.warehouse_id = s.warehouse_id;
+
+-- Quantity of a product reserved in a warehouse, optionally ignoring the
+-- reservation held by one document
+CREATE OR REPLACE FUNCTION public.reserved_quantity(
+  p_product_id UUID,
+  p_warehouse_id UUID,
+  p_exclude_type TEXT DEFAULT NULL,
+  p_exclude_id UUID DEFAULT NULL
+)
+RETURNS DECIMAL
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT COALESCE(SUM(quantity), 0)
+  FROM public.stock_reservations
+  WHERE product_id = p_product_id
+    AND warehouse_id = p_warehouse_id
+    AND NOT (reference_type IS NOT DISTINCT FROM p_exclude_type AND reference_id IS NOT DISTINCT FROM p_exclude_id);
+$$;
+
+-- Apply a signed quantity change to one product in one warehouse and record it
+-- in the stock movement ledger. Outgoing movements may only use stock that is
+-- not reserved by another document; adjustments record counted reality and
+-- are exempt.
+CREATE OR REPLACE FUNCTION public.apply_stock_movement(
+  p_product_id UUID,
+  p_warehouse_id UUID,
+  p_quantity DECIMAL,
+  p_movement_type TEXT,
+  p_reference_type TEXT,
+  p_reference_id UUID,
+  p_notes TEXT DEFAULT NULL,
+  p_expected_version INTEGER DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_stock public.stock_levels%ROWTYPE;
+  v_reserved DECIMAL := 0;
+BEGIN
+  INSERT INTO public.stock_levels (product_id, warehouse_id, quantity)
+  VALUES (p_product_id, p_warehouse_id, 0)
+  ON CONFLICT (product_id, warehouse_id) DO NOTHING;
+
+  SELECT * INTO v_stock
+  FROM public.stock_levels
+  WHERE product_id = p_product_id AND warehouse_id = p_warehouse_id
+  FOR UPDATE;
+
+  IF p_expected_version IS NOT NULL AND v_stock.version <> p_expected_version THEN
+    RAISE EXCEPTION 'Stock for product % changed while you were working',
+      (SELECT sku FROM public.products WHERE id = p_product_id)
+      USING ERRCODE = 'serialization_failure';
+  END IF;
+
+  IF p_quantity < 0 AND p_movement_type <> 'adjustment' THEN
+    v_reserved := public.reserved_quantity(p_product_id, p_warehouse_id, p_reference_type, p_reference_id);
+  END IF;
+
+  IF v_stock.quantity - v_reserved + p_quantity < 0 THEN
+    RAISE EXCEPTION 'Insufficient stock for product % (available %, requested %)',
+      (SELECT sku FROM public.products WHERE id = p_product_id),
+      v_stock.quantity - v_reserved,
+      -p_quantity;
+  END IF;
+
+  UPDATE public.stock_levels
+  SET quantity = v_stock.quantity + p_quantity
+  WHERE id = v_stock.id AND version = v_stock.version;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Stock for product % changed while you were working',
+      (SELECT sku FROM public.products WHERE id = p_product_id)
+      USING ERRCODE = 'serialization_failure';
+  END IF;
+
+  INSERT INTO public.stock_movements (
+    product_id, warehouse_id, movement_type, quantity, reference_id, reference_type, notes, created_by
+  )
+  VALUES (
+    p_product_id, p_warehouse_id, p_movement_type, p_quantity, p_reference_id, p_reference_type, p_notes, auth.uid()
+  );
+END;
+$$;
+
+-- Per delivery line, how much of it the warehouse can currently cover from
+-- stock not reserved by other documents
+CREATE OR REPLACE FUNCTION public.check_delivery_availability(p_delivery_id UUID)
+RETURNS TABLE (line_id UUID, product_id UUID, quantity DECIMAL, available_quantity DECIMAL)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    l.id,
+    l.product_id,
+    l.quantity,
+    GREATEST(
+      LEAST(
+        l.quantity,
+        COALESCE(s.quantity, 0)
+          - public.reserved_quantity(l.product_id, d.warehouse_id, 'delivery', d.id)
+          - COALESCE(
+            SUM(l.quantity) OVER (
+              PARTITION BY l.product_id
+              ORDER BY l.created_at, l.id
+              ROWS BETWEEN UNBOUNDED PRECEDING AND 1 PRECEDING
+            ),
+            0
+          )
+      ),
+      0
+    )
+  FROM public.delivery_lines l
+  JOIN public.deliveries d ON d.id = l.delivery_id
+  LEFT JOIN public.stock_levels s ON s.product_id = l.product_id AND s.warehouse_id = d.warehouse_id
+  WHERE l.delivery_id = p_delivery_id
+  ORDER BY l.product_id, l.created_at, l.id;
+$$;
+
+-- Per transfer line, how much of it the source warehouse can currently cover
+-- from stock not reserved by other documents
+CREATE OR REPLACE FUNCTION public.check_transfer_availability(p_transfer_id UUID)
+RETURNS TABLE (line_id UUID, product_id UUID, quantity DECIMAL, available_quantity DECIMAL)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    l.id,
+    l.product_id,
+    l.quantity,
+    GREATEST(
+      LEAST(
+        l.quantity,
+        COALESCE(s.quantity, 0)
+          - public.reserved_quantity(l.product_id, t.source_warehouse_id, 'transfer', t.id)
+          - COALESCE(
+            SUM(l.quantity) OVER (
+              PARTITION BY l.product_id
+              ORDER BY l.created_at, l.id
+              ROWS BETWEEN UNBOUNDED PRECEDING AND 1 PRECEDING
+            ),
+            0
+          )
+      ),
+      0
+    )
+  FROM public.transfer_lines l
+  JOIN public.internal_transfers t ON t.id = l.transfer_id
+  LEFT JOIN public.stock_levels s ON s.product_id = l.product_id AND s.warehouse_id = t.source_warehouse_id
+  WHERE l.transfer_id = p_transfer_id
+  ORDER BY l.product_id, l.created_at, l.id;
+$$;
+
+-- Re-reserve an open delivery: ready with every line reserved, or waiting
+-- with nothing held
+CREATE OR REPLACE FUNCTION public.refresh_delivery_status(p_delivery_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_delivery public.deliveries%ROWTYPE;
+BEGIN
+  SELECT * INTO v_delivery FROM public.deliveries WHERE id = p_delivery_id;
+
+  IF NOT FOUND OR v_delivery.status NOT IN ('waiting', 'ready') THEN
+    RETURN;
+  END IF;
+
+  -- Serialize reservations on the stock rows this delivery draws on
+  PERFORM 1
+  FROM public.stock_levels
+  WHERE warehouse_id = v_delivery.warehouse_id
+    AND product_id IN (SELECT l.product_id FROM public.delivery_lines l WHERE l.delivery_id = p_delivery_id)
+  ORDER BY product_id
+  FOR UPDATE;
+
+  DELETE FROM public.stock_reservations
+  WHERE reference_type = 'delivery' AND reference_id = p_delivery_id;
+
+  IF EXISTS (
+    SELECT 1 FROM public.check_delivery_availability(p_delivery_id) a
+    WHERE a.available_quantity < a.quantity
+  ) THEN
+    UPDATE public.deliveries SET status = 'waiting' WHERE id = p_delivery_id AND status <> 'waiting';
+  ELSE
+    INSERT INTO public.stock_reservations (product_id, warehouse_id, quantity, reference_type, reference_id)
+    SELECT l.product_id, v_delivery.warehouse_id, SUM(l.quantity), 'delivery', p_delivery_id
+    FROM public.delivery_lines l
+    WHERE l.delivery_id = p_delivery_id
+    GROUP BY l.product_id;
+
+    UPDATE public.deliveries SET status = 'ready' WHERE id = p_delivery_id AND status <> 'ready';
+  END IF;
+END;
+$$;
+
+-- Re-reserve an open transfer: ready with every line reserved, or waiting
+-- with nothing held
+CREATE OR REPLACE FUNCTION public.refresh_transfer_status(p_transfer_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_transfer public.internal_transfers%ROWTYPE;
+BEGIN
+  SELECT * INTO v_transfer FROM public.internal_transfers WHERE id = p_transfer_id;
+
+  IF NOT FOUND OR v_transfer.status NOT IN ('waiting', 'ready') THEN
+    RETURN;
+  END IF;
+
+  -- Serialize reservations on the stock rows this transfer draws on
+  PERFORM 1
+  FROM public.stock_levels
+  WHERE warehouse_id = v_transfer.source_warehouse_id
+    AND product_id IN (SELECT l.product_id FROM public.transfer_lines l WHERE l.transfer_id = p_transfer_id)
+  ORDER BY product_id
+  FOR UPDATE;
+
+  DELETE FROM public.stock_reservations
+  WHERE reference_type = 'transfer' AND reference_id = p_transfer_id;
+
+  IF EXISTS (
+    SELECT 1 FROM public.check_transfer_availability(p_transfer_id) a
+    WHERE a.available_quantity < a.quantity
+  ) THEN
+    UPDATE public.internal_transfers SET status = 'waiting' WHERE id = p_transfer_id AND status <> 'waiting';
+  ELSE
+    INSERT INTO public.stock_reservations (product_id, warehouse_id, quantity, reference_type, reference_id)
+    SELECT l.product_id, v_transfer.source_warehouse_id, SUM(l.quantity), 'transfer', p_transfer_id
+    FROM public.transfer_lines l
+    WHERE l.transfer_id = p_transfer_id
+    GROUP BY l.product_id;
+
+    UPDATE public.internal_transfers SET status = 'ready' WHERE id = p_transfer_id AND status <> 'ready';
+  END IF;
+END;
+$$;
+
+-- Re-reserve, oldest first, every open delivery and transfer drawing on a
+-- product in a warehouse
+CREATE OR REPLACE FUNCTION public.refresh_documents_for_stock(p_product_id UUID, p_warehouse_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_id UUID;
+BEGIN
+  FOR v_id IN
+    SELECT d.id
+    FROM public.deliveries d
+    WHERE d.warehouse_id = p_warehouse_id
+      AND d.status IN ('waiting', 'ready')
+      AND EXISTS (
+        SELECT 1 FROM public.delivery_lines l WHERE l.delivery_id = d.id AND l.product_id = p_product_id
+      )
+    ORDER BY d.created_at
+  LOOP
+    PERFORM public.refresh_delivery_status(v_id);
+  END LOOP;
+
+  FOR v_id IN
+    SELECT t.id
+    FROM public.internal_transfers t
+    WHERE t.source_warehouse_id = p_warehouse_id
+      AND t.status IN ('waiting', 'ready')
+      AND EXISTS (
+        SELECT 1 FROM public.transfer_lines l WHERE l.transfer_id = t.id AND l.product_id = p_product_id
+      )
+    ORDER BY t.created_at
+  LOOP
+    PERFORM public.refresh_transfer_status(v_id);
+  END LOOP;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.refresh_document_statuses()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.refresh_documents_for_stock(NEW.product_id, NEW.warehouse_id);
+  RETURN NEW;
+END;
+$$;
+
+-- Release a document's reservations and let other open documents claim the stock
+CREATE OR REPLACE FUNCTION public.release_reservations(p_reference_type TEXT, p_reference_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_reservation public.stock_reservations%ROWTYPE;
+BEGIN
+  FOR v_reservation IN
+    DELETE FROM public.stock_reservations
+    WHERE reference_type = p_reference_type AND reference_id = p_reference_id
+    RETURNING *
+  LOOP
+    PERFORM public.refresh_documents_for_stock(v_reservation.product_id, v_reservation.warehouse_id);
+  END LOOP;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.release_reservations(TEXT, UUID) FROM PUBLIC, anon, authenticated;
+
+-- Validate a delivery. Fails without moving stock if any line is short, unless
+-- p_ship_available is set, in which case available stock ships and the
+-- remainder goes to a backorder delivery. Returns the backorder id, or NULL.
+CREATE OR REPLACE FUNCTION public.validate_delivery(p_delivery_id UUID, p_ship_available BOOLEAN DEFAULT FALSE)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_delivery public.deliveries%ROWTYPE;
+  v_line public.delivery_lines%ROWTYPE;
+  v_available DECIMAL;
+  v_shipped DECIMAL;
+  v_base_number TEXT;
+  v_backorder_id UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_delivery FROM public.deliveries WHERE id = p_delivery_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Delivery not found';
+  END IF;
+
+  IF v_delivery.status IN ('done', 'canceled') THEN
+    RAISE EXCEPTION 'Delivery % is already %', v_delivery.delivery_number, v_delivery.status;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.delivery_lines WHERE delivery_id = p_delivery_id) THEN
+    RAISE EXCEPTION 'Cannot validate delivery without products';
+  END IF;
+
+  -- Lock every stock row this delivery draws on before checking availability
+  PERFORM 1
+  FROM public.stock_levels
+  WHERE warehouse_id = v_delivery.warehouse_id
+    AND product_id IN (SELECT l.product_id FROM public.delivery_lines l WHERE l.delivery_id = p_delivery_id)
+  ORDER BY product_id
+  FOR UPDATE;
+
+  IF EXISTS (
+    SELECT 1 FROM public.check_delivery_availability(p_delivery_id) a
+    WHERE a.available_quantity < a.quantity
+  ) THEN
+    IF NOT p_ship_available THEN
+      RAISE EXCEPTION 'Insufficient stock for this delivery';
+    END IF;
+
+    IF NOT EXISTS (
+      SELECT 1 FROM public.check_delivery_availability(p_delivery_id) a
+      WHERE a.available_quantity > 0
+    ) THEN
+      RAISE EXCEPTION 'No stock available to ship for this delivery';
+    END IF;
+  END IF;
+
+  -- Close the delivery first so stock changes below do not re-reserve it
+  UPDATE public.deliveries
+  SET status = 'done', validated_at = NOW()
+  WHERE id = p_delivery_id;
+
+  FOR v_line IN
+    SELECT * FROM public.delivery_lines
+    WHERE delivery_id = p_delivery_id
+    ORDER BY product_id, created_at, id
+  LOOP
+    SELECT quantity - public.reserved_quantity(v_line.product_id, v_delivery.warehouse_id, 'delivery', p_delivery_id)
+    INTO v_available
+    FROM public.stock_levels
+    WHERE product_id = v_line.product_id AND warehouse_id = v_delivery.warehouse_id;
+
+    v_shipped := GREATEST(LEAST(v_line.quantity, COALESCE(v_available, 0)), 0);
+
+    UPDATE public.delivery_lines SET delivered_quantity = v_shipped WHERE id = v_line.id;
+
+    IF v_shipped > 0 THEN
+      PERFORM public.apply_stock_movement(
+        v_line.product_id, v_delivery.warehouse_id, -v_shipped, 'delivery', 'delivery', p_delivery_id
+      );
+    END IF;
+
+    IF v_shipped < v_line.quantity THEN
+      IF v_backorder_id IS NULL THEN
+        v_base_number := regexp_replace(v_delivery.delivery_number, '-BO\d+$', '');
+
+        INSERT INTO public.deliveries (
+          delivery_number, customer_name, warehouse_id, status, notes, created_by, backorder_of_id
+        )
+        VALUES (
+          v_base_number || '-BO' || (
+            SELECT COUNT(*) + 1 FROM public.deliveries WHERE delivery_number LIKE v_base_number || '-BO%'
+          ),
+          v_delivery.customer_name,
+          v_delivery.warehouse_id,
+          'waiting',
+          v_delivery.notes,
+          auth.uid(),
+          p_delivery_id
+        )
+        RETURNING id INTO v_backorder_id;
+      END IF;
+
+      INSERT INTO public.delivery_lines (delivery_id, product_id, quantity)
+      VALUES (v_backorder_id, v_line.product_id, v_line.quantity - v_shipped);
+    END IF;
+  END LOOP;
+
+  -- The shipped stock consumed this delivery's reservation
+  DELETE FROM public.stock_reservations
+  WHERE reference_type = 'delivery' AND reference_id = p_delivery_id;
+
+  IF v_backorder_id IS NOT NULL THEN
+    PERFORM public.refresh_delivery_status(v_backorder_id);
+  END IF;
+
+  RETURN v_backorder_id;
+END;
+$$;
+
+-- Validate an internal transfer: move every line from source to destination,
+-- writing a transfer_out/transfer_in movement pair per line
+CREATE OR REPLACE FUNCTION public.validate_transfer(p_transfer_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_transfer public.internal_transfers%ROWTYPE;
+  v_line public.transfer_lines%ROWTYPE;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_transfer FROM public.internal_transfers WHERE id = p_transfer_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Transfer not found';
+  END IF;
+
+  IF v_transfer.status IN ('done', 'canceled') THEN
+    RAISE EXCEPTION 'Transfer % is already %', v_transfer.transfer_number, v_transfer.status;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.transfer_lines WHERE transfer_id = p_transfer_id) THEN
+    RAISE EXCEPTION 'Cannot validate transfer without products';
+  END IF;
+
+  -- Close the transfer first so stock changes below do not re-reserve it
+  UPDATE public.internal_transfers
+  SET status = 'done', validated_at = NOW()
+  WHERE id = p_transfer_id;
+
+  FOR v_line IN
+    SELECT * FROM public.transfer_lines WHERE transfer_id = p_transfer_id ORDER BY product_id
+  LOOP
+    PERFORM public.apply_stock_movement(
+      v_line.product_id, v_transfer.source_warehouse_id, -v_line.quantity, 'transfer_out', 'transfer', p_transfer_id
+    );
+    PERFORM public.apply_stock_movement(
+      v_line.product_id, v_transfer.destination_warehouse_id, v_line.quantity, 'transfer_in', 'transfer', p_transfer_id
+    );
+  END LOOP;
+
+  -- The moved stock consumed this transfer's reservation
+  DELETE FROM public.stock_reservations
+  WHERE reference_type = 'transfer' AND reference_id = p_transfer_id;
+END;
+$$;
+
+-- Cancel an open delivery, recording why and releasing its reservation
+CREATE OR REPLACE FUNCTION public.cancel_delivery(p_delivery_id UUID, p_reason TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_delivery public.deliveries%ROWTYPE;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF COALESCE(TRIM(p_reason), '') = '' THEN
+    RAISE EXCEPTION 'A cancellation reason is required';
+  END IF;
+
+  SELECT * INTO v_delivery FROM public.deliveries WHERE id = p_delivery_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Delivery not found';
+  END IF;
+
+  IF v_delivery.status IN ('done', 'canceled') THEN
+    RAISE EXCEPTION 'Delivery % is already %', v_delivery.delivery_number, v_delivery.status;
+  END IF;
+
+  UPDATE public.deliveries
+  SET status = 'canceled', cancel_reason = TRIM(p_reason), canceled_at = NOW()
+  WHERE id = p_delivery_id;
+
+  PERFORM public.release_reservations('delivery', p_delivery_id);
+END;
+$$;
+
+-- Cancel an open transfer, recording why and releasing its reservation
+CREATE OR REPLACE FUNCTION public.cancel_transfer(p_transfer_id UUID, p_reason TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_transfer public.internal_transfers%ROWTYPE;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF COALESCE(TRIM(p_reason), '') = '' THEN
+    RAISE EXCEPTION 'A cancellation reason is required';
+  END IF;
+
+  SELECT * INTO v_transfer FROM public.internal_transfers WHERE id = p_transfer_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Transfer not found';
+  END IF;
+
+  IF v_transfer.status IN ('done', 'canceled') THEN
+    RAISE EXCEPTION 'Transfer % is already %', v_transfer.transfer_number, v_transfer.status;
+  END IF;
+
+  UPDATE public.internal_transfers
+  SET status = 'canceled', cancel_reason = TRIM(p_reason), canceled_at = NOW()
+  WHERE id = p_transfer_id;
+
+  PERFORM public.release_reservations('transfer', p_transfer_id);
+END;
+$$;
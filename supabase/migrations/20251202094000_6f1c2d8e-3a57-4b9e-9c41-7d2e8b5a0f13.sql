@@ -0,0 +1,315 @@
+-- Reversal of validated documents.
+-- Reversing a done receipt, delivery, transfer or adjustment creates a linked
+-- reversal document (reversal_of_id) and writes one negating stock movement
+-- per movement of the original, referencing the original document. The
+-- original stays done and its ledger rows are never touched.
+
+ALTER TABLE public.receipts
+  ADD COLUMN reversal_of_id UUID REFERENCES public.receipts(id);
+
+ALTER TABLE public.deliveries
+  ADD COLUMN reversal_of_id UUID REFERENCES public.deliveries(id);
+
+ALTER TABLE public.internal_transfers
+  ADD COLUMN reversal_of_id UUID REFERENCES public.internal_transfers(id);
+
+ALTER TABLE public.stock_adjustments
+  ADD COLUMN reversal_of_id UUID REFERENCES public.stock_adjustments(id);
+
+-- A document can be reversed at most once
+CREATE UNIQUE INDEX idx_receipts_reversal_of_id ON public.receipts(reversal_of_id);
+CREATE UNIQUE INDEX idx_deliveries_reversal_of_id ON public.deliveries(reversal_of_id);
+CREATE UNIQUE INDEX idx_internal_transfers_reversal_of_id ON public.internal_transfers(reversal_of_id);
+CREATE UNIQUE INDEX idx_stock_adjustments_reversal_of_id ON public.stock_adjustments(reversal_of_id);
+
+-- Write a negating movement for every ledger row of a document
+CREATE OR REPLACE FUNCTION public.reverse_stock_movements(
+  p_reference_type TEXT,
+  p_reference_id UUID,
+  p_notes TEXT
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_movement public.stock_movements%ROWTYPE;
+BEGIN
+  FOR v_movement IN
+    SELECT * FROM public.stock_movements
+    WHERE reference_type = p_reference_type AND reference_id = p_reference_id
+    ORDER BY product_id, warehouse_id, created_at, id
+  LOOP
+    PERFORM public.apply_stock_movement(
+      v_movement.product_id,
+      v_movement.warehouse_id,
+      -v_movement.quantity,
+      v_movement.movement_type,
+      p_reference_type,
+      p_reference_id,
+      p_notes
+    );
+  END LOOP;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.reverse_stock_movements(TEXT, UUID, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Reverse a done receipt, taking the received stock back out of the warehouse.
+-- Returns the id of the reversal receipt.
+CREATE OR REPLACE FUNCTION public.reverse_receipt(p_receipt_id UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_receipt public.receipts%ROWTYPE;
+  v_reversal_id UUID;
+  v_reversal_number TEXT;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_receipt FROM public.receipts WHERE id = p_receipt_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Receipt not found';
+  END IF;
+
+  IF v_receipt.status <> 'done' THEN
+    RAISE EXCEPTION 'Only done receipts can be reversed';
+  END IF;
+
+  IF v_receipt.reversal_of_id IS NOT NULL THEN
+    RAISE EXCEPTION 'Receipt % is itself a reversal', v_receipt.receipt_number;
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.receipts WHERE reversal_of_id = p_receipt_id) THEN
+    RAISE EXCEPTION 'Receipt % has already been reversed', v_receipt.receipt_number;
+  END IF;
+
+  v_reversal_number := v_receipt.receipt_number || '-REV';
+
+  INSERT INTO public.receipts (
+    receipt_number, supplier_name, warehouse_id, status, notes, created_by, validated_at, reversal_of_id
+  )
+  VALUES (
+    v_reversal_number,
+    v_receipt.supplier_name,
+    v_receipt.warehouse_id,
+    'done',
+    'Reversal of ' || v_receipt.receipt_number,
+    auth.uid(),
+    NOW(),
+    p_receipt_id
+  )
+  RETURNING id INTO v_reversal_id;
+
+  INSERT INTO public.receipt_lines (receipt_id, product_id, quantity, received_quantity)
+  SELECT v_reversal_id, product_id, COALESCE(received_quantity, quantity), COALESCE(received_quantity, quantity)
+  FROM public.receipt_lines
+  WHERE receipt_id = p_receipt_id AND COALESCE(received_quantity, quantity) > 0;
+
+  PERFORM public.reverse_stock_movements('receipt', p_receipt_id, 'Reversed by ' || v_reversal_number);
+
+  RETURN v_reversal_id;
+END;
+$$;
+
+-- Reverse a done delivery, putting the shipped stock back into the warehouse.
+-- Returns the id of the reversal delivery.
+CREATE OR REPLACE FUNCTION public.reverse_delivery(p_delivery_id UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_delivery public.deliveries%ROWTYPE;
+  v_reversal_id UUID;
+  v_reversal_number TEXT;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_delivery FROM public.deliveries WHERE id = p_delivery_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Delivery not found';
+  END IF;
+
+  IF v_delivery.status <> 'done' THEN
+    RAISE EXCEPTION 'Only done deliveries can be reversed';
+  END IF;
+
+  IF v_delivery.reversal_of_id IS NOT NULL THEN
+    RAISE EXCEPTION 'Delivery % is itself a reversal', v_delivery.delivery_number;
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.deliveries WHERE reversal_of_id = p_delivery_id) THEN
+    RAISE EXCEPTION 'Delivery % has already been reversed', v_delivery.delivery_number;
+  END IF;
+
+  v_reversal_number := v_delivery.delivery_number || '-REV';
+
+  INSERT INTO public.deliveries (
+    delivery_number, customer_name, warehouse_id, status, notes, created_by, validated_at, reversal_of_id
+  )
+  VALUES (
+    v_reversal_number,
+    v_delivery.customer_name,
+    v_delivery.warehouse_id,
+    'done',
+    'Reversal of ' || v_delivery.delivery_number,
+    auth.uid(),
+    NOW(),
+    p_delivery_id
+  )
+  RETURNING id INTO v_reversal_id;
+
+  INSERT INTO public.delivery_lines (delivery_id, product_id, quantity, delivered_quantity)
+  SELECT v_reversal_id, product_id, COALESCE(delivered_quantity, quantity), COALESCE(delivered_quantity, quantity)
+  FROM public.delivery_lines
+  WHERE delivery_id = p_delivery_id AND COALESCE(delivered_quantity, quantity) > 0;
+
+  PERFORM public.reverse_stock_movements('delivery', p_delivery_id, 'Reversed by ' || v_reversal_number);
+
+  RETURN v_reversal_id;
+END;
+$$;
+
+-- Reverse a done transfer, moving the stock back to the source warehouse.
+-- Returns the id of the reversal transfer.
+CREATE OR REPLACE FUNCTION public.reverse_transfer(p_transfer_id UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_transfer public.internal_transfers%ROWTYPE;
+  v_reversal_id UUID;
+  v_reversal_number TEXT;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_transfer FROM public.internal_transfers WHERE id = p_transfer_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Transfer not found';
+  END IF;
+
+  IF v_transfer.status <> 'done' THEN
+    RAISE EXCEPTION 'Only done transfers can be reversed';
+  END IF;
+
+  IF v_transfer.reversal_of_id IS NOT NULL THEN
+    RAISE EXCEPTION 'Transfer % is itself a reversal', v_transfer.transfer_number;
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.internal_transfers WHERE reversal_of_id = p_transfer_id) THEN
+    RAISE EXCEPTION 'Transfer % has already been reversed', v_transfer.transfer_number;
+  END IF;
+
+  v_reversal_number := v_transfer.transfer_number || '-REV';
+
+  INSERT INTO public.internal_transfers (
+    transfer_number, source_warehouse_id, destination_warehouse_id, status, notes, created_by, validated_at,
+    reversal_of_id
+  )
+  VALUES (
+    v_reversal_number,
+    v_transfer.destination_warehouse_id,
+    v_transfer.source_warehouse_id,
+    'done',
+    'Reversal of ' || v_transfer.transfer_number,
+    auth.uid(),
+    NOW(),
+    p_transfer_id
+  )
+  RETURNING id INTO v_reversal_id;
+
+  INSERT INTO public.transfer_lines (transfer_id, product_id, quantity)
+  SELECT v_reversal_id, product_id, quantity
+  FROM public.transfer_lines
+  WHERE transfer_id = p_transfer_id;
+
+  PERFORM public.reverse_stock_movements('transfer', p_transfer_id, 'Reversed by ' || v_reversal_number);
+
+  RETURN v_reversal_id;
+END;
+$$;
+
+-- Reverse a done adjustment, undoing the stock difference it booked.
+-- Returns the id of the reversal adjustment.
+CREATE OR REPLACE FUNCTION public.reverse_adjustment(p_adjustment_id UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_adjustment public.stock_adjustments%ROWTYPE;
+  v_current DECIMAL;
+  v_reversal_id UUID;
+  v_reversal_number TEXT;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_adjustment FROM public.stock_adjustments WHERE id = p_adjustment_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Adjustment not found';
+  END IF;
+
+  IF v_adjustment.status <> 'done' THEN
+    RAISE EXCEPTION 'Only done adjustments can be reversed';
+  END IF;
+
+  IF v_adjustment.reversal_of_id IS NOT NULL THEN
+    RAISE EXCEPTION 'Adjustment % is itself a reversal', v_adjustment.adjustment_number;
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.stock_adjustments WHERE reversal_of_id = p_adjustment_id) THEN
+    RAISE EXCEPTION 'Adjustment % has already been reversed', v_adjustment.adjustment_number;
+  END IF;
+
+  SELECT quantity INTO v_current
+  FROM public.stock_levels
+  WHERE product_id = v_adjustment.product_id AND warehouse_id = v_adjustment.warehouse_id
+  FOR UPDATE;
+
+  v_reversal_number := v_adjustment.adjustment_number || '-REV';
+
+  INSERT INTO public.stock_adjustments (
+    adjustment_number, product_id, warehouse_id, system_quantity, counted_quantity, difference, reason,
+    status, created_by, validated_at, reversal_of_id
+  )
+  VALUES (
+    v_reversal_number,
+    v_adjustment.product_id,
+    v_adjustment.warehouse_id,
+    COALESCE(v_current, 0),
+    COALESCE(v_current, 0) - v_adjustment.difference,
+    -v_adjustment.difference,
+    'Reversal of ' || v_adjustment.adjustment_number,
+    'done',
+    auth.uid(),
+    NOW(),
+    p_adjustment_id
+  )
+  RETURNING id INTO v_reversal_id;
+
+  PERFORM public.reverse_stock_movements('adjustment', p_adjustment_id, 'Reversed by ' || v_reversal_number);
+
+  RETURN v_reversal_id;
+END;
+$$;
@@ -0,0 +1,215 @@
+-- Customer returns (RMA).
+-- A return starts from a done delivery and books goods coming back from the
+-- customer, capped per line at the quantity that was shipped. Restocked lines
+-- go back into the delivery's warehouse as return_in movements; scrapped lines
+-- are recorded on the return but never re-enter stock.
+
+ALTER TABLE public.stock_movements
+  DROP CONSTRAINT stock_movements_movement_type_check,
+  ADD CONSTRAINT stock_movements_movement_type_check
+    CHECK (movement_type IN ('receipt', 'delivery', 'transfer_in', 'transfer_out', 'adjustment', 'return_in'));
+
+CREATE TABLE public.customer_returns (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  return_number TEXT UNIQUE NOT NULL,
+  delivery_id UUID NOT NULL REFERENCES public.deliveries(id),
+  customer_name TEXT NOT NULL,
+  warehouse_id UUID NOT NULL REFERENCES public.warehouses(id),
+  status TEXT NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'done')),
+  notes TEXT,
+  created_by UUID NOT NULL REFERENCES public.profiles(id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  validated_at TIMESTAMPTZ
+);
+
+CREATE INDEX idx_customer_returns_delivery_id ON public.customer_returns(delivery_id);
+
+ALTER TABLE public.customer_returns ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view all customer returns" ON public.customer_returns
+  FOR SELECT USING (true);
+
+CREATE POLICY "Users can create customer returns" ON public.customer_returns
+  FOR INSERT WITH CHECK (auth.uid() = created_by);
+
+CREATE TABLE public.customer_return_lines (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  return_id UUID NOT NULL REFERENCES public.customer_returns(id) ON DELETE CASCADE,
+  delivery_line_id UUID NOT NULL REFERENCES public.delivery_lines(id),
+  product_id UUID NOT NULL REFERENCES public.products(id),
+  quantity DECIMAL NOT NULL CHECK (quantity > 0),
+  reason TEXT NOT NULL,
+  disposition TEXT NOT NULL DEFAULT 'restock' CHECK (disposition IN ('restock', 'scrap')),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_customer_return_lines_delivery_line_id ON public.customer_return_lines(delivery_line_id);
+
+ALTER TABLE public.customer_return_lines ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view all customer return lines" ON public.customer_return_lines
+  FOR SELECT USING (true);
+
+CREATE POLICY "Users can create customer return lines" ON public.customer_return_lines
+  FOR INSERT WITH CHECK (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Users can delete customer return lines" ON public.customer_return_lines
+  FOR DELETE USING (auth.uid() IS NOT NULL);
+
+-- Validate a customer return: check every line against what the delivery
+-- shipped and what earlier returns already took back, then restock
+CREATE OR REPLACE FUNCTION public.validate_customer_return(p_return_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_return public.customer_returns%ROWTYPE;
+  v_delivery public.deliveries%ROWTYPE;
+  v_delivery_line public.delivery_lines%ROWTYPE;
+  v_line public.customer_return_lines%ROWTYPE;
+  v_requested RECORD;
+  v_returned DECIMAL;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_return FROM public.customer_returns WHERE id = p_return_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Return not found';
+  END IF;
+
+  IF v_return.status = 'done' THEN
+    RAISE EXCEPTION 'Return % is already done', v_return.return_number;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.customer_return_lines WHERE return_id = p_return_id) THEN
+    RAISE EXCEPTION 'Cannot validate return without products';
+  END IF;
+
+  -- Lock the delivery so concurrent returns against it are checked one at a time
+  SELECT * INTO v_delivery FROM public.deliveries WHERE id = v_return.delivery_id FOR UPDATE;
+
+  IF v_delivery.status <> 'done' THEN
+    RAISE EXCEPTION 'Delivery % has not been shipped', v_delivery.delivery_number;
+  END IF;
+
+  IF v_delivery.reversal_of_id IS NOT NULL
+    OR EXISTS (SELECT 1 FROM public.deliveries WHERE reversal_of_id = v_delivery.id) THEN
+    RAISE EXCEPTION 'Delivery % has been reversed', v_delivery.delivery_number;
+  END IF;
+
+  FOR v_requested IN
+    SELECT delivery_line_id, SUM(quantity) AS quantity
+    FROM public.customer_return_lines
+    WHERE return_id = p_return_id
+    GROUP BY delivery_line_id
+  LOOP
+    SELECT * INTO v_delivery_line
+    FROM public.delivery_lines
+    WHERE id = v_requested.delivery_line_id AND delivery_id = v_delivery.id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Return lines must come from delivery %', v_delivery.delivery_number;
+    END IF;
+
+    SELECT COALESCE(SUM(l.quantity), 0) INTO v_returned
+    FROM public.customer_return_lines l
+    JOIN public.customer_returns r ON r.id = l.return_id
+    WHERE l.delivery_line_id = v_delivery_line.id AND r.status = 'done';
+
+    IF v_returned + v_requested.quantity > COALESCE(v_delivery_line.delivered_quantity, v_delivery_line.quantity) THEN
+      RAISE EXCEPTION 'Cannot return more of product % than was shipped (shipped %, already returned %)',
+        (SELECT sku FROM public.products WHERE id = v_delivery_line.product_id),
+        COALESCE(v_delivery_line.delivered_quantity, v_delivery_line.quantity),
+        v_returned;
+    END IF;
+  END LOOP;
+
+  FOR v_line IN
+    SELECT * FROM public.customer_return_lines
+    WHERE return_id = p_return_id AND disposition = 'restock'
+    ORDER BY product_id
+  LOOP
+    PERFORM public.apply_stock_movement(
+      v_line.product_id, v_return.warehouse_id, v_line.quantity, 'return_in', 'customer_return', p_return_id,
+      v_line.reason
+    );
+  END LOOP;
+
+  UPDATE public.customer_returns
+  SET status = 'done', validated_at = NOW()
+  WHERE id = p_return_id;
+END;
+$$;
+
+-- Deliveries that goods were already returned against can no longer be reversed
+CREATE OR REPLACE FUNCTION public.reverse_delivery(p_delivery_id UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_delivery public.deliveries%ROWTYPE;
+  v_reversal_id UUID;
+  v_reversal_number TEXT;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_delivery FROM public.deliveries WHERE id = p_delivery_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Delivery not found';
+  END IF;
+
+  IF v_delivery.status <> 'done' THEN
+    RAISE EXCEPTION 'Only done deliveries can be reversed';
+  END IF;
+
+  IF v_delivery.reversal_of_id IS NOT NULL THEN
+    RAISE EXCEPTION 'Delivery % is itself a reversal', v_delivery.delivery_number;
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.deliveries WHERE reversal_of_id = p_delivery_id) THEN
+    RAISE EXCEPTION 'Delivery % has already been reversed', v_delivery.delivery_number;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.customer_returns WHERE delivery_id = p_delivery_id AND status = 'done'
+  ) THEN
+    RAISE EXCEPTION 'Delivery % has customer returns and cannot be reversed', v_delivery.delivery_number;
+  END IF;
+
+  v_reversal_number := v_delivery.delivery_number || '-REV';
+
+  INSERT INTO public.deliveries (
+    delivery_number, customer_name, warehouse_id, status, notes, created_by, validated_at, reversal_of_id
+  )
+  VALUES (
+    v_reversal_number,
+    v_delivery.customer_name,
+    v_delivery.warehouse_id,
+    'done',
+    'Reversal of ' || v_delivery.delivery_number,
+    auth.uid(),
+    NOW(),
+    p_delivery_id
+  )
+  RETURNING id INTO v_reversal_id;
+
+  INSERT INTO public.delivery_lines (delivery_id, product_id, quantity, delivered_quantity)
+  SELECT v_reversal_id, product_id, COALESCE(delivered_quantity, quantity), COALESCE(delivered_quantity, quantity)
+  FROM public.delivery_lines
+  WHERE delivery_id = p_delivery_id AND COALESCE(delivered_quantity, quantity) > 0;
+
+  PERFORM public.reverse_stock_movements('delivery', p_delivery_id, 'Reversed by ' || v_reversal_number);
+
+  RETURN v_reversal_id;
+END;
+$$;
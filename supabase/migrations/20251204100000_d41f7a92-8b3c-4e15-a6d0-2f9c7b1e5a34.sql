@@ -0,0 +1,212 @@
+-- Supplier returns.
+-- The outbound mirror of customer returns: a return starts from a done receipt
+-- and sends goods back to the supplier, capped per line at the quantity that
+-- was received and limited to the stock available in the receipt's warehouse.
+
+ALTER TABLE public.stock_movements
+  DROP CONSTRAINT stock_movements_movement_type_check,
+  ADD CONSTRAINT stock_movements_movement_type_check
+    CHECK (movement_type IN (
+      'receipt', 'delivery', 'transfer_in', 'transfer_out', 'adjustment', 'return_in', 'return_out'
+    ));
+
+CREATE TABLE public.supplier_returns (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  return_number TEXT UNIQUE NOT NULL,
+  receipt_id UUID NOT NULL REFERENCES public.receipts(id),
+  supplier_name TEXT NOT NULL,
+  warehouse_id UUID NOT NULL REFERENCES public.warehouses(id),
+  status TEXT NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'done')),
+  notes TEXT,
+  created_by UUID NOT NULL REFERENCES public.profiles(id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  validated_at TIMESTAMPTZ
+);
+
+CREATE INDEX idx_supplier_returns_receipt_id ON public.supplier_returns(receipt_id);
+
+ALTER TABLE public.supplier_returns ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view all supplier returns" ON public.supplier_returns
+  FOR SELECT USING (true);
+
+CREATE POLICY "Users can create supplier returns" ON public.supplier_returns
+  FOR INSERT WITH CHECK (auth.uid() = created_by);
+
+CREATE TABLE public.supplier_return_lines (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  return_id UUID NOT NULL REFERENCES public.supplier_returns(id) ON DELETE CASCADE,
+  receipt_line_id UUID NOT NULL REFERENCES public.receipt_lines(id),
+  product_id UUID NOT NULL REFERENCES public.products(id),
+  quantity DECIMAL NOT NULL CHECK (quantity > 0),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_supplier_return_lines_receipt_line_id ON public.supplier_return_lines(receipt_line_id);
+
+ALTER TABLE public.supplier_return_lines ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view all supplier return lines" ON public.supplier_return_lines
+  FOR SELECT USING (true);
+
+CREATE POLICY "Users can create supplier return lines" ON public.supplier_return_lines
+  FOR INSERT WITH CHECK (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Users can delete supplier return lines" ON public.supplier_return_lines
+  FOR DELETE USING (auth.uid() IS NOT NULL);
+
+-- Validate a supplier return: check every line against what the receipt
+-- received and what earlier returns already sent back, then take the goods
+-- out of the receipt's warehouse
+CREATE OR REPLACE FUNCTION public.validate_supplier_return(p_return_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_return public.supplier_returns%ROWTYPE;
+  v_receipt public.receipts%ROWTYPE;
+  v_receipt_line public.receipt_lines%ROWTYPE;
+  v_line public.supplier_return_lines%ROWTYPE;
+  v_requested RECORD;
+  v_returned DECIMAL;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_return FROM public.supplier_returns WHERE id = p_return_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Return not found';
+  END IF;
+
+  IF v_return.status = 'done' THEN
+    RAISE EXCEPTION 'Return % is already done', v_return.return_number;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.supplier_return_lines WHERE return_id = p_return_id) THEN
+    RAISE EXCEPTION 'Cannot validate return without products';
+  END IF;
+
+  -- Lock the receipt so concurrent returns against it are checked one at a time
+  SELECT * INTO v_receipt FROM public.receipts WHERE id = v_return.receipt_id FOR UPDATE;
+
+  IF v_receipt.status <> 'done' THEN
+    RAISE EXCEPTION 'Receipt % has not been received', v_receipt.receipt_number;
+  END IF;
+
+  IF v_receipt.reversal_of_id IS NOT NULL
+    OR EXISTS (SELECT 1 FROM public.receipts WHERE reversal_of_id = v_receipt.id) THEN
+    RAISE EXCEPTION 'Receipt % has been reversed', v_receipt.receipt_number;
+  END IF;
+
+  FOR v_requested IN
+    SELECT receipt_line_id, SUM(quantity) AS quantity
+    FROM public.supplier_return_lines
+    WHERE return_id = p_return_id
+    GROUP BY receipt_line_id
+  LOOP
+    SELECT * INTO v_receipt_line
+    FROM public.receipt_lines
+    WHERE id = v_requested.receipt_line_id AND receipt_id = v_receipt.id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Return lines must come from receipt %', v_receipt.receipt_number;
+    END IF;
+
+    SELECT COALESCE(SUM(l.quantity), 0) INTO v_returned
+    FROM public.supplier_return_lines l
+    JOIN public.supplier_returns r ON r.id = l.return_id
+    WHERE l.receipt_line_id = v_receipt_line.id AND r.status = 'done';
+
+    IF v_returned + v_requested.quantity > COALESCE(v_receipt_line.received_quantity, v_receipt_line.quantity) THEN
+      RAISE EXCEPTION 'Cannot return more of product % than was received (received %, already returned %)',
+        (SELECT sku FROM public.products WHERE id = v_receipt_line.product_id),
+        COALESCE(v_receipt_line.received_quantity, v_receipt_line.quantity),
+        v_returned;
+    END IF;
+  END LOOP;
+
+  FOR v_line IN
+    SELECT * FROM public.supplier_return_lines WHERE return_id = p_return_id ORDER BY product_id
+  LOOP
+    PERFORM public.apply_stock_movement(
+      v_line.product_id, v_return.warehouse_id, -v_line.quantity, 'return_out', 'supplier_return', p_return_id
+    );
+  END LOOP;
+
+  UPDATE public.supplier_returns
+  SET status = 'done', validated_at = NOW()
+  WHERE id = p_return_id;
+END;
+$$;
+
+-- Receipts that goods were already returned against can no longer be reversed
+CREATE OR REPLACE FUNCTION public.reverse_receipt(p_receipt_id UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_receipt public.receipts%ROWTYPE;
+  v_reversal_id UUID;
+  v_reversal_number TEXT;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_receipt FROM public.receipts WHERE id = p_receipt_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Receipt not found';
+  END IF;
+
+  IF v_receipt.status <> 'done' THEN
+    RAISE EXCEPTION 'Only done receipts can be reversed';
+  END IF;
+
+  IF v_receipt.reversal_of_id IS NOT NULL THEN
+    RAISE EXCEPTION 'Receipt % is itself a reversal', v_receipt.receipt_number;
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.receipts WHERE reversal_of_id = p_receipt_id) THEN
+    RAISE EXCEPTION 'Receipt % has already been reversed', v_receipt.receipt_number;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.supplier_returns WHERE receipt_id = p_receipt_id AND status = 'done'
+  ) THEN
+    RAISE EXCEPTION 'Receipt % has supplier returns and cannot be reversed', v_receipt.receipt_number;
+  END IF;
+
+  v_reversal_number := v_receipt.receipt_number || '-REV';
+
+  INSERT INTO public.receipts (
+    receipt_number, supplier_name, warehouse_id, status, notes, created_by, validated_at, reversal_of_id
+  )
+  VALUES (
+    v_reversal_number,
+    v_receipt.supplier_name,
+    v_receipt.warehouse_id,
+    'done',
+    'Reversal of ' || v_receipt.receipt_number,
+    auth.uid(),
+    NOW(),
+    p_receipt_id
+  )
+  RETURNING id INTO v_reversal_id;
+
+  INSERT INTO public.receipt_lines (receipt_id, product_id, quantity, received_quantity)
+  SELECT v_reversal_id, product_id, COALESCE(received_quantity, quantity), COALESCE(received_quantity, quantity)
+  FROM public.receipt_lines
+  WHERE receipt_id = p_receipt_id AND COALESCE(received_quantity, quantity) > 0;
+
+  PERFORM public.reverse_stock_movements('receipt', p_receipt_id, 'Reversed by ' || v_reversal_number);
+
+  RETURN v_reversal_id;
+END;
+$$;
@@ -0,0 +1,155 @@
+-- Partners: suppliers and customers as first-class records.
+-- Receipts and deliveries reference a partner; their supplier_name and
+-- customer_name columns are kept as a snapshot of the partner's name, filled
+-- in by trigger so they can no longer drift into near-duplicate spellings.
+
+CREATE TABLE public.partners (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  type TEXT NOT NULL DEFAULT 'customer' CHECK (type IN ('supplier', 'customer', 'both')),
+  contact_name TEXT,
+  email TEXT,
+  phone TEXT,
+  billing_address TEXT,
+  shipping_address TEXT,
+  default_warehouse_id UUID REFERENCES public.warehouses(id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE public.partners ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view all partners" ON public.partners
+  FOR SELECT USING (true);
+
+CREATE POLICY "Users can create partners" ON public.partners
+  FOR INSERT WITH CHECK (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Users can update partners" ON public.partners
+  FOR UPDATE USING (auth.uid() IS NOT NULL);
+
+CREATE TRIGGER update_partners_updated_at BEFORE UPDATE ON public.partners
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.receipts
+  ADD COLUMN partner_id UUID REFERENCES public.partners(id);
+
+ALTER TABLE public.deliveries
+  ADD COLUMN partner_id UUID REFERENCES public.partners(id);
+
+CREATE INDEX idx_receipts_partner_id ON public.receipts(partner_id);
+CREATE INDEX idx_deliveries_partner_id ON public.deliveries(partner_id);
+
+-- Backorders and reversals inherit the partner of the document they came
+-- from; the name snapshot always follows the partner
+CREATE OR REPLACE FUNCTION public.set_receipt_partner()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.partner_id IS NULL AND COALESCE(NEW.backorder_of_id, NEW.reversal_of_id) IS NOT NULL THEN
+    SELECT partner_id INTO NEW.partner_id
+    FROM public.receipts
+    WHERE id = COALESCE(NEW.backorder_of_id, NEW.reversal_of_id);
+  END IF;
+
+  IF NEW.partner_id IS NOT NULL THEN
+    SELECT name INTO NEW.supplier_name FROM public.partners WHERE id = NEW.partner_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.set_delivery_partner()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.partner_id IS NULL AND COALESCE(NEW.backorder_of_id, NEW.reversal_of_id) IS NOT NULL THEN
+    SELECT partner_id INTO NEW.partner_id
+    FROM public.deliveries
+    WHERE id = COALESCE(NEW.backorder_of_id, NEW.reversal_of_id);
+  END IF;
+
+  IF NEW.partner_id IS NOT NULL THEN
+    SELECT name INTO NEW.customer_name FROM public.partners WHERE id = NEW.partner_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_receipts_partner BEFORE INSERT OR UPDATE OF partner_id ON public.receipts
+  FOR EACH ROW EXECUTE FUNCTION public.set_receipt_partner();
+
+CREATE TRIGGER set_deliveries_partner BEFORE INSERT OR UPDATE OF partner_id ON public.deliveries
+  FOR EACH ROW EXECUTE FUNCTION public.set_delivery_partner();
+
+-- De-duplicate the existing free-text names into partners. Names are matched
+-- case-insensitively, ignoring punctuation and a trailing company suffix, so
+-- "ACME", "Acme Inc" and "acme" become one partner named after the most
+-- common spelling.
+CREATE TEMP TABLE partner_names AS
+SELECT DISTINCT
+  n.name,
+  n.type,
+  COALESCE(
+    NULLIF(
+      TRIM(regexp_replace(
+        regexp_replace(lower(n.name), '[^a-z0-9]+', ' ', 'g'),
+        '\s(inc|incorporated|ltd|limited|llc|co|corp|corporation|gmbh)\s*$',
+        ''
+      )),
+      ''
+    ),
+    lower(TRIM(n.name))
+  ) AS name_key
+FROM (
+  SELECT supplier_name AS name, 'supplier' AS type FROM public.receipts
+  UNION ALL
+  SELECT customer_name, 'customer' FROM public.deliveries
+) n;
+
+CREATE TEMP TABLE partner_keys AS
+SELECT
+  name_key,
+  gen_random_uuid() AS partner_id,
+  (
+    SELECT d.name
+    FROM (
+      SELECT supplier_name AS name FROM public.receipts
+      UNION ALL
+      SELECT customer_name FROM public.deliveries
+    ) d
+    WHERE d.name IN (SELECT pn.name FROM partner_names pn WHERE pn.name_key = k.name_key)
+    GROUP BY d.name
+    ORDER BY COUNT(*) DESC, d.name
+    LIMIT 1
+  ) AS name,
+  CASE
+    WHEN bool_and(k.type = 'supplier') THEN 'supplier'
+    WHEN bool_and(k.type = 'customer') THEN 'customer'
+    ELSE 'both'
+  END AS type
+FROM partner_names k
+GROUP BY name_key;
+
+INSERT INTO public.partners (id, name, type)
+SELECT partner_id, name, type FROM partner_keys;
+
+UPDATE public.receipts r
+SET partner_id = k.partner_id
+FROM partner_names n
+JOIN partner_keys k ON k.name_key = n.name_key
+WHERE n.name = r.supplier_name AND n.type = 'supplier';
+
+UPDATE public.deliveries d
+SET partner_id = k.partner_id
+FROM partner_names n
+JOIN partner_keys k ON k.name_key = n.name_key
+WHERE n.name = d.customer_name AND n.type = 'customer';
+
+DROP TABLE partner_names, partner_keys;
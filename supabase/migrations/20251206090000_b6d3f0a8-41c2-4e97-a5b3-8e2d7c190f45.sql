@@ -0,0 +1,263 @@
+-- Purchase orders.
+-- A purchase order lists what is ordered from a supplier and at what price.
+-- Confirming it creates a waiting receipt with matching lines; as receipts
+-- (and their backorders) are validated, the order's received quantities are
+-- recomputed and it is marked done once everything has arrived.
+
+CREATE TABLE public.purchase_orders (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  po_number TEXT UNIQUE NOT NULL,
+  partner_id UUID NOT NULL REFERENCES public.partners(id),
+  warehouse_id UUID NOT NULL REFERENCES public.warehouses(id),
+  expected_date DATE,
+  status TEXT NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'confirmed', 'done')),
+  notes TEXT,
+  created_by UUID NOT NULL REFERENCES public.profiles(id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  confirmed_at TIMESTAMPTZ
+);
+
+ALTER TABLE public.purchase_orders ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view all purchase orders" ON public.purchase_orders
+  FOR SELECT USING (true);
+
+CREATE POLICY "Users can create purchase orders" ON public.purchase_orders
+  FOR INSERT WITH CHECK (auth.uid() = created_by);
+
+CREATE TABLE public.purchase_order_lines (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  purchase_order_id UUID NOT NULL REFERENCES public.purchase_orders(id) ON DELETE CASCADE,
+  product_id UUID NOT NULL REFERENCES public.products(id),
+  quantity DECIMAL NOT NULL CHECK (quantity > 0),
+  unit_price DECIMAL NOT NULL DEFAULT 0 CHECK (unit_price >= 0),
+  received_quantity DECIMAL NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE public.purchase_order_lines ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view all purchase order lines" ON public.purchase_order_lines
+  FOR SELECT USING (true);
+
+CREATE POLICY "Users can create purchase order lines" ON public.purchase_order_lines
+  FOR INSERT WITH CHECK (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Users can delete purchase order lines" ON public.purchase_order_lines
+  FOR DELETE USING (auth.uid() IS NOT NULL);
+
+ALTER TABLE public.receipts
+  ADD COLUMN purchase_order_id UUID REFERENCES public.purchase_orders(id);
+
+ALTER TABLE public.receipt_lines
+  ADD COLUMN purchase_order_line_id UUID REFERENCES public.purchase_order_lines(id);
+
+CREATE INDEX idx_receipts_purchase_order_id ON public.receipts(purchase_order_id);
+CREATE INDEX idx_receipt_lines_purchase_order_line_id ON public.receipt_lines(purchase_order_line_id);
+
+-- Confirm a draft purchase order, creating the waiting receipt for it.
+-- Returns the id of the receipt.
+CREATE OR REPLACE FUNCTION public.confirm_purchase_order(p_purchase_order_id UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order public.purchase_orders%ROWTYPE;
+  v_receipt_id UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_order FROM public.purchase_orders WHERE id = p_purchase_order_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Purchase order not found';
+  END IF;
+
+  IF v_order.status <> 'draft' THEN
+    RAISE EXCEPTION 'Purchase order % is already %', v_order.po_number, v_order.status;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.purchase_order_lines WHERE purchase_order_id = p_purchase_order_id) THEN
+    RAISE EXCEPTION 'Cannot confirm purchase order without products';
+  END IF;
+
+  INSERT INTO public.receipts (
+    receipt_number, partner_id, supplier_name, warehouse_id, status, notes, created_by, purchase_order_id
+  )
+  VALUES (
+    'RCP-' || regexp_replace(v_order.po_number, '^PO-', ''),
+    v_order.partner_id,
+    (SELECT name FROM public.partners WHERE id = v_order.partner_id),
+    v_order.warehouse_id,
+    'waiting',
+    v_order.notes,
+    auth.uid(),
+    p_purchase_order_id
+  )
+  RETURNING id INTO v_receipt_id;
+
+  INSERT INTO public.receipt_lines (receipt_id, product_id, quantity, purchase_order_line_id)
+  SELECT v_receipt_id, product_id, quantity, id
+  FROM public.purchase_order_lines
+  WHERE purchase_order_id = p_purchase_order_id;
+
+  UPDATE public.purchase_orders
+  SET status = 'confirmed', confirmed_at = NOW()
+  WHERE id = p_purchase_order_id;
+
+  RETURN v_receipt_id;
+END;
+$$;
+
+-- Recompute what has arrived for a purchase order from its validated receipts.
+-- Reversed receipts no longer count.
+CREATE OR REPLACE FUNCTION public.refresh_purchase_order(p_purchase_order_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.purchase_order_lines pol
+  SET received_quantity = COALESCE((
+    SELECT SUM(COALESCE(rl.received_quantity, 0))
+    FROM public.receipt_lines rl
+    JOIN public.receipts r ON r.id = rl.receipt_id
+    WHERE rl.purchase_order_line_id = pol.id
+      AND r.status = 'done'
+      AND NOT EXISTS (SELECT 1 FROM public.receipts rev WHERE rev.reversal_of_id = r.id)
+  ), 0)
+  WHERE pol.purchase_order_id = p_purchase_order_id;
+
+  UPDATE public.purchase_orders po
+  SET status = CASE
+    WHEN EXISTS (
+      SELECT 1 FROM public.purchase_order_lines pol
+      WHERE pol.purchase_order_id = po.id AND pol.received_quantity < pol.quantity
+    ) THEN 'confirmed'
+    ELSE 'done'
+  END
+  WHERE po.id = p_purchase_order_id AND po.status <> 'draft';
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.refresh_purchase_order(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Keep purchase orders in step with their receipts being validated or reversed
+CREATE OR REPLACE FUNCTION public.refresh_receipt_purchase_order()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_purchase_order_id UUID;
+BEGIN
+  IF NEW.status <> 'done' THEN
+    RETURN NEW;
+  END IF;
+
+  v_purchase_order_id := COALESCE(
+    NEW.purchase_order_id,
+    (SELECT purchase_order_id FROM public.receipts WHERE id = NEW.reversal_of_id)
+  );
+
+  IF v_purchase_order_id IS NOT NULL THEN
+    PERFORM public.refresh_purchase_order(v_purchase_order_id);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER refresh_receipts_purchase_order AFTER INSERT OR UPDATE OF status ON public.receipts
+  FOR EACH ROW EXECUTE FUNCTION public.refresh_receipt_purchase_order();
+
+-- Backorders stay attached to the purchase order and its lines
+CREATE OR REPLACE FUNCTION public.validate_receipt(p_receipt_id UUID, p_received JSONB DEFAULT NULL)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_receipt public.receipts%ROWTYPE;
+  v_line public.receipt_lines%ROWTYPE;
+  v_received DECIMAL;
+  v_base_number TEXT;
+  v_backorder_id UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_receipt FROM public.receipts WHERE id = p_receipt_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Receipt not found';
+  END IF;
+
+  IF v_receipt.status IN ('done', 'canceled') THEN
+    RAISE EXCEPTION 'Receipt % is already %', v_receipt.receipt_number, v_receipt.status;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.receipt_lines WHERE receipt_id = p_receipt_id) THEN
+    RAISE EXCEPTION 'Cannot validate receipt without products';
+  END IF;
+
+  FOR v_line IN
+    SELECT * FROM public.receipt_lines WHERE receipt_id = p_receipt_id ORDER BY product_id
+  LOOP
+    v_received := COALESCE((p_received ->> v_line.id::TEXT)::DECIMAL, v_line.quantity);
+
+    IF v_received < 0 THEN
+      RAISE EXCEPTION 'Received quantity cannot be negative';
+    END IF;
+
+    UPDATE public.receipt_lines SET received_quantity = v_received WHERE id = v_line.id;
+
+    IF v_received > 0 THEN
+      PERFORM public.apply_stock_movement(
+        v_line.product_id, v_receipt.warehouse_id, v_received, 'receipt', 'receipt', p_receipt_id
+      );
+    END IF;
+
+    IF v_received < v_line.quantity THEN
+      IF v_backorder_id IS NULL THEN
+        v_base_number := regexp_replace(v_receipt.receipt_number, '-BO\d+$', '');
+
+        INSERT INTO public.receipts (
+          receipt_number, supplier_name, warehouse_id, status, notes, created_by, backorder_of_id,
+          purchase_order_id
+        )
+        VALUES (
+          v_base_number || '-BO' || (
+            SELECT COUNT(*) + 1 FROM public.receipts WHERE receipt_number LIKE v_base_number || '-BO%'
+          ),
+          v_receipt.supplier_name,
+          v_receipt.warehouse_id,
+          'waiting',
+          v_receipt.notes,
+          auth.uid(),
+          p_receipt_id,
+          v_receipt.purchase_order_id
+        )
+        RETURNING id INTO v_backorder_id;
+      END IF;
+
+      INSERT INTO public.receipt_lines (receipt_id, product_id, quantity, purchase_order_line_id)
+      VALUES (v_backorder_id, v_line.product_id, v_line.quantity - v_received, v_line.purchase_order_line_id);
+    END IF;
+  END LOOP;
+
+  UPDATE public.receipts
+  SET status = 'done', validated_at = NOW()
+  WHERE id = p_receipt_id;
+
+  RETURN v_backorder_id;
+END;
+$$;
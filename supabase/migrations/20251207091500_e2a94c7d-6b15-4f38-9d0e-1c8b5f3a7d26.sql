@@ -0,0 +1,327 @@
+-- Sales orders.
+-- The outbound counterpart to purchase orders: a sales order lists what a
+-- customer ordered and at what price. Confirming it creates one delivery per
+-- source warehouse; as those deliveries (and their backorders) are validated,
+-- shipped quantities and the order's fulfilment status are recomputed.
+
+CREATE TABLE public.sales_orders (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  so_number TEXT UNIQUE NOT NULL,
+  partner_id UUID NOT NULL REFERENCES public.partners(id),
+  warehouse_id UUID NOT NULL REFERENCES public.warehouses(id),
+  promised_date DATE,
+  status TEXT NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'confirmed', 'done')),
+  fulfillment_status TEXT NOT NULL DEFAULT 'not_shipped'
+    CHECK (fulfillment_status IN ('not_shipped', 'partial', 'shipped')),
+  notes TEXT,
+  created_by UUID NOT NULL REFERENCES public.profiles(id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  confirmed_at TIMESTAMPTZ
+);
+
+ALTER TABLE public.sales_orders ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view all sales orders" ON public.sales_orders
+  FOR SELECT USING (true);
+
+CREATE POLICY "Users can create sales orders" ON public.sales_orders
+  FOR INSERT WITH CHECK (auth.uid() = created_by);
+
+-- warehouse_id overrides the order's warehouse for a single line
+CREATE TABLE public.sales_order_lines (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  sales_order_id UUID NOT NULL REFERENCES public.sales_orders(id) ON DELETE CASCADE,
+  product_id UUID NOT NULL REFERENCES public.products(id),
+  warehouse_id UUID REFERENCES public.warehouses(id),
+  quantity DECIMAL NOT NULL CHECK (quantity > 0),
+  unit_price DECIMAL NOT NULL DEFAULT 0 CHECK (unit_price >= 0),
+  shipped_quantity DECIMAL NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE public.sales_order_lines ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view all sales order lines" ON public.sales_order_lines
+  FOR SELECT USING (true);
+
+CREATE POLICY "Users can create sales order lines" ON public.sales_order_lines
+  FOR INSERT WITH CHECK (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Users can delete sales order lines" ON public.sales_order_lines
+  FOR DELETE USING (auth.uid() IS NOT NULL);
+
+ALTER TABLE public.deliveries
+  ADD COLUMN sales_order_id UUID REFERENCES public.sales_orders(id);
+
+ALTER TABLE public.delivery_lines
+  ADD COLUMN sales_order_line_id UUID REFERENCES public.sales_order_lines(id);
+
+CREATE INDEX idx_deliveries_sales_order_id ON public.deliveries(sales_order_id);
+CREATE INDEX idx_delivery_lines_sales_order_line_id ON public.delivery_lines(sales_order_line_id);
+
+-- Confirm a draft sales order, creating a waiting delivery for every warehouse
+-- its lines ship from. Each delivery reserves stock straight away.
+CREATE OR REPLACE FUNCTION public.confirm_sales_order(p_sales_order_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order public.sales_orders%ROWTYPE;
+  v_warehouse RECORD;
+  v_delivery_id UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_order FROM public.sales_orders WHERE id = p_sales_order_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Sales order not found';
+  END IF;
+
+  IF v_order.status <> 'draft' THEN
+    RAISE EXCEPTION 'Sales order % is already %', v_order.so_number, v_order.status;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.sales_order_lines WHERE sales_order_id = p_sales_order_id) THEN
+    RAISE EXCEPTION 'Cannot confirm sales order without products';
+  END IF;
+
+  FOR v_warehouse IN
+    SELECT DISTINCT w.id, w.code
+    FROM public.sales_order_lines l
+    JOIN public.warehouses w ON w.id = COALESCE(l.warehouse_id, v_order.warehouse_id)
+    WHERE l.sales_order_id = p_sales_order_id
+    ORDER BY w.code
+  LOOP
+    INSERT INTO public.deliveries (
+      delivery_number, partner_id, customer_name, warehouse_id, status, notes, created_by, sales_order_id
+    )
+    VALUES (
+      'DEL-' || regexp_replace(v_order.so_number, '^SO-', '') || '-' || v_warehouse.code,
+      v_order.partner_id,
+      (SELECT name FROM public.partners WHERE id = v_order.partner_id),
+      v_warehouse.id,
+      'waiting',
+      v_order.notes,
+      auth.uid(),
+      p_sales_order_id
+    )
+    RETURNING id INTO v_delivery_id;
+
+    INSERT INTO public.delivery_lines (delivery_id, product_id, quantity, sales_order_line_id)
+    SELECT v_delivery_id, product_id, quantity, id
+    FROM public.sales_order_lines
+    WHERE sales_order_id = p_sales_order_id
+      AND COALESCE(warehouse_id, v_order.warehouse_id) = v_warehouse.id;
+
+    PERFORM public.refresh_delivery_status(v_delivery_id);
+  END LOOP;
+
+  UPDATE public.sales_orders
+  SET status = 'confirmed', confirmed_at = NOW()
+  WHERE id = p_sales_order_id;
+END;
+$$;
+
+-- Recompute what has shipped for a sales order from its validated deliveries.
+-- Reversed deliveries no longer count.
+CREATE OR REPLACE FUNCTION public.refresh_sales_order(p_sales_order_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.sales_order_lines sol
+  SET shipped_quantity = COALESCE((
+    SELECT SUM(COALESCE(dl.delivered_quantity, 0))
+    FROM public.delivery_lines dl
+    JOIN public.deliveries d ON d.id = dl.delivery_id
+    WHERE dl.sales_order_line_id = sol.id
+      AND d.status = 'done'
+      AND NOT EXISTS (SELECT 1 FROM public.deliveries rev WHERE rev.reversal_of_id = d.id)
+  ), 0)
+  WHERE sol.sales_order_id = p_sales_order_id;
+
+  UPDATE public.sales_orders so
+  SET fulfillment_status = f.fulfillment_status,
+      status = CASE WHEN so.status = 'draft' THEN 'draft'
+                    WHEN f.fulfillment_status = 'shipped' THEN 'done'
+                    ELSE 'confirmed' END
+  FROM (
+    SELECT CASE
+      WHEN bool_and(shipped_quantity >= quantity) THEN 'shipped'
+      WHEN bool_or(shipped_quantity > 0) THEN 'partial'
+      ELSE 'not_shipped'
+    END AS fulfillment_status
+    FROM public.sales_order_lines
+    WHERE sales_order_id = p_sales_order_id
+  ) f
+  WHERE so.id = p_sales_order_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.refresh_sales_order(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Keep sales orders in step with their deliveries being validated or reversed
+CREATE OR REPLACE FUNCTION public.refresh_delivery_sales_order()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_sales_order_id UUID;
+BEGIN
+  IF NEW.status <> 'done' THEN
+    RETURN NEW;
+  END IF;
+
+  v_sales_order_id := COALESCE(
+    NEW.sales_order_id,
+    (SELECT sales_order_id FROM public.deliveries WHERE id = NEW.reversal_of_id)
+  );
+
+  IF v_sales_order_id IS NOT NULL THEN
+    PERFORM public.refresh_sales_order(v_sales_order_id);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER refresh_deliveries_sales_order AFTER INSERT OR UPDATE OF status ON public.deliveries
+  FOR EACH ROW EXECUTE FUNCTION public.refresh_delivery_sales_order();
+
+-- Backorders stay attached to the sales order and its lines, and the order's
+-- shipped quantities are refreshed once the lines are shipped
+CREATE OR REPLACE FUNCTION public.validate_delivery(p_delivery_id UUID, p_ship_available BOOLEAN DEFAULT FALSE)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_delivery public.deliveries%ROWTYPE;
+  v_line public.delivery_lines%ROWTYPE;
+  v_available DECIMAL;
+  v_shipped DECIMAL;
+  v_base_number TEXT;
+  v_backorder_id UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_delivery FROM public.deliveries WHERE id = p_delivery_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Delivery not found';
+  END IF;
+
+  IF v_delivery.status IN ('done', 'canceled') THEN
+    RAISE EXCEPTION 'Delivery % is already %', v_delivery.delivery_number, v_delivery.status;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.delivery_lines WHERE delivery_id = p_delivery_id) THEN
+    RAISE EXCEPTION 'Cannot validate delivery without products';
+  END IF;
+
+  -- Lock every stock row this delivery draws on before checking availability
+  PERFORM 1
+  FROM public.stock_levels
+  WHERE warehouse_id = v_delivery.warehouse_id
+    AND product_id IN (SELECT l.product_id FROM public.delivery_lines l WHERE l.delivery_id = p_delivery_id)
+  ORDER BY product_id
+  FOR UPDATE;
+
+  IF EXISTS (
+    SELECT 1 FROM public.check_delivery_availability(p_delivery_id) a
+    WHERE a.available_quantity < a.quantity
+  ) THEN
+    IF NOT p_ship_available THEN
+      RAISE EXCEPTION 'Insufficient stock for this delivery';
+    END IF;
+
+    IF NOT EXISTS (
+      SELECT 1 FROM public.check_delivery_availability(p_delivery_id) a
+      WHERE a.available_quantity > 0
+    ) THEN
+      RAISE EXCEPTION 'No stock available to ship for this delivery';
+    END IF;
+  END IF;
+
+  -- Close the delivery first so stock changes below do not re-reserve it
+  UPDATE public.deliveries
+  SET status = 'done', validated_at = NOW()
+  WHERE id = p_delivery_id;
+
+  FOR v_line IN
+    SELECT * FROM public.delivery_lines
+    WHERE delivery_id = p_delivery_id
+    ORDER BY product_id, created_at, id
+  LOOP
+    SELECT quantity - public.reserved_quantity(v_line.product_id, v_delivery.warehouse_id, 'delivery', p_delivery_id)
+    INTO v_available
+    FROM public.stock_levels
+    WHERE product_id = v_line.product_id AND warehouse_id = v_delivery.warehouse_id;
+
+    v_shipped := GREATEST(LEAST(v_line.quantity, COALESCE(v_available, 0)), 0);
+
+    UPDATE public.delivery_lines SET delivered_quantity = v_shipped WHERE id = v_line.id;
+
+    IF v_shipped > 0 THEN
+      PERFORM public.apply_stock_movement(
+        v_line.product_id, v_delivery.warehouse_id, -v_shipped, 'delivery', 'delivery', p_delivery_id
+      );
+    END IF;
+
+    IF v_shipped < v_line.quantity THEN
+      IF v_backorder_id IS NULL THEN
+        v_base_number := regexp_replace(v_delivery.delivery_number, '-BO\d+$', '');
+
+        INSERT INTO public.deliveries (
+          delivery_number, customer_name, warehouse_id, status, notes, created_by, backorder_of_id,
+          sales_order_id
+        )
+        VALUES (
+          v_base_number || '-BO' || (
+            SELECT COUNT(*) + 1 FROM public.deliveries WHERE delivery_number LIKE v_base_number || '-BO%'
+          ),
+          v_delivery.customer_name,
+          v_delivery.warehouse_id,
+          'waiting',
+          v_delivery.notes,
+          auth.uid(),
+          p_delivery_id,
+          v_delivery.sales_order_id
+        )
+        RETURNING id INTO v_backorder_id;
+      END IF;
+
+      INSERT INTO public.delivery_lines (delivery_id, product_id, quantity, sales_order_line_id)
+      VALUES (v_backorder_id, v_line.product_id, v_line.quantity - v_shipped, v_line.sales_order_line_id);
+    END IF;
+  END LOOP;
+
+  -- The shipped stock consumed this delivery's reservation
+  DELETE FROM public.stock_reservations
+  WHERE reference_type = 'delivery' AND reference_id = p_delivery_id;
+
+  IF v_backorder_id IS NOT NULL THEN
+    PERFORM public.refresh_delivery_status(v_backorder_id);
+  END IF;
+
+  -- The delivery is closed before its lines are shipped, so the status
+  -- trigger saw nothing shipped yet
+  IF v_delivery.sales_order_id IS NOT NULL THEN
+    PERFORM public.refresh_sales_order(v_delivery.sales_order_id);
+  END IF;
+
+  RETURN v_backorder_id;
+END;
+$$;
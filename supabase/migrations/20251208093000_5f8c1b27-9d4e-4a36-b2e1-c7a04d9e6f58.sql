@@ -0,0 +1,119 @@
+-- Reorder rules and replenishment proposals.
+-- A rule keeps a product's forecast stock in one warehouse between a minimum
+-- and a maximum. The forecast is on hand plus everything still coming in,
+-- minus everything still going out; when it falls below the minimum, the
+-- proposal orders enough to bring it back up to the maximum, in multiples of
+-- the rule's order quantity.
+
+CREATE TABLE public.reorder_rules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  product_id UUID NOT NULL REFERENCES public.products(id) ON DELETE CASCADE,
+  warehouse_id UUID NOT NULL REFERENCES public.warehouses(id) ON DELETE CASCADE,
+  -- Preferred supplier the proposal is ordered from
+  partner_id UUID REFERENCES public.partners(id),
+  min_quantity DECIMAL NOT NULL CHECK (min_quantity >= 0),
+  max_quantity DECIMAL NOT NULL,
+  multiple_of DECIMAL NOT NULL DEFAULT 1 CHECK (multiple_of > 0),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE(product_id, warehouse_id),
+  CHECK (max_quantity >= min_quantity)
+);
+
+ALTER TABLE public.reorder_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view all reorder rules" ON public.reorder_rules
+  FOR SELECT USING (true);
+
+CREATE POLICY "Users can create reorder rules" ON public.reorder_rules
+  FOR INSERT WITH CHECK (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Users can update reorder rules" ON public.reorder_rules
+  FOR UPDATE USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Users can delete reorder rules" ON public.reorder_rules
+  FOR DELETE USING (auth.uid() IS NOT NULL);
+
+CREATE TRIGGER update_reorder_rules_updated_at BEFORE UPDATE ON public.reorder_rules
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Every rule whose forecast is below its minimum, with the quantity to order.
+-- Incoming counts open receipts, draft purchase orders and transfers into the
+-- warehouse; outgoing counts open deliveries, draft sales orders and transfers
+-- out of it. Confirmed orders are already counted through their documents.
+CREATE OR REPLACE FUNCTION public.replenishment_proposals()
+RETURNS TABLE (
+  rule_id UUID,
+  product_id UUID,
+  warehouse_id UUID,
+  partner_id UUID,
+  on_hand DECIMAL,
+  incoming DECIMAL,
+  outgoing DECIMAL,
+  forecast_quantity DECIMAL,
+  min_quantity DECIMAL,
+  max_quantity DECIMAL,
+  proposed_quantity DECIMAL
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH moves AS (
+    SELECT l.product_id, r.warehouse_id, l.quantity AS incoming, 0 AS outgoing
+    FROM public.receipt_lines l
+    JOIN public.receipts r ON r.id = l.receipt_id
+    WHERE r.status IN ('draft', 'waiting', 'ready')
+    UNION ALL
+    SELECT l.product_id, po.warehouse_id, l.quantity, 0
+    FROM public.purchase_order_lines l
+    JOIN public.purchase_orders po ON po.id = l.purchase_order_id
+    WHERE po.status = 'draft'
+    UNION ALL
+    SELECT l.product_id, t.destination_warehouse_id, l.quantity, 0
+    FROM public.transfer_lines l
+    JOIN public.internal_transfers t ON t.id = l.transfer_id
+    WHERE t.status IN ('draft', 'waiting', 'ready')
+    UNION ALL
+    SELECT l.product_id, d.warehouse_id, 0, l.quantity
+    FROM public.delivery_lines l
+    JOIN public.deliveries d ON d.id = l.delivery_id
+    WHERE d.status IN ('draft', 'waiting', 'ready')
+    UNION ALL
+    SELECT l.product_id, COALESCE(l.warehouse_id, so.warehouse_id), 0, l.quantity
+    FROM public.sales_order_lines l
+    JOIN public.sales_orders so ON so.id = l.sales_order_id
+    WHERE so.status = 'draft'
+    UNION ALL
+    SELECT l.product_id, t.source_warehouse_id, 0, l.quantity
+    FROM public.transfer_lines l
+    JOIN public.internal_transfers t ON t.id = l.transfer_id
+    WHERE t.status IN ('draft', 'waiting', 'ready')
+  ),
+  forecast AS (
+    SELECT
+      rr.*,
+      COALESCE(s.quantity, 0) AS on_hand,
+      COALESCE((SELECT SUM(m.incoming) FROM moves m
+                WHERE m.product_id = rr.product_id AND m.warehouse_id = rr.warehouse_id), 0) AS incoming,
+      COALESCE((SELECT SUM(m.outgoing) FROM moves m
+                WHERE m.product_id = rr.product_id AND m.warehouse_id = rr.warehouse_id), 0) AS outgoing
+    FROM public.reorder_rules rr
+    LEFT JOIN public.stock_levels s ON s.product_id = rr.product_id AND s.warehouse_id = rr.warehouse_id
+  )
+  SELECT
+    f.id,
+    f.product_id,
+    f.warehouse_id,
+    f.partner_id,
+    f.on_hand,
+    f.incoming,
+    f.outgoing,
+    f.on_hand + f.incoming - f.outgoing,
+    f.min_quantity,
+    f.max_quantity,
+    CEIL((f.max_quantity - (f.on_hand + f.incoming - f.outgoing)) / f.multiple_of) * f.multiple_of
+  FROM forecast f
+  WHERE f.on_hand + f.incoming - f.outgoing < f.min_quantity
+  ORDER BY f.partner_id, f.warehouse_id, f.product_id;
+$$;
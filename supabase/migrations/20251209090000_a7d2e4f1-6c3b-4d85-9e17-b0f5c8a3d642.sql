@@ -0,0 +1,25 @@
+-- Low stock per warehouse.
+-- A product's reorder_level was compared against its stock summed over every
+-- warehouse, so an empty warehouse went unnoticed while another was
+-- overstocked. A reorder rule's minimum now acts as that warehouse's reorder
+-- level; warehouses without a rule fall back to the product's reorder_level.
+
+-- Every product-warehouse pair at or below its reorder level. Pairs are the
+-- warehouses a product is stocked in or has a reorder rule for.
+CREATE VIEW public.low_stock
+WITH (security_invoker = on) AS
+WITH pairs AS (
+  SELECT product_id, warehouse_id FROM public.stock_levels
+  UNION
+  SELECT product_id, warehouse_id FROM public.reorder_rules
+)
+SELECT
+  pr.product_id,
+  pr.warehouse_id,
+  COALESCE(s.quantity, 0) AS quantity,
+  COALESCE(r.min_quantity, p.reorder_level) AS reorder_level
+FROM pairs pr
+JOIN public.products p ON p.id = pr.product_id
+LEFT JOIN public.stock_levels s ON s.product_id = pr.product_id AND s.warehouse_id = pr.warehouse_id
+LEFT JOIN public.reorder_rules r ON r.product_id = pr.product_id AND r.warehouse_id = pr.warehouse_id
+WHERE COALESCE(s.quantity, 0) <= COALESCE(r.min_quantity, p.reorder_level);
@@ -0,0 +1,843 @@
+-- Lot tracking.
+-- Products with tracking = 'lot' are received into named lots, and stock is
+-- kept per lot alongside the per-warehouse total in stock_levels. Every ledger
+-- row records the lot it moved, so a lot can be traced from the receipt that
+-- brought it in to every delivery that shipped it. Stock of a lot-tracked
+-- product that predates tracking stays in the total without a lot.
+
+ALTER TABLE public.products
+  ADD COLUMN tracking TEXT NOT NULL DEFAULT 'none' CHECK (tracking IN ('none', 'lot'));
+
+CREATE TABLE public.lots (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  product_id UUID NOT NULL REFERENCES public.products(id) ON DELETE CASCADE,
+  lot_number TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE(product_id, lot_number)
+);
+
+ALTER TABLE public.lots ENABLE ROW LEVEL SECURITY;
+
+-- Lots are only created by validate_receipt
+CREATE POLICY "Users can view all lots" ON public.lots
+  FOR SELECT USING (true);
+
+CREATE TABLE public.stock_lot_levels (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  lot_id UUID NOT NULL REFERENCES public.lots(id) ON DELETE CASCADE,
+  warehouse_id UUID NOT NULL REFERENCES public.warehouses(id) ON DELETE CASCADE,
+  quantity DECIMAL NOT NULL DEFAULT 0 CHECK (quantity >= 0),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE(lot_id, warehouse_id)
+);
+
+ALTER TABLE public.stock_lot_levels ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view all stock lot levels" ON public.stock_lot_levels
+  FOR SELECT USING (true);
+
+CREATE TRIGGER update_stock_lot_levels_updated_at BEFORE UPDATE ON public.stock_lot_levels
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.receipt_lines
+  ADD COLUMN lot_id UUID REFERENCES public.lots(id);
+
+-- Lot picked when the delivery was created; without one, lots are picked
+-- oldest first at validation
+ALTER TABLE public.delivery_lines
+  ADD COLUMN lot_id UUID REFERENCES public.lots(id);
+
+ALTER TABLE public.stock_movements
+  ADD COLUMN lot_id UUID REFERENCES public.lots(id);
+
+CREATE INDEX idx_stock_lot_levels_warehouse_id ON public.stock_lot_levels(warehouse_id);
+CREATE INDEX idx_stock_movements_lot_id ON public.stock_movements(lot_id);
+
+DROP FUNCTION public.apply_stock_movement(UUID, UUID, DECIMAL, TEXT, TEXT, UUID, TEXT, INTEGER);
+
+-- Apply a signed quantity change to one product in one warehouse and record it
+-- in the stock movement ledger. Outgoing movements may only use stock that is
+-- not reserved by another document; adjustments record counted reality and
+-- are exempt. With p_lot_id the lot's stock moves too; without it, outgoing
+-- movements may only use stock that is in no lot.
+CREATE OR REPLACE FUNCTION public.apply_stock_movement(
+  p_product_id UUID,
+  p_warehouse_id UUID,
+  p_quantity DECIMAL,
+  p_movement_type TEXT,
+  p_reference_type TEXT,
+  p_reference_id UUID,
+  p_notes TEXT DEFAULT NULL,
+  p_expected_version INTEGER DEFAULT NULL,
+  p_lot_id UUID DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_stock public.stock_levels%ROWTYPE;
+  v_reserved DECIMAL := 0;
+  v_in_lots DECIMAL;
+  v_lot_level public.stock_lot_levels%ROWTYPE;
+BEGIN
+  INSERT INTO public.stock_levels (product_id, warehouse_id, quantity)
+  VALUES (p_product_id, p_warehouse_id, 0)
+  ON CONFLICT (product_id, warehouse_id) DO NOTHING;
+
+  SELECT * INTO v_stock
+  FROM public.stock_levels
+  WHERE product_id = p_product_id AND warehouse_id = p_warehouse_id
+  FOR UPDATE;
+
+  IF p_expected_version IS NOT NULL AND v_stock.version <> p_expected_version THEN
+    RAISE EXCEPTION 'Stock for product % changed while you were working',
+      (SELECT sku FROM public.products WHERE id = p_product_id)
+      USING ERRCODE = 'serialization_failure';
+  END IF;
+
+  IF p_quantity < 0 AND p_movement_type <> 'adjustment' THEN
+    v_reserved := public.reserved_quantity(p_product_id, p_warehouse_id, p_reference_type, p_reference_id);
+  END IF;
+
+  IF v_stock.quantity - v_reserved + p_quantity < 0 THEN
+    RAISE EXCEPTION 'Insufficient stock for product % (available %, requested %)',
+      (SELECT sku FROM public.products WHERE id = p_product_id),
+      v_stock.quantity - v_reserved,
+      -p_quantity;
+  END IF;
+
+  IF p_lot_id IS NOT NULL THEN
+    IF NOT EXISTS (SELECT 1 FROM public.lots WHERE id = p_lot_id AND product_id = p_product_id) THEN
+      RAISE EXCEPTION 'Lot does not belong to product %',
+        (SELECT sku FROM public.products WHERE id = p_product_id);
+    END IF;
+
+    INSERT INTO public.stock_lot_levels (lot_id, warehouse_id, quantity)
+    VALUES (p_lot_id, p_warehouse_id, 0)
+    ON CONFLICT (lot_id, warehouse_id) DO NOTHING;
+
+    SELECT * INTO v_lot_level
+    FROM public.stock_lot_levels
+    WHERE lot_id = p_lot_id AND warehouse_id = p_warehouse_id
+    FOR UPDATE;
+
+    IF v_lot_level.quantity + p_quantity < 0 THEN
+      RAISE EXCEPTION 'Insufficient stock in lot % (available %, requested %)',
+        (SELECT lot_number FROM public.lots WHERE id = p_lot_id),
+        v_lot_level.quantity,
+        -p_quantity;
+    END IF;
+
+    UPDATE public.stock_lot_levels
+    SET quantity = v_lot_level.quantity + p_quantity
+    WHERE id = v_lot_level.id;
+  ELSIF p_quantity < 0 THEN
+    SELECT COALESCE(SUM(ll.quantity), 0) INTO v_in_lots
+    FROM public.stock_lot_levels ll
+    JOIN public.lots l ON l.id = ll.lot_id
+    WHERE l.product_id = p_product_id AND ll.warehouse_id = p_warehouse_id;
+
+    IF v_stock.quantity - v_in_lots + p_quantity < 0 THEN
+      RAISE EXCEPTION 'Insufficient stock outside lots for product % (available %, requested %)',
+        (SELECT sku FROM public.products WHERE id = p_product_id),
+        v_stock.quantity - v_in_lots,
+        -p_quantity;
+    END IF;
+  END IF;
+
+  UPDATE public.stock_levels
+  SET quantity = v_stock.quantity + p_quantity
+  WHERE id = v_stock.id AND version = v_stock.version;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Stock for product % changed while you were working',
+      (SELECT sku FROM public.products WHERE id = p_product_id)
+      USING ERRCODE = 'serialization_failure';
+  END IF;
+
+  INSERT INTO public.stock_movements (
+    product_id, warehouse_id, movement_type, quantity, reference_id, reference_type, notes, created_by, lot_id
+  )
+  VALUES (
+    p_product_id, p_warehouse_id, p_movement_type, p_quantity, p_reference_id, p_reference_type, p_notes, auth.uid(),
+    p_lot_id
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.apply_stock_movement(UUID, UUID, DECIMAL, TEXT, TEXT, UUID, TEXT, INTEGER, UUID)
+  FROM PUBLIC, anon, authenticated;
+
+-- Split an outgoing quantity over a product's lots in a warehouse, oldest lot
+-- first. Whatever the lots cannot cover comes back as a row without a lot, so
+-- untracked products always get a single row.
+CREATE OR REPLACE FUNCTION public.pick_lots(p_product_id UUID, p_warehouse_id UUID, p_quantity DECIMAL)
+RETURNS TABLE (lot_id UUID, quantity DECIMAL)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  v_level RECORD;
+  v_remaining DECIMAL := p_quantity;
+BEGIN
+  FOR v_level IN
+    SELECT ll.lot_id AS id, ll.quantity AS available
+    FROM public.stock_lot_levels ll
+    JOIN public.lots l ON l.id = ll.lot_id
+    WHERE l.product_id = p_product_id AND ll.warehouse_id = p_warehouse_id AND ll.quantity > 0
+    ORDER BY l.created_at, l.id
+  LOOP
+    EXIT WHEN v_remaining <= 0;
+
+    lot_id := v_level.id;
+    quantity := LEAST(v_level.available, v_remaining);
+    v_remaining := v_remaining - quantity;
+    RETURN NEXT;
+  END LOOP;
+
+  IF v_remaining > 0 THEN
+    lot_id := NULL;
+    quantity := v_remaining;
+    RETURN NEXT;
+  END IF;
+END;
+$$;
+
+DROP FUNCTION public.validate_receipt(UUID, JSONB);
+
+-- Received stock of lot-tracked products goes into the lot named for its line
+-- in p_lots, created on first receipt
+CREATE OR REPLACE FUNCTION public.validate_receipt(
+  p_receipt_id UUID,
+  p_received JSONB DEFAULT NULL,
+  p_lots JSONB DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_receipt public.receipts%ROWTYPE;
+  v_line public.receipt_lines%ROWTYPE;
+  v_received DECIMAL;
+  v_lot_number TEXT;
+  v_lot_id UUID;
+  v_base_number TEXT;
+  v_backorder_id UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_receipt FROM public.receipts WHERE id = p_receipt_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Receipt not found';
+  END IF;
+
+  IF v_receipt.status IN ('done', 'canceled') THEN
+    RAISE EXCEPTION 'Receipt % is already %', v_receipt.receipt_number, v_receipt.status;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.receipt_lines WHERE receipt_id = p_receipt_id) THEN
+    RAISE EXCEPTION 'Cannot validate receipt without products';
+  END IF;
+
+  FOR v_line IN
+    SELECT * FROM public.receipt_lines WHERE receipt_id = p_receipt_id ORDER BY product_id
+  LOOP
+    v_received := COALESCE((p_received ->> v_line.id::TEXT)::DECIMAL, v_line.quantity);
+
+    IF v_received < 0 THEN
+      RAISE EXCEPTION 'Received quantity cannot be negative';
+    END IF;
+
+    v_lot_id := NULL;
+
+    IF v_received > 0 AND (SELECT tracking FROM public.products WHERE id = v_line.product_id) = 'lot' THEN
+      v_lot_number := NULLIF(TRIM(p_lots ->> v_line.id::TEXT), '');
+
+      IF v_lot_number IS NULL THEN
+        RAISE EXCEPTION 'A lot number is required for product %',
+          (SELECT sku FROM public.products WHERE id = v_line.product_id);
+      END IF;
+
+      INSERT INTO public.lots (product_id, lot_number)
+      VALUES (v_line.product_id, v_lot_number)
+      ON CONFLICT (product_id, lot_number) DO UPDATE SET lot_number = EXCLUDED.lot_number
+      RETURNING id INTO v_lot_id;
+    END IF;
+
+    UPDATE public.receipt_lines SET received_quantity = v_received, lot_id = v_lot_id WHERE id = v_line.id;
+
+    IF v_received > 0 THEN
+      PERFORM public.apply_stock_movement(
+        v_line.product_id, v_receipt.warehouse_id, v_received, 'receipt', 'receipt', p_receipt_id,
+        NULL, NULL, v_lot_id
+      );
+    END IF;
+
+    IF v_received < v_line.quantity THEN
+      IF v_backorder_id IS NULL THEN
+        v_base_number := regexp_replace(v_receipt.receipt_number, '-BO\d+$', '');
+
+        INSERT INTO public.receipts (
+          receipt_number, supplier_name, warehouse_id, status, notes, created_by, backorder_of_id,
+          purchase_order_id
+        )
+        VALUES (
+          v_base_number || '-BO' || (
+            SELECT COUNT(*) + 1 FROM public.receipts WHERE receipt_number LIKE v_base_number || '-BO%'
+          ),
+          v_receipt.supplier_name,
+          v_receipt.warehouse_id,
+          'waiting',
+          v_receipt.notes,
+          auth.uid(),
+          p_receipt_id,
+          v_receipt.purchase_order_id
+        )
+        RETURNING id INTO v_backorder_id;
+      END IF;
+
+      INSERT INTO public.receipt_lines (receipt_id, product_id, quantity, purchase_order_line_id)
+      VALUES (v_backorder_id, v_line.product_id, v_line.quantity - v_received, v_line.purchase_order_line_id);
+    END IF;
+  END LOOP;
+
+  UPDATE public.receipts
+  SET status = 'done', validated_at = NOW()
+  WHERE id = p_receipt_id;
+
+  RETURN v_backorder_id;
+END;
+$$;
+
+-- Lines ship from their picked lot, or from the oldest lots when none was
+-- picked. Backorders are left to pick again.
+CREATE OR REPLACE FUNCTION public.validate_delivery(p_delivery_id UUID, p_ship_available BOOLEAN DEFAULT FALSE)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_delivery public.deliveries%ROWTYPE;
+  v_line public.delivery_lines%ROWTYPE;
+  v_available DECIMAL;
+  v_shipped DECIMAL;
+  v_lot_available DECIMAL;
+  v_pick RECORD;
+  v_base_number TEXT;
+  v_backorder_id UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_delivery FROM public.deliveries WHERE id = p_delivery_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Delivery not found';
+  END IF;
+
+  IF v_delivery.status IN ('done', 'canceled') THEN
+    RAISE EXCEPTION 'Delivery % is already %', v_delivery.delivery_number, v_delivery.status;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.delivery_lines WHERE delivery_id = p_delivery_id) THEN
+    RAISE EXCEPTION 'Cannot validate delivery without products';
+  END IF;
+
+  -- Lock every stock row this delivery draws on before checking availability
+  PERFORM 1
+  FROM public.stock_levels
+  WHERE warehouse_id = v_delivery.warehouse_id
+    AND product_id IN (SELECT l.product_id FROM public.delivery_lines l WHERE l.delivery_id = p_delivery_id)
+  ORDER BY product_id
+  FOR UPDATE;
+
+  IF EXISTS (
+    SELECT 1 FROM public.check_delivery_availability(p_delivery_id) a
+    WHERE a.available_quantity < a.quantity
+  ) THEN
+    IF NOT p_ship_available THEN
+      RAISE EXCEPTION 'Insufficient stock for this delivery';
+    END IF;
+
+    IF NOT EXISTS (
+      SELECT 1 FROM public.check_delivery_availability(p_delivery_id) a
+      WHERE a.available_quantity > 0
+    ) THEN
+      RAISE EXCEPTION 'No stock available to ship for this delivery';
+    END IF;
+  END IF;
+
+  -- Close the delivery first so stock changes below do not re-reserve it
+  UPDATE public.deliveries
+  SET status = 'done', validated_at = NOW()
+  WHERE id = p_delivery_id;
+
+  FOR v_line IN
+    SELECT * FROM public.delivery_lines
+    WHERE delivery_id = p_delivery_id
+    ORDER BY product_id, created_at, id
+  LOOP
+    SELECT quantity - public.reserved_quantity(v_line.product_id, v_delivery.warehouse_id, 'delivery', p_delivery_id)
+    INTO v_available
+    FROM public.stock_levels
+    WHERE product_id = v_line.product_id AND warehouse_id = v_delivery.warehouse_id;
+
+    v_shipped := GREATEST(LEAST(v_line.quantity, COALESCE(v_available, 0)), 0);
+
+    -- A picked lot can only ship what is left in it
+    IF v_line.lot_id IS NOT NULL THEN
+      SELECT quantity INTO v_lot_available
+      FROM public.stock_lot_levels
+      WHERE lot_id = v_line.lot_id AND warehouse_id = v_delivery.warehouse_id
+      FOR UPDATE;
+
+      v_shipped := LEAST(v_shipped, COALESCE(v_lot_available, 0));
+
+      IF v_shipped < v_line.quantity AND NOT p_ship_available THEN
+        RAISE EXCEPTION 'Insufficient stock in lot % for this delivery',
+          (SELECT lot_number FROM public.lots WHERE id = v_line.lot_id);
+      END IF;
+    END IF;
+
+    UPDATE public.delivery_lines SET delivered_quantity = v_shipped WHERE id = v_line.id;
+
+    IF v_shipped > 0 AND v_line.lot_id IS NOT NULL THEN
+      PERFORM public.apply_stock_movement(
+        v_line.product_id, v_delivery.warehouse_id, -v_shipped, 'delivery', 'delivery', p_delivery_id,
+        NULL, NULL, v_line.lot_id
+      );
+    ELSIF v_shipped > 0 THEN
+      FOR v_pick IN SELECT * FROM public.pick_lots(v_line.product_id, v_delivery.warehouse_id, v_shipped) LOOP
+        PERFORM public.apply_stock_movement(
+          v_line.product_id, v_delivery.warehouse_id, -v_pick.quantity, 'delivery', 'delivery', p_delivery_id,
+          NULL, NULL, v_pick.lot_id
+        );
+      END LOOP;
+    END IF;
+
+    IF v_shipped < v_line.quantity THEN
+      IF v_backorder_id IS NULL THEN
+        v_base_number := regexp_replace(v_delivery.delivery_number, '-BO\d+$', '');
+
+        INSERT INTO public.deliveries (
+          delivery_number, customer_name, warehouse_id, status, notes, created_by, backorder_of_id,
+          sales_order_id
+        )
+        VALUES (
+          v_base_number || '-BO' || (
+            SELECT COUNT(*) + 1 FROM public.deliveries WHERE delivery_number LIKE v_base_number || '-BO%'
+          ),
+          v_delivery.customer_name,
+          v_delivery.warehouse_id,
+          'waiting',
+          v_delivery.notes,
+          auth.uid(),
+          p_delivery_id,
+          v_delivery.sales_order_id
+        )
+        RETURNING id INTO v_backorder_id;
+      END IF;
+
+      INSERT INTO public.delivery_lines (delivery_id, product_id, quantity, sales_order_line_id)
+      VALUES (v_backorder_id, v_line.product_id, v_line.quantity - v_shipped, v_line.sales_order_line_id);
+    END IF;
+  END LOOP;
+
+  -- The shipped stock consumed this delivery's reservation
+  DELETE FROM public.stock_reservations
+  WHERE reference_type = 'delivery' AND reference_id = p_delivery_id;
+
+  IF v_backorder_id IS NOT NULL THEN
+    PERFORM public.refresh_delivery_status(v_backorder_id);
+  END IF;
+
+  -- The delivery is closed before its lines are shipped, so the status
+  -- trigger saw nothing shipped yet
+  IF v_delivery.sales_order_id IS NOT NULL THEN
+    PERFORM public.refresh_sales_order(v_delivery.sales_order_id);
+  END IF;
+
+  RETURN v_backorder_id;
+END;
+$$;
+
+-- Lots travel with the stock, oldest first
+CREATE OR REPLACE FUNCTION public.validate_transfer(p_transfer_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_transfer public.internal_transfers%ROWTYPE;
+  v_line public.transfer_lines%ROWTYPE;
+  v_pick RECORD;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_transfer FROM public.internal_transfers WHERE id = p_transfer_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Transfer not found';
+  END IF;
+
+  IF v_transfer.status IN ('done', 'canceled') THEN
+    RAISE EXCEPTION 'Transfer % is already %', v_transfer.transfer_number, v_transfer.status;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.transfer_lines WHERE transfer_id = p_transfer_id) THEN
+    RAISE EXCEPTION 'Cannot validate transfer without products';
+  END IF;
+
+  -- Close the transfer first so stock changes below do not re-reserve it
+  UPDATE public.internal_transfers
+  SET status = 'done', validated_at = NOW()
+  WHERE id = p_transfer_id;
+
+  FOR v_line IN
+    SELECT * FROM public.transfer_lines WHERE transfer_id = p_transfer_id ORDER BY product_id
+  LOOP
+    FOR v_pick IN
+      SELECT * FROM public.pick_lots(v_line.product_id, v_transfer.source_warehouse_id, v_line.quantity)
+    LOOP
+      PERFORM public.apply_stock_movement(
+        v_line.product_id, v_transfer.source_warehouse_id, -v_pick.quantity, 'transfer_out', 'transfer', p_transfer_id,
+        NULL, NULL, v_pick.lot_id
+      );
+      PERFORM public.apply_stock_movement(
+        v_line.product_id, v_transfer.destination_warehouse_id, v_pick.quantity, 'transfer_in', 'transfer', p_transfer_id,
+        NULL, NULL, v_pick.lot_id
+      );
+    END LOOP;
+  END LOOP;
+
+  -- The moved stock consumed this transfer's reservation
+  DELETE FROM public.stock_reservations
+  WHERE reference_type = 'transfer' AND reference_id = p_transfer_id;
+END;
+$$;
+
+-- Counted shortfalls come out of the oldest lots; surpluses are added
+-- without a lot
+CREATE OR REPLACE FUNCTION public.validate_adjustment(p_adjustment_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_adjustment public.stock_adjustments%ROWTYPE;
+  v_current DECIMAL;
+  v_expected_version INTEGER;
+  v_pick RECORD;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_adjustment FROM public.stock_adjustments WHERE id = p_adjustment_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Adjustment not found';
+  END IF;
+
+  IF v_adjustment.status = 'done' THEN
+    RAISE EXCEPTION 'Adjustment % is already done', v_adjustment.adjustment_number;
+  END IF;
+
+  INSERT INTO public.stock_levels (product_id, warehouse_id, quantity)
+  VALUES (v_adjustment.product_id, v_adjustment.warehouse_id, 0)
+  ON CONFLICT (product_id, warehouse_id) DO NOTHING;
+
+  SELECT quantity INTO v_current
+  FROM public.stock_levels
+  WHERE product_id = v_adjustment.product_id AND warehouse_id = v_adjustment.warehouse_id
+  FOR UPDATE;
+
+  IF v_adjustment.counted_quantity >= v_current THEN
+    PERFORM public.apply_stock_movement(
+      v_adjustment.product_id,
+      v_adjustment.warehouse_id,
+      v_adjustment.counted_quantity - v_current,
+      'adjustment',
+      'adjustment',
+      p_adjustment_id,
+      v_adjustment.reason,
+      v_adjustment.stock_version
+    );
+  ELSE
+    -- Only the first movement is checked against the counted version; the
+    -- ones after it see the version that movement wrote
+    v_expected_version := v_adjustment.stock_version;
+
+    FOR v_pick IN
+      SELECT * FROM public.pick_lots(v_adjustment.product_id, v_adjustment.warehouse_id, v_current - v_adjustment.counted_quantity)
+    LOOP
+      PERFORM public.apply_stock_movement(
+        v_adjustment.product_id,
+        v_adjustment.warehouse_id,
+        -v_pick.quantity,
+        'adjustment',
+        'adjustment',
+        p_adjustment_id,
+        v_adjustment.reason,
+        v_expected_version,
+        v_pick.lot_id
+      );
+      v_expected_version := NULL;
+    END LOOP;
+  END IF;
+
+  UPDATE public.stock_adjustments
+  SET status = 'done',
+      validated_at = NOW(),
+      system_quantity = v_current,
+      difference = v_adjustment.counted_quantity - v_current
+  WHERE id = p_adjustment_id;
+END;
+$$;
+
+-- Reversals move the same lots back
+CREATE OR REPLACE FUNCTION public.reverse_stock_movements(
+  p_reference_type TEXT,
+  p_reference_id UUID,
+  p_notes TEXT
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_movement public.stock_movements%ROWTYPE;
+BEGIN
+  FOR v_movement IN
+    SELECT * FROM public.stock_movements
+    WHERE reference_type = p_reference_type AND reference_id = p_reference_id
+    ORDER BY product_id, warehouse_id, created_at, id
+  LOOP
+    PERFORM public.apply_stock_movement(
+      v_movement.product_id,
+      v_movement.warehouse_id,
+      -v_movement.quantity,
+      v_movement.movement_type,
+      p_reference_type,
+      p_reference_id,
+      p_notes,
+      NULL,
+      v_movement.lot_id
+    );
+  END LOOP;
+END;
+$$;
+
+-- The lot a delivery line shipped: the lot picked for it, or the only lot the
+-- delivery took that product from. NULL when it shipped from several lots.
+CREATE OR REPLACE FUNCTION public.delivered_lot(p_delivery_line_id UUID)
+RETURNS UUID
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT COALESCE(
+    l.lot_id,
+    (
+      SELECT CASE WHEN COUNT(DISTINCT m.lot_id) = 1 AND COUNT(m.lot_id) = COUNT(*) THEN MIN(m.lot_id::TEXT)::UUID END
+      FROM public.stock_movements m
+      WHERE m.reference_type = 'delivery'
+        AND m.reference_id = l.delivery_id
+        AND m.product_id = l.product_id
+        AND m.quantity < 0
+    )
+  )
+  FROM public.delivery_lines l
+  WHERE l.id = p_delivery_line_id;
+$$;
+
+-- Restocked goods go back into the lot they were shipped from
+CREATE OR REPLACE FUNCTION public.validate_customer_return(p_return_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_return public.customer_returns%ROWTYPE;
+  v_delivery public.deliveries%ROWTYPE;
+  v_delivery_line public.delivery_lines%ROWTYPE;
+  v_line public.customer_return_lines%ROWTYPE;
+  v_requested RECORD;
+  v_returned DECIMAL;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_return FROM public.customer_returns WHERE id = p_return_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Return not found';
+  END IF;
+
+  IF v_return.status = 'done' THEN
+    RAISE EXCEPTION 'Return % is already done', v_return.return_number;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.customer_return_lines WHERE return_id = p_return_id) THEN
+    RAISE EXCEPTION 'Cannot validate return without products';
+  END IF;
+
+  -- Lock the delivery so concurrent returns against it are checked one at a time
+  SELECT * INTO v_delivery FROM public.deliveries WHERE id = v_return.delivery_id FOR UPDATE;
+
+  IF v_delivery.status <> 'done' THEN
+    RAISE EXCEPTION 'Delivery % has not been shipped', v_delivery.delivery_number;
+  END IF;
+
+  IF v_delivery.reversal_of_id IS NOT NULL
+    OR EXISTS (SELECT 1 FROM public.deliveries WHERE reversal_of_id = v_delivery.id) THEN
+    RAISE EXCEPTION 'Delivery % has been reversed', v_delivery.delivery_number;
+  END IF;
+
+  FOR v_requested IN
+    SELECT delivery_line_id, SUM(quantity) AS quantity
+    FROM public.customer_return_lines
+    WHERE return_id = p_return_id
+    GROUP BY delivery_line_id
+  LOOP
+    SELECT * INTO v_delivery_line
+    FROM public.delivery_lines
+    WHERE id = v_requested.delivery_line_id AND delivery_id = v_delivery.id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Return lines must come from delivery %', v_delivery.delivery_number;
+    END IF;
+
+    SELECT COALESCE(SUM(l.quantity), 0) INTO v_returned
+    FROM public.customer_return_lines l
+    JOIN public.customer_returns r ON r.id = l.return_id
+    WHERE l.delivery_line_id = v_delivery_line.id AND r.status = 'done';
+
+    IF v_returned + v_requested.quantity > COALESCE(v_delivery_line.delivered_quantity, v_delivery_line.quantity) THEN
+      RAISE EXCEPTION 'Cannot return more of product % than was shipped (shipped %, already returned %)',
+        (SELECT sku FROM public.products WHERE id = v_delivery_line.product_id),
+        COALESCE(v_delivery_line.delivered_quantity, v_delivery_line.quantity),
+        v_returned;
+    END IF;
+  END LOOP;
+
+  FOR v_line IN
+    SELECT * FROM public.customer_return_lines
+    WHERE return_id = p_return_id AND disposition = 'restock'
+    ORDER BY product_id
+  LOOP
+    PERFORM public.apply_stock_movement(
+      v_line.product_id, v_return.warehouse_id, v_line.quantity, 'return_in', 'customer_return', p_return_id,
+      v_line.reason, NULL, public.delivered_lot(v_line.delivery_line_id)
+    );
+  END LOOP;
+
+  UPDATE public.customer_returns
+  SET status = 'done', validated_at = NOW()
+  WHERE id = p_return_id;
+END;
+$$;
+
+-- Goods go back to the supplier out of the lot they were received into
+CREATE OR REPLACE FUNCTION public.validate_supplier_return(p_return_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_return public.supplier_returns%ROWTYPE;
+  v_receipt public.receipts%ROWTYPE;
+  v_receipt_line public.receipt_lines%ROWTYPE;
+  v_line public.supplier_return_lines%ROWTYPE;
+  v_requested RECORD;
+  v_returned DECIMAL;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_return FROM public.supplier_returns WHERE id = p_return_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Return not found';
+  END IF;
+
+  IF v_return.status = 'done' THEN
+    RAISE EXCEPTION 'Return % is already done', v_return.return_number;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.supplier_return_lines WHERE return_id = p_return_id) THEN
+    RAISE EXCEPTION 'Cannot validate return without products';
+  END IF;
+
+  -- Lock the receipt so concurrent returns against it are checked one at a time
+  SELECT * INTO v_receipt FROM public.receipts WHERE id = v_return.receipt_id FOR UPDATE;
+
+  IF v_receipt.status <> 'done' THEN
+    RAISE EXCEPTION 'Receipt % has not been received', v_receipt.receipt_number;
+  END IF;
+
+  IF v_receipt.reversal_of_id IS NOT NULL
+    OR EXISTS (SELECT 1 FROM public.receipts WHERE reversal_of_id = v_receipt.id) THEN
+    RAISE EXCEPTION 'Receipt % has been reversed', v_receipt.receipt_number;
+  END IF;
+
+  FOR v_requested IN
+    SELECT receipt_line_id, SUM(quantity) AS quantity
+    FROM public.supplier_return_lines
+    WHERE return_id = p_return_id
+    GROUP BY receipt_line_id
+  LOOP
+    SELECT * INTO v_receipt_line
+    FROM public.receipt_lines
+    WHERE id = v_requested.receipt_line_id AND receipt_id = v_receipt.id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Return lines must come from receipt %', v_receipt.receipt_number;
+    END IF;
+
+    SELECT COALESCE(SUM(l.quantity), 0) INTO v_returned
+    FROM public.supplier_return_lines l
+    JOIN public.supplier_returns r ON r.id = l.return_id
+    WHERE l.receipt_line_id = v_receipt_line.id AND r.status = 'done';
+
+    IF v_returned + v_requested.quantity > COALESCE(v_receipt_line.received_quantity, v_receipt_line.quantity) THEN
+      RAISE EXCEPTION 'Cannot return more of product % than was received (received %, already returned %)',
+        (SELECT sku FROM public.products WHERE id = v_receipt_line.product_id),
+        COALESCE(v_receipt_line.received_quantity, v_receipt_line.quantity),
+        v_returned;
+    END IF;
+  END LOOP;
+
+  FOR v_line IN
+    SELECT * FROM public.supplier_return_lines WHERE return_id = p_return_id ORDER BY product_id
+  LOOP
+    PERFORM public.apply_stock_movement(
+      v_line.product_id, v_return.warehouse_id, -v_line.quantity, 'return_out', 'supplier_return', p_return_id,
+      NULL, NULL, (SELECT lot_id FROM public.receipt_lines WHERE id = v_line.receipt_line_id)
+    );
+  END LOOP;
+
+  UPDATE public.supplier_returns
+  SET status = 'done', validated_at = NOW()
+  WHERE id = p_return_id;
+END;
+$$;
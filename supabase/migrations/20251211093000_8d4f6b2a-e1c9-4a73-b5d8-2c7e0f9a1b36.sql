@@ -0,0 +1,511 @@
+-- Serial number tracking.
+-- A serial is a lot of exactly one unit: serialized products are received
+-- with one serial per unit, and every delivery line of one ships a single
+-- chosen serial. A serial can only be in stock once across all warehouses.
+
+ALTER TABLE public.products
+  DROP CONSTRAINT products_tracking_check;
+
+ALTER TABLE public.products
+  ADD CONSTRAINT products_tracking_check CHECK (tracking IN ('none', 'lot', 'serial'));
+
+CREATE OR REPLACE FUNCTION public.check_serial_stock()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF (SELECT p.tracking FROM public.lots l JOIN public.products p ON p.id = l.product_id WHERE l.id = NEW.lot_id) = 'serial'
+    AND (SELECT SUM(quantity) FROM public.stock_lot_levels WHERE lot_id = NEW.lot_id) > 1 THEN
+    RAISE EXCEPTION 'Serial % is already in stock', (SELECT lot_number FROM public.lots WHERE id = NEW.lot_id);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER check_stock_lot_levels_serial AFTER INSERT OR UPDATE OF quantity ON public.stock_lot_levels
+  FOR EACH ROW EXECUTE FUNCTION public.check_serial_stock();
+
+-- Replace the serialized lines of an open delivery with one line per chosen
+-- serial. p_serials maps each line id to an array of lot ids.
+CREATE OR REPLACE FUNCTION public.set_delivery_serials(p_delivery_id UUID, p_serials JSONB)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_delivery public.deliveries%ROWTYPE;
+  v_line public.delivery_lines%ROWTYPE;
+  v_serials JSONB;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_delivery FROM public.deliveries WHERE id = p_delivery_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Delivery not found';
+  END IF;
+
+  IF v_delivery.status IN ('done', 'canceled') THEN
+    RAISE EXCEPTION 'Delivery % is already %', v_delivery.delivery_number, v_delivery.status;
+  END IF;
+
+  FOR v_line IN
+    SELECT l.* FROM public.delivery_lines l
+    WHERE l.delivery_id = p_delivery_id AND l.id::TEXT IN (SELECT jsonb_object_keys(p_serials))
+  LOOP
+    v_serials := p_serials -> v_line.id::TEXT;
+
+    IF (SELECT tracking FROM public.products WHERE id = v_line.product_id) <> 'serial' THEN
+      RAISE EXCEPTION 'Product % is not tracked by serial number',
+        (SELECT sku FROM public.products WHERE id = v_line.product_id);
+    END IF;
+
+    IF jsonb_typeof(v_serials) IS DISTINCT FROM 'array'
+      OR jsonb_array_length(v_serials) <> v_line.quantity
+      OR (SELECT COUNT(DISTINCT s) FROM jsonb_array_elements_text(v_serials) s) <> v_line.quantity THEN
+      RAISE EXCEPTION 'Choose % different serials for product %',
+        v_line.quantity,
+        (SELECT sku FROM public.products WHERE id = v_line.product_id);
+    END IF;
+
+    IF EXISTS (
+      SELECT 1 FROM jsonb_array_elements_text(v_serials) s
+      WHERE NOT EXISTS (SELECT 1 FROM public.lots WHERE id = s::UUID AND product_id = v_line.product_id)
+    ) THEN
+      RAISE EXCEPTION 'Serial does not belong to product %',
+        (SELECT sku FROM public.products WHERE id = v_line.product_id);
+    END IF;
+
+    INSERT INTO public.delivery_lines (delivery_id, product_id, quantity, lot_id, sales_order_line_id)
+    SELECT p_delivery_id, v_line.product_id, 1, s::UUID, v_line.sales_order_line_id
+    FROM jsonb_array_elements_text(v_serials) s;
+
+    DELETE FROM public.delivery_lines WHERE id = v_line.id;
+  END LOOP;
+END;
+$$;
+
+-- Serialized lines are received one serial per unit; p_lots maps each of
+-- them to an array of serial numbers
+CREATE OR REPLACE FUNCTION public.validate_receipt(
+  p_receipt_id UUID,
+  p_received JSONB DEFAULT NULL,
+  p_lots JSONB DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_receipt public.receipts%ROWTYPE;
+  v_line public.receipt_lines%ROWTYPE;
+  v_received DECIMAL;
+  v_lot_number TEXT;
+  v_lot_id UUID;
+  v_tracking TEXT;
+  v_serial TEXT;
+  v_base_number TEXT;
+  v_backorder_id UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_receipt FROM public.receipts WHERE id = p_receipt_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Receipt not found';
+  END IF;
+
+  IF v_receipt.status IN ('done', 'canceled') THEN
+    RAISE EXCEPTION 'Receipt % is already %', v_receipt.receipt_number, v_receipt.status;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.receipt_lines WHERE receipt_id = p_receipt_id) THEN
+    RAISE EXCEPTION 'Cannot validate receipt without products';
+  END IF;
+
+  FOR v_line IN
+    SELECT * FROM public.receipt_lines WHERE receipt_id = p_receipt_id ORDER BY product_id
+  LOOP
+    v_received := COALESCE((p_received ->> v_line.id::TEXT)::DECIMAL, v_line.quantity);
+
+    IF v_received < 0 THEN
+      RAISE EXCEPTION 'Received quantity cannot be negative';
+    END IF;
+
+    v_lot_id := NULL;
+    SELECT tracking INTO v_tracking FROM public.products WHERE id = v_line.product_id;
+
+    IF v_received > 0 AND v_tracking = 'lot' THEN
+      v_lot_number := NULLIF(TRIM(p_lots ->> v_line.id::TEXT), '');
+
+      IF v_lot_number IS NULL THEN
+        RAISE EXCEPTION 'A lot number is required for product %',
+          (SELECT sku FROM public.products WHERE id = v_line.product_id);
+      END IF;
+
+      INSERT INTO public.lots (product_id, lot_number)
+      VALUES (v_line.product_id, v_lot_number)
+      ON CONFLICT (product_id, lot_number) DO UPDATE SET lot_number = EXCLUDED.lot_number
+      RETURNING id INTO v_lot_id;
+    END IF;
+
+    UPDATE public.receipt_lines SET received_quantity = v_received, lot_id = v_lot_id WHERE id = v_line.id;
+
+    IF v_received > 0 AND v_tracking = 'serial' THEN
+      IF jsonb_typeof(p_lots -> v_line.id::TEXT) IS DISTINCT FROM 'array'
+        OR jsonb_array_length(p_lots -> v_line.id::TEXT) <> v_received
+        OR (SELECT COUNT(DISTINCT TRIM(s)) FROM jsonb_array_elements_text(p_lots -> v_line.id::TEXT) s
+            WHERE TRIM(s) <> '') <> v_received THEN
+        RAISE EXCEPTION 'Enter % different serial numbers for product %',
+          v_received,
+          (SELECT sku FROM public.products WHERE id = v_line.product_id);
+      END IF;
+
+      FOR v_serial IN SELECT TRIM(s) FROM jsonb_array_elements_text(p_lots -> v_line.id::TEXT) s LOOP
+        INSERT INTO public.lots (product_id, lot_number)
+        VALUES (v_line.product_id, v_serial)
+        ON CONFLICT (product_id, lot_number) DO UPDATE SET lot_number = EXCLUDED.lot_number
+        RETURNING id INTO v_lot_id;
+
+        PERFORM public.apply_stock_movement(
+          v_line.product_id, v_receipt.warehouse_id, 1, 'receipt', 'receipt', p_receipt_id,
+          NULL, NULL, v_lot_id
+        );
+      END LOOP;
+    ELSIF v_received > 0 THEN
+      PERFORM public.apply_stock_movement(
+        v_line.product_id, v_receipt.warehouse_id, v_received, 'receipt', 'receipt', p_receipt_id,
+        NULL, NULL, v_lot_id
+      );
+    END IF;
+
+    IF v_received < v_line.quantity THEN
+      IF v_backorder_id IS NULL THEN
+        v_base_number := regexp_replace(v_receipt.receipt_number, '-BO\d+$', '');
+
+        INSERT INTO public.receipts (
+          receipt_number, supplier_name, warehouse_id, status, notes, created_by, backorder_of_id,
+          purchase_order_id
+        )
+        VALUES (
+          v_base_number || '-BO' || (
+            SELECT COUNT(*) + 1 FROM public.receipts WHERE receipt_number LIKE v_base_number || '-BO%'
+          ),
+          v_receipt.supplier_name,
+          v_receipt.warehouse_id,
+          'waiting',
+          v_receipt.notes,
+          auth.uid(),
+          p_receipt_id,
+          v_receipt.purchase_order_id
+        )
+        RETURNING id INTO v_backorder_id;
+      END IF;
+
+      INSERT INTO public.receipt_lines (receipt_id, product_id, quantity, purchase_order_line_id)
+      VALUES (v_backorder_id, v_line.product_id, v_line.quantity - v_received, v_line.purchase_order_line_id);
+    END IF;
+  END LOOP;
+
+  UPDATE public.receipts
+  SET status = 'done', validated_at = NOW()
+  WHERE id = p_receipt_id;
+
+  RETURN v_backorder_id;
+END;
+$$;
+
+-- Every serialized line must ship its chosen serial; a serial that could not
+-- ship stays chosen on the backorder
+CREATE OR REPLACE FUNCTION public.validate_delivery(p_delivery_id UUID, p_ship_available BOOLEAN DEFAULT FALSE)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_delivery public.deliveries%ROWTYPE;
+  v_line public.delivery_lines%ROWTYPE;
+  v_available DECIMAL;
+  v_shipped DECIMAL;
+  v_lot_available DECIMAL;
+  v_pick RECORD;
+  v_base_number TEXT;
+  v_backorder_id UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_delivery FROM public.deliveries WHERE id = p_delivery_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Delivery not found';
+  END IF;
+
+  IF v_delivery.status IN ('done', 'canceled') THEN
+    RAISE EXCEPTION 'Delivery % is already %', v_delivery.delivery_number, v_delivery.status;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.delivery_lines WHERE delivery_id = p_delivery_id) THEN
+    RAISE EXCEPTION 'Cannot validate delivery without products';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.delivery_lines l
+    JOIN public.products p ON p.id = l.product_id
+    WHERE l.delivery_id = p_delivery_id AND p.tracking = 'serial' AND (l.lot_id IS NULL OR l.quantity <> 1)
+  ) THEN
+    RAISE EXCEPTION 'Choose which serials ship before validating delivery %', v_delivery.delivery_number;
+  END IF;
+
+  -- Lock every stock row this delivery draws on before checking availability
+  PERFORM 1
+  FROM public.stock_levels
+  WHERE warehouse_id = v_delivery.warehouse_id
+    AND product_id IN (SELECT l.product_id FROM public.delivery_lines l WHERE l.delivery_id = p_delivery_id)
+  ORDER BY product_id
+  FOR UPDATE;
+
+  IF EXISTS (
+    SELECT 1 FROM public.check_delivery_availability(p_delivery_id) a
+    WHERE a.available_quantity < a.quantity
+  ) THEN
+    IF NOT p_ship_available THEN
+      RAISE EXCEPTION 'Insufficient stock for this delivery';
+    END IF;
+
+    IF NOT EXISTS (
+      SELECT 1 FROM public.check_delivery_availability(p_delivery_id) a
+      WHERE a.available_quantity > 0
+    ) THEN
+      RAISE EXCEPTION 'No stock available to ship for this delivery';
+    END IF;
+  END IF;
+
+  -- Close the delivery first so stock changes below do not re-reserve it
+  UPDATE public.deliveries
+  SET status = 'done', validated_at = NOW()
+  WHERE id = p_delivery_id;
+
+  FOR v_line IN
+    SELECT * FROM public.delivery_lines
+    WHERE delivery_id = p_delivery_id
+    ORDER BY product_id, created_at, id
+  LOOP
+    SELECT quantity - public.reserved_quantity(v_line.product_id, v_delivery.warehouse_id, 'delivery', p_delivery_id)
+    INTO v_available
+    FROM public.stock_levels
+    WHERE product_id = v_line.product_id AND warehouse_id = v_delivery.warehouse_id;
+
+    v_shipped := GREATEST(LEAST(v_line.quantity, COALESCE(v_available, 0)), 0);
+
+    -- A picked lot can only ship what is left in it
+    IF v_line.lot_id IS NOT NULL THEN
+      SELECT quantity INTO v_lot_available
+      FROM public.stock_lot_levels
+      WHERE lot_id = v_line.lot_id AND warehouse_id = v_delivery.warehouse_id
+      FOR UPDATE;
+
+      v_shipped := LEAST(v_shipped, COALESCE(v_lot_available, 0));
+
+      IF v_shipped < v_line.quantity AND NOT p_ship_available THEN
+        RAISE EXCEPTION 'Insufficient stock in lot % for this delivery',
+          (SELECT lot_number FROM public.lots WHERE id = v_line.lot_id);
+      END IF;
+    END IF;
+
+    UPDATE public.delivery_lines SET delivered_quantity = v_shipped WHERE id = v_line.id;
+
+    IF v_shipped > 0 AND v_line.lot_id IS NOT NULL THEN
+      PERFORM public.apply_stock_movement(
+        v_line.product_id, v_delivery.warehouse_id, -v_shipped, 'delivery', 'delivery', p_delivery_id,
+        NULL, NULL, v_line.lot_id
+      );
+    ELSIF v_shipped > 0 THEN
+      FOR v_pick IN SELECT * FROM public.pick_lots(v_line.product_id, v_delivery.warehouse_id, v_shipped) LOOP
+        PERFORM public.apply_stock_movement(
+          v_line.product_id, v_delivery.warehouse_id, -v_pick.quantity, 'delivery', 'delivery', p_delivery_id,
+          NULL, NULL, v_pick.lot_id
+        );
+      END LOOP;
+    END IF;
+
+    IF v_shipped < v_line.quantity THEN
+      IF v_backorder_id IS NULL THEN
+        v_base_number := regexp_replace(v_delivery.delivery_number, '-BO\d+$', '');
+
+        INSERT INTO public.deliveries (
+          delivery_number, customer_name, warehouse_id, status, notes, created_by, backorder_of_id,
+          sales_order_id
+        )
+        VALUES (
+          v_base_number || '-BO' || (
+            SELECT COUNT(*) + 1 FROM public.deliveries WHERE delivery_number LIKE v_base_number || '-BO%'
+          ),
+          v_delivery.customer_name,
+          v_delivery.warehouse_id,
+          'waiting',
+          v_delivery.notes,
+          auth.uid(),
+          p_delivery_id,
+          v_delivery.sales_order_id
+        )
+        RETURNING id INTO v_backorder_id;
+      END IF;
+
+      INSERT INTO public.delivery_lines (delivery_id, product_id, quantity, sales_order_line_id, lot_id)
+      VALUES (
+        v_backorder_id,
+        v_line.product_id,
+        v_line.quantity - v_shipped,
+        v_line.sales_order_line_id,
+        CASE WHEN (SELECT tracking FROM public.products WHERE id = v_line.product_id) = 'serial' THEN v_line.lot_id END
+      );
+    END IF;
+  END LOOP;
+
+  -- The shipped stock consumed this delivery's reservation
+  DELETE FROM public.stock_reservations
+  WHERE reference_type = 'delivery' AND reference_id = p_delivery_id;
+
+  IF v_backorder_id IS NOT NULL THEN
+    PERFORM public.refresh_delivery_status(v_backorder_id);
+  END IF;
+
+  -- The delivery is closed before its lines are shipped, so the status
+  -- trigger saw nothing shipped yet
+  IF v_delivery.sales_order_id IS NOT NULL THEN
+    PERFORM public.refresh_sales_order(v_delivery.sales_order_id);
+  END IF;
+
+  RETURN v_backorder_id;
+END;
+$$;
+
+-- Serialized goods go back as the serials that receipt brought in
+CREATE OR REPLACE FUNCTION public.validate_supplier_return(p_return_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_return public.supplier_returns%ROWTYPE;
+  v_receipt public.receipts%ROWTYPE;
+  v_receipt_line public.receipt_lines%ROWTYPE;
+  v_line public.supplier_return_lines%ROWTYPE;
+  v_requested RECORD;
+  v_returned DECIMAL;
+  v_serials UUID[];
+  v_serial UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_return FROM public.supplier_returns WHERE id = p_return_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Return not found';
+  END IF;
+
+  IF v_return.status = 'done' THEN
+    RAISE EXCEPTION 'Return % is already done', v_return.return_number;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.supplier_return_lines WHERE return_id = p_return_id) THEN
+    RAISE EXCEPTION 'Cannot validate return without products';
+  END IF;
+
+  -- Lock the receipt so concurrent returns against it are checked one at a time
+  SELECT * INTO v_receipt FROM public.receipts WHERE id = v_return.receipt_id FOR UPDATE;
+
+  IF v_receipt.status <> 'done' THEN
+    RAISE EXCEPTION 'Receipt % has not been received', v_receipt.receipt_number;
+  END IF;
+
+  IF v_receipt.reversal_of_id IS NOT NULL
+    OR EXISTS (SELECT 1 FROM public.receipts WHERE reversal_of_id = v_receipt.id) THEN
+    RAISE EXCEPTION 'Receipt % has been reversed', v_receipt.receipt_number;
+  END IF;
+
+  FOR v_requested IN
+    SELECT receipt_line_id, SUM(quantity) AS quantity
+    FROM public.supplier_return_lines
+    WHERE return_id = p_return_id
+    GROUP BY receipt_line_id
+  LOOP
+    SELECT * INTO v_receipt_line
+    FROM public.receipt_lines
+    WHERE id = v_requested.receipt_line_id AND receipt_id = v_receipt.id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Return lines must come from receipt %', v_receipt.receipt_number;
+    END IF;
+
+    SELECT COALESCE(SUM(l.quantity), 0) INTO v_returned
+    FROM public.supplier_return_lines l
+    JOIN public.supplier_returns r ON r.id = l.return_id
+    WHERE l.receipt_line_id = v_receipt_line.id AND r.status = 'done';
+
+    IF v_returned + v_requested.quantity > COALESCE(v_receipt_line.received_quantity, v_receipt_line.quantity) THEN
+      RAISE EXCEPTION 'Cannot return more of product % than was received (received %, already returned %)',
+        (SELECT sku FROM public.products WHERE id = v_receipt_line.product_id),
+        COALESCE(v_receipt_line.received_quantity, v_receipt_line.quantity),
+        v_returned;
+    END IF;
+  END LOOP;
+
+  FOR v_line IN
+    SELECT * FROM public.supplier_return_lines WHERE return_id = p_return_id ORDER BY product_id
+  LOOP
+    IF (SELECT tracking FROM public.products WHERE id = v_line.product_id) = 'serial' THEN
+      -- Serials received on this receipt that are still in the warehouse
+      v_serials := ARRAY(
+        SELECT m.lot_id
+        FROM public.stock_movements m
+        JOIN public.stock_lot_levels ll ON ll.lot_id = m.lot_id AND ll.warehouse_id = v_return.warehouse_id
+        WHERE m.reference_type = 'receipt'
+          AND m.reference_id = v_receipt.id
+          AND m.product_id = v_line.product_id
+          AND m.quantity > 0
+          AND ll.quantity > 0
+        ORDER BY m.created_at, m.id
+        LIMIT v_line.quantity
+      );
+
+      IF COALESCE(array_length(v_serials, 1), 0) < v_line.quantity THEN
+        RAISE EXCEPTION 'Only % serials of product % from receipt % are still in stock',
+          COALESCE(array_length(v_serials, 1), 0),
+          (SELECT sku FROM public.products WHERE id = v_line.product_id),
+          v_receipt.receipt_number;
+      END IF;
+
+      FOREACH v_serial IN ARRAY v_serials LOOP
+        PERFORM public.apply_stock_movement(
+          v_line.product_id, v_return.warehouse_id, -1, 'return_out', 'supplier_return', p_return_id,
+          NULL, NULL, v_serial
+        );
+      END LOOP;
+    ELSE
+      PERFORM public.apply_stock_movement(
+        v_line.product_id, v_return.warehouse_id, -v_line.quantity, 'return_out', 'supplier_return', p_return_id,
+        NULL, NULL, (SELECT lot_id FROM public.receipt_lines WHERE id = v_line.receipt_line_id)
+      );
+    END IF;
+  END LOOP;
+
+  UPDATE public.supplier_returns
+  SET status = 'done', validated_at = NOW()
+  WHERE id = p_return_id;
+END;
+$$;
@@ -0,0 +1,204 @@
+-- Expiration and best-before dates on lots.
+-- Lots are picked first-expiry-first-out, and the lot_expiry view lists every
+-- dated lot still in stock with the days left before it expires.
+
+ALTER TABLE public.lots
+  ADD COLUMN expiration_date DATE,
+  ADD COLUMN best_before_date DATE,
+  ADD CONSTRAINT lots_best_before_check CHECK (best_before_date <= expiration_date);
+
+CREATE OR REPLACE VIEW public.lot_expiry
+WITH (security_invoker = true)
+AS
+SELECT
+  ll.lot_id,
+  l.lot_number,
+  l.product_id,
+  ll.warehouse_id,
+  ll.quantity,
+  l.expiration_date,
+  l.best_before_date,
+  l.expiration_date - CURRENT_DATE AS days_left
+FROM public.stock_lot_levels ll
+JOIN public.lots l ON l.id = ll.lot_id
+WHERE ll.quantity > 0 AND l.expiration_date IS NOT NULL;
+
+GRANT SELECT ON public.lot_expiry TO authenticated;
+
+-- First expiry first out; undated lots go last, oldest first
+CREATE OR REPLACE FUNCTION public.pick_lots(p_product_id UUID, p_warehouse_id UUID, p_quantity DECIMAL)
+RETURNS TABLE (lot_id UUID, quantity DECIMAL)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  v_level RECORD;
+  v_remaining DECIMAL := p_quantity;
+BEGIN
+  FOR v_level IN
+    SELECT ll.lot_id AS id, ll.quantity AS available
+    FROM public.stock_lot_levels ll
+    JOIN public.lots l ON l.id = ll.lot_id
+    WHERE l.product_id = p_product_id AND ll.warehouse_id = p_warehouse_id AND ll.quantity > 0
+    ORDER BY l.expiration_date NULLS LAST, l.created_at, l.id
+  LOOP
+    EXIT WHEN v_remaining <= 0;
+
+    lot_id := v_level.id;
+    quantity := LEAST(v_level.available, v_remaining);
+    v_remaining := v_remaining - quantity;
+    RETURN NEXT;
+  END LOOP;
+
+  IF v_remaining > 0 THEN
+    lot_id := NULL;
+    quantity := v_remaining;
+    RETURN NEXT;
+  END IF;
+END;
+$$;
+
+DROP FUNCTION public.validate_receipt(UUID, JSONB, JSONB);
+
+-- p_lot_dates optionally maps each line to the expiration_date and
+-- best_before_date of the lot (or serials) it receives
+CREATE OR REPLACE FUNCTION public.validate_receipt(
+  p_receipt_id UUID,
+  p_received JSONB DEFAULT NULL,
+  p_lots JSONB DEFAULT NULL,
+  p_lot_dates JSONB DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_receipt public.receipts%ROWTYPE;
+  v_line public.receipt_lines%ROWTYPE;
+  v_received DECIMAL;
+  v_lot_number TEXT;
+  v_lot_id UUID;
+  v_tracking TEXT;
+  v_serial TEXT;
+  v_expiration_date DATE;
+  v_best_before_date DATE;
+  v_base_number TEXT;
+  v_backorder_id UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_receipt FROM public.receipts WHERE id = p_receipt_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Receipt not found';
+  END IF;
+
+  IF v_receipt.status IN ('done', 'canceled') THEN
+    RAISE EXCEPTION 'Receipt % is already %', v_receipt.receipt_number, v_receipt.status;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.receipt_lines WHERE receipt_id = p_receipt_id) THEN
+    RAISE EXCEPTION 'Cannot validate receipt without products';
+  END IF;
+
+  FOR v_line IN
+    SELECT * FROM public.receipt_lines WHERE receipt_id = p_receipt_id ORDER BY product_id
+  LOOP
+    v_received := COALESCE((p_received ->> v_line.id::TEXT)::DECIMAL, v_line.quantity);
+
+    IF v_received < 0 THEN
+      RAISE EXCEPTION 'Received quantity cannot be negative';
+    END IF;
+
+    v_lot_id := NULL;
+    SELECT tracking INTO v_tracking FROM public.products WHERE id = v_line.product_id;
+    v_expiration_date := NULLIF(p_lot_dates -> v_line.id::TEXT ->> 'expiration_date', '')::DATE;
+    v_best_before_date := NULLIF(p_lot_dates -> v_line.id::TEXT ->> 'best_before_date', '')::DATE;
+
+    IF v_received > 0 AND v_tracking = 'lot' THEN
+      v_lot_number := NULLIF(TRIM(p_lots ->> v_line.id::TEXT), '');
+
+      IF v_lot_number IS NULL THEN
+        RAISE EXCEPTION 'A lot number is required for product %',
+          (SELECT sku FROM public.products WHERE id = v_line.product_id);
+      END IF;
+
+      INSERT INTO public.lots (product_id, lot_number, expiration_date, best_before_date)
+      VALUES (v_line.product_id, v_lot_number, v_expiration_date, v_best_before_date)
+      ON CONFLICT (product_id, lot_number) DO UPDATE
+      SET expiration_date = COALESCE(EXCLUDED.expiration_date, lots.expiration_date),
+          best_before_date = COALESCE(EXCLUDED.best_before_date, lots.best_before_date)
+      RETURNING id INTO v_lot_id;
+    END IF;
+
+    UPDATE public.receipt_lines SET received_quantity = v_received, lot_id = v_lot_id WHERE id = v_line.id;
+
+    IF v_received > 0 AND v_tracking = 'serial' THEN
+      IF jsonb_typeof(p_lots -> v_line.id::TEXT) IS DISTINCT FROM 'array'
+        OR jsonb_array_length(p_lots -> v_line.id::TEXT) <> v_received
+        OR (SELECT COUNT(DISTINCT TRIM(s)) FROM jsonb_array_elements_text(p_lots -> v_line.id::TEXT) s
+            WHERE TRIM(s) <> '') <> v_received THEN
+        RAISE EXCEPTION 'Enter % different serial numbers for product %',
+          v_received,
+          (SELECT sku FROM public.products WHERE id = v_line.product_id);
+      END IF;
+
+      FOR v_serial IN SELECT TRIM(s) FROM jsonb_array_elements_text(p_lots -> v_line.id::TEXT) s LOOP
+        INSERT INTO public.lots (product_id, lot_number, expiration_date, best_before_date)
+        VALUES (v_line.product_id, v_serial, v_expiration_date, v_best_before_date)
+        ON CONFLICT (product_id, lot_number) DO UPDATE
+        SET expiration_date = COALESCE(EXCLUDED.expiration_date, lots.expiration_date),
+            best_before_date = COALESCE(EXCLUDED.best_before_date, lots.best_before_date)
+        RETURNING id INTO v_lot_id;
+
+        PERFORM public.apply_stock_movement(
+          v_line.product_id, v_receipt.warehouse_id, 1, 'receipt', 'receipt', p_receipt_id,
+          NULL, NULL, v_lot_id
+        );
+      END LOOP;
+    ELSIF v_received > 0 THEN
+      PERFORM public.apply_stock_movement(
+        v_line.product_id, v_receipt.warehouse_id, v_received, 'receipt', 'receipt', p_receipt_id,
+        NULL, NULL, v_lot_id
+      );
+    END IF;
+
+    IF v_received < v_line.quantity THEN
+      IF v_backorder_id IS NULL THEN
+        v_base_number := regexp_replace(v_receipt.receipt_number, '-BO\d+$', '');
+
+        INSERT INTO public.receipts (
+          receipt_number, supplier_name, warehouse_id, status, notes, created_by, backorder_of_id,
+          purchase_order_id
+        )
+        VALUES (
+          v_base_number || '-BO' || (
+            SELECT COUNT(*) + 1 FROM public.receipts WHERE receipt_number LIKE v_base_number || '-BO%'
+          ),
+          v_receipt.supplier_name,
+          v_receipt.warehouse_id,
+          'waiting',
+          v_receipt.notes,
+          auth.uid(),
+          p_receipt_id,
+          v_receipt.purchase_order_id
+        )
+        RETURNING id INTO v_backorder_id;
+      END IF;
+
+      INSERT INTO public.receipt_lines (receipt_id, product_id, quantity, purchase_order_line_id)
+      VALUES (v_backorder_id, v_line.product_id, v_line.quantity - v_received, v_line.purchase_order_line_id);
+    END IF;
+  END LOOP;
+
+  UPDATE public.receipts
+  SET status = 'done', validated_at = NOW()
+  WHERE id = p_receipt_id;
+
+  RETURN v_backorder_id;
+END;
+$$;
@@ -0,0 +1,777 @@
+-- Locations inside warehouses.
+-- Each warehouse can hold a tree of zones, aisles, racks and bins. Stock is
+-- kept per location alongside the per-warehouse total in stock_levels; stock
+-- not put away anywhere stays in the total without a location. Receipts can
+-- put stock away into a location, deliveries can pick from one, and
+-- transfers can move stock between locations of the same warehouse.
+
+CREATE TABLE public.locations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  warehouse_id UUID NOT NULL REFERENCES public.warehouses(id) ON DELETE CASCADE,
+  parent_id UUID REFERENCES public.locations(id),
+  name TEXT NOT NULL,
+  code TEXT NOT NULL,
+  location_type TEXT NOT NULL DEFAULT 'bin' CHECK (location_type IN ('zone', 'aisle', 'rack', 'bin')),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE(warehouse_id, code)
+);
+
+ALTER TABLE public.locations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view all locations" ON public.locations
+  FOR SELECT USING (true);
+
+CREATE POLICY "Users can create locations" ON public.locations
+  FOR INSERT WITH CHECK (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Users can update locations" ON public.locations
+  FOR UPDATE USING (auth.uid() IS NOT NULL);
+
+CREATE TRIGGER update_locations_updated_at BEFORE UPDATE ON public.locations
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- A parent must be in the same warehouse and not below the location itself
+CREATE OR REPLACE FUNCTION public.check_location_parent()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.parent_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF (SELECT warehouse_id FROM public.locations WHERE id = NEW.parent_id) <> NEW.warehouse_id THEN
+    RAISE EXCEPTION 'Location % must be in the same warehouse as its parent', NEW.code;
+  END IF;
+
+  IF EXISTS (
+    WITH RECURSIVE ancestors AS (
+      SELECT id, parent_id FROM public.locations WHERE id = NEW.parent_id
+      UNION ALL
+      SELECT l.id, l.parent_id FROM public.locations l JOIN ancestors a ON l.id = a.parent_id
+    )
+    SELECT 1 FROM ancestors WHERE id = NEW.id
+  ) THEN
+    RAISE EXCEPTION 'Location % cannot be placed inside itself', NEW.code;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER check_locations_parent BEFORE INSERT OR UPDATE OF parent_id, warehouse_id ON public.locations
+  FOR EACH ROW EXECUTE FUNCTION public.check_location_parent();
+
+CREATE TABLE public.stock_location_levels (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  product_id UUID NOT NULL REFERENCES public.products(id) ON DELETE CASCADE,
+  location_id UUID NOT NULL REFERENCES public.locations(id) ON DELETE CASCADE,
+  quantity DECIMAL NOT NULL DEFAULT 0 CHECK (quantity >= 0),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE(product_id, location_id)
+);
+
+ALTER TABLE public.stock_location_levels ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view all stock location levels" ON public.stock_location_levels
+  FOR SELECT USING (true);
+
+CREATE TRIGGER update_stock_location_levels_updated_at BEFORE UPDATE ON public.stock_location_levels
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Putaway destination, chosen when the receipt is validated
+ALTER TABLE public.receipt_lines
+  ADD COLUMN location_id UUID REFERENCES public.locations(id);
+
+-- Pick location, chosen when the delivery is created
+ALTER TABLE public.delivery_lines
+  ADD COLUMN location_id UUID REFERENCES public.locations(id);
+
+ALTER TABLE public.internal_transfers
+  ADD COLUMN source_location_id UUID REFERENCES public.locations(id),
+  ADD COLUMN destination_location_id UUID REFERENCES public.locations(id),
+  ADD CONSTRAINT internal_transfers_destination_check CHECK (
+    source_warehouse_id <> destination_warehouse_id
+    OR source_location_id IS DISTINCT FROM destination_location_id
+  );
+
+ALTER TABLE public.stock_movements
+  ADD COLUMN location_id UUID REFERENCES public.locations(id);
+
+CREATE INDEX idx_locations_warehouse_id ON public.locations(warehouse_id);
+CREATE INDEX idx_stock_location_levels_location_id ON public.stock_location_levels(location_id);
+CREATE INDEX idx_stock_movements_location_id ON public.stock_movements(location_id);
+
+DROP FUNCTION public.apply_stock_movement(UUID, UUID, DECIMAL, TEXT, TEXT, UUID, TEXT, INTEGER, UUID);
+
+-- Movements into or out of a location update that location's stock. An
+-- outgoing movement without a location takes stock that was not put away
+-- first, then draws the rest from the warehouse's locations
+CREATE OR REPLACE FUNCTION public.apply_stock_movement(
+  p_product_id UUID,
+  p_warehouse_id UUID,
+  p_quantity DECIMAL,
+  p_movement_type TEXT,
+  p_reference_type TEXT,
+  p_reference_id UUID,
+  p_notes TEXT DEFAULT NULL,
+  p_expected_version INTEGER DEFAULT NULL,
+  p_lot_id UUID DEFAULT NULL,
+  p_location_id UUID DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_stock public.stock_levels%ROWTYPE;
+  v_reserved DECIMAL := 0;
+  v_in_lots DECIMAL;
+  v_lot_level public.stock_lot_levels%ROWTYPE;
+  v_in_locations DECIMAL;
+  v_location_level public.stock_location_levels%ROWTYPE;
+  v_remaining DECIMAL;
+  v_taken DECIMAL;
+BEGIN
+  INSERT INTO public.stock_levels (product_id, warehouse_id, quantity)
+  VALUES (p_product_id, p_warehouse_id, 0)
+  ON CONFLICT (product_id, warehouse_id) DO NOTHING;
+
+  SELECT * INTO v_stock
+  FROM public.stock_levels
+  WHERE product_id = p_product_id AND warehouse_id = p_warehouse_id
+  FOR UPDATE;
+
+  IF p_expected_version IS NOT NULL AND v_stock.version <> p_expected_version THEN
+    RAISE EXCEPTION 'Stock for product % changed while you were working',
+      (SELECT sku FROM public.products WHERE id = p_product_id)
+      USING ERRCODE = 'serialization_failure';
+  END IF;
+
+  IF p_quantity < 0 AND p_movement_type <> 'adjustment' THEN
+    v_reserved := public.reserved_quantity(p_product_id, p_warehouse_id, p_reference_type, p_reference_id);
+  END IF;
+
+  IF v_stock.quantity - v_reserved + p_quantity < 0 THEN
+    RAISE EXCEPTION 'Insufficient stock for product % (available %, requested %)',
+      (SELECT sku FROM public.products WHERE id = p_product_id),
+      v_stock.quantity - v_reserved,
+      -p_quantity;
+  END IF;
+
+  IF p_lot_id IS NOT NULL THEN
+    IF NOT EXISTS (SELECT 1 FROM public.lots WHERE id = p_lot_id AND product_id = p_product_id) THEN
+      RAISE EXCEPTION 'Lot does not belong to product %',
+        (SELECT sku FROM public.products WHERE id = p_product_id);
+    END IF;
+
+    INSERT INTO public.stock_lot_levels (lot_id, warehouse_id, quantity)
+    VALUES (p_lot_id, p_warehouse_id, 0)
+    ON CONFLICT (lot_id, warehouse_id) DO NOTHING;
+
+    SELECT * INTO v_lot_level
+    FROM public.stock_lot_levels
+    WHERE lot_id = p_lot_id AND warehouse_id = p_warehouse_id
+    FOR UPDATE;
+
+    IF v_lot_level.quantity + p_quantity < 0 THEN
+      RAISE EXCEPTION 'Insufficient stock in lot % (available %, requested %)',
+        (SELECT lot_number FROM public.lots WHERE id = p_lot_id),
+        v_lot_level.quantity,
+        -p_quantity;
+    END IF;
+
+    UPDATE public.stock_lot_levels
+    SET quantity = v_lot_level.quantity + p_quantity
+    WHERE id = v_lot_level.id;
+  ELSIF p_quantity < 0 THEN
+    SELECT COALESCE(SUM(ll.quantity), 0) INTO v_in_lots
+    FROM public.stock_lot_levels ll
+    JOIN public.lots l ON l.id = ll.lot_id
+    WHERE l.product_id = p_product_id AND ll.warehouse_id = p_warehouse_id;
+
+    IF v_stock.quantity - v_in_lots + p_quantity < 0 THEN
+      RAISE EXCEPTION 'Insufficient stock outside lots for product % (available %, requested %)',
+        (SELECT sku FROM public.products WHERE id = p_product_id),
+        v_stock.quantity - v_in_lots,
+        -p_quantity;
+    END IF;
+  END IF;
+
+  IF p_location_id IS NOT NULL THEN
+    IF NOT EXISTS (SELECT 1 FROM public.locations WHERE id = p_location_id AND warehouse_id = p_warehouse_id) THEN
+      RAISE EXCEPTION 'Location is not in warehouse %',
+        (SELECT code FROM public.warehouses WHERE id = p_warehouse_id);
+    END IF;
+
+    INSERT INTO public.stock_location_levels (product_id, location_id, quantity)
+    VALUES (p_product_id, p_location_id, 0)
+    ON CONFLICT (product_id, location_id) DO NOTHING;
+
+    SELECT * INTO v_location_level
+    FROM public.stock_location_levels
+    WHERE product_id = p_product_id AND location_id = p_location_id
+    FOR UPDATE;
+
+    IF v_location_level.quantity + p_quantity < 0 THEN
+      RAISE EXCEPTION 'Insufficient stock in location % (available %, requested %)',
+        (SELECT code FROM public.locations WHERE id = p_location_id),
+        v_location_level.quantity,
+        -p_quantity;
+    END IF;
+
+    UPDATE public.stock_location_levels
+    SET quantity = v_location_level.quantity + p_quantity
+    WHERE id = v_location_level.id;
+  ELSIF p_quantity < 0 THEN
+    -- Stock not put away goes first; the rest is taken from locations in code order
+    SELECT COALESCE(SUM(sl.quantity), 0) INTO v_in_locations
+    FROM public.stock_location_levels sl
+    JOIN public.locations loc ON loc.id = sl.location_id
+    WHERE sl.product_id = p_product_id AND loc.warehouse_id = p_warehouse_id;
+
+    v_remaining := -p_quantity - GREATEST(v_stock.quantity - v_in_locations, 0);
+
+    FOR v_location_level IN
+      SELECT sl.*
+      FROM public.stock_location_levels sl
+      JOIN public.locations loc ON loc.id = sl.location_id
+      WHERE sl.product_id = p_product_id AND loc.warehouse_id = p_warehouse_id AND sl.quantity > 0
+      ORDER BY loc.code
+      FOR UPDATE OF sl
+    LOOP
+      EXIT WHEN v_remaining <= 0;
+
+      v_taken := LEAST(v_location_level.quantity, v_remaining);
+      v_remaining := v_remaining - v_taken;
+
+      UPDATE public.stock_location_levels
+      SET quantity = v_location_level.quantity - v_taken
+      WHERE id = v_location_level.id;
+    END LOOP;
+  END IF;
+
+  UPDATE public.stock_levels
+  SET quantity = v_stock.quantity + p_quantity
+  WHERE id = v_stock.id AND version = v_stock.version;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Stock for product % changed while you were working',
+      (SELECT sku FROM public.products WHERE id = p_product_id)
+      USING ERRCODE = 'serialization_failure';
+  END IF;
+
+  INSERT INTO public.stock_movements (
+    product_id, warehouse_id, movement_type, quantity, reference_id, reference_type, notes, created_by, lot_id,
+    location_id
+  )
+  VALUES (
+    p_product_id, p_warehouse_id, p_movement_type, p_quantity, p_reference_id, p_reference_type, p_notes, auth.uid(),
+    p_lot_id, p_location_id
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.apply_stock_movement(UUID, UUID, DECIMAL, TEXT, TEXT, UUID, TEXT, INTEGER, UUID, UUID)
+  FROM PUBLIC, anon, authenticated;
+
+DROP FUNCTION public.validate_receipt(UUID, JSONB, JSONB, JSONB);
+
+-- p_locations optionally maps each line to the location its stock is put
+-- away into
+CREATE OR REPLACE FUNCTION public.validate_receipt(
+  p_receipt_id UUID,
+  p_received JSONB DEFAULT NULL,
+  p_lots JSONB DEFAULT NULL,
+  p_lot_dates JSONB DEFAULT NULL,
+  p_locations JSONB DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_receipt public.receipts%ROWTYPE;
+  v_line public.receipt_lines%ROWTYPE;
+  v_received DECIMAL;
+  v_lot_number TEXT;
+  v_lot_id UUID;
+  v_tracking TEXT;
+  v_serial TEXT;
+  v_expiration_date DATE;
+  v_best_before_date DATE;
+  v_location_id UUID;
+  v_base_number TEXT;
+  v_backorder_id UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_receipt FROM public.receipts WHERE id = p_receipt_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Receipt not found';
+  END IF;
+
+  IF v_receipt.status IN ('done', 'canceled') THEN
+    RAISE EXCEPTION 'Receipt % is already %', v_receipt.receipt_number, v_receipt.status;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.receipt_lines WHERE receipt_id = p_receipt_id) THEN
+    RAISE EXCEPTION 'Cannot validate receipt without products';
+  END IF;
+
+  FOR v_line IN
+    SELECT * FROM public.receipt_lines WHERE receipt_id = p_receipt_id ORDER BY product_id
+  LOOP
+    v_received := COALESCE((p_received ->> v_line.id::TEXT)::DECIMAL, v_line.quantity);
+
+    IF v_received < 0 THEN
+      RAISE EXCEPTION 'Received quantity cannot be negative';
+    END IF;
+
+    v_lot_id := NULL;
+    SELECT tracking INTO v_tracking FROM public.products WHERE id = v_line.product_id;
+    v_expiration_date := NULLIF(p_lot_dates -> v_line.id::TEXT ->> 'expiration_date', '')::DATE;
+    v_best_before_date := NULLIF(p_lot_dates -> v_line.id::TEXT ->> 'best_before_date', '')::DATE;
+    v_location_id := COALESCE(NULLIF(p_locations ->> v_line.id::TEXT, '')::UUID, v_line.location_id);
+
+    IF v_received > 0 AND v_tracking = 'lot' THEN
+      v_lot_number := NULLIF(TRIM(p_lots ->> v_line.id::TEXT), '');
+
+      IF v_lot_number IS NULL THEN
+        RAISE EXCEPTION 'A lot number is required for product %',
+          (SELECT sku FROM public.products WHERE id = v_line.product_id);
+      END IF;
+
+      INSERT INTO public.lots (product_id, lot_number, expiration_date, best_before_date)
+      VALUES (v_line.product_id, v_lot_number, v_expiration_date, v_best_before_date)
+      ON CONFLICT (product_id, lot_number) DO UPDATE
+      SET expiration_date = COALESCE(EXCLUDED.expiration_date, lots.expiration_date),
+          best_before_date = COALESCE(EXCLUDED.best_before_date, lots.best_before_date)
+      RETURNING id INTO v_lot_id;
+    END IF;
+
+    UPDATE public.receipt_lines
+    SET received_quantity = v_received, lot_id = v_lot_id, location_id = v_location_id
+    WHERE id = v_line.id;
+
+    IF v_received > 0 AND v_tracking = 'serial' THEN
+      IF jsonb_typeof(p_lots -> v_line.id::TEXT) IS DISTINCT FROM 'array'
+        OR jsonb_array_length(p_lots -> v_line.id::TEXT) <> v_received
+        OR (SELECT COUNT(DISTINCT TRIM(s)) FROM jsonb_array_elements_text(p_lots -> v_line.id::TEXT) s
+            WHERE TRIM(s) <> '') <> v_received THEN
+        RAISE EXCEPTION 'Enter % different serial numbers for product %',
+          v_received,
+          (SELECT sku FROM public.products WHERE id = v_line.product_id);
+      END IF;
+
+      FOR v_serial IN SELECT TRIM(s) FROM jsonb_array_elements_text(p_lots -> v_line.id::TEXT) s LOOP
+        INSERT INTO public.lots (product_id, lot_number, expiration_date, best_before_date)
+        VALUES (v_line.product_id, v_serial, v_expiration_date, v_best_before_date)
+        ON CONFLICT (product_id, lot_number) DO UPDATE
+        SET expiration_date = COALESCE(EXCLUDED.expiration_date, lots.expiration_date),
+            best_before_date = COALESCE(EXCLUDED.best_before_date, lots.best_before_date)
+        RETURNING id INTO v_lot_id;
+
+        PERFORM public.apply_stock_movement(
+          v_line.product_id, v_receipt.warehouse_id, 1, 'receipt', 'receipt', p_receipt_id,
+          NULL, NULL, v_lot_id, v_location_id
+        );
+      END LOOP;
+    ELSIF v_received > 0 THEN
+      PERFORM public.apply_stock_movement(
+        v_line.product_id, v_receipt.warehouse_id, v_received, 'receipt', 'receipt', p_receipt_id,
+        NULL, NULL, v_lot_id, v_location_id
+      );
+    END IF;
+
+    IF v_received < v_line.quantity THEN
+      IF v_backorder_id IS NULL THEN
+        v_base_number := regexp_replace(v_receipt.receipt_number, '-BO\d+$', '');
+
+        INSERT INTO public.receipts (
+          receipt_number, supplier_name, warehouse_id, status, notes, created_by, backorder_of_id,
+          purchase_order_id
+        )
+        VALUES (
+          v_base_number || '-BO' || (
+            SELECT COUNT(*) + 1 FROM public.receipts WHERE receipt_number LIKE v_base_number || '-BO%'
+          ),
+          v_receipt.supplier_name,
+          v_receipt.warehouse_id,
+          'waiting',
+          v_receipt.notes,
+          auth.uid(),
+          p_receipt_id,
+          v_receipt.purchase_order_id
+        )
+        RETURNING id INTO v_backorder_id;
+      END IF;
+
+      INSERT INTO public.receipt_lines (receipt_id, product_id, quantity, purchase_order_line_id, location_id)
+      VALUES (
+        v_backorder_id,
+        v_line.product_id,
+        v_line.quantity - v_received,
+        v_line.purchase_order_line_id,
+        v_location_id
+      );
+    END IF;
+  END LOOP;
+
+  UPDATE public.receipts
+  SET status = 'done', validated_at = NOW()
+  WHERE id = p_receipt_id;
+
+  RETURN v_backorder_id;
+END;
+$$;
+
+-- Lines with a pick location ship from it, capped by its stock
+CREATE OR REPLACE FUNCTION public.validate_delivery(p_delivery_id UUID, p_ship_available BOOLEAN DEFAULT FALSE)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_delivery public.deliveries%ROWTYPE;
+  v_line public.delivery_lines%ROWTYPE;
+  v_available DECIMAL;
+  v_shipped DECIMAL;
+  v_lot_available DECIMAL;
+  v_location_available DECIMAL;
+  v_pick RECORD;
+  v_base_number TEXT;
+  v_backorder_id UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_delivery FROM public.deliveries WHERE id = p_delivery_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Delivery not found';
+  END IF;
+
+  IF v_delivery.status IN ('done', 'canceled') THEN
+    RAISE EXCEPTION 'Delivery % is already %', v_delivery.delivery_number, v_delivery.status;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.delivery_lines WHERE delivery_id = p_delivery_id) THEN
+    RAISE EXCEPTION 'Cannot validate delivery without products';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.delivery_lines l
+    JOIN public.products p ON p.id = l.product_id
+    WHERE l.delivery_id = p_delivery_id AND p.tracking = 'serial' AND (l.lot_id IS NULL OR l.quantity <> 1)
+  ) THEN
+    RAISE EXCEPTION 'Choose which serials ship before validating delivery %', v_delivery.delivery_number;
+  END IF;
+
+  -- Lock every stock row this delivery draws on before checking availability
+  PERFORM 1
+  FROM public.stock_levels
+  WHERE warehouse_id = v_delivery.warehouse_id
+    AND product_id IN (SELECT l.product_id FROM public.delivery_lines l WHERE l.delivery_id = p_delivery_id)
+  ORDER BY product_id
+  FOR UPDATE;
+
+  IF EXISTS (
+    SELECT 1 FROM public.check_delivery_availability(p_delivery_id) a
+    WHERE a.available_quantity < a.quantity
+  ) THEN
+    IF NOT p_ship_available THEN
+      RAISE EXCEPTION 'Insufficient stock for this delivery';
+    END IF;
+
+    IF NOT EXISTS (
+      SELECT 1 FROM public.check_delivery_availability(p_delivery_id) a
+      WHERE a.available_quantity > 0
+    ) THEN
+      RAISE EXCEPTION 'No stock available to ship for this delivery';
+    END IF;
+  END IF;
+
+  -- Close the delivery first so stock changes below do not re-reserve it
+  UPDATE public.deliveries
+  SET status = 'done', validated_at = NOW()
+  WHERE id = p_delivery_id;
+
+  FOR v_line IN
+    SELECT * FROM public.delivery_lines
+    WHERE delivery_id = p_delivery_id
+    ORDER BY product_id, created_at, id
+  LOOP
+    SELECT quantity - public.reserved_quantity(v_line.product_id, v_delivery.warehouse_id, 'delivery', p_delivery_id)
+    INTO v_available
+    FROM public.stock_levels
+    WHERE product_id = v_line.product_id AND warehouse_id = v_delivery.warehouse_id;
+
+    v_shipped := GREATEST(LEAST(v_line.quantity, COALESCE(v_available, 0)), 0);
+
+    -- A picked lot can only ship what is left in it
+    IF v_line.lot_id IS NOT NULL THEN
+      SELECT quantity INTO v_lot_available
+      FROM public.stock_lot_levels
+      WHERE lot_id = v_line.lot_id AND warehouse_id = v_delivery.warehouse_id
+      FOR UPDATE;
+
+      v_shipped := LEAST(v_shipped, COALESCE(v_lot_available, 0));
+
+      IF v_shipped < v_line.quantity AND NOT p_ship_available THEN
+        RAISE EXCEPTION 'Insufficient stock in lot % for this delivery',
+          (SELECT lot_number FROM public.lots WHERE id = v_line.lot_id);
+      END IF;
+    END IF;
+
+    -- So can a pick location
+    IF v_line.location_id IS NOT NULL THEN
+      SELECT quantity INTO v_location_available
+      FROM public.stock_location_levels
+      WHERE product_id = v_line.product_id AND location_id = v_line.location_id
+      FOR UPDATE;
+
+      v_shipped := LEAST(v_shipped, COALESCE(v_location_available, 0));
+
+      IF v_shipped < v_line.quantity AND NOT p_ship_available THEN
+        RAISE EXCEPTION 'Insufficient stock in location % for this delivery',
+          (SELECT code FROM public.locations WHERE id = v_line.location_id);
+      END IF;
+    END IF;
+
+    UPDATE public.delivery_lines SET delivered_quantity = v_shipped WHERE id = v_line.id;
+
+    IF v_shipped > 0 AND v_line.lot_id IS NOT NULL THEN
+      PERFORM public.apply_stock_movement(
+        v_line.product_id, v_delivery.warehouse_id, -v_shipped, 'delivery', 'delivery', p_delivery_id,
+        NULL, NULL, v_line.lot_id, v_line.location_id
+      );
+    ELSIF v_shipped > 0 THEN
+      FOR v_pick IN SELECT * FROM public.pick_lots(v_line.product_id, v_delivery.warehouse_id, v_shipped) LOOP
+        PERFORM public.apply_stock_movement(
+          v_line.product_id, v_delivery.warehouse_id, -v_pick.quantity, 'delivery', 'delivery', p_delivery_id,
+          NULL, NULL, v_pick.lot_id, v_line.location_id
+        );
+      END LOOP;
+    END IF;
+
+    IF v_shipped < v_line.quantity THEN
+      IF v_backorder_id IS NULL THEN
+        v_base_number := regexp_replace(v_delivery.delivery_number, '-BO\d+$', '');
+
+        INSERT INTO public.deliveries (
+          delivery_number, customer_name, warehouse_id, status, notes, created_by, backorder_of_id,
+          sales_order_id
+        )
+        VALUES (
+          v_base_number || '-BO' || (
+            SELECT COUNT(*) + 1 FROM public.deliveries WHERE delivery_number LIKE v_base_number || '-BO%'
+          ),
+          v_delivery.customer_name,
+          v_delivery.warehouse_id,
+          'waiting',
+          v_delivery.notes,
+          auth.uid(),
+          p_delivery_id,
+          v_delivery.sales_order_id
+        )
+        RETURNING id INTO v_backorder_id;
+      END IF;
+
+      INSERT INTO public.delivery_lines (delivery_id, product_id, quantity, sales_order_line_id, lot_id, location_id)
+      VALUES (
+        v_backorder_id,
+        v_line.product_id,
+        v_line.quantity - v_shipped,
+        v_line.sales_order_line_id,
+        CASE WHEN (SELECT tracking FROM public.products WHERE id = v_line.product_id) = 'serial' THEN v_line.lot_id END,
+        v_line.location_id
+      );
+    END IF;
+  END LOOP;
+
+  -- The shipped stock consumed this delivery's reservation
+  DELETE FROM public.stock_reservations
+  WHERE reference_type = 'delivery' AND reference_id = p_delivery_id;
+
+  IF v_backorder_id IS NOT NULL THEN
+    PERFORM public.refresh_delivery_status(v_backorder_id);
+  END IF;
+
+  -- The delivery is closed before its lines are shipped, so the status
+  -- trigger saw nothing shipped yet
+  IF v_delivery.sales_order_id IS NOT NULL THEN
+    PERFORM public.refresh_sales_order(v_delivery.sales_order_id);
+  END IF;
+
+  RETURN v_backorder_id;
+END;
+$$;
+
+-- Stock leaves the source location and lands in the destination location,
+-- which may be in the same warehouse
+CREATE OR REPLACE FUNCTION public.validate_transfer(p_transfer_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_transfer public.internal_transfers%ROWTYPE;
+  v_line public.transfer_lines%ROWTYPE;
+  v_pick RECORD;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_transfer FROM public.internal_transfers WHERE id = p_transfer_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Transfer not found';
+  END IF;
+
+  IF v_transfer.status IN ('done', 'canceled') THEN
+    RAISE EXCEPTION 'Transfer % is already %', v_transfer.transfer_number, v_transfer.status;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.transfer_lines WHERE transfer_id = p_transfer_id) THEN
+    RAISE EXCEPTION 'Cannot validate transfer without products';
+  END IF;
+
+  -- Close the transfer first so stock changes below do not re-reserve it
+  UPDATE public.internal_transfers
+  SET status = 'done', validated_at = NOW()
+  WHERE id = p_transfer_id;
+
+  FOR v_line IN
+    SELECT * FROM public.transfer_lines WHERE transfer_id = p_transfer_id ORDER BY product_id
+  LOOP
+    FOR v_pick IN
+      SELECT * FROM public.pick_lots(v_line.product_id, v_transfer.source_warehouse_id, v_line.quantity)
+    LOOP
+      PERFORM public.apply_stock_movement(
+        v_line.product_id, v_transfer.source_warehouse_id, -v_pick.quantity, 'transfer_out', 'transfer', p_transfer_id,
+        NULL, NULL, v_pick.lot_id, v_transfer.source_location_id
+      );
+      PERFORM public.apply_stock_movement(
+        v_line.product_id, v_transfer.destination_warehouse_id, v_pick.quantity, 'transfer_in', 'transfer', p_transfer_id,
+        NULL, NULL, v_pick.lot_id, v_transfer.destination_location_id
+      );
+    END LOOP;
+  END LOOP;
+
+  -- The moved stock consumed this transfer's reservation
+  DELETE FROM public.stock_reservations
+  WHERE reference_type = 'transfer' AND reference_id = p_transfer_id;
+END;
+$$;
+
+-- Reversals move the same lots back to the same locations
+CREATE OR REPLACE FUNCTION public.reverse_stock_movements(
+  p_reference_type TEXT,
+  p_reference_id UUID,
+  p_notes TEXT
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_movement public.stock_movements%ROWTYPE;
+BEGIN
+  FOR v_movement IN
+    SELECT * FROM public.stock_movements
+    WHERE reference_type = p_reference_type AND reference_id = p_reference_id
+    ORDER BY product_id, warehouse_id, created_at, id
+  LOOP
+    PERFORM public.apply_stock_movement(
+      v_movement.product_id,
+      v_movement.warehouse_id,
+      -v_movement.quantity,
+      v_movement.movement_type,
+      p_reference_type,
+      p_reference_id,
+      p_notes,
+      NULL,
+      v_movement.lot_id,
+      v_movement.location_id
+    );
+  END LOOP;
+END;
+$$;
+
+-- The reversal transfer runs between the same locations the other way
+CREATE OR REPLACE FUNCTION public.reverse_transfer(p_transfer_id UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_transfer public.internal_transfers%ROWTYPE;
+  v_reversal_id UUID;
+  v_reversal_number TEXT;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_transfer FROM public.internal_transfers WHERE id = p_transfer_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Transfer not found';
+  END IF;
+
+  IF v_transfer.status <> 'done' THEN
+    RAISE EXCEPTION 'Only done transfers can be reversed';
+  END IF;
+
+  IF v_transfer.reversal_of_id IS NOT NULL THEN
+    RAISE EXCEPTION 'Transfer % is itself a reversal', v_transfer.transfer_number;
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.internal_transfers WHERE reversal_of_id = p_transfer_id) THEN
+    RAISE EXCEPTION 'Transfer % has already been reversed', v_transfer.transfer_number;
+  END IF;
+
+  v_reversal_number := v_transfer.transfer_number || '-REV';
+
+  INSERT INTO public.internal_transfers (
+    transfer_number, source_warehouse_id, destination_warehouse_id, source_location_id, destination_location_id,
+    status, notes, created_by, validated_at, reversal_of_id
+  )
+  VALUES (
+    v_reversal_number,
+    v_transfer.destination_warehouse_id,
+    v_transfer.source_warehouse_id,
+    v_transfer.destination_location_id,
+    v_transfer.source_location_id,
+    'done',
+    'Reversal of ' || v_transfer.transfer_number,
+    auth.uid(),
+    NOW(),
+    p_transfer_id
+  )
+  RETURNING id INTO v_reversal_id;
+
+  INSERT INTO public.transfer_lines (transfer_id, product_id, quantity)
+  SELECT v_reversal_id, product_id, quantity
+  FROM public.transfer_lines
+  WHERE transfer_id = p_transfer_id;
+
+  PERFORM public.reverse_stock_movements('transfer', p_transfer_id, 'Reversed by ' || v_reversal_number);
+
+  RETURN v_reversal_id;
+END;
+$$;
@@ -0,0 +1,152 @@
+-- Warehouse administration.
+-- Warehouses can be archived once they hold no stock and no open documents;
+-- archived warehouses drop out of low stock and replenishment. Each warehouse
+-- can name a default putaway and pick location.
+
+ALTER TABLE public.warehouses
+  ADD COLUMN active BOOLEAN NOT NULL DEFAULT TRUE,
+  ADD COLUMN default_receipt_location_id UUID REFERENCES public.locations(id),
+  ADD COLUMN default_delivery_location_id UUID REFERENCES public.locations(id);
+
+CREATE OR REPLACE FUNCTION public.check_warehouse_update()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM public.locations
+    WHERE id IN (NEW.default_receipt_location_id, NEW.default_delivery_location_id)
+      AND warehouse_id <> NEW.id
+  ) THEN
+    RAISE EXCEPTION 'Default locations of warehouse % must be inside it', NEW.code;
+  END IF;
+
+  IF OLD.active AND NOT NEW.active THEN
+    IF EXISTS (SELECT 1 FROM public.stock_levels WHERE warehouse_id = NEW.id AND quantity <> 0) THEN
+      RAISE EXCEPTION 'Warehouse % still holds stock', NEW.code;
+    END IF;
+
+    IF EXISTS (SELECT 1 FROM public.receipts WHERE warehouse_id = NEW.id AND status NOT IN ('done', 'canceled'))
+      OR EXISTS (SELECT 1 FROM public.deliveries WHERE warehouse_id = NEW.id AND status NOT IN ('done', 'canceled'))
+      OR EXISTS (
+        SELECT 1 FROM public.internal_transfers
+        WHERE NEW.id IN (source_warehouse_id, destination_warehouse_id) AND status NOT IN ('done', 'canceled')
+      )
+      OR EXISTS (SELECT 1 FROM public.stock_adjustments WHERE warehouse_id = NEW.id AND status <> 'done')
+      OR EXISTS (SELECT 1 FROM public.customer_returns WHERE warehouse_id = NEW.id AND status <> 'done')
+      OR EXISTS (SELECT 1 FROM public.supplier_returns WHERE warehouse_id = NEW.id AND status <> 'done')
+      OR EXISTS (SELECT 1 FROM public.purchase_orders WHERE warehouse_id = NEW.id AND status <> 'done')
+      OR EXISTS (
+        SELECT 1 FROM public.sales_order_lines l
+        JOIN public.sales_orders so ON so.id = l.sales_order_id
+        WHERE COALESCE(l.warehouse_id, so.warehouse_id) = NEW.id AND so.status <> 'done'
+      ) THEN
+      RAISE EXCEPTION 'Warehouse % has open documents', NEW.code;
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER check_warehouses_update BEFORE UPDATE ON public.warehouses
+  FOR EACH ROW EXECUTE FUNCTION public.check_warehouse_update();
+
+CREATE OR REPLACE VIEW public.low_stock
+WITH (security_invoker = on) AS
+WITH pairs AS (
+  SELECT product_id, warehouse_id FROM public.stock_levels
+  UNION
+  SELECT product_id, warehouse_id FROM public.reorder_rules
+)
+SELECT
+  pr.product_id,
+  pr.warehouse_id,
+  COALESCE(s.quantity, 0) AS quantity,
+  COALESCE(r.min_quantity, p.reorder_level) AS reorder_level
+FROM pairs pr
+JOIN public.products p ON p.id = pr.product_id
+JOIN public.warehouses w ON w.id = pr.warehouse_id AND w.active
+LEFT JOIN public.stock_levels s ON s.product_id = pr.product_id AND s.warehouse_id = pr.warehouse_id
+LEFT JOIN public.reorder_rules r ON r.product_id = pr.product_id AND r.warehouse_id = pr.warehouse_id
+WHERE COALESCE(s.quantity, 0) <= COALESCE(r.min_quantity, p.reorder_level);
+
+-- Rules of archived warehouses propose nothing
+CREATE OR REPLACE FUNCTION public.replenishment_proposals()
+RETURNS TABLE (
+  rule_id UUID,
+  product_id UUID,
+  warehouse_id UUID,
+  partner_id UUID,
+  on_hand DECIMAL,
+  incoming DECIMAL,
+  outgoing DECIMAL,
+  forecast_quantity DECIMAL,
+  min_quantity DECIMAL,
+  max_quantity DECIMAL,
+  proposed_quantity DECIMAL
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH moves AS (
+    SELECT l.product_id, r.warehouse_id, l.quantity AS incoming, 0 AS outgoing
+    FROM public.receipt_lines l
+    JOIN public.receipts r ON r.id = l.receipt_id
+    WHERE r.status IN ('draft', 'waiting', 'ready')
+    UNION ALL
+    SELECT l.product_id, po.warehouse_id, l.quantity, 0
+    FROM public.purchase_order_lines l
+    JOIN public.purchase_orders po ON po.id = l.purchase_order_id
+    WHERE po.status = 'draft'
+    UNION ALL
+    SELECT l.product_id, t.destination_warehouse_id, l.quantity, 0
+    FROM public.transfer_lines l
+    JOIN public.internal_transfers t ON t.id = l.transfer_id
+    WHERE t.status IN ('draft', 'waiting', 'ready')
+    UNION ALL
+    SELECT l.product_id, d.warehouse_id, 0, l.quantity
+    FROM public.delivery_lines l
+    JOIN public.deliveries d ON d.id = l.delivery_id
+    WHERE d.status IN ('draft', 'waiting', 'ready')
+    UNION ALL
+    SELECT l.product_id, COALESCE(l.warehouse_id, so.warehouse_id), 0, l.quantity
+    FROM public.sales_order_lines l
+    JOIN public.sales_orders so ON so.id = l.sales_order_id
+    WHERE so.status = 'draft'
+    UNION ALL
+    SELECT l.product_id, t.source_warehouse_id, 0, l.quantity
+    FROM public.transfer_lines l
+    JOIN public.internal_transfers t ON t.id = l.transfer_id
+    WHERE t.status IN ('draft', 'waiting', 'ready')
+  ),
+  forecast AS (
+    SELECT
+      rr.*,
+      COALESCE(s.quantity, 0) AS on_hand,
+      COALESCE((SELECT SUM(m.incoming) FROM moves m
+                WHERE m.product_id = rr.product_id AND m.warehouse_id = rr.warehouse_id), 0) AS incoming,
+      COALESCE((SELECT SUM(m.outgoing) FROM moves m
+                WHERE m.product_id = rr.product_id AND m.warehouse_id = rr.warehouse_id), 0) AS outgoing
+    FROM public.reorder_rules rr
+    JOIN public.warehouses w ON w.id = rr.warehouse_id AND w.active
+    LEFT JOIN public.stock_levels s ON s.product_id = rr.product_id AND s.warehouse_id = rr.warehouse_id
+  )
+  SELECT
+    f.id,
+    f.product_id,
+    f.warehouse_id,
+    f.partner_id,
+    f.on_hand,
+    f.incoming,
+    f.outgoing,
+    f.on_hand + f.incoming - f.outgoing,
+    f.min_quantity,
+    f.max_quantity,
+    CEIL((f.max_quantity - (f.on_hand + f.incoming - f.outgoing)) / f.multiple_of) * f.multiple_of
+  FROM forecast f
+  WHERE f.on_hand + f.incoming - f.outgoing < f.min_quantity
+  ORDER BY f.partner_id, f.warehouse_id, f.product_id;
+$$;
@@ -0,0 +1,82 @@
+-- Product category hierarchy.
+-- Categories can nest under a parent, be renamed and be deleted once empty.
+-- category_stock rolls stock up through the tree, so a parent category counts
+-- the stock of every product in its subcategories.
+
+ALTER TABLE public.product_categories
+  ADD COLUMN parent_id UUID REFERENCES public.product_categories(id);
+
+CREATE POLICY "Users can update categories" ON public.product_categories
+  FOR UPDATE USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Users can delete categories" ON public.product_categories
+  FOR DELETE USING (auth.uid() IS NOT NULL);
+
+-- A category cannot end up inside its own subtree
+CREATE OR REPLACE FUNCTION public.check_category_parent()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.parent_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF EXISTS (
+    WITH RECURSIVE ancestors AS (
+      SELECT id, parent_id FROM public.product_categories WHERE id = NEW.parent_id
+      UNION ALL
+      SELECT c.id, c.parent_id FROM public.product_categories c JOIN ancestors a ON c.id = a.parent_id
+    )
+    SELECT 1 FROM ancestors WHERE id = NEW.id
+  ) THEN
+    RAISE EXCEPTION 'Category % cannot be placed inside itself', NEW.name;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER check_product_categories_parent BEFORE INSERT OR UPDATE ON public.product_categories
+  FOR EACH ROW EXECUTE FUNCTION public.check_category_parent();
+
+-- Only empty categories can be deleted
+CREATE OR REPLACE FUNCTION public.check_category_delete()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM public.product_categories WHERE parent_id = OLD.id) THEN
+    RAISE EXCEPTION 'Category % still has subcategories', OLD.name;
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.products WHERE category_id = OLD.id) THEN
+    RAISE EXCEPTION 'Category % still has products', OLD.name;
+  END IF;
+
+  RETURN OLD;
+END;
+$$;
+
+CREATE TRIGGER check_product_categories_delete BEFORE DELETE ON public.product_categories
+  FOR EACH ROW EXECUTE FUNCTION public.check_category_delete();
+
+CREATE VIEW public.category_stock
+WITH (security_invoker = on) AS
+WITH RECURSIVE tree AS (
+  SELECT id AS category_id, id AS member_id FROM public.product_categories
+  UNION ALL
+  SELECT t.category_id, c.id
+  FROM tree t
+  JOIN public.product_categories c ON c.parent_id = t.member_id
+)
+SELECT
+  t.category_id,
+  s.warehouse_id,
+  SUM(s.quantity) AS quantity
+FROM tree t
+JOIN public.products p ON p.category_id = t.member_id
+JOIN public.stock_levels s ON s.product_id = p.id
+GROUP BY t.category_id, s.warehouse_id;
@@ -0,0 +1,176 @@
+-- Units of measure.
+-- Units belong to a category (count, weight, volume, length) and carry a ratio
+-- to that category's reference unit. Each product keeps stock in a base unit
+-- and can buy and sell in other units of the same category. Receipt and
+-- delivery lines may be entered in any compatible unit; the line's quantity is
+-- always stored converted to the base unit, so stock_levels never see anything
+-- else.
+
+CREATE TABLE public.uom_categories (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL UNIQUE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE public.uom_categories ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view all unit categories" ON public.uom_categories
+  FOR SELECT USING (true);
+
+CREATE POLICY "Users can create unit categories" ON public.uom_categories
+  FOR INSERT WITH CHECK (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Users can update unit categories" ON public.uom_categories
+  FOR UPDATE USING (auth.uid() IS NOT NULL);
+
+-- ratio is how many reference units of the category one of this unit holds
+CREATE TABLE public.units_of_measure (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  category_id UUID NOT NULL REFERENCES public.uom_categories(id),
+  name TEXT NOT NULL UNIQUE,
+  ratio DECIMAL NOT NULL DEFAULT 1 CHECK (ratio > 0),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE public.units_of_measure ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view all units of measure" ON public.units_of_measure
+  FOR SELECT USING (true);
+
+CREATE POLICY "Users can create units of measure" ON public.units_of_measure
+  FOR INSERT WITH CHECK (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Users can update units of measure" ON public.units_of_measure
+  FOR UPDATE USING (auth.uid() IS NOT NULL);
+
+INSERT INTO public.uom_categories (name) VALUES
+  ('Unit'),
+  ('Weight'),
+  ('Volume'),
+  ('Length');
+
+INSERT INTO public.units_of_measure (category_id, name, ratio)
+SELECT c.id, u.name, u.ratio
+FROM (VALUES
+  ('Unit', 'Units', 1),
+  ('Unit', 'Pairs', 2),
+  ('Unit', 'Case of 12', 12),
+  ('Unit', 'Case of 24', 24),
+  ('Weight', 'kg', 1),
+  ('Weight', 'g', 0.001),
+  ('Weight', 't', 1000),
+  ('Weight', 'lb', 0.45359237),
+  ('Volume', 'L', 1),
+  ('Volume', 'mL', 0.001),
+  ('Length', 'm', 1),
+  ('Length', 'cm', 0.01),
+  ('Length', 'mm', 0.001)
+) AS u(category, name, ratio)
+JOIN public.uom_categories c ON c.name = u.category;
+
+-- Free-text units already on products become counted units
+INSERT INTO public.units_of_measure (category_id, name)
+SELECT DISTINCT (SELECT id FROM public.uom_categories WHERE name = 'Unit'), p.unit_of_measure
+FROM public.products p
+WHERE NOT EXISTS (SELECT 1 FROM public.units_of_measure u WHERE u.name = p.unit_of_measure);
+
+ALTER TABLE public.products
+  ADD COLUMN uom_id UUID REFERENCES public.units_of_measure(id),
+  ADD COLUMN purchase_uom_id UUID REFERENCES public.units_of_measure(id),
+  ADD COLUMN sales_uom_id UUID REFERENCES public.units_of_measure(id);
+
+UPDATE public.products p
+SET uom_id = u.id
+FROM public.units_of_measure u
+WHERE u.name = p.unit_of_measure;
+
+ALTER TABLE public.products
+  ALTER COLUMN uom_id SET NOT NULL,
+  DROP COLUMN unit_of_measure;
+
+-- Purchase and sales units must convert to the base unit, and the base unit
+-- is fixed once stock has moved in it
+CREATE OR REPLACE FUNCTION public.check_product_uom()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_category_id UUID;
+BEGIN
+  SELECT category_id INTO v_category_id FROM public.units_of_measure WHERE id = NEW.uom_id;
+
+  IF EXISTS (
+    SELECT 1 FROM public.units_of_measure
+    WHERE id IN (NEW.purchase_uom_id, NEW.sales_uom_id) AND category_id <> v_category_id
+  ) THEN
+    RAISE EXCEPTION 'Purchase and sales units of % must be in the same category as its base unit', NEW.sku;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND NEW.uom_id <> OLD.uom_id
+    AND EXISTS (SELECT 1 FROM public.stock_movements WHERE product_id = NEW.id) THEN
+    RAISE EXCEPTION 'Base unit of % cannot change once stock has moved', NEW.sku;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER check_products_uom BEFORE INSERT OR UPDATE ON public.products
+  FOR EACH ROW EXECUTE FUNCTION public.check_product_uom();
+
+-- The unit a line was entered in; quantity stays in the product's base unit
+ALTER TABLE public.receipt_lines
+  ADD COLUMN uom_id UUID REFERENCES public.units_of_measure(id),
+  ADD COLUMN uom_quantity DECIMAL CHECK (uom_quantity > 0);
+
+ALTER TABLE public.delivery_lines
+  ADD COLUMN uom_id UUID REFERENCES public.units_of_measure(id),
+  ADD COLUMN uom_quantity DECIMAL CHECK (uom_quantity > 0);
+
+-- Converts a line entered in another unit to the product's base unit
+CREATE OR REPLACE FUNCTION public.convert_line_uom()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_product RECORD;
+  v_unit RECORD;
+BEGIN
+  IF NEW.uom_id IS NULL THEN
+    NEW.uom_quantity := NULL;
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE'
+    AND NEW.uom_id = OLD.uom_id
+    AND NEW.uom_quantity IS NOT DISTINCT FROM OLD.uom_quantity THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.uom_quantity IS NULL THEN
+    RAISE EXCEPTION 'Enter a quantity for the chosen unit';
+  END IF;
+
+  SELECT p.sku, u.category_id, u.ratio INTO v_product
+  FROM public.products p
+  JOIN public.units_of_measure u ON u.id = p.uom_id
+  WHERE p.id = NEW.product_id;
+
+  SELECT name, category_id, ratio INTO v_unit FROM public.units_of_measure WHERE id = NEW.uom_id;
+
+  IF v_unit.category_id <> v_product.category_id THEN
+    RAISE EXCEPTION 'Unit % cannot be used for product %', v_unit.name, v_product.sku;
+  END IF;
+
+  NEW.quantity := trim_scale(NEW.uom_quantity * v_unit.ratio / v_product.ratio);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER convert_receipt_lines_uom BEFORE INSERT OR UPDATE ON public.receipt_lines
+  FOR EACH ROW EXECUTE FUNCTION public.convert_line_uom();
+
+CREATE TRIGGER convert_delivery_lines_uom BEFORE INSERT OR UPDATE ON public.delivery_lines
+  FOR EACH ROW EXECUTE FUNCTION public.convert_line_uom();
@@ -0,0 +1,189 @@
+-- Product variants.
+-- A product template names the attributes a product comes in (size, colour,
+-- ...) and which values it uses. Generating variants creates one ordinary
+-- product per combination of values, each with its own SKU and stock, linked
+-- back to the template.
+
+CREATE TABLE public.product_attributes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL UNIQUE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE public.product_attributes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view all product attributes" ON public.product_attributes
+  FOR SELECT USING (true);
+
+CREATE POLICY "Users can create product attributes" ON public.product_attributes
+  FOR INSERT WITH CHECK (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Users can update product attributes" ON public.product_attributes
+  FOR UPDATE USING (auth.uid() IS NOT NULL);
+
+CREATE TABLE public.product_attribute_values (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  attribute_id UUID NOT NULL REFERENCES public.product_attributes(id) ON DELETE CASCADE,
+  value TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE(attribute_id, value)
+);
+
+ALTER TABLE public.product_attribute_values ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view all product attribute values" ON public.product_attribute_values
+  FOR SELECT USING (true);
+
+CREATE POLICY "Users can create product attribute values" ON public.product_attribute_values
+  FOR INSERT WITH CHECK (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Users can update product attribute values" ON public.product_attribute_values
+  FOR UPDATE USING (auth.uid() IS NOT NULL);
+
+-- Variants copy these fields when they are generated
+CREATE TABLE public.product_templates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  sku TEXT NOT NULL UNIQUE,
+  category_id UUID REFERENCES public.product_categories(id),
+  uom_id UUID NOT NULL REFERENCES public.units_of_measure(id),
+  reorder_level INTEGER DEFAULT 10,
+  tracking TEXT NOT NULL DEFAULT 'none' CHECK (tracking IN ('none', 'lot', 'serial')),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE public.product_templates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view all product templates" ON public.product_templates
+  FOR SELECT USING (true);
+
+CREATE POLICY "Users can create product templates" ON public.product_templates
+  FOR INSERT WITH CHECK (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Users can update product templates" ON public.product_templates
+  FOR UPDATE USING (auth.uid() IS NOT NULL);
+
+CREATE TRIGGER update_product_templates_updated_at BEFORE UPDATE ON public.product_templates
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Attribute values a template comes in
+CREATE TABLE public.product_template_values (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  template_id UUID NOT NULL REFERENCES public.product_templates(id) ON DELETE CASCADE,
+  value_id UUID NOT NULL REFERENCES public.product_attribute_values(id),
+  UNIQUE(template_id, value_id)
+);
+
+ALTER TABLE public.product_template_values ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view all product template values" ON public.product_template_values
+  FOR SELECT USING (true);
+
+CREATE POLICY "Users can create product template values" ON public.product_template_values
+  FOR INSERT WITH CHECK (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Users can delete product template values" ON public.product_template_values
+  FOR DELETE USING (auth.uid() IS NOT NULL);
+
+ALTER TABLE public.products
+  ADD COLUMN template_id UUID REFERENCES public.product_templates(id);
+
+-- The attribute values that make up each variant
+CREATE TABLE public.product_variant_values (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  product_id UUID NOT NULL REFERENCES public.products(id) ON DELETE CASCADE,
+  value_id UUID NOT NULL REFERENCES public.product_attribute_values(id),
+  UNIQUE(product_id, value_id)
+);
+
+ALTER TABLE public.product_variant_values ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view all product variant values" ON public.product_variant_values
+  FOR SELECT USING (true);
+
+-- Creates a product for every combination of the template's values that has
+-- no variant yet, and returns how many were created. Removing a value later
+-- leaves its variants alone; archive them instead.
+CREATE OR REPLACE FUNCTION public.generate_product_variants(p_template_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_template public.product_templates%ROWTYPE;
+  v_combination RECORD;
+  v_product_id UUID;
+  v_created INTEGER := 0;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_template FROM public.product_templates WHERE id = p_template_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Product template not found';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.product_template_values WHERE template_id = p_template_id) THEN
+    RAISE EXCEPTION 'Choose attribute values for % before generating variants', v_template.sku;
+  END IF;
+
+  FOR v_combination IN
+    WITH RECURSIVE attributes AS (
+      SELECT a.id, ROW_NUMBER() OVER (ORDER BY a.name) AS position
+      FROM public.product_attributes a
+      WHERE EXISTS (
+        SELECT 1 FROM public.product_template_values tv
+        JOIN public.product_attribute_values av ON av.id = tv.value_id
+        WHERE tv.template_id = p_template_id AND av.attribute_id = a.id
+      )
+    ),
+    combinations AS (
+      SELECT 0::BIGINT AS position, ARRAY[]::UUID[] AS value_ids, ''::TEXT AS label, ''::TEXT AS code
+      UNION ALL
+      SELECT
+        a.position,
+        c.value_ids || av.id,
+        c.label || CASE WHEN c.label = '' THEN '' ELSE ', ' END || av.value,
+        c.code || '-' || upper(regexp_replace(av.value, '\s+', '', 'g'))
+      FROM combinations c
+      JOIN attributes a ON a.position = c.position + 1
+      JOIN public.product_attribute_values av ON av.attribute_id = a.id
+      JOIN public.product_template_values tv ON tv.value_id = av.id AND tv.template_id = p_template_id
+    )
+    SELECT value_ids, label, code
+    FROM combinations
+    WHERE position = (SELECT COUNT(*) FROM attributes)
+    ORDER BY code
+  LOOP
+    CONTINUE WHEN EXISTS (
+      SELECT 1 FROM public.products p
+      WHERE p.template_id = p_template_id
+        AND ARRAY(SELECT value_id FROM public.product_variant_values WHERE product_id = p.id ORDER BY value_id)
+          = ARRAY(SELECT unnest(v_combination.value_ids) ORDER BY 1)
+    );
+
+    INSERT INTO public.products (name, sku, category_id, uom_id, reorder_level, tracking, template_id)
+    VALUES (
+      v_template.name || ' (' || v_combination.label || ')',
+      v_template.sku || v_combination.code,
+      v_template.category_id,
+      v_template.uom_id,
+      v_template.reorder_level,
+      v_template.tracking,
+      p_template_id
+    )
+    RETURNING id INTO v_product_id;
+
+    INSERT INTO public.product_variant_values (product_id, value_id)
+    SELECT v_product_id, unnest(v_combination.value_ids);
+
+    v_created := v_created + 1;
+  END LOOP;
+
+  RETURN v_created;
+END;
+$$;
@@ -0,0 +1,653 @@
+-- Kits.
+-- A kit is a product sold as a set of other products. It holds no stock of its
+-- own: adding a kit to a delivery adds a line for each of its components, and
+-- those component lines are what reserve and ship stock. Component movements
+-- keep a reference to the kit line they shipped under, so the ledger still
+-- shows what the customer bought.
+
+ALTER TABLE public.products
+  ADD COLUMN product_type TEXT NOT NULL DEFAULT 'stock' CHECK (product_type IN ('stock', 'kit'));
+
+-- quantity is how many of the component, in its base unit, go into one kit
+CREATE TABLE public.kit_components (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  kit_id UUID NOT NULL REFERENCES public.products(id) ON DELETE CASCADE,
+  component_id UUID NOT NULL REFERENCES public.products(id),
+  quantity DECIMAL NOT NULL CHECK (quantity > 0),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (kit_id, component_id)
+);
+
+CREATE INDEX idx_kit_components_component_id ON public.kit_components(component_id);
+
+ALTER TABLE public.kit_components ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view all kit components" ON public.kit_components
+  FOR SELECT USING (true);
+
+CREATE POLICY "Users can create kit components" ON public.kit_components
+  FOR INSERT WITH CHECK (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Users can update kit components" ON public.kit_components
+  FOR UPDATE USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Users can delete kit components" ON public.kit_components
+  FOR DELETE USING (auth.uid() IS NOT NULL);
+
+-- Component lines point at the kit line that added them
+ALTER TABLE public.delivery_lines
+  ADD COLUMN kit_line_id UUID REFERENCES public.delivery_lines(id) ON DELETE CASCADE;
+
+ALTER TABLE public.stock_movements
+  ADD COLUMN kit_line_id UUID REFERENCES public.delivery_lines(id);
+
+CREATE INDEX idx_delivery_lines_kit_line_id ON public.delivery_lines(kit_line_id);
+CREATE INDEX idx_stock_movements_kit_line_id ON public.stock_movements(kit_line_id);
+
+-- Kits are untracked, and a product only changes type before it has stock or
+-- while it is not part of a kit
+CREATE OR REPLACE FUNCTION public.check_product_type()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.product_type = 'kit' AND NEW.tracking <> 'none' THEN
+    RAISE EXCEPTION 'Kit % cannot be tracked by lot or serial', NEW.sku;
+  END IF;
+
+  IF NEW.tracking = 'serial' AND EXISTS (SELECT 1 FROM public.kit_components WHERE component_id = NEW.id) THEN
+    RAISE EXCEPTION 'Product % is a kit component and cannot be tracked by serial', NEW.sku;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND NEW.product_type <> OLD.product_type THEN
+    IF EXISTS (SELECT 1 FROM public.stock_movements WHERE product_id = NEW.id) THEN
+      RAISE EXCEPTION 'Product % has stock history and cannot change type', NEW.sku;
+    END IF;
+
+    IF EXISTS (SELECT 1 FROM public.kit_components WHERE kit_id = NEW.id) THEN
+      RAISE EXCEPTION 'Remove the components of kit % before changing its type', NEW.sku;
+    END IF;
+
+    IF EXISTS (SELECT 1 FROM public.kit_components WHERE component_id = NEW.id) THEN
+      RAISE EXCEPTION 'Product % is part of a kit and cannot change type', NEW.sku;
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER check_products_type BEFORE INSERT OR UPDATE OF product_type, tracking ON public.products
+  FOR EACH ROW EXECUTE FUNCTION public.check_product_type();
+
+-- Components are stocked, untracked-by-serial products; kits do not nest
+CREATE OR REPLACE FUNCTION public.check_kit_component()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_component public.products%ROWTYPE;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM public.products WHERE id = NEW.kit_id AND product_type = 'kit') THEN
+    RAISE EXCEPTION 'Product % is not a kit', (SELECT sku FROM public.products WHERE id = NEW.kit_id);
+  END IF;
+
+  SELECT * INTO v_component FROM public.products WHERE id = NEW.component_id;
+
+  IF v_component.product_type = 'kit' THEN
+    RAISE EXCEPTION 'Kit % cannot be a component of another kit', v_component.sku;
+  END IF;
+
+  IF v_component.tracking = 'serial' THEN
+    RAISE EXCEPTION 'Serialized product % cannot be a kit component', v_component.sku;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER check_kit_components BEFORE INSERT OR UPDATE ON public.kit_components
+  FOR EACH ROW EXECUTE FUNCTION public.check_kit_component();
+
+-- A kit line adds one line per component, sized for the whole kits ordered
+CREATE OR REPLACE FUNCTION public.explode_kit_line()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM public.products WHERE id = NEW.product_id AND product_type = 'kit') THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.quantity <> TRUNC(NEW.quantity) THEN
+    RAISE EXCEPTION 'Kits ship in whole units';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.kit_components WHERE kit_id = NEW.product_id) THEN
+    RAISE EXCEPTION 'Kit % has no components', (SELECT sku FROM public.products WHERE id = NEW.product_id);
+  END IF;
+
+  INSERT INTO public.delivery_lines (delivery_id, product_id, quantity, kit_line_id)
+  SELECT NEW.delivery_id, kc.component_id, NEW.quantity * kc.quantity, NEW.id
+  FROM public.kit_components kc
+  WHERE kc.kit_id = NEW.product_id;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER explode_delivery_kit_lines AFTER INSERT ON public.delivery_lines
+  FOR EACH ROW EXECUTE FUNCTION public.explode_kit_line();
+
+-- Kit lines are covered by their component lines
+CREATE OR REPLACE FUNCTION public.check_delivery_availability(p_delivery_id UUID)
+RETURNS TABLE (line_id UUID, product_id UUID, quantity DECIMAL, available_quantity DECIMAL)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    l.id,
+    l.product_id,
+    l.quantity,
+    GREATEST(
+      LEAST(
+        l.quantity,
+        COALESCE(s.quantity, 0)
+          - public.reserved_quantity(l.product_id, d.warehouse_id, 'delivery', d.id)
+          - COALESCE(
+            SUM(l.quantity) OVER (
+              PARTITION BY l.product_id
+              ORDER BY l.created_at, l.id
+              ROWS BETWEEN UNBOUNDED PRECEDING AND 1 PRECEDING
+            ),
+            0
+          )
+      ),
+      0
+    )
+  FROM public.delivery_lines l
+  JOIN public.deliveries d ON d.id = l.delivery_id
+  JOIN public.products p ON p.id = l.product_id AND p.product_type <> 'kit'
+  LEFT JOIN public.stock_levels s ON s.product_id = l.product_id AND s.warehouse_id = d.warehouse_id
+  WHERE l.delivery_id = p_delivery_id
+  ORDER BY l.product_id, l.created_at, l.id;
+$$;
+
+-- Kit lines reserve nothing themselves; their components do
+CREATE OR REPLACE FUNCTION public.refresh_delivery_status(p_delivery_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_delivery public.deliveries%ROWTYPE;
+BEGIN
+  SELECT * INTO v_delivery FROM public.deliveries WHERE id = p_delivery_id;
+
+  IF NOT FOUND OR v_delivery.status NOT IN ('waiting', 'ready') THEN
+    RETURN;
+  END IF;
+
+  -- Serialize reservations on the stock rows this delivery draws on
+  PERFORM 1
+  FROM public.stock_levels
+  WHERE warehouse_id = v_delivery.warehouse_id
+    AND product_id IN (SELECT l.product_id FROM public.delivery_lines l WHERE l.delivery_id = p_delivery_id)
+  ORDER BY product_id
+  FOR UPDATE;
+
+  DELETE FROM public.stock_reservations
+  WHERE reference_type = 'delivery' AND reference_id = p_delivery_id;
+
+  IF EXISTS (
+    SELECT 1 FROM public.check_delivery_availability(p_delivery_id) a
+    WHERE a.available_quantity < a.quantity
+  ) THEN
+    UPDATE public.deliveries SET status = 'waiting' WHERE id = p_delivery_id AND status <> 'waiting';
+  ELSE
+    INSERT INTO public.stock_reservations (product_id, warehouse_id, quantity, reference_type, reference_id)
+    SELECT l.product_id, v_delivery.warehouse_id, SUM(l.quantity), 'delivery', p_delivery_id
+    FROM public.delivery_lines l
+    JOIN public.products p ON p.id = l.product_id AND p.product_type <> 'kit'
+    WHERE l.delivery_id = p_delivery_id
+    GROUP BY l.product_id;
+
+    UPDATE public.deliveries SET status = 'ready' WHERE id = p_delivery_id AND status <> 'ready';
+  END IF;
+END;
+$$;
+
+DROP FUNCTION public.apply_stock_movement(UUID, UUID, DECIMAL, TEXT, TEXT, UUID, TEXT, INTEGER, UUID, UUID);
+
+-- Kits hold no stock, and component movements record the kit line they
+-- shipped under
+CREATE OR REPLACE FUNCTION public.apply_stock_movement(
+  p_product_id UUID,
+  p_warehouse_id UUID,
+  p_quantity DECIMAL,
+  p_movement_type TEXT,
+  p_reference_type TEXT,
+  p_reference_id UUID,
+  p_notes TEXT DEFAULT NULL,
+  p_expected_version INTEGER DEFAULT NULL,
+  p_lot_id UUID DEFAULT NULL,
+  p_location_id UUID DEFAULT NULL,
+  p_kit_line_id UUID DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_stock public.stock_levels%ROWTYPE;
+  v_reserved DECIMAL := 0;
+  v_in_lots DECIMAL;
+  v_lot_level public.stock_lot_levels%ROWTYPE;
+  v_in_locations DECIMAL;
+  v_location_level public.stock_location_levels%ROWTYPE;
+  v_remaining DECIMAL;
+  v_taken DECIMAL;
+BEGIN
+  IF EXISTS (SELECT 1 FROM public.products WHERE id = p_product_id AND product_type = 'kit') THEN
+    RAISE EXCEPTION 'Kit % holds no stock of its own',
+      (SELECT sku FROM public.products WHERE id = p_product_id);
+  END IF;
+
+  INSERT INTO public.stock_levels (product_id, warehouse_id, quantity)
+  VALUES (p_product_id, p_warehouse_id, 0)
+  ON CONFLICT (product_id, warehouse_id) DO NOTHING;
+
+  SELECT * INTO v_stock
+  FROM public.stock_levels
+  WHERE product_id = p_product_id AND warehouse_id = p_warehouse_id
+  FOR UPDATE;
+
+  IF p_expected_version IS NOT NULL AND v_stock.version <> p_expected_version THEN
+    RAISE EXCEPTION 'Stock for product % changed while you were working',
+      (SELECT sku FROM public.products WHERE id = p_product_id)
+      USING ERRCODE = 'serialization_failure';
+  END IF;
+
+  IF p_quantity < 0 AND p_movement_type <> 'adjustment' THEN
+    v_reserved := public.reserved_quantity(p_product_id, p_warehouse_id, p_reference_type, p_reference_id);
+  END IF;
+
+  IF v_stock.quantity - v_reserved + p_quantity < 0 THEN
+    RAISE EXCEPTION 'Insufficient stock for product % (available %, requested %)',
+      (SELECT sku FROM public.products WHERE id = p_product_id),
+      v_stock.quantity - v_reserved,
+      -p_quantity;
+  END IF;
+
+  IF p_lot_id IS NOT NULL THEN
+    IF NOT EXISTS (SELECT 1 FROM public.lots WHERE id = p_lot_id AND product_id = p_product_id) THEN
+      RAISE EXCEPTION 'Lot does not belong to product %',
+        (SELECT sku FROM public.products WHERE id = p_product_id);
+    END IF;
+
+    INSERT INTO public.stock_lot_levels (lot_id, warehouse_id, quantity)
+    VALUES (p_lot_id, p_warehouse_id, 0)
+    ON CONFLICT (lot_id, warehouse_id) DO NOTHING;
+
+    SELECT * INTO v_lot_level
+    FROM public.stock_lot_levels
+    WHERE lot_id = p_lot_id AND warehouse_id = p_warehouse_id
+    FOR UPDATE;
+
+    IF v_lot_level.quantity + p_quantity < 0 THEN
+      RAISE EXCEPTION 'Insufficient stock in lot % (available %, requested %)',
+        (SELECT lot_number FROM public.lots WHERE id = p_lot_id),
+        v_lot_level.quantity,
+        -p_quantity;
+    END IF;
+
+    UPDATE public.stock_lot_levels
+    SET quantity = v_lot_level.quantity + p_quantity
+    WHERE id = v_lot_level.id;
+  ELSIF p_quantity < 0 THEN
+    SELECT COALESCE(SUM(ll.quantity), 0) INTO v_in_lots
+    FROM public.stock_lot_levels ll
+    JOIN public.lots l ON l.id = ll.lot_id
+    WHERE l.product_id = p_product_id AND ll.warehouse_id = p_warehouse_id;
+
+    IF v_stock.quantity - v_in_lots + p_quantity < 0 THEN
+      RAISE EXCEPTION 'Insufficient stock outside lots for product % (available %, requested %)',
+        (SELECT sku FROM public.products WHERE id = p_product_id),
+        v_stock.quantity - v_in_lots,
+        -p_quantity;
+    END IF;
+  END IF;
+
+  IF p_location_id IS NOT NULL THEN
+    IF NOT EXISTS (SELECT 1 FROM public.locations WHERE id = p_location_id AND warehouse_id = p_warehouse_id) THEN
+      RAISE EXCEPTION 'Location is not in warehouse %',
+        (SELECT code FROM public.warehouses WHERE id = p_warehouse_id);
+    END IF;
+
+    INSERT INTO public.stock_location_levels (product_id, location_id, quantity)
+    VALUES (p_product_id, p_location_id, 0)
+    ON CONFLICT (product_id, location_id) DO NOTHING;
+
+    SELECT * INTO v_location_level
+    FROM public.stock_location_levels
+    WHERE product_id = p_product_id AND location_id = p_location_id
+    FOR UPDATE;
+
+    IF v_location_level.quantity + p_quantity < 0 THEN
+      RAISE EXCEPTION 'Insufficient stock in location % (available %, requested %)',
+        (SELECT code FROM public.locations WHERE id = p_location_id),
+        v_location_level.quantity,
+        -p_quantity;
+    END IF;
+
+    UPDATE public.stock_location_levels
+    SET quantity = v_location_level.quantity + p_quantity
+    WHERE id = v_location_level.id;
+  ELSIF p_quantity < 0 THEN
+    -- Stock not put away goes first; the rest is taken from locations in code order
+    SELECT COALESCE(SUM(sl.quantity), 0) INTO v_in_locations
+    FROM public.stock_location_levels sl
+    JOIN public.locations loc ON loc.id = sl.location_id
+    WHERE sl.product_id = p_product_id AND loc.warehouse_id = p_warehouse_id;
+
+    v_remaining := -p_quantity - GREATEST(v_stock.quantity - v_in_locations, 0);
+
+    FOR v_location_level IN
+      SELECT sl.*
+      FROM public.stock_location_levels sl
+      JOIN public.locations loc ON loc.id = sl.location_id
+      WHERE sl.product_id = p_product_id AND loc.warehouse_id = p_warehouse_id AND sl.quantity > 0
+      ORDER BY loc.code
+      FOR UPDATE OF sl
+    LOOP
+      EXIT WHEN v_remaining <= 0;
+
+      v_taken := LEAST(v_location_level.quantity, v_remaining);
+      v_remaining := v_remaining - v_taken;
+
+      UPDATE public.stock_location_levels
+      SET quantity = v_location_level.quantity - v_taken
+      WHERE id = v_location_level.id;
+    END LOOP;
+  END IF;
+
+  UPDATE public.stock_levels
+  SET quantity = v_stock.quantity + p_quantity
+  WHERE id = v_stock.id AND version = v_stock.version;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Stock for product % changed while you were working',
+      (SELECT sku FROM public.products WHERE id = p_product_id)
+      USING ERRCODE = 'serialization_failure';
+  END IF;
+
+  INSERT INTO public.stock_movements (
+    product_id, warehouse_id, movement_type, quantity, reference_id, reference_type, notes, created_by, lot_id,
+    location_id, kit_line_id
+  )
+  VALUES (
+    p_product_id, p_warehouse_id, p_movement_type, p_quantity, p_reference_id, p_reference_type, p_notes, auth.uid(),
+    p_lot_id, p_location_id, p_kit_line_id
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.apply_stock_movement(UUID, UUID, DECIMAL, TEXT, TEXT, UUID, TEXT, INTEGER, UUID, UUID, UUID)
+  FROM PUBLIC, anon, authenticated;
+
+-- Kits ship as complete sets only: each kit line ships as many kits as its
+-- scarcest component covers, its components ship exactly that many, and a
+-- short kit is backordered as a kit
+CREATE OR REPLACE FUNCTION public.validate_delivery(p_delivery_id UUID, p_ship_available BOOLEAN DEFAULT FALSE)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_delivery public.deliveries%ROWTYPE;
+  v_line public.delivery_lines%ROWTYPE;
+  v_available DECIMAL;
+  v_shipped DECIMAL;
+  v_lot_available DECIMAL;
+  v_location_available DECIMAL;
+  v_pick RECORD;
+  v_kit_quantity DECIMAL;
+  v_base_number TEXT;
+  v_backorder_id UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_delivery FROM public.deliveries WHERE id = p_delivery_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Delivery not found';
+  END IF;
+
+  IF v_delivery.status IN ('done', 'canceled') THEN
+    RAISE EXCEPTION 'Delivery % is already %', v_delivery.delivery_number, v_delivery.status;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.delivery_lines WHERE delivery_id = p_delivery_id) THEN
+    RAISE EXCEPTION 'Cannot validate delivery without products';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.delivery_lines l
+    JOIN public.products p ON p.id = l.product_id
+    WHERE l.delivery_id = p_delivery_id AND p.tracking = 'serial' AND (l.lot_id IS NULL OR l.quantity <> 1)
+  ) THEN
+    RAISE EXCEPTION 'Choose which serials ship before validating delivery %', v_delivery.delivery_number;
+  END IF;
+
+  -- Lock every stock row this delivery draws on before checking availability
+  PERFORM 1
+  FROM public.stock_levels
+  WHERE warehouse_id = v_delivery.warehouse_id
+    AND product_id IN (SELECT l.product_id FROM public.delivery_lines l WHERE l.delivery_id = p_delivery_id)
+  ORDER BY product_id
+  FOR UPDATE;
+
+  IF EXISTS (
+    SELECT 1 FROM public.check_delivery_availability(p_delivery_id) a
+    WHERE a.available_quantity < a.quantity
+  ) THEN
+    IF NOT p_ship_available THEN
+      RAISE EXCEPTION 'Insufficient stock for this delivery';
+    END IF;
+
+    IF NOT EXISTS (
+      SELECT 1 FROM public.check_delivery_availability(p_delivery_id) a
+      WHERE a.available_quantity > 0
+    ) THEN
+      RAISE EXCEPTION 'No stock available to ship for this delivery';
+    END IF;
+  END IF;
+
+  UPDATE public.delivery_lines k
+  SET delivered_quantity = LEAST(k.quantity, COALESCE((
+    SELECT MIN(FLOOR(a.available_quantity * k.quantity / a.quantity))
+    FROM public.check_delivery_availability(p_delivery_id) a
+    JOIN public.delivery_lines c ON c.id = a.line_id
+    WHERE c.kit_line_id = k.id
+  ), 0))
+  FROM public.products p
+  WHERE p.id = k.product_id AND p.product_type = 'kit' AND k.delivery_id = p_delivery_id;
+
+  -- Close the delivery first so stock changes below do not re-reserve it
+  UPDATE public.deliveries
+  SET status = 'done', validated_at = NOW()
+  WHERE id = p_delivery_id;
+
+  FOR v_line IN
+    SELECT * FROM public.delivery_lines
+    WHERE delivery_id = p_delivery_id
+    ORDER BY product_id, created_at, id
+  LOOP
+    IF EXISTS (SELECT 1 FROM public.products WHERE id = v_line.product_id AND product_type = 'kit') THEN
+      v_shipped := v_line.delivered_quantity;
+    ELSE
+      SELECT quantity - public.reserved_quantity(v_line.product_id, v_delivery.warehouse_id, 'delivery', p_delivery_id)
+      INTO v_available
+      FROM public.stock_levels
+      WHERE product_id = v_line.product_id AND warehouse_id = v_delivery.warehouse_id;
+
+      v_shipped := GREATEST(LEAST(v_line.quantity, COALESCE(v_available, 0)), 0);
+
+      -- A picked lot can only ship what is left in it
+      IF v_line.lot_id IS NOT NULL THEN
+        SELECT quantity INTO v_lot_available
+        FROM public.stock_lot_levels
+        WHERE lot_id = v_line.lot_id AND warehouse_id = v_delivery.warehouse_id
+        FOR UPDATE;
+
+        v_shipped := LEAST(v_shipped, COALESCE(v_lot_available, 0));
+
+        IF v_shipped < v_line.quantity AND NOT p_ship_available THEN
+          RAISE EXCEPTION 'Insufficient stock in lot % for this delivery',
+            (SELECT lot_number FROM public.lots WHERE id = v_line.lot_id);
+        END IF;
+      END IF;
+
+      -- So can a pick location
+      IF v_line.location_id IS NOT NULL THEN
+        SELECT quantity INTO v_location_available
+        FROM public.stock_location_levels
+        WHERE product_id = v_line.product_id AND location_id = v_line.location_id
+        FOR UPDATE;
+
+        v_shipped := LEAST(v_shipped, COALESCE(v_location_available, 0));
+
+        IF v_shipped < v_line.quantity AND NOT p_ship_available THEN
+          RAISE EXCEPTION 'Insufficient stock in location % for this delivery',
+            (SELECT code FROM public.locations WHERE id = v_line.location_id);
+        END IF;
+      END IF;
+
+      IF v_line.kit_line_id IS NOT NULL THEN
+        SELECT trim_scale(v_line.quantity * k.delivered_quantity / k.quantity) INTO v_kit_quantity
+        FROM public.delivery_lines k
+        WHERE k.id = v_line.kit_line_id;
+
+        IF v_shipped < v_kit_quantity THEN
+          RAISE EXCEPTION 'Insufficient stock of kit component % for this delivery',
+            (SELECT sku FROM public.products WHERE id = v_line.product_id);
+        END IF;
+
+        v_shipped := v_kit_quantity;
+      END IF;
+
+      UPDATE public.delivery_lines SET delivered_quantity = v_shipped WHERE id = v_line.id;
+
+      IF v_shipped > 0 AND v_line.lot_id IS NOT NULL THEN
+        PERFORM public.apply_stock_movement(
+          v_line.product_id, v_delivery.warehouse_id, -v_shipped, 'delivery', 'delivery', p_delivery_id,
+          NULL, NULL, v_line.lot_id, v_line.location_id, v_line.kit_line_id
+        );
+      ELSIF v_shipped > 0 THEN
+        FOR v_pick IN SELECT * FROM public.pick_lots(v_line.product_id, v_delivery.warehouse_id, v_shipped) LOOP
+          PERFORM public.apply_stock_movement(
+            v_line.product_id, v_delivery.warehouse_id, -v_pick.quantity, 'delivery', 'delivery', p_delivery_id,
+            NULL, NULL, v_pick.lot_id, v_line.location_id, v_line.kit_line_id
+          );
+        END LOOP;
+      END IF;
+    END IF;
+
+    -- Component shortfalls come back with the backordered kit
+    IF v_shipped < v_line.quantity AND v_line.kit_line_id IS NULL THEN
+      IF v_backorder_id IS NULL THEN
+        v_base_number := regexp_replace(v_delivery.delivery_number, '-BO\d+$', '');
+
+        INSERT INTO public.deliveries (
+          delivery_number, customer_name, warehouse_id, status, notes, created_by, backorder_of_id,
+          sales_order_id
+        )
+        VALUES (
+          v_base_number || '-BO' || (
+            SELECT COUNT(*) + 1 FROM public.deliveries WHERE delivery_number LIKE v_base_number || '-BO%'
+          ),
+          v_delivery.customer_name,
+          v_delivery.warehouse_id,
+          'waiting',
+          v_delivery.notes,
+          auth.uid(),
+          p_delivery_id,
+          v_delivery.sales_order_id
+        )
+        RETURNING id INTO v_backorder_id;
+      END IF;
+
+      INSERT INTO public.delivery_lines (delivery_id, product_id, quantity, sales_order_line_id, lot_id, location_id)
+      VALUES (
+        v_backorder_id,
+        v_line.product_id,
+        v_line.quantity - v_shipped,
+        v_line.sales_order_line_id,
+        CASE WHEN (SELECT tracking FROM public.products WHERE id = v_line.product_id) = 'serial' THEN v_line.lot_id END,
+        v_line.location_id
+      );
+    END IF;
+  END LOOP;
+
+  -- The shipped stock consumed this delivery's reservation
+  DELETE FROM public.stock_reservations
+  WHERE reference_type = 'delivery' AND reference_id = p_delivery_id;
+
+  IF v_backorder_id IS NOT NULL THEN
+    PERFORM public.refresh_delivery_status(v_backorder_id);
+  END IF;
+
+  -- The delivery is closed before its lines are shipped, so the status
+  -- trigger saw nothing shipped yet
+  IF v_delivery.sales_order_id IS NOT NULL THEN
+    PERFORM public.refresh_sales_order(v_delivery.sales_order_id);
+  END IF;
+
+  RETURN v_backorder_id;
+END;
+$$;
+
+-- Reversed component movements keep their kit line
+CREATE OR REPLACE FUNCTION public.reverse_stock_movements(
+  p_reference_type TEXT,
+  p_reference_id UUID,
+  p_notes TEXT
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_movement public.stock_movements%ROWTYPE;
+BEGIN
+  FOR v_movement IN
+    SELECT * FROM public.stock_movements
+    WHERE reference_type = p_reference_type AND reference_id = p_reference_id
+    ORDER BY product_id, warehouse_id, created_at, id
+  LOOP
+    PERFORM public.apply_stock_movement(
+      v_movement.product_id,
+      v_movement.warehouse_id,
+      -v_movement.quantity,
+      v_movement.movement_type,
+      p_reference_type,
+      p_reference_id,
+      p_notes,
+      NULL,
+      v_movement.lot_id,
+      v_movement.location_id,
+      v_movement.kit_line_id
+    );
+  END LOOP;
+END;
+$$;
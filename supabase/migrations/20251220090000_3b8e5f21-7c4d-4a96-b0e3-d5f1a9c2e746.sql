@@ -0,0 +1,4 @@
+-- The movement ledger is only written by the stock functions, so clients can
+-- no longer insert rows into it directly.
+
+DROP POLICY "Users can create movements" ON public.stock_movements;
@@ -0,0 +1,110 @@
+-- Adjustments counted where no stock row existed yet now store a NULL stock
+-- version instead of 0. Validating such an adjustment fails with a stock
+-- conflict when the row has been created since the count, so the count is
+-- redone against the stock that arrived in the meantime.
+
+-- Drafts from before stock versions were recorded were never checked; pin
+-- them to the current version so they validate as before. Drafts stored as 0
+-- for a product with no stock row move to the new NULL marker.
+UPDATE public.stock_adjustments sa
+SET stock_version = sl.version
+FROM public.stock_levels sl
+WHERE sa.status = 'draft'
+  AND sa.stock_version IS NULL
+  AND sl.product_id = sa.product_id
+  AND sl.warehouse_id = sa.warehouse_id;
+
+UPDATE public.stock_adjustments sa
+SET stock_version = NULL
+WHERE sa.status = 'draft'
+  AND sa.stock_version = 0
+  AND NOT EXISTS (
+    SELECT 1 FROM public.stock_levels sl
+    WHERE sl.product_id = sa.product_id AND sl.warehouse_id = sa.warehouse_id
+  );
+
+-- A NULL stock version means the count found no stock row, so an existing row
+-- is a conflict
+CREATE OR REPLACE FUNCTION public.validate_adjustment(p_adjustment_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_adjustment public.stock_adjustments%ROWTYPE;
+  v_current DECIMAL;
+  v_expected_version INTEGER;
+  v_pick RECORD;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_adjustment FROM public.stock_adjustments WHERE id = p_adjustment_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Adjustment not found';
+  END IF;
+
+  IF v_adjustment.status = 'done' THEN
+    RAISE EXCEPTION 'Adjustment % is already done', v_adjustment.adjustment_number;
+  END IF;
+
+  INSERT INTO public.stock_levels (product_id, warehouse_id, quantity)
+  VALUES (v_adjustment.product_id, v_adjustment.warehouse_id, 0)
+  ON CONFLICT (product_id, warehouse_id) DO NOTHING;
+
+  IF v_adjustment.stock_version IS NULL AND NOT FOUND THEN
+    RAISE EXCEPTION 'Stock for product % changed while you were working',
+      (SELECT sku FROM public.products WHERE id = v_adjustment.product_id)
+      USING ERRCODE = 'serialization_failure';
+  END IF;
+
+  SELECT quantity INTO v_current
+  FROM public.stock_levels
+  WHERE product_id = v_adjustment.product_id AND warehouse_id = v_adjustment.warehouse_id
+  FOR UPDATE;
+
+  IF v_adjustment.counted_quantity >= v_current THEN
+    PERFORM public.apply_stock_movement(
+      v_adjustment.product_id,
+      v_adjustment.warehouse_id,
+      v_adjustment.counted_quantity - v_current,
+      'adjustment',
+      'adjustment',
+      p_adjustment_id,
+      v_adjustment.reason,
+      v_adjustment.stock_version
+    );
+  ELSE
+    -- Only the first movement is checked against the counted version; the
+    -- ones after it see the version that movement wrote
+    v_expected_version := v_adjustment.stock_version;
+
+    FOR v_pick IN
+      SELECT * FROM public.pick_lots(v_adjustment.product_id, v_adjustment.warehouse_id, v_current - v_adjustment.counted_quantity)
+    LOOP
+      PERFORM public.apply_stock_movement(
+        v_adjustment.product_id,
+        v_adjustment.warehouse_id,
+        -v_pick.quantity,
+        'adjustment',
+        'adjustment',
+        p_adjustment_id,
+        v_adjustment.reason,
+        v_expected_version,
+        v_pick.lot_id
+      );
+      v_expected_version := NULL;
+    END LOOP;
+  END IF;
+
+  UPDATE public.stock_adjustments
+  SET status = 'done',
+      validated_at = NOW(),
+      system_quantity = v_current,
+      difference = v_adjustment.counted_quantity - v_current
+  WHERE id = p_adjustment_id;
+END;
+$$;
@@ -0,0 +1,161 @@
+-- A receipt line can no longer be received above the quantity it expects.
+-- Extra goods from a supplier are received on a receipt of their own.
+
+-- Unchanged apart from the check on each line's received quantity
+CREATE OR REPLACE FUNCTION public.validate_receipt(
+  p_receipt_id UUID,
+  p_received JSONB DEFAULT NULL,
+  p_lots JSONB DEFAULT NULL,
+  p_lot_dates JSONB DEFAULT NULL,
+  p_locations JSONB DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_receipt public.receipts%ROWTYPE;
+  v_line public.receipt_lines%ROWTYPE;
+  v_received DECIMAL;
+  v_lot_number TEXT;
+  v_lot_id UUID;
+  v_tracking TEXT;
+  v_serial TEXT;
+  v_expiration_date DATE;
+  v_best_before_date DATE;
+  v_location_id UUID;
+  v_base_number TEXT;
+  v_backorder_id UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_receipt FROM public.receipts WHERE id = p_receipt_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Receipt not found';
+  END IF;
+
+  IF v_receipt.status IN ('done', 'canceled') THEN
+    RAISE EXCEPTION 'Receipt % is already %', v_receipt.receipt_number, v_receipt.status;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.receipt_lines WHERE receipt_id = p_receipt_id) THEN
+    RAISE EXCEPTION 'Cannot validate receipt without products';
+  END IF;
+
+  FOR v_line IN
+    SELECT * FROM public.receipt_lines WHERE receipt_id = p_receipt_id ORDER BY product_id
+  LOOP
+    v_received := COALESCE((p_received ->> v_line.id::TEXT)::DECIMAL, v_line.quantity);
+
+    IF v_received < 0 THEN
+      RAISE EXCEPTION 'Received quantity cannot be negative';
+    END IF;
+
+    IF v_received > v_line.quantity THEN
+      RAISE EXCEPTION 'Cannot receive % of product %, only % expected',
+        v_received,
+        (SELECT sku FROM public.products WHERE id = v_line.product_id),
+        v_line.quantity;
+    END IF;
+
+    v_lot_id := NULL;
+    SELECT tracking INTO v_tracking FROM public.products WHERE id = v_line.product_id;
+    v_expiration_date := NULLIF(p_lot_dates -> v_line.id::TEXT ->> 'expiration_date', '')::DATE;
+    v_best_before_date := NULLIF(p_lot_dates -> v_line.id::TEXT ->> 'best_before_date', '')::DATE;
+    v_location_id := COALESCE(NULLIF(p_locations ->> v_line.id::TEXT, '')::UUID, v_line.location_id);
+
+    IF v_received > 0 AND v_tracking = 'lot' THEN
+      v_lot_number := NULLIF(TRIM(p_lots ->> v_line.id::TEXT), '');
+
+      IF v_lot_number IS NULL THEN
+        RAISE EXCEPTION 'A lot number is required for product %',
+          (SELECT sku FROM public.products WHERE id = v_line.product_id);
+      END IF;
+
+      INSERT INTO public.lots (product_id, lot_number, expiration_date, best_before_date)
+      VALUES (v_line.product_id, v_lot_number, v_expiration_date, v_best_before_date)
+      ON CONFLICT (product_id, lot_number) DO UPDATE
+      SET expiration_date = COALESCE(EXCLUDED.expiration_date, lots.expiration_date),
+          best_before_date = COALESCE(EXCLUDED.best_before_date, lots.best_before_date)
+      RETURNING id INTO v_lot_id;
+    END IF;
+
+    UPDATE public.receipt_lines
+    SET received_quantity = v_received, lot_id = v_lot_id, location_id = v_location_id
+    WHERE id = v_line.id;
+
+    IF v_received > 0 AND v_tracking = 'serial' THEN
+      IF jsonb_typeof(p_lots -> v_line.id::TEXT) IS DISTINCT FROM 'array'
+        OR jsonb_array_length(p_lots -> v_line.id::TEXT) <> v_received
+        OR (SELECT COUNT(DISTINCT TRIM(s)) FROM jsonb_array_elements_text(p_lots -> v_line.id::TEXT) s
+            WHERE TRIM(s) <> '') <> v_received THEN
+        RAISE EXCEPTION 'Enter % different serial numbers for product %',
+          v_received,
+          (SELECT sku FROM public.products WHERE id = v_line.product_id);
+      END IF;
+
+      FOR v_serial IN SELECT TRIM(s) FROM jsonb_array_elements_text(p_lots -> v_line.id::TEXT) s LOOP
+        INSERT INTO public.lots (product_id, lot_number, expiration_date, best_before_date)
+        VALUES (v_line.product_id, v_serial, v_expiration_date, v_best_before_date)
+        ON CONFLICT (product_id, lot_number) DO UPDATE
+        SET expiration_date = COALESCE(EXCLUDED.expiration_date, lots.expiration_date),
+            best_before_date = COALESCE(EXCLUDED.best_before_date, lots.best_before_date)
+        RETURNING id INTO v_lot_id;
+
+        PERFORM public.apply_stock_movement(
+          v_line.product_id, v_receipt.warehouse_id, 1, 'receipt', 'receipt', p_receipt_id,
+          NULL, NULL, v_lot_id, v_location_id
+        );
+      END LOOP;
+    ELSIF v_received > 0 THEN
+      PERFORM public.apply_stock_movement(
+        v_line.product_id, v_receipt.warehouse_id, v_received, 'receipt', 'receipt', p_receipt_id,
+        NULL, NULL, v_lot_id, v_location_id
+      );
+    END IF;
+
+    IF v_received < v_line.quantity THEN
+      IF v_backorder_id IS NULL THEN
+        v_base_number := regexp_replace(v_receipt.receipt_number, '-BO\d+$', '');
+
+        INSERT INTO public.receipts (
+          receipt_number, supplier_name, warehouse_id, status, notes, created_by, backorder_of_id,
+          purchase_order_id
+        )
+        VALUES (
+          v_base_number || '-BO' || (
+            SELECT COUNT(*) + 1 FROM public.receipts WHERE receipt_number LIKE v_base_number || '-BO%'
+          ),
+          v_receipt.supplier_name,
+          v_receipt.warehouse_id,
+          'waiting',
+          v_receipt.notes,
+          auth.uid(),
+          p_receipt_id,
+          v_receipt.purchase_order_id
+        )
+        RETURNING id INTO v_backorder_id;
+      END IF;
+
+      INSERT INTO public.receipt_lines (receipt_id, product_id, quantity, purchase_order_line_id, location_id)
+      VALUES (
+        v_backorder_id,
+        v_line.product_id,
+        v_line.quantity - v_received,
+        v_line.purchase_order_line_id,
+        v_location_id
+      );
+    END IF;
+  END LOOP;
+
+  UPDATE public.receipts
+  SET status = 'done', validated_at = NOW()
+  WHERE id = p_receipt_id;
+
+  RETURN v_backorder_id;
+END;
+$$;
@@ -0,0 +1,6 @@
+-- The reservation refresh helpers are only called from the stock functions,
+-- so clients can no longer call them directly.
+
+REVOKE EXECUTE ON FUNCTION public.refresh_delivery_status(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.refresh_transfer_status(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.refresh_documents_for_stock(UUID, UUID) FROM PUBLIC, anon, authenticated;
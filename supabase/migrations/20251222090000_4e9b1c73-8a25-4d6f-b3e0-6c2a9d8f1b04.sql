@@ -0,0 +1,116 @@
+-- Purchase order cancellation.
+-- A purchase order can now be canceled with a reason, which also cancels the
+-- receipts still expected for it. Canceling a receipt of a confirmed order
+-- refreshes the order too: once no receipt is left open, an order that never
+-- received anything is canceled and one that received part of its lines is
+-- closed as done.
+
+ALTER TABLE public.purchase_orders
+  DROP CONSTRAINT purchase_orders_status_check,
+  ADD CONSTRAINT purchase_orders_status_check CHECK (status IN ('draft', 'confirmed', 'done', 'canceled')),
+  ADD COLUMN cancel_reason TEXT,
+  ADD COLUMN canceled_at TIMESTAMPTZ;
+
+-- Cancel a draft or confirmed purchase order and its open receipts, recording why
+CREATE OR REPLACE FUNCTION public.cancel_purchase_order(p_purchase_order_id UUID, p_reason TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order public.purchase_orders%ROWTYPE;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF COALESCE(TRIM(p_reason), '') = '' THEN
+    RAISE EXCEPTION 'A cancellation reason is required';
+  END IF;
+
+  SELECT * INTO v_order FROM public.purchase_orders WHERE id = p_purchase_order_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Purchase order not found';
+  END IF;
+
+  IF v_order.status IN ('done', 'canceled') THEN
+    RAISE EXCEPTION 'Purchase order % is already %', v_order.po_number, v_order.status;
+  END IF;
+
+  UPDATE public.purchase_orders
+  SET status = 'canceled', cancel_reason = TRIM(p_reason), canceled_at = NOW()
+  WHERE id = p_purchase_order_id;
+
+  UPDATE public.receipts
+  SET status = 'canceled', cancel_reason = TRIM(p_reason), canceled_at = NOW()
+  WHERE purchase_order_id = p_purchase_order_id AND status NOT IN ('done', 'canceled');
+END;
+$$;
+
+-- An order with nothing left to receive and no open receipt is closed
+CREATE OR REPLACE FUNCTION public.refresh_purchase_order(p_purchase_order_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.purchase_order_lines pol
+  SET received_quantity = COALESCE((
+    SELECT SUM(COALESCE(rl.received_quantity, 0))
+    FROM public.receipt_lines rl
+    JOIN public.receipts r ON r.id = rl.receipt_id
+    WHERE rl.purchase_order_line_id = pol.id
+      AND r.status = 'done'
+      AND NOT EXISTS (SELECT 1 FROM public.receipts rev WHERE rev.reversal_of_id = r.id)
+  ), 0)
+  WHERE pol.purchase_order_id = p_purchase_order_id;
+
+  UPDATE public.purchase_orders po
+  SET status = CASE
+    WHEN NOT EXISTS (
+      SELECT 1 FROM public.purchase_order_lines pol
+      WHERE pol.purchase_order_id = po.id AND pol.received_quantity < pol.quantity
+    ) THEN 'done'
+    WHEN EXISTS (
+      SELECT 1 FROM public.receipts r
+      WHERE r.purchase_order_id = po.id AND r.status NOT IN ('done', 'canceled')
+    ) THEN 'confirmed'
+    WHEN EXISTS (
+      SELECT 1 FROM public.purchase_order_lines pol
+      WHERE pol.purchase_order_id = po.id AND pol.received_quantity > 0
+    ) THEN 'done'
+    ELSE 'canceled'
+  END
+  WHERE po.id = p_purchase_order_id AND po.status NOT IN ('draft', 'canceled');
+END;
+$$;
+
+-- Canceled receipts refresh their purchase order as well
+CREATE OR REPLACE FUNCTION public.refresh_receipt_purchase_order()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_purchase_order_id UUID;
+BEGIN
+  IF NEW.status NOT IN ('done', 'canceled') THEN
+    RETURN NEW;
+  END IF;
+
+  v_purchase_order_id := COALESCE(
+    NEW.purchase_order_id,
+    (SELECT purchase_order_id FROM public.receipts WHERE id = NEW.reversal_of_id)
+  );
+
+  IF v_purchase_order_id IS NOT NULL THEN
+    PERFORM public.refresh_purchase_order(v_purchase_order_id);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,132 @@
+-- Sales order cancellation.
+-- A sales order can now be canceled with a reason, which also cancels its
+-- open deliveries and releases their reservations. Canceling a delivery of a
+-- confirmed order refreshes the order too: once no delivery is left open, an
+-- order that shipped nothing is canceled and one that shipped part of its
+-- lines is closed as done.
+
+ALTER TABLE public.sales_orders
+  DROP CONSTRAINT sales_orders_status_check,
+  ADD CONSTRAINT sales_orders_status_check CHECK (status IN ('draft', 'confirmed', 'done', 'canceled')),
+  ADD COLUMN cancel_reason TEXT,
+  ADD COLUMN canceled_at TIMESTAMPTZ;
+
+-- Cancel a draft or confirmed sales order and its open deliveries, recording why
+CREATE OR REPLACE FUNCTION public.cancel_sales_order(p_sales_order_id UUID, p_reason TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order public.sales_orders%ROWTYPE;
+  v_delivery_id UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF COALESCE(TRIM(p_reason), '') = '' THEN
+    RAISE EXCEPTION 'A cancellation reason is required';
+  END IF;
+
+  SELECT * INTO v_order FROM public.sales_orders WHERE id = p_sales_order_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Sales order not found';
+  END IF;
+
+  IF v_order.status IN ('done', 'canceled') THEN
+    RAISE EXCEPTION 'Sales order % is already %', v_order.so_number, v_order.status;
+  END IF;
+
+  UPDATE public.sales_orders
+  SET status = 'canceled', cancel_reason = TRIM(p_reason), canceled_at = NOW()
+  WHERE id = p_sales_order_id;
+
+  FOR v_delivery_id IN
+    SELECT id FROM public.deliveries
+    WHERE sales_order_id = p_sales_order_id AND status NOT IN ('done', 'canceled')
+    ORDER BY delivery_number
+    FOR UPDATE
+  LOOP
+    UPDATE public.deliveries
+    SET status = 'canceled', cancel_reason = TRIM(p_reason), canceled_at = NOW()
+    WHERE id = v_delivery_id;
+
+    PERFORM public.release_reservations('delivery', v_delivery_id);
+  END LOOP;
+END;
+$$;
+
+-- An order with nothing left to ship and no open delivery is closed. Only an
+-- order canceled by cancel_sales_order keeps its status: validate_delivery
+-- closes a delivery before recording what it shipped, so a status worked out
+-- in between is recomputed once it has.
+CREATE OR REPLACE FUNCTION public.refresh_sales_order(p_sales_order_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.sales_order_lines sol
+  SET shipped_quantity = COALESCE((
+    SELECT SUM(COALESCE(dl.delivered_quantity, 0))
+    FROM public.delivery_lines dl
+    JOIN public.deliveries d ON d.id = dl.delivery_id
+    WHERE dl.sales_order_line_id = sol.id
+      AND d.status = 'done'
+      AND NOT EXISTS (SELECT 1 FROM public.deliveries rev WHERE rev.reversal_of_id = d.id)
+  ), 0)
+  WHERE sol.sales_order_id = p_sales_order_id;
+
+  UPDATE public.sales_orders so
+  SET fulfillment_status = f.fulfillment_status,
+      status = CASE WHEN so.status = 'draft' OR so.canceled_at IS NOT NULL THEN so.status
+                    WHEN f.fulfillment_status = 'shipped' THEN 'done'
+                    WHEN EXISTS (
+                      SELECT 1 FROM public.deliveries d
+                      WHERE d.sales_order_id = so.id AND d.status NOT IN ('done', 'canceled')
+                    ) THEN 'confirmed'
+                    WHEN f.fulfillment_status = 'partial' THEN 'done'
+                    ELSE 'canceled' END
+  FROM (
+    SELECT CASE
+      WHEN bool_and(shipped_quantity >= quantity) THEN 'shipped'
+      WHEN bool_or(shipped_quantity > 0) THEN 'partial'
+      ELSE 'not_shipped'
+    END AS fulfillment_status
+    FROM public.sales_order_lines
+    WHERE sales_order_id = p_sales_order_id
+  ) f
+  WHERE so.id = p_sales_order_id;
+END;
+$$;
+
+-- Canceled deliveries refresh their sales order as well
+CREATE OR REPLACE FUNCTION public.refresh_delivery_sales_order()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_sales_order_id UUID;
+BEGIN
+  IF NEW.status NOT IN ('done', 'canceled') THEN
+    RETURN NEW;
+  END IF;
+
+  v_sales_order_id := COALESCE(
+    NEW.sales_order_id,
+    (SELECT sales_order_id FROM public.deliveries WHERE id = NEW.reversal_of_id)
+  );
+
+  IF v_sales_order_id IS NOT NULL THEN
+    PERFORM public.refresh_sales_order(v_sales_order_id);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,75 @@
+-- Replenishment proposals are turned into purchase orders by one function, so
+-- either every order of a run is created or none is.
+
+-- Create draft purchase orders from confirmed replenishment proposals, one per
+-- supplier and warehouse. p_proposals is a list of {rule_id, partner_id,
+-- quantity}; a missing partner falls back to the rule's supplier. Returns how
+-- many orders were created.
+CREATE OR REPLACE FUNCTION public.create_purchase_orders_from_proposals(p_proposals JSONB)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_batch TEXT := (EXTRACT(EPOCH FROM clock_timestamp()) * 1000)::BIGINT::TEXT;
+  v_group RECORD;
+  v_order_id UUID;
+  v_count INTEGER := 0;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF jsonb_typeof(p_proposals) IS DISTINCT FROM 'array' OR jsonb_array_length(p_proposals) = 0 THEN
+    RAISE EXCEPTION 'Enter a quantity for at least one proposal';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM jsonb_array_elements(p_proposals) e
+    LEFT JOIN public.reorder_rules r ON r.id = (e ->> 'rule_id')::UUID
+    WHERE r.id IS NULL
+  ) THEN
+    RAISE EXCEPTION 'Reorder rule not found';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_array_elements(p_proposals) e
+    WHERE COALESCE((e ->> 'quantity')::DECIMAL, 0) <= 0
+  ) THEN
+    RAISE EXCEPTION 'Proposal quantities must be positive';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM jsonb_array_elements(p_proposals) e
+    JOIN public.reorder_rules r ON r.id = (e ->> 'rule_id')::UUID
+    WHERE COALESCE(NULLIF(e ->> 'partner_id', '')::UUID, r.partner_id) IS NULL
+  ) THEN
+    RAISE EXCEPTION 'Choose a supplier for every proposal';
+  END IF;
+
+  FOR v_group IN
+    SELECT DISTINCT COALESCE(NULLIF(e ->> 'partner_id', '')::UUID, r.partner_id) AS partner_id, r.warehouse_id
+    FROM jsonb_array_elements(p_proposals) e
+    JOIN public.reorder_rules r ON r.id = (e ->> 'rule_id')::UUID
+    ORDER BY 1, 2
+  LOOP
+    v_count := v_count + 1;
+
+    INSERT INTO public.purchase_orders (po_number, partner_id, warehouse_id, notes, created_by, status)
+    VALUES ('PO-' || v_batch || '-' || v_count, v_group.partner_id, v_group.warehouse_id, 'Replenishment', auth.uid(), 'draft')
+    RETURNING id INTO v_order_id;
+
+    INSERT INTO public.purchase_order_lines (purchase_order_id, product_id, quantity)
+    SELECT v_order_id, r.product_id, (e ->> 'quantity')::DECIMAL
+    FROM jsonb_array_elements(p_proposals) e
+    JOIN public.reorder_rules r ON r.id = (e ->> 'rule_id')::UUID
+    WHERE COALESCE(NULLIF(e ->> 'partner_id', '')::UUID, r.partner_id) = v_group.partner_id
+      AND r.warehouse_id = v_group.warehouse_id;
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$;
@@ -0,0 +1,63 @@
+-- Archiving a warehouse no longer trips over canceled purchase and sales
+-- orders, or over confirmed ones whose receipts and deliveries are all closed.
+
+-- Confirmed orders only count while a document they generated is still open
+CREATE OR REPLACE FUNCTION public.check_warehouse_update()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM public.locations
+    WHERE id IN (NEW.default_receipt_location_id, NEW.default_delivery_location_id)
+      AND warehouse_id <> NEW.id
+  ) THEN
+    RAISE EXCEPTION 'Default locations of warehouse % must be inside it', NEW.code;
+  END IF;
+
+  IF OLD.active AND NOT NEW.active THEN
+    IF EXISTS (SELECT 1 FROM public.stock_levels WHERE warehouse_id = NEW.id AND quantity <> 0) THEN
+      RAISE EXCEPTION 'Warehouse % still holds stock', NEW.code;
+    END IF;
+
+    IF EXISTS (SELECT 1 FROM public.receipts WHERE warehouse_id = NEW.id AND status NOT IN ('done', 'canceled'))
+      OR EXISTS (SELECT 1 FROM public.deliveries WHERE warehouse_id = NEW.id AND status NOT IN ('done', 'canceled'))
+      OR EXISTS (
+        SELECT 1 FROM public.internal_transfers
+        WHERE NEW.id IN (source_warehouse_id, destination_warehouse_id) AND status NOT IN ('done', 'canceled')
+      )
+      OR EXISTS (SELECT 1 FROM public.stock_adjustments WHERE warehouse_id = NEW.id AND status <> 'done')
+      OR EXISTS (SELECT 1 FROM public.customer_returns WHERE warehouse_id = NEW.id AND status <> 'done')
+      OR EXISTS (SELECT 1 FROM public.supplier_returns WHERE warehouse_id = NEW.id AND status <> 'done')
+      OR EXISTS (
+        SELECT 1 FROM public.purchase_orders po
+        WHERE po.warehouse_id = NEW.id
+          AND (
+            po.status = 'draft'
+            OR (po.status = 'confirmed' AND EXISTS (
+              SELECT 1 FROM public.receipts r
+              WHERE r.purchase_order_id = po.id AND r.status NOT IN ('done', 'canceled')
+            ))
+          )
+      )
+      OR EXISTS (
+        SELECT 1 FROM public.sales_order_lines l
+        JOIN public.sales_orders so ON so.id = l.sales_order_id
+        WHERE COALESCE(l.warehouse_id, so.warehouse_id) = NEW.id
+          AND (
+            so.status = 'draft'
+            OR (so.status = 'confirmed' AND EXISTS (
+              SELECT 1 FROM public.deliveries d
+              WHERE d.sales_order_id = so.id AND d.warehouse_id = NEW.id AND d.status NOT IN ('done', 'canceled')
+            ))
+          )
+      ) THEN
+      RAISE EXCEPTION 'Warehouse % has open documents', NEW.code;
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
@@ -0,0 +1,70 @@
+-- Transfers lock the stock rows of both warehouses up front, in one fixed
+-- order. Locking source then destination line by line let two transfers of
+-- the same product in opposite directions deadlock.
+
+-- Unchanged apart from the stock rows being locked before any line moves
+CREATE OR REPLACE FUNCTION public.validate_transfer(p_transfer_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_transfer public.internal_transfers%ROWTYPE;
+  v_line public.transfer_lines%ROWTYPE;
+  v_pick RECORD;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_transfer FROM public.internal_transfers WHERE id = p_transfer_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Transfer not found';
+  END IF;
+
+  IF v_transfer.status IN ('done', 'canceled') THEN
+    RAISE EXCEPTION 'Transfer % is already %', v_transfer.transfer_number, v_transfer.status;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.transfer_lines WHERE transfer_id = p_transfer_id) THEN
+    RAISE EXCEPTION 'Cannot validate transfer without products';
+  END IF;
+
+  -- Lock every stock row this transfer touches, in the same order whichever
+  -- way it runs
+  PERFORM 1
+  FROM public.stock_levels
+  WHERE warehouse_id IN (v_transfer.source_warehouse_id, v_transfer.destination_warehouse_id)
+    AND product_id IN (SELECT l.product_id FROM public.transfer_lines l WHERE l.transfer_id = p_transfer_id)
+  ORDER BY product_id, warehouse_id
+  FOR UPDATE;
+
+  -- Close the transfer first so stock changes below do not re-reserve it
+  UPDATE public.internal_transfers
+  SET status = 'done', validated_at = NOW()
+  WHERE id = p_transfer_id;
+
+  FOR v_line IN
+    SELECT * FROM public.transfer_lines WHERE transfer_id = p_transfer_id ORDER BY product_id
+  LOOP
+    FOR v_pick IN
+      SELECT * FROM public.pick_lots(v_line.product_id, v_transfer.source_warehouse_id, v_line.quantity)
+    LOOP
+      PERFORM public.apply_stock_movement(
+        v_line.product_id, v_transfer.source_warehouse_id, -v_pick.quantity, 'transfer_out', 'transfer', p_transfer_id,
+        NULL, NULL, v_pick.lot_id, v_transfer.source_location_id
+      );
+      PERFORM public.apply_stock_movement(
+        v_line.product_id, v_transfer.destination_warehouse_id, v_pick.quantity, 'transfer_in', 'transfer', p_transfer_id,
+        NULL, NULL, v_pick.lot_id, v_transfer.destination_location_id
+      );
+    END LOOP;
+  END LOOP;
+
+  -- The moved stock consumed this transfer's reservation
+  DELETE FROM public.stock_reservations
+  WHERE reference_type = 'transfer' AND reference_id = p_transfer_id;
+END;
+$$;
@@ -0,0 +1,131 @@
+-- Customer returns are checked against the delivery they come from: every
+-- line must be for the product its delivery line shipped, and the return must
+-- restock into the delivery's warehouse. Lines of a done return can no longer
+-- be added or removed.
+
+-- Lines can only change while their return is a draft
+CREATE OR REPLACE FUNCTION public.check_customer_return_line()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_return public.customer_returns%ROWTYPE;
+BEGIN
+  SELECT * INTO v_return
+  FROM public.customer_returns
+  WHERE id = CASE WHEN TG_OP = 'DELETE' THEN OLD.return_id ELSE NEW.return_id END;
+
+  IF v_return.status = 'done' THEN
+    RAISE EXCEPTION 'Return % is already done', v_return.return_number;
+  END IF;
+
+  RETURN CASE WHEN TG_OP = 'DELETE' THEN OLD ELSE NEW END;
+END;
+$$;
+
+CREATE TRIGGER check_customer_return_lines BEFORE INSERT OR UPDATE OR DELETE ON public.customer_return_lines
+  FOR EACH ROW EXECUTE FUNCTION public.check_customer_return_line();
+
+-- Products and warehouse come from the delivery, not from the return
+CREATE OR REPLACE FUNCTION public.validate_customer_return(p_return_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_return public.customer_returns%ROWTYPE;
+  v_delivery public.deliveries%ROWTYPE;
+  v_delivery_line public.delivery_lines%ROWTYPE;
+  v_line public.customer_return_lines%ROWTYPE;
+  v_requested RECORD;
+  v_returned DECIMAL;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_return FROM public.customer_returns WHERE id = p_return_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Return not found';
+  END IF;
+
+  IF v_return.status = 'done' THEN
+    RAISE EXCEPTION 'Return % is already done', v_return.return_number;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.customer_return_lines WHERE return_id = p_return_id) THEN
+    RAISE EXCEPTION 'Cannot validate return without products';
+  END IF;
+
+  -- Lock the delivery so concurrent returns against it are checked one at a time
+  SELECT * INTO v_delivery FROM public.deliveries WHERE id = v_return.delivery_id FOR UPDATE;
+
+  IF v_delivery.status <> 'done' THEN
+    RAISE EXCEPTION 'Delivery % has not been shipped', v_delivery.delivery_number;
+  END IF;
+
+  IF v_delivery.reversal_of_id IS NOT NULL
+    OR EXISTS (SELECT 1 FROM public.deliveries WHERE reversal_of_id = v_delivery.id) THEN
+    RAISE EXCEPTION 'Delivery % has been reversed', v_delivery.delivery_number;
+  END IF;
+
+  IF v_return.warehouse_id <> v_delivery.warehouse_id THEN
+    RAISE EXCEPTION 'Return % must go back into the warehouse of delivery %',
+      v_return.return_number, v_delivery.delivery_number;
+  END IF;
+
+  FOR v_requested IN
+    SELECT delivery_line_id, SUM(quantity) AS quantity
+    FROM public.customer_return_lines
+    WHERE return_id = p_return_id
+    GROUP BY delivery_line_id
+  LOOP
+    SELECT * INTO v_delivery_line
+    FROM public.delivery_lines
+    WHERE id = v_requested.delivery_line_id AND delivery_id = v_delivery.id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Return lines must come from delivery %', v_delivery.delivery_number;
+    END IF;
+
+    IF EXISTS (
+      SELECT 1 FROM public.customer_return_lines
+      WHERE return_id = p_return_id
+        AND delivery_line_id = v_delivery_line.id
+        AND product_id <> v_delivery_line.product_id
+    ) THEN
+      RAISE EXCEPTION 'Return lines must be for the product delivery % shipped', v_delivery.delivery_number;
+    END IF;
+
+    SELECT COALESCE(SUM(l.quantity), 0) INTO v_returned
+    FROM public.customer_return_lines l
+    JOIN public.customer_returns r ON r.id = l.return_id
+    WHERE l.delivery_line_id = v_delivery_line.id AND r.status = 'done';
+
+    IF v_returned + v_requested.quantity > COALESCE(v_delivery_line.delivered_quantity, v_delivery_line.quantity) THEN
+      RAISE EXCEPTION 'Cannot return more of product % than was shipped (shipped %, already returned %)',
+        (SELECT sku FROM public.products WHERE id = v_delivery_line.product_id),
+        COALESCE(v_delivery_line.delivered_quantity, v_delivery_line.quantity),
+        v_returned;
+    END IF;
+  END LOOP;
+
+  FOR v_line IN
+    SELECT * FROM public.customer_return_lines
+    WHERE return_id = p_return_id AND disposition = 'restock'
+    ORDER BY product_id
+  LOOP
+    PERFORM public.apply_stock_movement(
+      v_line.product_id, v_delivery.warehouse_id, v_line.quantity, 'return_in', 'customer_return', p_return_id,
+      v_line.reason, NULL, public.delivered_lot(v_line.delivery_line_id)
+    );
+  END LOOP;
+
+  UPDATE public.customer_returns
+  SET status = 'done', validated_at = NOW()
+  WHERE id = p_return_id;
+END;
+$$;
@@ -0,0 +1,161 @@
+-- Supplier returns are checked against the receipt they come from: every
+-- line must be for the product its receipt line received, and stock leaves
+-- the receipt's warehouse. Lines of a done return can no longer be added or
+-- removed.
+
+-- Lines can only change while their return is a draft
+CREATE OR REPLACE FUNCTION public.check_supplier_return_line()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_return public.supplier_returns%ROWTYPE;
+BEGIN
+  SELECT * INTO v_return
+  FROM public.supplier_returns
+  WHERE id = CASE WHEN TG_OP = 'DELETE' THEN OLD.return_id ELSE NEW.return_id END;
+
+  IF v_return.status = 'done' THEN
+    RAISE EXCEPTION 'Return % is already done', v_return.return_number;
+  END IF;
+
+  RETURN CASE WHEN TG_OP = 'DELETE' THEN OLD ELSE NEW END;
+END;
+$$;
+
+CREATE TRIGGER check_supplier_return_lines BEFORE INSERT OR UPDATE OR DELETE ON public.supplier_return_lines
+  FOR EACH ROW EXECUTE FUNCTION public.check_supplier_return_line();
+
+-- Products and warehouse come from the receipt, not from the return
+CREATE OR REPLACE FUNCTION public.validate_supplier_return(p_return_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_return public.supplier_returns%ROWTYPE;
+  v_receipt public.receipts%ROWTYPE;
+  v_receipt_line public.receipt_lines%ROWTYPE;
+  v_line public.supplier_return_lines%ROWTYPE;
+  v_requested RECORD;
+  v_returned DECIMAL;
+  v_serials UUID[];
+  v_serial UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_return FROM public.supplier_returns WHERE id = p_return_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Return not found';
+  END IF;
+
+  IF v_return.status = 'done' THEN
+    RAISE EXCEPTION 'Return % is already done', v_return.return_number;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.supplier_return_lines WHERE return_id = p_return_id) THEN
+    RAISE EXCEPTION 'Cannot validate return without products';
+  END IF;
+
+  -- Lock the receipt so concurrent returns against it are checked one at a time
+  SELECT * INTO v_receipt FROM public.receipts WHERE id = v_return.receipt_id FOR UPDATE;
+
+  IF v_receipt.status <> 'done' THEN
+    RAISE EXCEPTION 'Receipt % has not been received', v_receipt.receipt_number;
+  END IF;
+
+  IF v_receipt.reversal_of_id IS NOT NULL
+    OR EXISTS (SELECT 1 FROM public.receipts WHERE reversal_of_id = v_receipt.id) THEN
+    RAISE EXCEPTION 'Receipt % has been reversed', v_receipt.receipt_number;
+  END IF;
+
+  IF v_return.warehouse_id <> v_receipt.warehouse_id THEN
+    RAISE EXCEPTION 'Return % must leave from the warehouse of receipt %',
+      v_return.return_number, v_receipt.receipt_number;
+  END IF;
+
+  FOR v_requested IN
+    SELECT receipt_line_id, SUM(quantity) AS quantity
+    FROM public.supplier_return_lines
+    WHERE return_id = p_return_id
+    GROUP BY receipt_line_id
+  LOOP
+    SELECT * INTO v_receipt_line
+    FROM public.receipt_lines
+    WHERE id = v_requested.receipt_line_id AND receipt_id = v_receipt.id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Return lines must come from receipt %', v_receipt.receipt_number;
+    END IF;
+
+    IF EXISTS (
+      SELECT 1 FROM public.supplier_return_lines
+      WHERE return_id = p_return_id
+        AND receipt_line_id = v_receipt_line.id
+        AND product_id <> v_receipt_line.product_id
+    ) THEN
+      RAISE EXCEPTION 'Return lines must be for the product receipt % received', v_receipt.receipt_number;
+    END IF;
+
+    SELECT COALESCE(SUM(l.quantity), 0) INTO v_returned
+    FROM public.supplier_return_lines l
+    JOIN public.supplier_returns r ON r.id = l.return_id
+    WHERE l.receipt_line_id = v_receipt_line.id AND r.status = 'done';
+
+    IF v_returned + v_requested.quantity > COALESCE(v_receipt_line.received_quantity, v_receipt_line.quantity) THEN
+      RAISE EXCEPTION 'Cannot return more of product % than was received (received %, already returned %)',
+        (SELECT sku FROM public.products WHERE id = v_receipt_line.product_id),
+        COALESCE(v_receipt_line.received_quantity, v_receipt_line.quantity),
+        v_returned;
+    END IF;
+  END LOOP;
+
+  FOR v_line IN
+    SELECT * FROM public.supplier_return_lines WHERE return_id = p_return_id ORDER BY product_id
+  LOOP
+    IF (SELECT tracking FROM public.products WHERE id = v_line.product_id) = 'serial' THEN
+      -- Serials received on this receipt that are still in the warehouse
+      v_serials := ARRAY(
+        SELECT m.lot_id
+        FROM public.stock_movements m
+        JOIN public.stock_lot_levels ll ON ll.lot_id = m.lot_id AND ll.warehouse_id = v_receipt.warehouse_id
+        WHERE m.reference_type = 'receipt'
+          AND m.reference_id = v_receipt.id
+          AND m.product_id = v_line.product_id
+          AND m.quantity > 0
+          AND ll.quantity > 0
+        ORDER BY m.created_at, m.id
+        LIMIT v_line.quantity
+      );
+
+      IF COALESCE(array_length(v_serials, 1), 0) < v_line.quantity THEN
+        RAISE EXCEPTION 'Only % serials of product % from receipt % are still in stock',
+          COALESCE(array_length(v_serials, 1), 0),
+          (SELECT sku FROM public.products WHERE id = v_line.product_id),
+          v_receipt.receipt_number;
+      END IF;
+
+      FOREACH v_serial IN ARRAY v_serials LOOP
+        PERFORM public.apply_stock_movement(
+          v_line.product_id, v_receipt.warehouse_id, -1, 'return_out', 'supplier_return', p_return_id,
+          NULL, NULL, v_serial
+        );
+      END LOOP;
+    ELSE
+      PERFORM public.apply_stock_movement(
+        v_line.product_id, v_receipt.warehouse_id, -v_line.quantity, 'return_out', 'supplier_return', p_return_id,
+        NULL, NULL, (SELECT lot_id FROM public.receipt_lines WHERE id = v_line.receipt_line_id)
+      );
+    END IF;
+  END LOOP;
+
+  UPDATE public.supplier_returns
+  SET status = 'done', validated_at = NOW()
+  WHERE id = p_return_id;
+END;
+$$;
@@ -0,0 +1,51 @@
+-- Sales orders are only canceled by cancel_sales_order.
+-- Refreshing an order that shipped nothing and has no open delivery left, for
+-- example after its only delivery was reversed or canceled, used to cancel it.
+-- Such an order now stays confirmed, or goes back to confirmed, so it can be
+-- shipped again.
+
+-- An order with nothing left to ship and no open delivery is closed, and one
+-- that shipped nothing is confirmed. Only an order canceled by
+-- cancel_sales_order keeps its status: validate_delivery closes a delivery
+-- before recording what it shipped, so a status worked out in between is
+-- recomputed once it has.
+CREATE OR REPLACE FUNCTION public.refresh_sales_order(p_sales_order_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.sales_order_lines sol
+  SET shipped_quantity = COALESCE((
+    SELECT SUM(COALESCE(dl.delivered_quantity, 0))
+    FROM public.delivery_lines dl
+    JOIN public.deliveries d ON d.id = dl.delivery_id
+    WHERE dl.sales_order_line_id = sol.id
+      AND d.status = 'done'
+      AND NOT EXISTS (SELECT 1 FROM public.deliveries rev WHERE rev.reversal_of_id = d.id)
+  ), 0)
+  WHERE sol.sales_order_id = p_sales_order_id;
+
+  UPDATE public.sales_orders so
+  SET fulfillment_status = f.fulfillment_status,
+      status = CASE WHEN so.status = 'draft' OR so.canceled_at IS NOT NULL THEN so.status
+                    WHEN f.fulfillment_status = 'shipped' THEN 'done'
+                    WHEN EXISTS (
+                      SELECT 1 FROM public.deliveries d
+                      WHERE d.sales_order_id = so.id AND d.status NOT IN ('done', 'canceled')
+                    ) THEN 'confirmed'
+                    WHEN f.fulfillment_status = 'partial' THEN 'done'
+                    ELSE 'confirmed' END
+  FROM (
+    SELECT CASE
+      WHEN bool_and(shipped_quantity >= quantity) THEN 'shipped'
+      WHEN bool_or(shipped_quantity > 0) THEN 'partial'
+      ELSE 'not_shipped'
+    END AS fulfillment_status
+    FROM public.sales_order_lines
+    WHERE sales_order_id = p_sales_order_id
+  ) f
+  WHERE so.id = p_sales_order_id;
+END;
+$$;
@@ -0,0 +1,88 @@
+-- Replenishment demand for kits.
+-- A kit holds no stock, so the demand it adds falls on its components: draft
+-- sales order lines for a kit count against each component, sized for the
+-- kits ordered, and kit delivery lines are left out since their component
+-- lines already count.
+
+-- Kit demand is counted against the components the kits are made of
+CREATE OR REPLACE FUNCTION public.replenishment_proposals()
+RETURNS TABLE (
+  rule_id UUID,
+  product_id UUID,
+  warehouse_id UUID,
+  partner_id UUID,
+  on_hand DECIMAL,
+  incoming DECIMAL,
+  outgoing DECIMAL,
+  forecast_quantity DECIMAL,
+  min_quantity DECIMAL,
+  max_quantity DECIMAL,
+  proposed_quantity DECIMAL
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH moves AS (
+    SELECT l.product_id, r.warehouse_id, l.quantity AS incoming, 0 AS outgoing
+    FROM public.receipt_lines l
+    JOIN public.receipts r ON r.id = l.receipt_id
+    WHERE r.status IN ('draft', 'waiting', 'ready')
+    UNION ALL
+    SELECT l.product_id, po.warehouse_id, l.quantity, 0
+    FROM public.purchase_order_lines l
+    JOIN public.purchase_orders po ON po.id = l.purchase_order_id
+    WHERE po.status = 'draft'
+    UNION ALL
+    SELECT l.product_id, t.destination_warehouse_id, l.quantity, 0
+    FROM public.transfer_lines l
+    JOIN public.internal_transfers t ON t.id = l.transfer_id
+    WHERE t.status IN ('draft', 'waiting', 'ready')
+    UNION ALL
+    SELECT l.product_id, d.warehouse_id, 0, l.quantity
+    FROM public.delivery_lines l
+    JOIN public.deliveries d ON d.id = l.delivery_id
+    JOIN public.products p ON p.id = l.product_id AND p.product_type <> 'kit'
+    WHERE d.status IN ('draft', 'waiting', 'ready')
+    UNION ALL
+    SELECT COALESCE(kc.component_id, l.product_id), COALESCE(l.warehouse_id, so.warehouse_id), 0,
+      l.quantity * COALESCE(kc.quantity, 1)
+    FROM public.sales_order_lines l
+    JOIN public.sales_orders so ON so.id = l.sales_order_id
+    LEFT JOIN public.kit_components kc ON kc.kit_id = l.product_id
+    WHERE so.status = 'draft'
+    UNION ALL
+    SELECT l.product_id, t.source_warehouse_id, 0, l.quantity
+    FROM public.transfer_lines l
+    JOIN public.internal_transfers t ON t.id = l.transfer_id
+    WHERE t.status IN ('draft', 'waiting', 'ready')
+  ),
+  forecast AS (
+    SELECT
+      rr.*,
+      COALESCE(s.quantity, 0) AS on_hand,
+      COALESCE((SELECT SUM(m.incoming) FROM moves m
+                WHERE m.product_id = rr.product_id AND m.warehouse_id = rr.warehouse_id), 0) AS incoming,
+      COALESCE((SELECT SUM(m.outgoing) FROM moves m
+                WHERE m.product_id = rr.product_id AND m.warehouse_id = rr.warehouse_id), 0) AS outgoing
+    FROM public.reorder_rules rr
+    JOIN public.products p ON p.id = rr.product_id AND p.active
+    JOIN public.warehouses w ON w.id = rr.warehouse_id AND w.active
+    LEFT JOIN public.stock_levels s ON s.product_id = rr.product_id AND s.warehouse_id = rr.warehouse_id
+  )
+  SELECT
+    f.id,
+    f.product_id,
+    f.warehouse_id,
+    f.partner_id,
+    f.on_hand,
+    f.incoming,
+    f.outgoing,
+    f.on_hand + f.incoming - f.outgoing,
+    f.min_quantity,
+    f.max_quantity,
+    CEIL((f.max_quantity - (f.on_hand + f.incoming - f.outgoing)) / f.multiple_of) * f.multiple_of
+  FROM forecast f
+  WHERE f.on_hand + f.incoming - f.outgoing < f.min_quantity
+  ORDER BY f.partner_id, f.warehouse_id, f.product_id;
+$$;
@@ -0,0 +1,135 @@
+-- Expired lots are no longer picked for shipping.
+-- Deliveries and transfers pick lots first-expiry-first-out, which took lots
+-- past their expiration date first. They now skip them, so stock only expired
+-- lots could cover is short. Adjustments still take expired lots first, as
+-- counting them down is how they are written off.
+
+DROP FUNCTION public.pick_lots(UUID, UUID, DECIMAL);
+
+-- First expiry first out; undated lots go last, oldest first. Expired lots are
+-- left out unless asked for.
+CREATE OR REPLACE FUNCTION public.pick_lots(
+  p_product_id UUID,
+  p_warehouse_id UUID,
+  p_quantity DECIMAL,
+  p_include_expired BOOLEAN DEFAULT FALSE
+)
+RETURNS TABLE (lot_id UUID, quantity DECIMAL)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  v_level RECORD;
+  v_remaining DECIMAL := p_quantity;
+BEGIN
+  FOR v_level IN
+    SELECT ll.lot_id AS id, ll.quantity AS available
+    FROM public.stock_lot_levels ll
+    JOIN public.lots l ON l.id = ll.lot_id
+    WHERE l.product_id = p_product_id AND ll.warehouse_id = p_warehouse_id AND ll.quantity > 0
+      AND (p_include_expired OR l.expiration_date IS NULL OR l.expiration_date >= CURRENT_DATE)
+    ORDER BY l.expiration_date NULLS LAST, l.created_at, l.id
+  LOOP
+    EXIT WHEN v_remaining <= 0;
+
+    lot_id := v_level.id;
+    quantity := LEAST(v_level.available, v_remaining);
+    v_remaining := v_remaining - quantity;
+    RETURN NEXT;
+  END LOOP;
+
+  IF v_remaining > 0 THEN
+    lot_id := NULL;
+    quantity := v_remaining;
+    RETURN NEXT;
+  END IF;
+END;
+$$;
+
+-- Counting a lot-tracked product down writes off expired lots first
+CREATE OR REPLACE FUNCTION public.validate_adjustment(p_adjustment_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_adjustment public.stock_adjustments%ROWTYPE;
+  v_current DECIMAL;
+  v_expected_version INTEGER;
+  v_pick RECORD;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_adjustment FROM public.stock_adjustments WHERE id = p_adjustment_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Adjustment not found';
+  END IF;
+
+  IF v_adjustment.status = 'done' THEN
+    RAISE EXCEPTION 'Adjustment % is already done', v_adjustment.adjustment_number;
+  END IF;
+
+  INSERT INTO public.stock_levels (product_id, warehouse_id, quantity)
+  VALUES (v_adjustment.product_id, v_adjustment.warehouse_id, 0)
+  ON CONFLICT (product_id, warehouse_id) DO NOTHING;
+
+  IF v_adjustment.stock_version IS NULL AND NOT FOUND THEN
+    RAISE EXCEPTION 'Stock for product % changed while you were working',
+      (SELECT sku FROM public.products WHERE id = v_adjustment.product_id)
+      USING ERRCODE = 'serialization_failure';
+  END IF;
+
+  SELECT quantity INTO v_current
+  FROM public.stock_levels
+  WHERE product_id = v_adjustment.product_id AND warehouse_id = v_adjustment.warehouse_id
+  FOR UPDATE;
+
+  IF v_adjustment.counted_quantity >= v_current THEN
+    PERFORM public.apply_stock_movement(
+      v_adjustment.product_id,
+      v_adjustment.warehouse_id,
+      v_adjustment.counted_quantity - v_current,
+      'adjustment',
+      'adjustment',
+      p_adjustment_id,
+      v_adjustment.reason,
+      v_adjustment.stock_version
+    );
+  ELSE
+    -- Only the first movement is checked against the counted version; the
+    -- ones after it see the version that movement wrote
+    v_expected_version := v_adjustment.stock_version;
+
+    FOR v_pick IN
+      SELECT * FROM public.pick_lots(
+        v_adjustment.product_id, v_adjustment.warehouse_id, v_current - v_adjustment.counted_quantity, TRUE
+      )
+    LOOP
+      PERFORM public.apply_stock_movement(
+        v_adjustment.product_id,
+        v_adjustment.warehouse_id,
+        -v_pick.quantity,
+        'adjustment',
+        'adjustment',
+        p_adjustment_id,
+        v_adjustment.reason,
+        v_expected_version,
+        v_pick.lot_id
+      );
+      v_expected_version := NULL;
+    END LOOP;
+  END IF;
+
+  UPDATE public.stock_adjustments
+  SET status = 'done',
+      validated_at = NOW(),
+      system_quantity = v_current,
+      difference = v_adjustment.counted_quantity - v_current
+  WHERE id = p_adjustment_id;
+END;
+$$;
@@ -0,0 +1,112 @@
+-- Reversing a delivery with kits.
+-- A reversal copies every line of the delivery, kit lines and their component
+-- lines alike. Copying a kit line exploded it again, adding a second set of
+-- component lines, and failed once the kit's components had been removed.
+-- Lines added to a reversal are no longer exploded, and the component copies
+-- point at the copy of their kit line.
+
+-- A kit line adds one line per component, sized for the whole kits ordered.
+-- A reversal copies the component lines along with the kit line instead.
+CREATE OR REPLACE FUNCTION public.explode_kit_line()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM public.products WHERE id = NEW.product_id AND product_type = 'kit') THEN
+    RETURN NEW;
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.deliveries WHERE id = NEW.delivery_id AND reversal_of_id IS NOT NULL) THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.quantity <> TRUNC(NEW.quantity) THEN
+    RAISE EXCEPTION 'Kits ship in whole units';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.kit_components WHERE kit_id = NEW.product_id) THEN
+    RAISE EXCEPTION 'Kit % has no components', (SELECT sku FROM public.products WHERE id = NEW.product_id);
+  END IF;
+
+  INSERT INTO public.delivery_lines (delivery_id, product_id, quantity, kit_line_id)
+  SELECT NEW.delivery_id, kc.component_id, NEW.quantity * kc.quantity, NEW.id
+  FROM public.kit_components kc
+  WHERE kc.kit_id = NEW.product_id;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Component lines are copied under the copy of their kit line
+CREATE OR REPLACE FUNCTION public.reverse_delivery(p_delivery_id UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_delivery public.deliveries%ROWTYPE;
+  v_reversal_id UUID;
+  v_reversal_number TEXT;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_delivery FROM public.deliveries WHERE id = p_delivery_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Delivery not found';
+  END IF;
+
+  IF v_delivery.status <> 'done' THEN
+    RAISE EXCEPTION 'Only done deliveries can be reversed';
+  END IF;
+
+  IF v_delivery.reversal_of_id IS NOT NULL THEN
+    RAISE EXCEPTION 'Delivery % is itself a reversal', v_delivery.delivery_number;
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.deliveries WHERE reversal_of_id = p_delivery_id) THEN
+    RAISE EXCEPTION 'Delivery % has already been reversed', v_delivery.delivery_number;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.customer_returns WHERE delivery_id = p_delivery_id AND status = 'done'
+  ) THEN
+    RAISE EXCEPTION 'Delivery % has customer returns and cannot be reversed', v_delivery.delivery_number;
+  END IF;
+
+  v_reversal_number := v_delivery.delivery_number || '-REV';
+
+  INSERT INTO public.deliveries (
+    delivery_number, customer_name, warehouse_id, status, notes, created_by, validated_at, reversal_of_id
+  )
+  VALUES (
+    v_reversal_number,
+    v_delivery.customer_name,
+    v_delivery.warehouse_id,
+    'done',
+    'Reversal of ' || v_delivery.delivery_number,
+    auth.uid(),
+    NOW(),
+    p_delivery_id
+  )
+  RETURNING id INTO v_reversal_id;
+
+  WITH copies AS (
+    SELECT id, gen_random_uuid() AS copy_id, product_id, COALESCE(delivered_quantity, quantity) AS quantity, kit_line_id
+    FROM public.delivery_lines
+    WHERE delivery_id = p_delivery_id AND COALESCE(delivered_quantity, quantity) > 0
+  )
+  INSERT INTO public.delivery_lines (id, delivery_id, product_id, quantity, delivered_quantity, kit_line_id)
+  SELECT c.copy_id, v_reversal_id, c.product_id, c.quantity, c.quantity, k.copy_id
+  FROM copies c
+  LEFT JOIN copies k ON k.id = c.kit_line_id;
+
+  PERFORM public.reverse_stock_movements('delivery', p_delivery_id, 'Reversed by ' || v_reversal_number);
+
+  RETURN v_reversal_id;
+END;
+$$;